@@ -6,14 +6,20 @@
  * - Initial rendering and component display
  * - Form interaction and validation (Zip Code required, Kids Ages optional)
  * - Plan generation workflow with loading states
+ * - Warnings when the planner misread the input
+ * - Reopening past sessions
+ * - Reopening plans from the local plan history after Reset
+ * - Importing a plan exported as JSON, keeping its itinerary arrangement in the history
+ * - Opening a share link read-only and making it your plan
  * - Error handling and recovery
+ * - Cancelling a running plan, and aborting refinements when another plan is shown
  * - Reset functionality
  * - Responsive layout behavior
  * - Accessibility attributes
  * 
  * The form contains exactly two fields:
  * - Zip Code (required): Text input for location
- * - Kids Ages (optional): Comma-separated integers where 0 < age < 120
+ * - Kids Ages (optional): Ages added as chips; the planner keeps ages 1 to 18
  * 
  * Tests use MSW (Mock Service Worker) to simulate ADK backend responses,
  * allowing tests to run without requiring the actual backend server.
@@ -21,11 +27,27 @@
  * @module e2e/smoke.spec
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import App from '../src/App';
-import { server, create400Handler, create500Handler, createDelayedHandler } from '../src/__mocks__/handlers';
+import { listSavedPlans } from '../src/api/history';
+import { createPlanExport, formatPlanJson } from '../src/api/planExport';
+import { createShareUrl } from '../src/api/shareLink';
+import { describeWeekendDates, formatWeekendDates, getPresetWeekend } from '../src/api/weekend';
+import {
+  server,
+  create400Handler,
+  create500Handler,
+  createDelayedHandler,
+  createPlanTextHandler,
+  createPromptRecorder,
+  createSseHandler,
+  createSessionStateHandler,
+  createUnavailableHandler,
+  mockSessionState,
+  SAMPLE_PLAN_TEXT
+} from '../src/__mocks__/handlers';
 
 // ============================================================================
 // Test Helper Utilities
@@ -231,24 +253,31 @@ describe('Weekend Planner E2E Smoke Tests', () => {
     });
 
     /**
-     * Verifies error is shown for invalid kids ages (0, 120, negative, decimals).
-     * Ages must be integers where 0 < age < 120.
+     * Verifies error is shown for an age of 0 years, and a warning for ages
+     * the planner leaves out. Ages under 1 must be entered in months, and the
+     * planner only plans for ages 1 to 18.
      */
-    it('shows error for invalid kids ages (0, 120, negative, decimals)', async () => {
+    it('shows error for age 0 and warns about age 120', async () => {
       const user = userEvent.setup();
       render(<App />);
       
       // Fill required field
       await fillRequiredFields(user);
       
-      // Test invalid ages (0 and 120 are out of valid range)
+      // 0 years is not an age; 120 is an age the planner leaves out
       const kidsAgesInput = screen.getByLabelText(/kids.*ages/i);
       await user.type(kidsAgesInput, '0, 120');
       await submitForm(user);
       
       await waitFor(() => {
-        expect(screen.getByText(/enter ages as numbers/i)).toBeInTheDocument();
+        expect(screen.getByText(/enter ages under 1 in months/i)).toBeInTheDocument();
       });
+
+      await user.clear(kidsAgesInput);
+      await user.type(kidsAgesInput, '120');
+      expect(screen.getByRole('status', { name: /ages the planner will leave out/i })).toHaveTextContent(
+        'The planner only plans for ages 1-18, so it will leave out 120 years.'
+      );
     });
 
     /**
@@ -366,8 +395,9 @@ describe('Weekend Planner E2E Smoke Tests', () => {
 
       await waitFor(
         () => {
-          // Check for content from the mock plan response - use heading role for specific match
-          expect(screen.getByRole('heading', { name: /recommended activities/i })).toBeInTheDocument();
+          // Check for content from the mock plan response - its Markdown headings render as headings
+          expect(screen.getByRole('heading', { name: 'Weekend Plan for Your Family' })).toBeInTheDocument();
+          expect(screen.getAllByRole('heading', { name: /recommended activities/i }).length).toBeGreaterThan(0);
         },
         { timeout: 5000 }
       );
@@ -433,6 +463,537 @@ describe('Weekend Planner E2E Smoke Tests', () => {
     });
   });
 
+  // ==========================================================================
+  // Streaming Tests
+  // ==========================================================================
+
+  describe('Streaming', () => {
+    /**
+     * Verifies the partial summary is shown while it streams in over run_sse,
+     * and is replaced by the complete plan when the stream ends.
+     */
+    it('renders partial plan text while streaming, then the final plan', async () => {
+      server.use(createSseHandler(undefined, 150));
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+
+      await waitFor(() => {
+        expect(screen.getByText(/still writing your plan/i)).toBeInTheDocument();
+      }, { timeout: 3000 });
+
+      await waitFor(() => {
+        expect(screen.queryByText(/still writing your plan/i)).not.toBeInTheDocument();
+        expect(screen.getByText(/children's museum/i)).toBeInTheDocument();
+      }, { timeout: 5000 });
+    });
+
+    /**
+     * Verifies the run can still be cancelled once the summary streams in,
+     * and that the cancelled run leaves no plan or error behind.
+     */
+    it('cancels a run after the first streamed text', async () => {
+      server.use(createSseHandler(undefined, 150));
+      const fetchSpy = vi.spyOn(window, 'fetch');
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await screen.findByText(/still writing your plan/i, {}, { timeout: 3000 });
+      await user.click(screen.getByRole('button', { name: /^cancel$/i }));
+
+      const signal = fetchSpy.mock.calls[fetchSpy.mock.calls.length - 1][1]?.signal;
+      expect(signal?.aborted).toBe(true);
+      fetchSpy.mockRestore();
+      expect(screen.getByText(/enter your details/i)).toBeInTheDocument();
+      expect(screen.queryByText(/still writing your plan/i)).not.toBeInTheDocument();
+
+      // The cancelled run never shows its plan or an error
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      expect(screen.queryByText(/children's museum/i)).not.toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+  });
+
+  // ==========================================================================
+  // Plan Refinement Tests
+  // ==========================================================================
+
+  describe('Plan Refinement', () => {
+    /**
+     * Verifies a follow-up request produces a new plan version that can be
+     * switched back to the original.
+     */
+    it('adds a refined plan as a new version', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+
+      const refineInput = await screen.findByLabelText(/what would you like to change/i, {}, { timeout: 5000 });
+      await user.type(refineInput, 'Swap the museum for something outdoors');
+      await user.click(screen.getByRole('button', { name: /^send$/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Version 2 of 2')).toBeInTheDocument();
+      }, { timeout: 5000 });
+      expect(screen.getByText('Swap the museum for something outdoors')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /previous version/i }));
+      expect(screen.getByText('Version 1 of 2')).toBeInTheDocument();
+    });
+
+    /**
+     * Verifies Reset aborts a refinement request that is still running.
+     */
+    it('aborts a refinement in flight when the form is reset', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      const refineInput = await screen.findByLabelText(/what would you like to change/i, {}, { timeout: 5000 });
+
+      server.use(createDelayedHandler(2000));
+      const fetchSpy = vi.spyOn(window, 'fetch');
+      await user.type(refineInput, 'More parks');
+      await user.click(screen.getByRole('button', { name: /^send$/i }));
+      await waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+
+      await user.click(screen.getByRole('button', { name: /reset/i }));
+
+      const signal = fetchSpy.mock.calls[fetchSpy.mock.calls.length - 1][1]?.signal;
+      expect(signal?.aborted).toBe(true);
+      expect(screen.getByText(/enter your details/i)).toBeInTheDocument();
+      fetchSpy.mockRestore();
+    });
+  });
+
+  // ==========================================================================
+  // Activity Swap Tests
+  // ==========================================================================
+
+  describe('Activity Swaps', () => {
+    /**
+     * Verifies "Swap this" replaces only the chosen card and that the swap
+     * can be undone.
+     */
+    it('swaps one activity and undoes the swap', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await screen.findByRole('button', { name: /^swap nature hike/i }, { timeout: 5000 });
+
+      server.use(
+        createPlanTextHandler(
+          SAMPLE_PLAN_TEXT.replace(
+            'Nature hike at the nearby state park - great for kids of all ages',
+            'Bike ride along the bay trail'
+          ).replace('Brunch at a cozy local cafe', 'Pancakes at a diner')
+        )
+      );
+      await user.click(screen.getByRole('button', { name: /^swap nature hike/i }));
+
+      const notice = await screen.findByText(/swapped/i, {}, { timeout: 5000 });
+      expect(notice).toHaveTextContent('for “Bike ride along the bay trail”');
+      expect(screen.getByText('Version 2 of 2')).toBeInTheDocument();
+      expect(screen.getByText(/brunch at a cozy local cafe/i)).toBeInTheDocument();
+      expect(screen.queryByText(/pancakes at a diner/i)).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /undo swap/i }));
+      expect(screen.getByText('Version 1 of 2')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /^swap nature hike/i })).toBeInTheDocument();
+    });
+
+    /**
+     * Verifies the plan is kept when the planner suggests nothing new.
+     */
+    it('keeps the plan when no different activity is suggested', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await user.click(await screen.findByRole('button', { name: /^swap nature hike/i }, { timeout: 5000 }));
+
+      expect(
+        await screen.findByText(/did not suggest a different activity/i, {}, { timeout: 5000 })
+      ).toBeInTheDocument();
+      expect(screen.queryByText(/version 2/i)).not.toBeInTheDocument();
+    });
+  });
+
+  // ==========================================================================
+  // Weekend Dates Tests
+  // ==========================================================================
+
+  describe('Weekend Dates', () => {
+    /**
+     * Verifies the chosen weekend is sent to the planner and shown with the plan.
+     */
+    it('plans for the chosen weekend', async () => {
+      const user = userEvent.setup();
+      const prompts: string[] = [];
+      server.use(createPromptRecorder(prompts));
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await user.click(screen.getByRole('radio', { name: /next weekend/i }));
+      await submitForm(user);
+
+      await waitFor(() => {
+        expect(prompts).toHaveLength(1);
+      }, { timeout: 5000 });
+      const nextWeekend = getPresetWeekend('next');
+      expect(prompts[0]).toContain(describeWeekendDates(nextWeekend));
+      expect(await screen.findByText(`For ${formatWeekendDates(nextWeekend)}`)).toBeInTheDocument();
+      expect(screen.queryByRole('status', { name: 'Past weekend' })).not.toBeInTheDocument();
+    });
+  });
+
+  // ==========================================================================
+  // Planning Preferences Tests
+  // ==========================================================================
+
+  describe('Planning Preferences', () => {
+    /**
+     * Verifies the preferences chosen under "More options" are sent to the planner.
+     */
+    it('sends the chosen preferences with the plan request', async () => {
+      const user = userEvent.setup();
+      const prompts: string[] = [];
+      server.use(createPromptRecorder(prompts));
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await user.click(screen.getByRole('button', { name: /more options/i }));
+      await user.selectOptions(screen.getByLabelText('Budget'), 'free');
+      await user.type(screen.getByLabelText(/interests/i), 'trains, dinosaurs');
+      await user.click(screen.getByRole('checkbox', { name: /stroller friendly/i }));
+      await submitForm(user);
+
+      await waitFor(() => {
+        expect(prompts).toHaveLength(1);
+      }, { timeout: 5000 });
+      expect(prompts[0]).toBe(
+        `Plan a weekend trip for zip code 94105. ${describeWeekendDates(getPresetWeekend('this'))} ` +
+          'Only suggest free activities. ' +
+          'Our interests include trains, dinosaurs. Every activity must be stroller friendly.'
+      );
+    });
+  });
+
+  // ==========================================================================
+  // Activity Feedback Tests
+  // ==========================================================================
+
+  describe('Activity Feedback', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    /**
+     * Verifies a thumbs up is sent with the next plan for the same zip code,
+     * and can be reviewed and cleared on the settings screen.
+     */
+    it('steers the next plan and can be cleared in the settings', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await user.click(await screen.findByRole('button', { name: /^like visit the local farmer/i }, { timeout: 5000 }));
+
+      const prompts: string[] = [];
+      server.use(createPromptRecorder(prompts));
+      await submitForm(user);
+      await waitFor(() => {
+        expect(prompts).toHaveLength(1);
+      }, { timeout: 5000 });
+      expect(prompts[0]).toContain('Our family enjoyed activities like "Visit the local farmer\'s market');
+
+      await user.click(screen.getByRole('button', { name: 'Settings' }));
+      expect(screen.getByRole('region', { name: '94105 · no kids ages' })).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Clear all' }));
+      await user.click(screen.getByRole('button', { name: 'Back to planner' }));
+
+      expect(screen.getByRole('button', { name: /^like visit the local farmer/i })).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
+
+  // ==========================================================================
+  // Household Profiles Tests
+  // ==========================================================================
+
+  describe('Household Profiles', () => {
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    /**
+     * Verifies a household saved from the form can be copied in the settings
+     * and chosen again to fill in the form for a plan.
+     */
+    it('saves a household, duplicates it in the settings and plans with it', async () => {
+      const user = userEvent.setup();
+      const prompts: string[] = [];
+      server.use(createPromptRecorder(prompts));
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await fillOptionalFields(user, { kidsAges: '4, 9' });
+      await user.click(screen.getByRole('button', { name: 'Save as new household' }));
+      await user.type(screen.getByLabelText('Household name'), 'With cousins{Enter}');
+      await user.click(screen.getByRole('button', { name: /reset/i }));
+      expect(screen.getByLabelText(/zip code/i)).toHaveValue('');
+
+      await user.click(screen.getByRole('button', { name: 'Settings' }));
+      await user.click(screen.getByRole('button', { name: 'Duplicate With cousins' }));
+      expect(screen.getByRole('list', { name: 'Households' })).toHaveTextContent('With cousins (copy)');
+      await user.click(screen.getByRole('button', { name: 'Back to planner' }));
+
+      await user.selectOptions(screen.getByLabelText(/^household/i), 'With cousins (copy)');
+      await submitForm(user);
+
+      await waitFor(() => {
+        expect(prompts).toHaveLength(1);
+      }, { timeout: 5000 });
+      expect(prompts[0]).toContain('Plan a weekend trip for zip code 94105. We have kids ages 4, 9.');
+    });
+  });
+
+  // ==========================================================================
+  // Planner Understanding Tests
+  // ==========================================================================
+
+  describe('Planner Understanding', () => {
+    /**
+     * Verifies the user is warned when the agent planned for a different zip
+     * code than the one entered.
+     */
+    it('warns when the planner used a different zip code', async () => {
+      server.use(
+        createSessionStateHandler({
+          ...mockSessionState,
+          parsed_input: '{"zip_code": "90120", "kid_ages": "5,8"}'
+        })
+      );
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await fillOptionalFields(user, { kidsAges: '5, 8' });
+      await submitForm(user);
+
+      const warning = await screen.findByRole('alert', { name: /input mismatch/i }, { timeout: 5000 });
+      expect(warning).toHaveTextContent('You entered zip code 94105, but the planner used 90120.');
+    });
+  });
+
+  // ==========================================================================
+  // Past Session Tests
+  // ==========================================================================
+
+  describe('Past Sessions', () => {
+    /**
+     * Verifies a stored session can be reopened without submitting the form,
+     * and that the original input is restored for refinement.
+     */
+    it('reopens a past session as the current plan', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await user.click(screen.getByRole('button', { name: /past sessions/i }));
+      const openButtons = await screen.findAllByRole('button', { name: /^open session/i });
+      await user.click(openButtons[0]);
+
+      await waitFor(() => {
+        expect(screen.getByText(/children's museum/i)).toBeInTheDocument();
+      }, { timeout: 5000 });
+      expect(screen.getByLabelText(/what would you like to change/i)).toBeInTheDocument();
+      expect(screen.getByText('(current)')).toBeInTheDocument();
+      expect(screen.getByRole('region', { name: /what the planner understood/i })).toHaveTextContent('94105');
+    });
+  });
+
+  // ==========================================================================
+  // Plan History Tests
+  // ==========================================================================
+
+  describe('Plan History', () => {
+    /**
+     * Verifies a generated plan is kept in the local history and can be
+     * reopened after Reset cleared it from the output panel.
+     */
+    it('reopens a saved plan after reset', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await screen.findByText(/children's museum/i, {}, { timeout: 5000 });
+
+      await user.click(screen.getByRole('button', { name: /reset/i }));
+      expect(screen.queryByText(/children's museum/i)).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /plan history/i }));
+      const openButton = await screen.findByRole('button', { name: /^open 94105 plan/i });
+      await user.click(openButton);
+
+      expect(screen.getByText(/children's museum/i)).toBeInTheDocument();
+      expect(screen.getByLabelText(/what would you like to change/i)).toBeInTheDocument();
+    });
+  });
+
+  // ==========================================================================
+  // Plan Import Tests
+  // ==========================================================================
+
+  describe('Plan Import', () => {
+    /**
+     * Verifies a JSON export is opened in the output panel and added to the
+     * local plan history.
+     */
+    it('opens an imported plan and adds it to the history', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const data = createPlanExport({
+        planText: mockSessionState.final_summary,
+        input: { location: '02138', kidsAges: [4] },
+      });
+      const file = new File([formatPlanJson(data)], 'plan.json', { type: 'application/json' });
+      await user.upload(screen.getByLabelText('Import a plan'), file);
+
+      expect(await screen.findByText(/children's museum/i)).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /plan history/i }));
+      expect(await screen.findByRole('button', { name: /^open 02138 plan/i })).toBeInTheDocument();
+    });
+
+    /**
+     * Verifies the itinerary arrangement of a plan without a session is
+     * kept in its history entry and restored after a reload.
+     */
+    it('keeps the itinerary arrangement of an imported plan in the history', async () => {
+      const user = userEvent.setup();
+      const { unmount } = render(<App />);
+
+      const data = createPlanExport({
+        planText: mockSessionState.final_summary,
+        input: { location: '02138', kidsAges: [4] },
+      });
+      const file = new File([formatPlanJson(data)], 'plan.json', { type: 'application/json' });
+      await user.upload(screen.getByLabelText('Import a plan'), file);
+      await user.click(screen.getByRole('button', { name: /plan history/i }));
+      await screen.findByRole('button', { name: /^open 02138 plan/i });
+
+      await user.click(screen.getByRole('button', { name: 'Itinerary' }));
+      await user.selectOptions(
+        screen.getByRole('combobox', { name: 'Move Relaxing movie night at home to' }),
+        'saturday-morning'
+      );
+      await waitFor(async () => expect((await listSavedPlans())[0].itinerary).toBeDefined());
+      unmount();
+
+      render(<App />);
+      await user.click(screen.getByRole('button', { name: /plan history/i }));
+      await user.click(await screen.findByRole('button', { name: /^open 02138 plan/i }));
+      await user.click(screen.getByRole('button', { name: 'Itinerary' }));
+
+      expect(screen.getByRole('group', { name: 'Saturday morning' })).toHaveTextContent('Relaxing movie night at home');
+    });
+  });
+
+  // ==========================================================================
+  // Share Link Tests
+  // ==========================================================================
+
+  describe('Share Links', () => {
+    afterEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    /**
+     * Verifies a share link opens the plan read-only, and "Make this my plan"
+     * turns it into a regular plan saved to the history.
+     */
+    it('opens a shared plan read-only and makes it my plan', async () => {
+      const url = await createShareUrl(
+        { input: { location: '02138', kidsAges: [4] }, planText: mockSessionState.final_summary },
+        window.location.href
+      );
+      window.history.replaceState(null, '', new URL(url).hash);
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      expect(await screen.findByRole('region', { name: 'Shared plan' })).toBeInTheDocument();
+      expect(screen.getByText(/children's museum/i)).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Share link' })).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Make this my plan' }));
+
+      expect(screen.queryByRole('region', { name: 'Shared plan' })).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Share link' })).toBeInTheDocument();
+      expect(window.location.hash).toBe('');
+
+      await user.click(screen.getByRole('button', { name: /plan history/i }));
+      expect(await screen.findByRole('button', { name: /^open 02138 plan/i })).toBeInTheDocument();
+    });
+
+    /**
+     * Verifies opening a share link aborts a swap of the plan underneath,
+     * which is then recorded as cancelled.
+     */
+    it('aborts a swap in flight when a share link is opened', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await screen.findByRole('button', { name: /^swap nature hike/i }, { timeout: 5000 });
+
+      server.use(createDelayedHandler(2000));
+      const fetchSpy = vi.spyOn(window, 'fetch');
+      await user.click(screen.getByRole('button', { name: /^swap nature hike/i }));
+      await waitFor(() => expect(fetchSpy).toHaveBeenCalled());
+
+      const url = await createShareUrl({ planText: mockSessionState.final_summary }, window.location.href);
+      window.location.hash = new URL(url).hash;
+
+      expect(await screen.findByRole('region', { name: 'Shared plan' })).toBeInTheDocument();
+      const signal = fetchSpy.mock.calls[fetchSpy.mock.calls.length - 1][1]?.signal;
+      expect(signal?.aborted).toBe(true);
+      fetchSpy.mockRestore();
+
+      await user.click(screen.getByRole('button', { name: /^close$/i }));
+      expect(await screen.findByText('The request was cancelled.')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /^swap nature hike/i })).toBeEnabled();
+    });
+
+    /**
+     * Verifies a damaged link is reported instead of crashing the app.
+     */
+    it('reports a damaged share link', async () => {
+      window.history.replaceState(null, '', '/#plan=1.not-a-plan');
+
+      render(<App />);
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('This share link is damaged or incomplete.');
+      expect(screen.getByRole('region', { name: 'Getting started' })).toBeInTheDocument();
+    });
+  });
+
   // ==========================================================================
   // Error Handling Tests
   // ==========================================================================
@@ -531,6 +1092,97 @@ describe('Weekend Planner E2E Smoke Tests', () => {
     });
   });
 
+  // ==========================================================================
+  // Cancellation Tests
+  // ==========================================================================
+
+  describe('Cancellation', () => {
+    /**
+     * Verifies Cancel stops a run before any plan was shown and
+     * returns to the empty state.
+     */
+    it('returns to the empty state when the first run is cancelled', async () => {
+      server.use(createDelayedHandler(2000));
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await user.click(await screen.findByRole('button', { name: /^cancel$/i }));
+
+      expect(screen.getByText(/enter your details/i)).toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /generate plan/i })).toBeEnabled();
+    });
+
+    /**
+     * Verifies cancelling a new run keeps the previously generated plan.
+     */
+    it('keeps the previous plan when a new run is cancelled', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+      await screen.findByRole('heading', { name: /your weekend plan/i }, { timeout: 5000 });
+
+      server.use(createDelayedHandler(2000));
+      await submitForm(user);
+      await user.click(await screen.findByRole('button', { name: /^cancel$/i }));
+
+      expect(screen.getByRole('heading', { name: /your weekend plan/i })).toBeInTheDocument();
+      expect(screen.getByText(/children's museum/i)).toBeInTheDocument();
+    });
+  });
+
+  // ==========================================================================
+  // Automatic Retry Tests
+  // ==========================================================================
+
+  describe('Automatic Retry', () => {
+    /**
+     * Verifies a retryable error that outlasts the client's own retries
+     * is retried automatically once Retry-After has passed.
+     */
+    it('retries automatically and shows the plan once the server recovers', async () => {
+      // Three failures exhaust the client's attempts for the first run
+      server.use(createUnavailableHandler(3, '0'));
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+
+      expect(
+        await screen.findByRole('heading', { name: /your weekend plan/i }, { timeout: 10000 })
+      ).toBeInTheDocument();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    }, 15000);
+
+    /**
+     * Verifies the countdown can be cancelled, leaving the manual Try Again button.
+     */
+    it('lets the user cancel the automatic retry', async () => {
+      // Retry-After beyond the client's maxDelayMs fails the run straight away
+      server.use(createUnavailableHandler(1, '60'));
+
+      const user = userEvent.setup();
+      render(<App />);
+
+      await fillRequiredFields(user);
+      await submitForm(user);
+
+      expect(await screen.findByRole('timer')).toHaveTextContent('Retrying automatically in 60s...');
+
+      await user.click(screen.getByRole('button', { name: /cancel automatic retry/i }));
+
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /try again/i })).toBeInTheDocument();
+    });
+  });
+
   // ==========================================================================
   // Reset Functionality Tests
   // ==========================================================================
@@ -7,7 +7,19 @@
  * 
  * Architecture:
  * - Uses React useState hooks for state management (isLoading, error, result)
- * - Integrates with ADK backend via createSession and generatePlan API functions
+ * - Integrates with ADK backend via generatePlanStream, which creates one session per plan
+ * - Renders the summary incrementally while it streams in from the backend
+ * - Keeps every refinement of the plan as a version, refined in the same ADK session
+ * - Reopens past sessions, rebuilding their plan versions from the stored events
+ * - Saves every plan to the local plan history (IndexedDB), which survives Reset and reloads
+ * - Keeps the itinerary arrangement with the plan version and its history entry
+ * - Imports plans exported as JSON, adding them to the plan history
+ * - Opens plans from share links read-only, until "Make this my plan" saves them
+ * - Swaps single activities for new suggestions, with undo back to the previous version
+ * - Adds the family's liked and disliked activities to the prompt of new plans,
+ *   with a settings screen to review and clear them
+ * - Lets users cancel a running plan, returning to what was shown before
+ * - Retries transient failures automatically after a cancellable countdown
  * - Renders conditional UI based on current application state (idle, loading, error, success)
  * - Implements responsive two-column layout (40%/60% on desktop, stacked on mobile)
  * 
@@ -21,40 +33,79 @@
  * @fileoverview Root component with comprehensive state management for Weekend Planner
  */
 
-import { useState, useCallback } from 'react';
-import { createSession, generatePlan } from './api/client';
-import type { GeneratePlanInput, GeneratePlanResult, PlanError } from './types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { generatePlanStream, appendStreamedText, refinePlan, resumePlan } from './api/client';
+import { buildSwapRequest, swapActivity, SWAP_NO_REPLACEMENT_MESSAGE } from './api/activitySwap';
+import { createPlanError, PLAN_ERROR_MESSAGES } from './api/errors';
+import { getFeedbackProfile, summarizeFeedback } from './api/feedback';
+import { getSavedPlan, savePlan, setPlanItinerary } from './api/history';
+import { toPlainText } from './api/markdownText';
+import { parseWeekendPlan } from './api/planParser';
+import {
+  clearSharedPlanFragment,
+  decodeSharedPlan,
+  getSharedPlanToken,
+  ShareLinkError,
+  SHARE_LINK_ERROR_MESSAGES,
+} from './api/shareLink';
+import type {
+  ADKEvent,
+  GeneratePlanInput,
+  GeneratePlanResult,
+  Itinerary,
+  PlanError,
+  PlanExport,
+  PlanRefinementTurn,
+  SavedPlan,
+  SharedPlan,
+} from './types';
 import InputForm from './components/InputForm';
 import PlanView from './components/PlanView';
 import LoadingState from './components/LoadingState';
 import ErrorDisplay from './components/ErrorDisplay';
+import RefinementPanel from './components/RefinementPanel';
+import SessionList from './components/SessionList';
+import HistoryPanel from './components/HistoryPanel';
+import PlanImport from './components/PlanImport';
+import SettingsPanel from './components/SettingsPanel';
 
-/**
- * Error state interface for the App component.
- * Compatible with ErrorDisplay component's ErrorDisplayError interface.
- */
-interface AppError {
-  /** User-friendly or technical error message */
-  message: string;
-  /** HTTP status code if available */
-  statusCode?: number;
-  /** Raw error body for technical details */
-  body?: string;
-}
+/** Retries of a transient error offered automatically before only manual retry remains */
+const MAX_AUTO_RETRIES = 2;
+
+/** Countdown before an automatic retry when the server gave no Retry-After */
+const AUTO_RETRY_DELAY_MS = 10000;
 
 /**
  * App Component - Main application root
  * 
  * Manages application state and coordinates the Weekend Planner workflow:
  * 1. Collects user input via InputForm component
- * 2. Creates ADK session and generates plan via API client
+ * 2. Generates the plan in a new ADK session via the API client
  * 3. Displays appropriate UI state (loading, error, or result)
+ * 4. Sends follow-up refinement turns to the plan's session
+ * 5. Reopens past sessions from the session list
+ * 6. Saves each plan to the local history and reopens saved plans
+ * 7. Opens plans imported from JSON exports
+ * 8. Shows plans from share links read-only and adopts them on request
  * 
  * State Management:
  * - isLoading: Boolean flag for loading state display
  * - error: Error object for error state display (null when no error)
- * - result: Plan generation result for success state display (null when no result)
+ * - versions: Plan results, the original first followed by each refinement
+ * - activeVersion: Index of the version displayed (result is derived from it)
+ * - turns / isRefining: Refinement conversation history and in-flight flag
+ * - swappingActivity / lastSwap: Activity being swapped, and the last swap for undo
+ * - sessionListKey: Incremented after each new plan so the session list reloads
+ * - historyKey: Incremented after each save so the plan history reloads
+ * - historyId: History entry of the plan shown, where its itinerary arrangement is kept
+ * - streamingText: Partial plan text received so far during a streaming run
+ * - streamEvents: Events received so far, used for pipeline progress
+ * - loadingStartedAt: Request start time for the elapsed timer
  * - lastInput: Cached input for retry functionality
+ * - sharedPlan / shareLinkError: Plan opened from the URL fragment, or why it could not be opened
+ * - isSettingsOpen: Whether the settings screen is shown instead of the planner
+ * - feedbackKey: Incremented after ratings were removed in the settings so the plan reloads them
+ * - householdKey: Incremented after households were changed in the settings so the form reloads them
  * 
  * @returns The rendered application root component
  */
@@ -63,63 +114,252 @@ function App(): JSX.Element {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   
   // Error state - contains error details when request fails
-  const [error, setError] = useState<AppError | null>(null);
+  const [error, setError] = useState<PlanError | null>(null);
   
-  // Result state - contains plan data when generation succeeds
-  const [result, setResult] = useState<GeneratePlanResult | null>(null);
+  // Plan versions - the original plan followed by each successful refinement
+  const [versions, setVersions] = useState<GeneratePlanResult[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number>(0);
+
+  // Refinement state - follow-up messages sent to the plan's session
+  const [turns, setTurns] = useState<PlanRefinementTurn[]>([]);
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+
+  // Activity swaps: the one in flight, and the last one so it can be undone
+  const [swappingActivity, setSwappingActivity] = useState<number | null>(null);
+  const [lastSwap, setLastSwap] = useState<{
+    fromVersion: number;
+    toVersion: number;
+    title: string;
+    replacementTitle: string;
+  } | null>(null);
+
+  // Incremented on every submit and reset so late refinement responses are discarded
+  const runIdRef = useRef<number>(0);
+
+  // Abort controller of the in-flight plan run, aborted by Cancel
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort controller of the in-flight refinement or swap, aborted when another plan is shown
+  const refineControllerRef = useRef<AbortController | null>(null);
+
+  // Retries made since the form was last submitted, limiting automatic retries
+  const retriesRef = useRef<number>(0);
+
+  // Session list refresh key - bumped whenever a new session is created
+  const [sessionListKey, setSessionListKey] = useState<number>(0);
+
+  // Plan history refresh key - bumped whenever a plan is saved to the history
+  const [historyKey, setHistoryKey] = useState<number>(0);
+
+  // History entry of the plan shown - set once its save completes, or when it is reopened
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  // Settings screen, and keys to reload ratings and households changed there
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [feedbackKey, setFeedbackKey] = useState<number>(0);
+  const [householdKey, setHouseholdKey] = useState<number>(0);
+
+  // Result state - the plan version currently displayed
+  const result: GeneratePlanResult | null = versions[activeVersion] ?? null;
+
+  // Streaming state - summary text received so far while the plan is generating
+  const [streamingText, setStreamingText] = useState<string>('');
+
+  // Pipeline progress state - events received so far and when the request started
+  const [streamEvents, setStreamEvents] = useState<ADKEvent[]>([]);
+  const [loadingStartedAt, setLoadingStartedAt] = useState<number>(0);
   
   // Last input cache - used for retry functionality after errors
   const [lastInput, setLastInput] = useState<GeneratePlanInput | null>(null);
 
+  // Plan opened from a share link, shown read-only over the current plan
+  const [sharedPlan, setSharedPlan] = useState<SharedPlan | null>(null);
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+
+  // Abort any run still in flight when the app unmounts, so it cannot save or update state afterwards
+  useEffect(() => () => {
+    abortControllerRef.current?.abort();
+    refineControllerRef.current?.abort();
+  }, []);
+
+  // Open the plan in the URL fragment on load and whenever the fragment changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const openShareLink = (): void => {
+      const token = getSharedPlanToken(window.location.hash);
+      if (token === null) {
+        return;
+      }
+      decodeSharedPlan(token)
+        .then((plan) => {
+          if (!cancelled) {
+            // A refinement of the plan underneath is stopped and recorded as cancelled
+            refineControllerRef.current?.abort();
+            refineControllerRef.current = null;
+            setSharedPlan(plan);
+            setShareLinkError(null);
+          }
+        })
+        .catch((linkError: unknown) => {
+          if (!cancelled) {
+            setShareLinkError(
+              linkError instanceof ShareLinkError ? linkError.message : SHARE_LINK_ERROR_MESSAGES.invalid
+            );
+          }
+        });
+    };
+
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', openShareLink);
+    };
+  }, []);
+
+  /**
+   * Closes the shared plan and removes its link from the address bar.
+   */
+  const closeSharedPlan = useCallback((): void => {
+    setSharedPlan(null);
+    setShareLinkError(null);
+    clearSharedPlanFragment();
+  }, []);
+
+  /**
+   * Saves a plan to the local history and refreshes the history panel.
+   * Saving is best-effort: without IndexedDB the plan is simply not kept.
+   * The entry becomes the shown plan's unless another plan was shown meanwhile.
+   * 
+   * @param input - The form input the plan was requested with
+   * @param planResult - The successful plan result
+   */
+  const saveToHistory = useCallback((input: GeneratePlanInput, planResult: GeneratePlanResult): void => {
+    const runId = runIdRef.current;
+    savePlan(input, planResult)
+      .then((entry) => {
+        if (runId === runIdRef.current) {
+          setHistoryId(entry.id);
+        }
+        setHistoryKey((prev) => prev + 1);
+      })
+      .catch(() => {
+        // History unavailable (e.g. private browsing) - the plan is still shown
+      });
+  }, []);
+
   /**
    * Handles form submission and initiates plan generation.
    * 
    * Workflow:
-   * 1. Set loading state and clear previous error/result
-   * 2. Create ADK session for the conversation
-   * 3. Call generatePlan with user input
-   * 4. Update state based on success or failure
+   * 1. Set loading state, keeping the previous plan or error so Cancel can return to it
+   * 2. Call generatePlanStream with user input, accumulating streamed summary text;
+   *    the client creates the plan's ADK session as its first step
+   * 3. Replace the previous plan or error with the outcome, unless the run was cancelled,
+   *    saving a successful plan to the history
    * 
    * @param input - The validated form input from InputForm
+   * @param isRetry - Whether the run retries the previous input after an error
    */
-  const handleSubmit = useCallback(async (input: GeneratePlanInput): Promise<void> => {
-    // Set loading state and clear previous states
+  const handleSubmit = useCallback(async (input: GeneratePlanInput, isRetry: boolean = false): Promise<void> => {
+    // Start a new run, aborting any run still in flight
+    retriesRef.current = isRetry ? retriesRef.current + 1 : 0;
+    runIdRef.current += 1;
+    const runId = runIdRef.current;
+    abortControllerRef.current?.abort();
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Set loading state; a refinement still in flight and a shared plan are discarded
+    closeSharedPlan();
     setIsLoading(true);
-    setError(null);
-    setResult(null);
-    setLastInput(input);
+    setIsRefining(false);
+    setTurns((prev) =>
+      prev.map((turn) =>
+        turn.version === undefined && !turn.error ? { ...turn, error: 'Refinement cancelled' } : turn
+      )
+    );
+    setStreamingText('');
+    setStreamEvents([]);
+    setLoadingStartedAt(Date.now());
 
     try {
-      // Step 1: Create ADK session
-      // This establishes the conversation context with the backend
-      await createSession();
+      // Step 1: Generate the weekend plan
+      // The API client creates the session, builds the prompt and falls back
+      // to a blocking request when the backend cannot stream
+      const planResult = await generatePlanStream(
+        input,
+        {
+          onEvent: (event) => {
+            setStreamEvents((prev) => [...prev, event]);
+            setStreamingText((prev) => appendStreamedText(prev, event));
+          },
+        },
+        { signal: controller.signal, learnedPreferences: summarizeFeedback(getFeedbackProfile(input)) }
+      );
 
-      // Step 2: Generate the weekend plan
-      // The API client handles prompt building internally
-      const planResult = await generatePlan(input);
+      // Cancelled or superseded - keep whatever is shown now
+      if (runId !== runIdRef.current || planResult.error?.kind === 'cancelled') {
+        return;
+      }
 
-      // Step 3: Handle the result
+      // Step 2: Handle the result, replacing the previous plan
+      setLastInput(input);
+      setActiveVersion(0);
+      setTurns([]);
+      setLastSwap(null);
+      setSwappingActivity(null);
       if (planResult.success) {
-        // Success - display the plan
-        setResult(planResult);
+        // Success - display the plan as its first version
+        setError(null);
+        setVersions([planResult]);
+        setHistoryId(null);
+        setSessionListKey((prev) => prev + 1);
+        saveToHistory(input, planResult);
       } else {
         // API returned an error response
-        const planError: PlanError | undefined = planResult.error;
-        setError({
-          message: planError?.message || 'An unknown error occurred',
-          statusCode: planError?.statusCode,
-          body: planError?.body,
-        });
+        setVersions([]);
+        setHistoryId(null);
+        setError(planResult.error ?? createPlanError('server'));
       }
     } catch (err) {
       // Network or unexpected errors
-      setError({
-        message: err instanceof Error ? err.message : 'An unexpected error occurred',
-      });
+      if (runId !== runIdRef.current) {
+        return;
+      }
+      setLastInput(input);
+      setVersions([]);
+      setHistoryId(null);
+      setTurns([]);
+      setLastSwap(null);
+      setSwappingActivity(null);
+      setError(createPlanError('server', { body: err instanceof Error ? err.message : String(err) }));
     } finally {
-      // Always clear loading state
-      setIsLoading(false);
+      // Clear loading and streaming state unless another run took over
+      if (runId === runIdRef.current) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setStreamingText('');
+        setStreamEvents([]);
+      }
     }
+  }, [saveToHistory, closeSharedPlan]);
+
+  /**
+   * Cancels the running plan generation.
+   * Aborts the in-flight requests and returns to the plan or error
+   * that was shown before the run started.
+   */
+  const handleCancel = useCallback((): void => {
+    runIdRef.current += 1;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    setStreamingText('');
+    setStreamEvents([]);
   }, []);
 
   /**
@@ -127,19 +367,349 @@ function App(): JSX.Element {
    * Clears all application state to return to the idle state.
    */
   const handleReset = useCallback((): void => {
+    runIdRef.current += 1;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
+    closeSharedPlan();
     setIsLoading(false);
     setError(null);
-    setResult(null);
+    setVersions([]);
+    setActiveVersion(0);
+    setHistoryId(null);
+    setTurns([]);
+    setLastSwap(null);
+    setSwappingActivity(null);
+    setIsRefining(false);
+    setStreamingText('');
+    setStreamEvents([]);
     setLastInput(null);
-  }, []);
+  }, [closeSharedPlan]);
+
+  /**
+   * Handles a refinement request from the RefinementPanel.
+   * Sends the message as a follow-up turn to the current plan's session and,
+   * on success, adds the refined plan as a new version, displays it and
+   * updates the plan's history entry.
+   * Failures are recorded on the turn without replacing the current plan.
+   * The request is aborted when another plan replaces this one or a shared
+   * plan is opened over it.
+   * 
+   * @param message - The user's refinement request
+   */
+  const handleRefine = useCallback(async (message: string): Promise<void> => {
+    const sessionId = versions[versions.length - 1]?.sessionId;
+    if (!sessionId || !lastInput) {
+      return;
+    }
+
+    const runId = runIdRef.current;
+    const turnIndex = turns.length;
+    const controller = new AbortController();
+    refineControllerRef.current = controller;
+    setTurns((prev) => [...prev, { message }]);
+    setIsRefining(true);
+
+    const refined = await refinePlan(sessionId, lastInput, message, {}, {
+      signal: controller.signal,
+      learnedPreferences: summarizeFeedback(getFeedbackProfile(lastInput)),
+    });
+    if (refineControllerRef.current === controller) {
+      refineControllerRef.current = null;
+    }
+
+    // Discard the response if the plan was reset or regenerated meanwhile
+    if (runId !== runIdRef.current) {
+      return;
+    }
+
+    if (refined.success) {
+      const version = versions.length;
+      setVersions((prev) => [...prev, refined]);
+      setActiveVersion(version);
+      setTurns((prev) => prev.map((turn, index) => (index === turnIndex ? { ...turn, version } : turn)));
+      saveToHistory(lastInput, refined);
+    } else {
+      const errorMessage = refined.error?.message ?? PLAN_ERROR_MESSAGES.server;
+      setTurns((prev) => prev.map((turn, index) => (index === turnIndex ? { ...turn, error: errorMessage } : turn)));
+    }
+    setIsRefining(false);
+  }, [versions, turns.length, lastInput, saveToHistory]);
+
+  /**
+   * Swaps one activity of the displayed plan for a new suggestion.
+   * Sends a targeted follow-up turn to the plan's session, keeps only the
+   * replacement from the agent's answer and adds the result as a new
+   * version, so the plan before the swap stays available for undo.
+   * Failures are recorded on the turn without changing the plan. Like a
+   * refinement, the request is aborted when another plan is shown.
+   * 
+   * @param activityIndex - Index of the activity to replace
+   */
+  const handleSwapActivity = useCallback(async (activityIndex: number): Promise<void> => {
+    const sessionId = versions[versions.length - 1]?.sessionId;
+    const planText = versions[activeVersion]?.planText;
+    if (!sessionId || !planText || !lastInput) {
+      return;
+    }
+
+    const plan = parseWeekendPlan(planText);
+    const title = toPlainText(plan.activities[activityIndex].title);
+    const runId = runIdRef.current;
+    const turnIndex = turns.length;
+    const controller = new AbortController();
+    refineControllerRef.current = controller;
+    setTurns((prev) => [...prev, { message: `Swap "${title}"` }]);
+    setIsRefining(true);
+    setSwappingActivity(activityIndex);
+
+    const answer = await refinePlan(
+      sessionId,
+      lastInput,
+      buildSwapRequest(plan, activityIndex),
+      {},
+      { signal: controller.signal, learnedPreferences: summarizeFeedback(getFeedbackProfile(lastInput)) }
+    );
+    if (refineControllerRef.current === controller) {
+      refineControllerRef.current = null;
+    }
+
+    // Discard the response if the plan was reset or regenerated meanwhile
+    if (runId !== runIdRef.current) {
+      return;
+    }
+
+    const swappedText =
+      answer.success && answer.planText ? swapActivity(planText, activityIndex, answer.planText) : undefined;
+    if (swappedText) {
+      const swapped: GeneratePlanResult = { ...answer, planText: swappedText };
+      const version = versions.length;
+      setVersions((prev) => [...prev, swapped]);
+      setActiveVersion(version);
+      setTurns((prev) => prev.map((turn, index) => (index === turnIndex ? { ...turn, version } : turn)));
+      setLastSwap({
+        fromVersion: activeVersion,
+        toVersion: version,
+        title,
+        replacementTitle: toPlainText(parseWeekendPlan(swappedText).activities[activityIndex]?.title ?? ''),
+      });
+      saveToHistory(lastInput, swapped);
+    } else {
+      const errorMessage = answer.success
+        ? SWAP_NO_REPLACEMENT_MESSAGE
+        : answer.error?.message ?? PLAN_ERROR_MESSAGES.server;
+      setTurns((prev) => prev.map((turn, index) => (index === turnIndex ? { ...turn, error: errorMessage } : turn)));
+    }
+    setIsRefining(false);
+    setSwappingActivity(null);
+  }, [versions, activeVersion, turns.length, lastInput, saveToHistory]);
+
+  /**
+   * Undoes the last activity swap by returning to the version before it.
+   * The swapped version stays in the version list.
+   */
+  const handleUndoSwap = useCallback((): void => {
+    if (lastSwap) {
+      setActiveVersion(lastSwap.fromVersion);
+      setLastSwap(null);
+    }
+  }, [lastSwap]);
+
+  /**
+   * Keeps a new itinerary arrangement with the displayed version and, when
+   * it is the version the plan's history entry holds, with that entry.
+   * 
+   * @param itinerary - The arrangement after the user's move
+   */
+  const handleItineraryChange = useCallback((itinerary: Itinerary): void => {
+    const planText = versions[activeVersion]?.planText;
+    setVersions((prev) =>
+      prev.map((version, index) => (index === activeVersion ? { ...version, itinerary } : version))
+    );
+    if (historyId && planText) {
+      setPlanItinerary(historyId, planText, itinerary)
+        .then(() => setHistoryKey((prev) => prev + 1))
+        .catch(() => {
+          // History unavailable or entry deleted - the arrangement lasts until another plan is shown
+        });
+    }
+  }, [versions, activeVersion, historyId]);
+
+  /**
+   * Reopens a past session from the session list.
+   * Rebuilds the original plan and its refinements from the stored events
+   * and restores the input so the plan can be refined further. The
+   * itinerary arrangement is restored from the session's history entry.
+   * 
+   * @param sessionId - The session to reopen
+   */
+  const handleOpenSession = useCallback(async (sessionId: string): Promise<void> => {
+    runIdRef.current += 1;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
+    const runId = runIdRef.current;
+    closeSharedPlan();
+    setIsLoading(true);
+    setError(null);
+    setVersions([]);
+    setActiveVersion(0);
+    setHistoryId(null);
+    setTurns([]);
+    setLastSwap(null);
+    setSwappingActivity(null);
+    setIsRefining(false);
+    setStreamEvents([]);
+    setLoadingStartedAt(Date.now());
+
+    const resumed = await resumePlan(sessionId);
+
+    // Discard the response if another plan was started meanwhile
+    if (runId !== runIdRef.current) {
+      return;
+    }
+
+    if (resumed.result.success) {
+      setVersions(resumed.versions);
+      setActiveVersion(resumed.versions.length - 1);
+      setTurns(resumed.refinements.map((message, index) => ({ message, version: index + 1 })));
+      setLastInput(resumed.input ?? null);
+      // The session's history entry keeps the arrangement of its latest saved version
+      getSavedPlan(sessionId)
+        .then((entry) => {
+          if (!entry || runId !== runIdRef.current) {
+            return;
+          }
+          setHistoryId(entry.id);
+          setVersions((prev) =>
+            prev.map((version) =>
+              version.planText === entry.planText ? { ...version, itinerary: entry.itinerary } : version
+            )
+          );
+        })
+        .catch(() => {
+          // History unavailable - the plan is shown with a new arrangement
+        });
+    } else {
+      setError(resumed.result.error ?? createPlanError('session-failed'));
+    }
+    setIsLoading(false);
+  }, [closeSharedPlan]);
+
+  /**
+   * Shows a stored plan as the only version, cancelling any run in progress.
+   * Plans with a session can be refined further while the session still exists.
+   * 
+   * @param planResult - The plan to show
+   * @param input - The form input the plan was requested with, if known
+   */
+  const showStoredPlan = useCallback((planResult: GeneratePlanResult, input: GeneratePlanInput | null): void => {
+    runIdRef.current += 1;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
+    closeSharedPlan();
+    setIsLoading(false);
+    setError(null);
+    setVersions([planResult]);
+    setActiveVersion(0);
+    setHistoryId(null);
+    setTurns([]);
+    setLastSwap(null);
+    setSwappingActivity(null);
+    setIsRefining(false);
+    setStreamingText('');
+    setStreamEvents([]);
+    setLastInput(input);
+  }, [closeSharedPlan]);
+
+  /**
+   * Reopens a plan from the local history, restoring its input and
+   * itinerary arrangement.
+   * 
+   * @param plan - The saved plan to reopen
+   */
+  const handleOpenSavedPlan = useCallback((plan: SavedPlan): void => {
+    showStoredPlan(
+      {
+        success: true,
+        planText: plan.planText,
+        rawResponse: plan.rawResponse,
+        sessionId: plan.sessionId,
+        sessionState: plan.sessionState,
+        itinerary: plan.itinerary,
+      },
+      plan.input
+    );
+    setHistoryId(plan.id);
+  }, [showStoredPlan]);
+
+  /**
+   * Opens a plan imported from a JSON export and adds it to the local
+   * history when the export includes the input it was requested with.
+   * 
+   * @param data - The validated export
+   */
+  const handleImportPlan = useCallback((data: PlanExport): void => {
+    const planResult: GeneratePlanResult = {
+      success: true,
+      planText: data.planText,
+      rawResponse: data.rawResponse,
+      sessionId: data.sessionId,
+      itinerary: data.itinerary,
+    };
+    showStoredPlan(planResult, data.input ?? null);
+    if (data.input) {
+      saveToHistory(data.input, planResult);
+    }
+  }, [showStoredPlan, saveToHistory]);
+
+  /**
+   * Makes the shared plan the user's own: shows it as their current plan
+   * and saves it to the local history. Links without the original input
+   * fall back to the zip code and ages the summary states.
+   */
+  const handleAdoptSharedPlan = useCallback((): void => {
+    if (!sharedPlan) {
+      return;
+    }
+    const parsed = parseWeekendPlan(sharedPlan.planText);
+    const input = sharedPlan.input ?? { location: parsed.zipCode ?? '', kidsAges: parsed.kidAges };
+    const planResult: GeneratePlanResult = { success: true, planText: sharedPlan.planText };
+    showStoredPlan(planResult, input);
+    saveToHistory(input, planResult);
+  }, [sharedPlan, showStoredPlan, saveToHistory]);
+
+  /**
+   * Clears the displayed plan when its session is deleted from the session list.
+   * 
+   * @param sessionId - The deleted session
+   */
+  const handleDeleteSession = useCallback((sessionId: string): void => {
+    if (versions[0]?.sessionId === sessionId) {
+      runIdRef.current += 1;
+      refineControllerRef.current?.abort();
+      refineControllerRef.current = null;
+      setVersions([]);
+      setActiveVersion(0);
+      setHistoryId(null);
+      setTurns([]);
+      setLastSwap(null);
+      setSwappingActivity(null);
+      setIsRefining(false);
+    }
+  }, [versions]);
 
   /**
    * Handles retry after an error.
-   * Re-submits the last input if available.
+   * Re-submits the last input if available; counts towards MAX_AUTO_RETRIES.
    */
   const handleRetry = useCallback((): void => {
     if (lastInput) {
-      handleSubmit(lastInput);
+      handleSubmit(lastInput, true);
     }
   }, [lastInput, handleSubmit]);
 
@@ -147,32 +717,110 @@ function App(): JSX.Element {
    * Renders the appropriate content for the output panel based on current state.
    * 
    * State priority (checked in order):
-   * 1. Loading - shows LoadingState skeleton
+   * 1. Loading - shows the partial plan once text streams in, LoadingState progress before that
    * 2. Error - shows ErrorDisplay with retry option
-   * 3. Success - shows PlanView with generated plan
+   * 3. Success - shows PlanView with the active plan version and the refinement panel
    * 4. Idle - shows empty state illustration with guidance
    * 
    * @returns JSX element for the current output state
    */
   const renderOutputPanel = (): JSX.Element => {
-    // Loading state - show skeleton animation
+    // Loading state - show the partial plan as it streams in, pipeline progress until then
     if (isLoading) {
-      return <LoadingState />;
+      if (streamingText) {
+        return <PlanView result={{ planText: streamingText }} isStreaming onCancel={handleCancel} />;
+      }
+      return <LoadingState events={streamEvents} startedAt={loadingStartedAt} onCancel={handleCancel} />;
     }
 
-    // Error state - show error with retry option
+    // Error state - show error with retry option, retrying transient errors automatically
     if (error) {
+      const canAutoRetry = error.retryable && lastInput !== null && retriesRef.current < MAX_AUTO_RETRIES;
       return (
         <ErrorDisplay
           error={error}
           onRetry={handleRetry}
+          autoRetryDelayMs={canAutoRetry ? error.retryAfterMs ?? AUTO_RETRY_DELAY_MS : undefined}
         />
       );
     }
 
-    // Success state - show the generated plan
+    // Shared plan - read-only until the user makes it theirs
+    if (sharedPlan) {
+      return (
+        <div className="space-y-4">
+          <section
+            className="p-4 bg-white border border-[#E07A5F]/40 rounded-xl flex flex-wrap items-center justify-between gap-3"
+            aria-label="Shared plan"
+          >
+            <p className="text-sm text-[#3D405B]">
+              This plan was shared with you. It is read-only until you make it yours.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleAdoptSharedPlan}
+                className="px-4 py-2 text-sm font-medium text-white bg-[#1e3a5f] rounded-lg hover:bg-[#1e3a5f]/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#1e3a5f]"
+              >
+                Make this my plan
+              </button>
+              <button
+                type="button"
+                onClick={closeSharedPlan}
+                className="px-4 py-2 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              >
+                Close
+              </button>
+            </div>
+          </section>
+          <PlanView result={{ planText: sharedPlan.planText }} input={sharedPlan.input} readOnly />
+        </div>
+      );
+    }
+
+    // Success state - show the active plan version with refinement below it
     if (result && result.success) {
-      return <PlanView result={result} />;
+      return (
+        <div className="space-y-6">
+          {/* Last activity swap, with undo while its version is shown */}
+          {lastSwap && activeVersion === lastSwap.toVersion && (
+            <div
+              className="p-3 bg-white border border-[#81B29A]/40 rounded-lg flex items-center justify-between gap-3"
+              role="status"
+            >
+              <p className="text-sm text-[#3D405B]">
+                Swapped &ldquo;{lastSwap.title}&rdquo; for &ldquo;{lastSwap.replacementTitle}&rdquo;.
+              </p>
+              <button
+                type="button"
+                onClick={handleUndoSwap}
+                className="text-sm font-medium text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+              >
+                Undo swap
+              </button>
+            </div>
+          )}
+          <PlanView
+            result={result}
+            input={lastInput ?? undefined}
+            onSwapActivity={result.sessionId && lastInput ? handleSwapActivity : undefined}
+            swappingActivity={swappingActivity ?? undefined}
+            swapDisabled={isRefining}
+            feedbackRefreshKey={feedbackKey}
+            onItineraryChange={handleItineraryChange}
+          />
+          {result.sessionId && lastInput && (
+            <RefinementPanel
+              turns={turns}
+              versionCount={versions.length}
+              activeVersion={activeVersion}
+              onSelectVersion={setActiveVersion}
+              onRefine={handleRefine}
+              isRefining={isRefining}
+            />
+          )}
+        </div>
+      );
     }
 
     // Idle state - show empty state illustration and guidance
@@ -222,33 +870,98 @@ function App(): JSX.Element {
       <header className="py-6 px-4 md:px-8 border-b border-[#3D405B]/10">
         <div className="max-w-[1200px] mx-auto">
           {/* Main title with primary brand color - WCAG AA compliant */}
-          <h1 className="text-3xl font-bold text-[#1e3a5f]">
-            Weekend Planner
-          </h1>
-          {/* Subtitle with muted text */}
-          <p className="text-gray-500 mt-1">
-            Plan the perfect family weekend with AI
-          </p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-[#1e3a5f]">
+                Weekend Planner
+              </h1>
+              {/* Subtitle with muted text */}
+              <p className="text-gray-500 mt-1">
+                Plan the perfect family weekend with AI
+              </p>
+            </div>
+            {/* Opens the settings screen */}
+            <button
+              type="button"
+              onClick={() => setIsSettingsOpen((open) => !open)}
+              aria-pressed={isSettingsOpen}
+              className="px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+            >
+              Settings
+            </button>
+          </div>
         </div>
       </header>
 
       {/* Main Content Area */}
       <main className="max-w-[1200px] mx-auto p-4 md:p-8">
+        {isSettingsOpen && (
+          <SettingsPanel
+            onClose={() => setIsSettingsOpen(false)}
+            onFeedbackChange={() => setFeedbackKey((key) => key + 1)}
+            onHouseholdsChange={() => setHouseholdKey((key) => key + 1)}
+          />
+        )}
+
         {/* Responsive two-column layout:
             - Mobile: stacked single column
-            - Desktop (md+): side-by-side with 40%/60% split */}
-        <div className="md:flex md:gap-8">
+            - Desktop (md+): side-by-side with 40%/60% split
+            Hidden rather than unmounted behind the settings, keeping the form and plan as they are */}
+        <div className={isSettingsOpen ? 'hidden' : 'md:flex md:gap-8'}>
           {/* Left Column - Input Form (40% on desktop) */}
           <div className="md:w-2/5 mb-6 md:mb-0">
             <InputForm
               onSubmit={handleSubmit}
               onReset={handleReset}
               isLoading={isLoading}
+              householdRefreshKey={householdKey}
             />
+
+            {/* Past sessions - reopen or delete earlier plans */}
+            <div className="mt-6">
+              <SessionList
+                onOpen={handleOpenSession}
+                onDelete={handleDeleteSession}
+                activeSessionId={result?.sessionId}
+                refreshKey={sessionListKey}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* Plan history - saved plans kept in this browser */}
+            <div className="mt-6">
+              <HistoryPanel
+                onOpen={handleOpenSavedPlan}
+                activePlanId={result?.sessionId}
+                refreshKey={historyKey}
+                disabled={isLoading}
+              />
+            </div>
+
+            {/* Import a plan exported as JSON */}
+            <div className="mt-6">
+              <PlanImport onImport={handleImportPlan} disabled={isLoading} />
+            </div>
           </div>
 
           {/* Right Column - Output Panel (60% on desktop) */}
           <div className="md:w-3/5 min-h-[400px]">
+            {/* Share link that could not be opened */}
+            {shareLinkError && (
+              <div
+                className="mb-4 p-3 bg-white border border-[#E63946]/40 rounded-lg flex items-center justify-between gap-3"
+                role="alert"
+              >
+                <p className="text-sm text-[#E63946]">{shareLinkError}</p>
+                <button
+                  type="button"
+                  onClick={closeSharedPlan}
+                  className="text-sm text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
             {renderOutputPanel()}
           </div>
         </div>
@@ -6,9 +6,16 @@
  * HttpResponse for defining request interceptors.
  * 
  * The API uses a two-step session-based flow:
- * 1. Create session with empty body: POST /apps/WeekendPlanner/users/{userId}/sessions/{sessionId}
+ * 1. Create session with the initial state as body: POST /apps/WeekendPlanner/users/{userId}/sessions/{sessionId}
  * 2. Send message with new_message: POST to the same endpoint
  * 
+ * Streaming runs send step 2 to POST /run_sse instead. The default handlers
+ * answer that endpoint with 404 so the client falls back to the blocking
+ * flow; use createSseHandler() to opt a test into streaming.
+ * 
+ * The session manager endpoints (GET list, GET one, DELETE) are served from
+ * mockSessions.
+ * 
  * @module handlers
  */
 
@@ -30,15 +37,29 @@ interface MockADKEvent {
   author: string;
   content?: {
     role: string;
-    parts: Array<{ text?: string }>;
+    parts: Array<{
+      text?: string;
+      functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+      functionResponse?: { id?: string; name: string; response?: Record<string, unknown> };
+    }>;
+  };
+  groundingMetadata?: {
+    webSearchQueries?: string[];
+    groundingChunks?: Array<{ web?: { uri?: string; title?: string } }>;
+  };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
   };
+  partial?: boolean;
 }
 
 /**
  * Sample weekend plan text returned by the mock API.
  * This content simulates the summarizer_agent's final output from the backend.
  */
-const SAMPLE_PLAN_TEXT = `# Weekend Plan for Your Family
+export const SAMPLE_PLAN_TEXT = `# Weekend Plan for Your Family
 
 ## Weather Forecast
 Based on the forecast, the weather looks good for outdoor activities this weekend!
@@ -97,6 +118,179 @@ const mockPlanResponse: MockADKEvent[] = [
   }
 ];
 
+/**
+ * Mock event sequence streamed by createSseHandler().
+ * Mirrors a streaming pipeline run: one event per agent step, two partial
+ * SummarizerAgent chunks, then the complete SummarizerAgent event.
+ */
+export const mockStreamEvents: MockADKEvent[] = [
+  {
+    id: 'evt-stream-preprocess-001',
+    timestamp: new Date().toISOString(),
+    author: 'PreprocessInputAgent',
+    content: {
+      role: 'model',
+      parts: [{ text: '{"zip_code": "94105", "kid_ages": "5,8"}' }]
+    }
+  },
+  {
+    id: 'evt-stream-weather-002',
+    timestamp: new Date().toISOString(),
+    author: 'WeatherAgent',
+    content: {
+      role: 'model',
+      parts: [{ text: 'good' }]
+    }
+  },
+  {
+    id: 'evt-stream-summary-003',
+    timestamp: new Date().toISOString(),
+    author: 'SummarizerAgent',
+    partial: true,
+    content: {
+      role: 'model',
+      parts: [{ text: '# Weekend Plan for Your Family\n' }]
+    }
+  },
+  {
+    id: 'evt-stream-summary-004',
+    timestamp: new Date().toISOString(),
+    author: 'SummarizerAgent',
+    partial: true,
+    content: {
+      role: 'model',
+      parts: [{ text: '- Visit the farmers market\n' }]
+    }
+  },
+  {
+    id: 'evt-stream-summary-005',
+    timestamp: new Date().toISOString(),
+    author: 'SummarizerAgent',
+    content: {
+      role: 'model',
+      parts: [{ text: SAMPLE_PLAN_TEXT }]
+    }
+  }
+];
+
+/**
+ * Mock events of an outdoor run that used tools: the WeatherAgent's
+ * google_search grounding, and the WeatherRouter calling the
+ * ActivityResearchGroup AgentTool, whose result ADK wraps as `{ result }`.
+ */
+export const mockToolEvents: MockADKEvent[] = [
+  {
+    id: 'evt-tool-weather-001',
+    timestamp: new Date().toISOString(),
+    author: 'WeatherAgent',
+    content: {
+      role: 'model',
+      parts: [{ text: 'good' }]
+    },
+    groundingMetadata: {
+      webSearchQueries: ['weekend weather forecast 94105'],
+      groundingChunks: [{ web: { uri: 'https://forecast.weather.gov/94105', title: 'weather.gov' } }]
+    },
+    usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 5, totalTokenCount: 1205 }
+  },
+  {
+    id: 'evt-tool-router-002',
+    timestamp: new Date().toISOString(),
+    author: 'WeatherRouter',
+    content: {
+      role: 'model',
+      parts: [
+        {
+          functionCall: {
+            id: 'call-research-1',
+            name: 'ActivityResearchGroup',
+            args: { request: 'Find weekend activities in 94105 for kids aged 5 and 8' }
+          }
+        }
+      ]
+    },
+    usageMetadata: { promptTokenCount: 800, candidatesTokenCount: 40, totalTokenCount: 840 }
+  },
+  {
+    id: 'evt-tool-router-003',
+    timestamp: new Date().toISOString(),
+    author: 'WeatherRouter',
+    content: {
+      role: 'user',
+      parts: [
+        {
+          functionResponse: {
+            id: 'call-research-1',
+            name: 'ActivityResearchGroup',
+            response: { result: 'Golden Gate Park playground; Exploratorium; Farmers market' }
+          }
+        }
+      ]
+    }
+  },
+  {
+    id: 'evt-tool-summary-004',
+    timestamp: new Date().toISOString(),
+    author: 'SummarizerAgent',
+    content: {
+      role: 'model',
+      parts: [{ text: SAMPLE_PLAN_TEXT }]
+    },
+    usageMetadata: { promptTokenCount: 2000, candidatesTokenCount: 600, totalTokenCount: 2600 }
+  }
+];
+
+/**
+ * Mock session state as written by the agents via output_key on the
+ * outdoor route. Values are model output, so parsed_input is a JSON string
+ * and the findings cite their sources as bare or Markdown links.
+ */
+export const mockSessionState = {
+  parsed_input: '```json\n{\n  "zip_code": "94105",\n  "kid_ages": "5,8"\n}\n```',
+  weather_forecast: 'good',
+  local_activities_findings:
+    '1. Golden Gate Park playground - free, open daily\n2. Exploratorium - hands-on science museum\n' +
+    '3. Ferry Plaza farmers market - fresh produce, Saturday 8am-2pm (https://www.ferrybuildingmarketplace.com/farmers-market)',
+  special_activities_findings:
+    '1. Community fair at the town center - Saturday 10am-4pm - [SF Community Fair](https://sfcommunityfair.org/events)',
+  final_summary: SAMPLE_PLAN_TEXT
+};
+
+/**
+ * Mock stored sessions served by the session manager endpoints.
+ * The most recent session holds one full plan turn: the user prompt followed
+ * by the agent events, plus the state they wrote; the older one is empty.
+ */
+export const mockSessions = [
+  {
+    id: 'session-older-0001',
+    appName: 'WeekendPlanner',
+    userId: 'user-1',
+    state: {},
+    events: [] as MockADKEvent[],
+    lastUpdateTime: 1710400000
+  },
+  {
+    id: 'session-recent-0002',
+    appName: 'WeekendPlanner',
+    userId: 'user-1',
+    state: mockSessionState as Record<string, unknown>,
+    events: [
+      {
+        id: 'evt-user-000',
+        timestamp: new Date().toISOString(),
+        author: 'user',
+        content: {
+          role: 'user',
+          parts: [{ text: 'Plan a weekend trip for zip code 94105. We have kids ages 5, 8.' }]
+        }
+      },
+      ...mockPlanResponse
+    ] as MockADKEvent[],
+    lastUpdateTime: 1710498630
+  }
+];
+
 // ============================================================================
 // Success Handlers
 // ============================================================================
@@ -106,7 +300,7 @@ const mockPlanResponse: MockADKEvent[] = [
  * 
  * Includes handlers for the two-step session-based API flow:
  * - POST /apps/WeekendPlanner/users/:userId/sessions/:sessionId
- *   - Step 1 (session creation): Empty body returns { status: 'created' }
+ *   - Step 1 (session creation): Body without new_message returns { status: 'created' }
  *   - Step 2 (message sending): Body with new_message returns mock plan response
  * 
  * Uses explicit URL to match the API client's requests to http://localhost:8000.
@@ -116,7 +310,7 @@ export const handlers = [
    * Handler for POST /apps/WeekendPlanner/users/:userId/sessions/:sessionId - Session endpoint.
    * 
    * This handler supports the two-step session flow as per ADK conventions:
-   * - Step 1 (session creation): Empty body {} - returns { status: 'created' }
+   * - Step 1 (session creation): Initial state or {} body - returns { status: 'created' }
    * - Step 2 (message sending): Body with new_message - returns mock plan response
    */
   http.post('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', async ({ request }) => {
@@ -132,10 +326,10 @@ export const handlers = [
       body = null;
     }
 
-    // Check if this is a session creation request (empty body)
-    const isEmpty = !body || Object.keys(body).length === 0;
+    // Session creation carries the initial state (or {}) instead of new_message
+    const isCreation = !body || !('new_message' in body);
     
-    if (isEmpty) {
+    if (isCreation) {
       // Step 1: Session creation - return success with status: 'created'
       return HttpResponse.json({ status: 'created' }, {
         status: 200,
@@ -166,9 +360,203 @@ export const handlers = [
         }
       }
     );
+  }),
+
+  /**
+   * Handler for GET /apps/WeekendPlanner/users/:userId/sessions - List sessions.
+   * Returns mockSessions without their events, as ADK does.
+   */
+  http.get('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions', () => {
+    return HttpResponse.json(mockSessions.map((session) => ({ ...session, events: [] })), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }),
+
+  /**
+   * Handler for GET /apps/WeekendPlanner/users/:userId/sessions/:sessionId - Fetch a session.
+   * Returns the matching mock session with its events, or 404.
+   */
+  http.get('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', ({ params }) => {
+    const session = mockSessions.find((candidate) => candidate.id === params.sessionId);
+    if (!session) {
+      return HttpResponse.json({ detail: 'Session not found' }, { status: 404 });
+    }
+    return HttpResponse.json(session, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  }),
+
+  /**
+   * Handler for DELETE /apps/WeekendPlanner/users/:userId/sessions/:sessionId - Delete a session.
+   */
+  http.delete('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', () => {
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  /**
+   * Handler for POST /run_sse - Streaming endpoint.
+   * 
+   * Returns 404 to model a backend without SSE support, so streaming callers
+   * fall back to the session endpoint above. Override with createSseHandler().
+   */
+  http.post('http://localhost:8000/run_sse', () => {
+    return HttpResponse.json({ detail: 'Not Found' }, {
+      status: 404,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
   })
 ];
 
+// ============================================================================
+// Session State Handlers
+// ============================================================================
+
+/**
+ * Creates an MSW handler that serves every session lookup with the given state,
+ * modelling the state the agents write during a run.
+ * 
+ * @param state - Raw session state (default: mockSessionState)
+ * @returns MSW http.get handler for the session endpoint
+ * 
+ * @example
+ * ```typescript
+ * server.use(createSessionStateHandler({ ...mockSessionState, weather_forecast: 'bad' }));
+ * ```
+ */
+export const createSessionStateHandler = (state: Record<string, unknown> = mockSessionState) => {
+  return http.get('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', ({ params }) => {
+    return HttpResponse.json(
+      { ...mockSessions[0], id: params.sessionId, state },
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+  });
+};
+
+/**
+ * Creates an MSW handler whose message step answers with the given summary
+ * instead of SAMPLE_PLAN_TEXT, e.g. a refined plan. Session creation still
+ * succeeds.
+ * 
+ * @param planText - Summary returned as the final model event
+ * @returns MSW http.post handler for the session endpoint
+ * 
+ * @example
+ * ```typescript
+ * server.use(createPlanTextHandler(SAMPLE_PLAN_TEXT.replace('Nature hike', 'Bike ride')));
+ * ```
+ */
+export const createPlanTextHandler = (planText: string) => {
+  return http.post('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', async ({ request }) => {
+    const text = await request.text();
+    if (!text.includes('new_message')) {
+      return HttpResponse.json({ status: 'created' }, { status: 200 });
+    }
+
+    const events = mockPlanResponse.map((event) =>
+      event.id === 'evt-summary-003' ? { ...event, content: { role: 'model', parts: [{ text: planText }] } } : event
+    );
+    return HttpResponse.json(events, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  });
+};
+
+/**
+ * Creates an MSW handler that records the text of every message sent to the
+ * session endpoint and answers with the mock plan, so tests can check the
+ * prompts the client built.
+ * 
+ * @param prompts - Array the message texts are pushed to, in order
+ * @returns MSW http.post handler for the session endpoint
+ * 
+ * @example
+ * ```typescript
+ * const prompts: string[] = [];
+ * server.use(createPromptRecorder(prompts));
+ * ```
+ */
+export const createPromptRecorder = (prompts: string[]) => {
+  return http.post('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', async ({ request }) => {
+    const text = await request.text();
+    const body = text.trim() ? JSON.parse(text) : {};
+    if (!body.new_message) {
+      return HttpResponse.json({ status: 'created' }, { status: 200 });
+    }
+
+    prompts.push(body.new_message.parts?.[0]?.text ?? '');
+    return HttpResponse.json(mockPlanResponse, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+  });
+};
+
+// ============================================================================
+// Streaming Handlers
+// ============================================================================
+
+/**
+ * Creates an MSW handler that streams ADK events from POST /run_sse
+ * as server-sent events, one `data:` block per event.
+ * 
+ * The session endpoint is still served by the default handlers, so the
+ * full streaming flow (create session, then stream) works with this alone.
+ * 
+ * @param events - Events to stream (default: mockStreamEvents)
+ * @param chunkDelayMs - Delay in milliseconds before each event (default: 0)
+ * @returns MSW http.post handler for the run_sse endpoint
+ * 
+ * @example
+ * ```typescript
+ * server.use(createSseHandler());
+ * server.use(createSseHandler([...mockStreamEvents, { error: 'boom' }]));
+ * ```
+ */
+export const createSseHandler = (
+  events: Array<MockADKEvent | Record<string, unknown> | null> = mockStreamEvents,
+  chunkDelayMs: number = 0
+) => {
+  return http.post('http://localhost:8000/run_sse', () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const event of events) {
+          if (chunkDelayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, chunkDelayMs));
+          }
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+        controller.close();
+      }
+    });
+
+    return new HttpResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream'
+      }
+    });
+  });
+};
+
 // ============================================================================
 // Error Handler Factories
 // ============================================================================
@@ -177,7 +565,7 @@ export const handlers = [
  * Creates an MSW handler that returns a 400 Bad Request response for the session endpoint.
  * 
  * This handler supports the two-step session flow:
- * - Step 1 (session creation): Empty body - returns success with { status: 'created' }
+ * - Step 1 (session creation): No new_message - returns success with { status: 'created' }
  * - Step 2 (message sending): Body with new_message - returns 400 error
  * 
  * Use this handler with server.use() in specific tests to simulate client-side
@@ -209,9 +597,9 @@ export const create400Handler = () => {
       body = null;
     }
 
-    const isEmpty = !body || Object.keys(body).length === 0;
+    const isCreation = !body || !('new_message' in body);
     
-    if (isEmpty) {
+    if (isCreation) {
       // Session creation succeeds
       return HttpResponse.json({ status: 'created' }, {
         status: 200,
@@ -236,7 +624,7 @@ export const create400Handler = () => {
  * Creates an MSW handler that returns a 500 Internal Server Error response for the session endpoint.
  * 
  * This handler supports the two-step session flow:
- * - Step 1 (session creation): Empty body - returns success with { status: 'created' }
+ * - Step 1 (session creation): No new_message - returns success with { status: 'created' }
  * - Step 2 (message sending): Body with new_message - returns 500 error
  * 
  * Use this handler with server.use() in specific tests to simulate server-side
@@ -268,9 +656,9 @@ export const create500Handler = () => {
       body = null;
     }
 
-    const isEmpty = !body || Object.keys(body).length === 0;
+    const isCreation = !body || !('new_message' in body);
     
-    if (isEmpty) {
+    if (isCreation) {
       // Session creation succeeds
       return HttpResponse.json({ status: 'created' }, {
         status: 200,
@@ -291,6 +679,67 @@ export const create500Handler = () => {
   });
 };
 
+/**
+ * Creates an MSW handler that answers the first message requests with
+ * 503 Service Unavailable and a Retry-After header, then with the mock plan.
+ *
+ * Session creation always succeeds. Use it to test the client's retry policy
+ * and the automatic retry countdown.
+ *
+ * @param failures - Number of message requests to fail (default: 1)
+ * @param retryAfter - Retry-After header value (default: '0')
+ * @returns MSW http.post handler that recovers after the given failures
+ *
+ * @example
+ * ```typescript
+ * // Fails the first three message attempts, then succeeds
+ * server.use(createUnavailableHandler(3));
+ * ```
+ */
+export const createUnavailableHandler = (failures: number = 1, retryAfter: string = '0') => {
+  let remaining = failures;
+
+  return http.post('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', async ({ request }) => {
+    let body: Record<string, unknown> | null = null;
+    try {
+      const text = await request.text();
+      if (text && text.trim()) {
+        body = JSON.parse(text);
+      }
+    } catch {
+      body = null;
+    }
+
+    const isCreation = !body || !('new_message' in body);
+
+    if (isCreation) {
+      return HttpResponse.json({ status: 'created' }, {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (remaining > 0) {
+      remaining -= 1;
+      return HttpResponse.json(
+        { message: 'Service unavailable' },
+        {
+          status: 503,
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': retryAfter
+          }
+        }
+      );
+    }
+
+    return HttpResponse.json(mockPlanResponse, {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  });
+};
+
 /**
  * Creates an MSW handler that returns a failure response for session creation.
  * 
@@ -336,7 +785,7 @@ export const createSessionFailureHandler = () => {
  * Use this handler to test loading states by giving enough time for assertions.
  * 
  * Supports the two-step session flow with delayed responses:
- * - Step 1 (session creation): Empty body - returns { status: 'created' } after delay
+ * - Step 1 (session creation): No new_message - returns { status: 'created' } after delay
  * - Step 2 (message sending): Body with new_message - returns mock plan after delay
  * 
  * @param delayMs - Delay in milliseconds before responding (default: 500ms)
@@ -362,9 +811,9 @@ export const createDelayedHandler = (delayMs: number = 500) => {
       body = null;
     }
 
-    const isEmpty = !body || Object.keys(body).length === 0;
+    const isCreation = !body || !('new_message' in body);
     
-    if (isEmpty) {
+    if (isCreation) {
       return HttpResponse.json({ status: 'created' }, {
         status: 200,
         headers: { 'Content-Type': 'application/json' }
@@ -398,7 +847,7 @@ export const createTimeoutHandler = () => {
  * Creates an MSW handler that returns malformed JSON to test parse error handling.
  * 
  * Supports the two-step session flow:
- * - Step 1 (session creation): Empty body - returns success with { status: 'created' }
+ * - Step 1 (session creation): No new_message - returns success with { status: 'created' }
  * - Step 2 (message sending): Body with new_message - returns malformed JSON
  * 
  * @returns MSW http.post handler that returns invalid JSON content on message step
@@ -416,9 +865,9 @@ export const createMalformedJsonHandler = () => {
       body = null;
     }
 
-    const isEmpty = !body || Object.keys(body).length === 0;
+    const isCreation = !body || !('new_message' in body);
     
-    if (isEmpty) {
+    if (isCreation) {
       // Session creation succeeds
       return HttpResponse.json({ status: 'created' }, {
         status: 200,
@@ -437,15 +886,19 @@ export const createMalformedJsonHandler = () => {
 };
 
 /**
- * Creates an MSW handler that simulates a network error on the session endpoint.
+ * Creates an MSW handler that simulates an unreachable backend.
+ * 
+ * This handler fails immediately on any request to the backend, of any
+ * method (including session creation and the client's no-cors reachability
+ * probe), to test network error handling scenarios.
  * 
- * This handler fails immediately on any request (including session creation)
- * to test network error handling scenarios.
+ * To simulate a CORS failure instead, fail only the session POST with
+ * HttpResponse.error() so the probe still reaches the default handlers.
  * 
- * @returns MSW http.post handler that triggers a network error
+ * @returns MSW http.all handler that triggers a network error
  */
 export const createNetworkErrorHandler = () => {
-  return http.post('http://localhost:8000/apps/WeekendPlanner/users/:userId/sessions/:sessionId', () => {
+  return http.all('http://localhost:8000/*', () => {
     return HttpResponse.error();
   });
 };
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for single activity swaps (frontend/src/api/activitySwap.ts).
+ *
+ * Test Coverage:
+ * - The follow-up request naming the activity, its time and every title
+ * - Finding the new activity in the agent's answer
+ * - Replacing only that activity's lines, keeping the list marker
+ *
+ * @module __tests__/api/activitySwap.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSwapRequest, findReplacementActivity, swapActivity } from '../../api/activitySwap';
+import { parseWeekendPlan } from '../../api/planParser';
+
+const planText = [
+  '**Area:** Oakland, CA',
+  '',
+  '1. **Chabot Space Center** - Telescopes and a planetarium',
+  '   - When: Saturday morning',
+  '2. **Lake Merritt** - Paddle boats around the lake',
+  '   - When: Sunday afternoon',
+  '',
+  'Enjoy your weekend!'
+].join('\n');
+
+describe('buildSwapRequest()', () => {
+  it('names the activity, its time and every activity not to repeat', () => {
+    const message = buildSwapRequest(parseWeekendPlan(planText), 1);
+
+    expect(message).toContain('Replace only activity 2, "Lake Merritt", planned for Sunday afternoon,');
+    expect(message).toContain('for the same time that suits the same weather and kids ages');
+    expect(message).toContain('Do not suggest any of these activities again: "Chabot Space Center", "Lake Merritt".');
+  });
+
+  it('leaves the time out when the activity has none', () => {
+    const message = buildSwapRequest(parseWeekendPlan('- Zoo - lions\n- Park - swings'), 0);
+
+    expect(message).toContain('Replace only activity 1, "Zoo", with one different activity that suits');
+  });
+});
+
+describe('findReplacementActivity()', () => {
+  const oldPlan = parseWeekendPlan('- Zoo - lions\n- Park - swings\n- Museum - dinosaurs');
+
+  it('prefers a new activity at the swapped position', () => {
+    const newPlan = parseWeekendPlan('- Aquarium - fish\n- Beach - sand\n- Museum - dinosaurs');
+
+    expect(findReplacementActivity(oldPlan, 1, newPlan)).toBe(1);
+  });
+
+  it('finds a new activity the agent moved elsewhere', () => {
+    const newPlan = parseWeekendPlan('- Zoo - lions\n- Museum - dinosaurs\n- Beach - sand');
+
+    expect(findReplacementActivity(oldPlan, 1, newPlan)).toBe(2);
+  });
+
+  it('treats titles differing only in case and punctuation as repeats', () => {
+    const newPlan = parseWeekendPlan('- **ZOO!** - lions\n- park - swings');
+
+    expect(findReplacementActivity(oldPlan, 0, newPlan)).toBeUndefined();
+  });
+});
+
+describe('swapActivity()', () => {
+  it('replaces only the swapped activity and keeps its list marker', () => {
+    const answer = [
+      'Here is your updated plan:',
+      '',
+      '- **Chabot Space Center** - Look through the big telescopes',
+      '- **Fairyland** - Storybook rides for little kids',
+      '  - When: Sunday afternoon',
+      '  - Cost: $15',
+      '',
+      'Have a great time!'
+    ].join('\n');
+
+    expect(swapActivity(planText, 1, answer)).toBe(
+      [
+        '**Area:** Oakland, CA',
+        '',
+        '1. **Chabot Space Center** - Telescopes and a planetarium',
+        '   - When: Saturday morning',
+        '2. **Fairyland** - Storybook rides for little kids',
+        '  - When: Sunday afternoon',
+        '  - Cost: $15',
+        '',
+        'Enjoy your weekend!'
+      ].join('\n')
+    );
+  });
+
+  it('returns undefined when the answer repeats the plan', () => {
+    expect(swapActivity(planText, 0, planText)).toBeUndefined();
+  });
+
+  it('returns undefined for an activity that does not exist', () => {
+    expect(swapActivity(planText, 5, '- **Fairyland** - rides')).toBeUndefined();
+  });
+});
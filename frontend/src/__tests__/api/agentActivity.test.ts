@@ -0,0 +1,125 @@
+/**
+ * Unit tests for agent activity summaries (frontend/src/api/agentActivity.ts).
+ *
+ * Test Coverage:
+ * - Function calls paired with responses by ID and by tool name
+ * - Calls without a response and partial events
+ * - Search queries and sources merged per agent
+ * - Token usage totals
+ *
+ * @module __tests__/api/agentActivity.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSearchGroundings, getTokenUsage, getToolInvocations } from '../../api/agentActivity';
+import { mockStreamEvents, mockToolEvents } from '../../__mocks__/handlers';
+import type { ADKEvent, MessagePart } from '../../types';
+
+/**
+ * Builds a completed event with the given parts.
+ *
+ * @param author - Agent that wrote the event
+ * @param parts - Content parts
+ * @returns The event
+ */
+function eventWith(author: string, parts: MessagePart[]): ADKEvent {
+  return { id: `evt-${author}`, timestamp: 1710498600, author, content: { role: 'model', parts } };
+}
+
+describe('getToolInvocations()', () => {
+  it('pairs the AgentTool call with its result', () => {
+    expect(getToolInvocations(mockToolEvents)).toEqual([
+      {
+        agent: 'WeatherRouter',
+        name: 'ActivityResearchGroup',
+        args: { request: 'Find weekend activities in 94105 for kids aged 5 and 8' },
+        response: { result: 'Golden Gate Park playground; Exploratorium; Farmers market' }
+      }
+    ]);
+  });
+
+  it('matches responses without IDs to the earliest open call of the same tool', () => {
+    const invocations = getToolInvocations([
+      eventWith('WeatherRouter', [
+        { functionCall: { name: 'HomeActivitiesAgent', args: { request: 'first' } } },
+        { functionCall: { name: 'HomeActivitiesAgent', args: { request: 'second' } } }
+      ]),
+      eventWith('WeatherRouter', [
+        { functionResponse: { name: 'HomeActivitiesAgent', response: { result: 'one' } } },
+        { functionResponse: { name: 'HomeActivitiesAgent' } }
+      ])
+    ]);
+
+    expect(invocations.map((invocation) => invocation.response)).toEqual([{ result: 'one' }, {}]);
+  });
+
+  it('leaves calls without a response unanswered and skips partial events', () => {
+    const call = eventWith('WeatherRouter', [{ functionCall: { name: 'ActivityResearchGroup' } }]);
+
+    expect(getToolInvocations([call])).toEqual([{ agent: 'WeatherRouter', name: 'ActivityResearchGroup' }]);
+    expect(getToolInvocations([{ ...call, partial: true }])).toEqual([]);
+  });
+
+  it('returns nothing for text-only runs', () => {
+    expect(getToolInvocations(mockStreamEvents)).toEqual([]);
+  });
+});
+
+describe('getSearchGroundings()', () => {
+  it('lists the queries and sources of each agent once', () => {
+    const grounded = mockToolEvents[0];
+
+    expect(getSearchGroundings([grounded, grounded])).toEqual([
+      {
+        agent: 'WeatherAgent',
+        queries: ['weekend weather forecast 94105'],
+        sources: [{ uri: 'https://forecast.weather.gov/94105', title: 'weather.gov' }]
+      }
+    ]);
+  });
+
+  it('keeps only http(s) sources as links', () => {
+    const event = {
+      ...eventWith('WeatherAgent', []),
+      groundingMetadata: {
+        groundingChunks: [
+          { web: { uri: 'javascript:alert(1)', title: 'weather.gov' } },
+          { web: { uri: 'data:text/html,<script>alert(1)</script>' } },
+          { web: { uri: 'https://forecast.weather.gov/94105', title: 'weather.gov' } }
+        ]
+      }
+    };
+
+    expect(getSearchGroundings([event])).toEqual([
+      {
+        agent: 'WeatherAgent',
+        queries: [],
+        sources: [
+          { title: 'weather.gov' },
+          { title: 'data:text/html,<script>alert(1)</script>' },
+          { uri: 'https://forecast.weather.gov/94105', title: 'weather.gov' }
+        ]
+      }
+    ]);
+  });
+
+  it('ignores grounding metadata without queries or sources', () => {
+    const event = { ...eventWith('WeatherAgent', []), groundingMetadata: { groundingChunks: [{}] } };
+
+    expect(getSearchGroundings([event])).toEqual([]);
+  });
+});
+
+describe('getTokenUsage()', () => {
+  it('adds up the usage of all events', () => {
+    expect(getTokenUsage(mockToolEvents)).toEqual({
+      promptTokenCount: 4000,
+      candidatesTokenCount: 645,
+      totalTokenCount: 4645
+    });
+  });
+
+  it('returns undefined when no event reports usage', () => {
+    expect(getTokenUsage(mockStreamEvents)).toBeUndefined();
+  });
+});
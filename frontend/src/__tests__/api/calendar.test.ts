@@ -0,0 +1,250 @@
+/**
+ * Unit tests for the iCalendar export (frontend/src/api/calendar.ts).
+ *
+ * Test Coverage:
+ * - File name
+ * - Clock time and range parsing
+ * - TEXT escaping and line folding
+ * - One VEVENT per activity with description, sources and location
+ * - Parsed times, default slot hours and saved itinerary arrangements
+ * - Long weekends and date ranges without a Saturday
+ *
+ * @module __tests__/api/calendar.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createPlanCalendar,
+  escapeText,
+  foldLine,
+  getCalendarFilename,
+  parseClockRange
+} from '../../api/calendar';
+import { createItinerary, moveActivity } from '../../api/itinerary';
+import { parseWeekendPlan } from '../../api/planParser';
+import { planSummaries } from '../fixtures/planSummaries';
+import type { WeekendPlan } from '../../types';
+
+const dates = { start: '2026-10-24', end: '2026-10-25' };
+const now = new Date(Date.UTC(2026, 9, 19, 15, 30));
+
+/**
+ * Unfolds a calendar and returns its properties of one event, by summary.
+ */
+const getEvent = (calendar: string, summary: string): Record<string, string> => {
+  const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+  const events: Record<string, string>[] = [];
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      events.push({});
+    } else if (events.length > 0 && line !== 'END:VEVENT' && line.includes(':')) {
+      const [name, ...value] = line.split(':');
+      events[events.length - 1][name] = value.join(':');
+    }
+  }
+  const event = events.find((candidate) => candidate.SUMMARY === summary);
+  if (!event) {
+    throw new Error(`No event "${summary}" in:\n${calendar}`);
+  }
+  return event;
+};
+
+const plan = (activities: WeekendPlan['activities']): WeekendPlan => ({
+  title: 'Our **Weekend**',
+  kidAges: [],
+  activities,
+  confidence: 1
+});
+
+describe('getCalendarFilename()', () => {
+  it('names the file after the first day', () => {
+    expect(getCalendarFilename(dates)).toBe('weekend-plan-2026-10-24.ics');
+    expect(getCalendarFilename({ start: '2027-01-01', end: '2027-01-03', holiday: "New Year's Day" })).toBe(
+      'weekend-plan-2027-01-01.ics'
+    );
+  });
+});
+
+describe('parseClockRange()', () => {
+  it.each([
+    ['Saturday 10am-4pm', { start: 600, end: 960 }],
+    ['1:30 pm', { start: 810 }],
+    ['10-11:30am', { start: 600, end: 690 }],
+    ['Sunday 11am to 1pm', { start: 660, end: 780 }],
+    ['12pm', { start: 720 }],
+    ['12am', { start: 0 }]
+  ])('reads "%s"', (text, expected) => {
+    expect(parseClockRange(text)).toEqual(expected);
+  });
+
+  it('finds nothing without am or pm', () => {
+    expect(parseClockRange('Saturday morning')).toBeUndefined();
+    expect(parseClockRange('Ages 5-8')).toBeUndefined();
+  });
+});
+
+describe('escapeText() and foldLine()', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    expect(escapeText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+  });
+
+  it('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Park')).toBe('SUMMARY:Park');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `DESCRIPTION:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+    const encoder = new TextEncoder();
+
+    for (const [index, part] of folded.split('\r\n').entries()) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+      expect(index === 0 || part.startsWith(' ')).toBe(true);
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
+
+describe('createPlanCalendar()', () => {
+  it('writes a valid calendar with one event per activity', () => {
+    const parsed = parseWeekendPlan(planSummaries[1].text);
+    const calendar = createPlanCalendar(parsed, { dates, now, uidPrefix: 'session-1' });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar).toContain('X-WR-CALNAME:Weekend Plan for Your Family');
+    expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(parsed.activities.length);
+    expect(calendar.match(/END:VEVENT/g)).toHaveLength(parsed.activities.length);
+    expect(calendar).not.toMatch(/[^\r]\n/);
+    expect(getEvent(calendar, 'Brunch at a cozy local cafe')).toMatchObject({
+      UID: 'session-1-3@weekend-planner',
+      DTSTAMP: '20261019T153000Z'
+    });
+  });
+
+  it('uses parsed times and the slots default hours otherwise', () => {
+    const parsed = parseWeekendPlan(planSummaries[1].text);
+    const calendar = createPlanCalendar(parsed, { dates, now });
+
+    // Parsed range on the day it names
+    expect(getEvent(calendar, 'Community fair at the town center')).toMatchObject({
+      DTSTART: '20261024T100000',
+      DTEND: '20261024T160000'
+    });
+    // Saturday morning shared by the market (untimed) and the fair (timed)
+    expect(getEvent(calendar, "Visit the local farmer's market for fresh produce and family fun")).toMatchObject({
+      DTSTART: '20261024T090000',
+      DTEND: '20261024T120000'
+    });
+    // Sunday afternoon default hours
+    expect(getEvent(calendar, "Explore the children's museum with interactive exhibits")).toMatchObject({
+      DTSTART: '20261025T130000',
+      DTEND: '20261025T170000'
+    });
+  });
+
+  it('splits a slot between activities without times and adds two hours to start-only times', () => {
+    const calendar = createPlanCalendar(
+      plan([
+        { title: 'Museum', description: '', time: 'Saturday' },
+        { title: 'Park', description: '', time: 'Saturday' },
+        { title: 'Dinner', description: '', time: 'Saturday 6:30pm' }
+      ]),
+      {
+        dates,
+        now,
+        itinerary: {
+          ...createItinerary([]),
+          'saturday-morning': [0, 1],
+          'saturday-evening': [2]
+        }
+      }
+    );
+
+    expect(getEvent(calendar, 'Museum')).toMatchObject({ DTSTART: '20261024T090000', DTEND: '20261024T103000' });
+    expect(getEvent(calendar, 'Park')).toMatchObject({ DTSTART: '20261024T103000', DTEND: '20261024T120000' });
+    expect(getEvent(calendar, 'Dinner')).toMatchObject({ DTSTART: '20261024T183000', DTEND: '20261024T203000' });
+  });
+
+  it('follows the saved itinerary, dropping parsed times from other parts of the day', () => {
+    const activities = [{ title: 'Market', description: '', time: 'Saturday 8am-2pm' }];
+    const itinerary = moveActivity(createItinerary(activities), 0, 'sunday-evening');
+
+    const calendar = createPlanCalendar(plan(activities), { dates, now, itinerary });
+
+    expect(getEvent(calendar, 'Market')).toMatchObject({ DTSTART: '20261025T180000', DTEND: '20261025T200000' });
+  });
+
+  it('places Friday and Monday activities on a long weekend', () => {
+    const calendar = createPlanCalendar(
+      plan([
+        { title: 'Movie night', description: '', time: 'Friday 7pm-9pm' },
+        { title: 'Zoo', description: '', time: 'Saturday' },
+        { title: 'Beach', description: '', time: 'Sunday afternoon' },
+        { title: 'Parade', description: '', time: 'Monday morning' }
+      ]),
+      { dates: { start: '2026-09-04', end: '2026-09-07', holiday: 'Labor Day' }, now }
+    );
+
+    expect(getEvent(calendar, 'Movie night')).toMatchObject({
+      UID: 'weekend-plan-20260904-1@weekend-planner',
+      DTSTART: '20260904T190000',
+      DTEND: '20260904T210000'
+    });
+    expect(getEvent(calendar, 'Zoo')).toMatchObject({ DTSTART: '20260905T090000' });
+    expect(getEvent(calendar, 'Beach')).toMatchObject({ DTSTART: '20260906T130000' });
+    expect(getEvent(calendar, 'Parade')).toMatchObject({ DTSTART: '20260907T090000', DTEND: '20260907T120000' });
+    expect(calendar.match(/DTSTART:\d{8}/g)).toEqual([
+      'DTSTART:20260904',
+      'DTSTART:20260905',
+      'DTSTART:20260906',
+      'DTSTART:20260907'
+    ]);
+  });
+
+  it('places every activity on the day of a single-day plan', () => {
+    const calendar = createPlanCalendar(
+      plan([
+        { title: 'Museum', description: '', time: 'Saturday 10am' },
+        { title: 'Park', description: '', time: 'Sunday afternoon' },
+        { title: 'Dinner', description: '', time: 'Wednesday 6pm' }
+      ]),
+      { dates: { start: '2026-10-20', end: '2026-10-20' }, now }
+    );
+
+    expect(getEvent(calendar, 'Museum')).toMatchObject({ DTSTART: '20261020T100000', DTEND: '20261020T120000' });
+    expect(getEvent(calendar, 'Park')).toMatchObject({ DTSTART: '20261020T130000', DTEND: '20261020T170000' });
+    expect(getEvent(calendar, 'Dinner')).toMatchObject({ DTSTART: '20261020T180000', DTEND: '20261020T200000' });
+  });
+
+  it('includes the description, details, sources and location as plain text', () => {
+    const calendar = createPlanCalendar(
+      plan([
+        {
+          title: '**Exploratorium**',
+          description: 'Hands-on *science*, for all ages; bring snacks',
+          location: 'Pier 15',
+          cost: '$30',
+          category: 'Indoor',
+          sources: [
+            { uri: 'https://www.exploratorium.edu/visit', title: 'exploratorium.edu' },
+            { uri: 'https://example.com/reviews', title: 'Reviews' }
+          ]
+        }
+      ]),
+      { dates, now }
+    );
+
+    const event = getEvent(calendar, 'Exploratorium');
+    expect(event.DESCRIPTION).toBe(
+      'Hands-on science\\, for all ages\\; bring snacks\\n\\nCost: $30\\n\\nSources:\\n' +
+        '- exploratorium.edu: https://www.exploratorium.edu/visit\\n- Reviews: https://example.com/reviews'
+    );
+    expect(event).toMatchObject({
+      LOCATION: 'Pier 15',
+      URL: 'https://www.exploratorium.edu/visit',
+      CATEGORIES: 'Indoor'
+    });
+    expect(calendar).toContain('X-WR-CALNAME:Our Weekend');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for children entries (frontend/src/api/children.ts).
+ *
+ * Test Coverage:
+ * - Parsing typed ages, units and nicknames
+ * - Validation of the number of children and their nicknames
+ * - Ages the planner keeps, chip text and warnings about left out children
+ *
+ * @module __tests__/api/children.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeChild,
+  getIgnoredAgeWarnings,
+  getPlannerAge,
+  isChild,
+  KIDS_AGES_FORMAT_MESSAGE,
+  parseChildAges,
+  toPlannerAges,
+  validateChildren
+} from '../../api/children';
+
+describe('parseChildAges()', () => {
+  it('parses ages in the chosen unit and with their own units', () => {
+    expect(parseChildAges(' 7, 9 months,2 yrs , 18m ', 'years')).toEqual({
+      children: [
+        { age: 7, unit: 'years' },
+        { age: 9, unit: 'months' },
+        { age: 2, unit: 'years' },
+        { age: 18, unit: 'months' }
+      ]
+    });
+    expect(parseChildAges('6', 'months')).toEqual({ children: [{ age: 6, unit: 'months' }] });
+    expect(parseChildAges('', 'years')).toEqual({ children: [] });
+  });
+
+  it('adds a nickname to a single child', () => {
+    expect(parseChildAges('4', 'years', '  Big   Sis ')).toEqual({
+      children: [{ age: 4, unit: 'years', nickname: 'Big Sis' }]
+    });
+    expect(parseChildAges('4, 6', 'years', 'Twins')).toEqual({
+      children: [],
+      error: 'Add one child at a time to give a nickname'
+    });
+  });
+
+  it.each([
+    ['abc', KIDS_AGES_FORMAT_MESSAGE],
+    ['3.5', KIDS_AGES_FORMAT_MESSAGE],
+    ['-2', KIDS_AGES_FORMAT_MESSAGE],
+    ['5 weeks', KIDS_AGES_FORMAT_MESSAGE],
+    ['0', 'Enter ages under 1 in months, e.g. 9 months'],
+    ['24 months', 'Enter ages over 23 months in years']
+  ])('rejects "%s"', (text, error) => {
+    expect(parseChildAges(text, 'years')).toEqual({ children: [], error });
+  });
+});
+
+describe('isChild()', () => {
+  it('accepts stored children with a valid age and unit', () => {
+    expect(isChild({ age: 7, unit: 'years', nickname: 'Sam' })).toBe(true);
+    expect(isChild({ age: 0, unit: 'months' })).toBe(true);
+    expect(isChild({ age: 0, unit: 'years' })).toBe(false);
+    expect(isChild({ age: 24, unit: 'months' })).toBe(false);
+    expect(isChild({ age: 2.5, unit: 'years' })).toBe(false);
+    expect(isChild({ age: 7, unit: 'weeks' })).toBe(false);
+    expect(isChild({ age: 7, unit: 'years', nickname: 3 })).toBe(false);
+    expect(isChild(null)).toBe(false);
+  });
+});
+
+describe('validateChildren()', () => {
+  it('accepts up to 10 children with short nicknames', () => {
+    const children = Array.from({ length: 10 }, (_, index) => ({ age: index + 1, unit: 'years' as const }));
+    expect(validateChildren(children)).toBeUndefined();
+    expect(validateChildren([...children, { age: 3, unit: 'years' }])).toBe('Add at most 10 children');
+  });
+
+  it('rejects nicknames over 30 characters', () => {
+    expect(validateChildren([{ age: 3, unit: 'years', nickname: 'x'.repeat(31) }])).toBe(
+      'Keep nicknames to 30 characters or fewer'
+    );
+  });
+});
+
+describe('planner ages', () => {
+  it('keeps whole years from 1 to 18, counting months from 12 as years', () => {
+    expect(getPlannerAge({ age: 1, unit: 'years' })).toBe(1);
+    expect(getPlannerAge({ age: 18, unit: 'years' })).toBe(18);
+    expect(getPlannerAge({ age: 19, unit: 'years' })).toBeUndefined();
+    expect(getPlannerAge({ age: 11, unit: 'months' })).toBeUndefined();
+    expect(getPlannerAge({ age: 23, unit: 'months' })).toBe(1);
+  });
+
+  it('lists the kept ages in order of entry', () => {
+    expect(
+      toPlannerAges([
+        { age: 7, unit: 'years' },
+        { age: 9, unit: 'months' },
+        { age: 14, unit: 'months' },
+        { age: 30, unit: 'years' }
+      ])
+    ).toEqual([7, 1]);
+  });
+});
+
+describe('describeChild()', () => {
+  it('names the age with its unit and the nickname', () => {
+    expect(describeChild({ age: 7, unit: 'years' })).toBe('7 years');
+    expect(describeChild({ age: 1, unit: 'months' })).toBe('1 month');
+    expect(describeChild({ age: 9, unit: 'months', nickname: 'Sam' })).toBe('Sam (9 months)');
+  });
+});
+
+describe('getIgnoredAgeWarnings()', () => {
+  it('returns no warnings when every child is kept', () => {
+    expect(getIgnoredAgeWarnings([])).toEqual([]);
+    expect(getIgnoredAgeWarnings([{ age: 5, unit: 'years' }])).toEqual([]);
+  });
+
+  it('names the children left out', () => {
+    expect(
+      getIgnoredAgeWarnings([
+        { age: 5, unit: 'years' },
+        { age: 20, unit: 'years' }
+      ])
+    ).toEqual(['The planner only plans for ages 1-18, so it will leave out 20 years.']);
+  });
+
+  it('warns about the assumed ages when every child is left out', () => {
+    expect(getIgnoredAgeWarnings([{ age: 9, unit: 'months', nickname: 'Sam' }])).toEqual([
+      'The planner only plans for ages 1-18, so it will leave out Sam (9 months).',
+      'With no child aged 1-18, the planner will assume kids aged 5 and 8.'
+    ]);
+  });
+});
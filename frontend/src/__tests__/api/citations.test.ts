@@ -0,0 +1,124 @@
+/**
+ * Unit tests for activity source citations (frontend/src/api/citations.ts).
+ *
+ * Test Coverage:
+ * - Bare and Markdown links in free text, with trailing punctuation
+ * - Rejection of non-web links
+ * - Grounding chunks with their supported segments
+ * - Links in session findings and AgentTool results, merged by link
+ * - Matching sources to activities by keyword
+ *
+ * @module __tests__/api/citations.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectSources, extractLinkedSources, findActivitySources } from '../../api/citations';
+import { parseSessionState } from '../../api/sessionState';
+import { mockSessionState } from '../../__mocks__/handlers';
+import type { ADKEvent } from '../../types';
+
+const groundedEvent: ADKEvent = {
+  id: 'evt-research-1',
+  timestamp: 1710498600,
+  author: 'WeekendLocalActivityAgent',
+  content: { role: 'model', parts: [{ text: 'Exploratorium; Golden Gate Park playground' }] },
+  groundingMetadata: {
+    groundingChunks: [
+      { web: { uri: 'https://www.exploratorium.edu/visit', title: 'exploratorium.edu' } },
+      { web: { uri: 'https://goldengatepark.com/playgrounds', title: 'goldengatepark.com' } },
+      { web: { uri: 'javascript:alert(1)', title: 'bad' } }
+    ],
+    groundingSupports: [
+      { segment: { text: 'The Exploratorium has hands-on science exhibits' }, groundingChunkIndices: [0] },
+      { segment: { text: 'Golden Gate Park playground is free and open daily' }, groundingChunkIndices: [1, 2] }
+    ]
+  }
+};
+
+describe('extractLinkedSources()', () => {
+  it('finds bare and Markdown links with the line as context', () => {
+    expect(
+      extractLinkedSources('1. Zoo (https://www.sfzoo.org/visit).\n2. [Bay Area Discovery Museum](https://bayareadiscoverymuseum.org)')
+    ).toEqual([
+      { uri: 'https://www.sfzoo.org/visit', title: 'sfzoo.org', context: '1. zoo (https://www.sfzoo.org/visit).' },
+      {
+        uri: 'https://bayareadiscoverymuseum.org/',
+        title: 'Bay Area Discovery Museum',
+        context: '2. [bay area discovery museum](https://bayareadiscoverymuseum.org)'
+      }
+    ]);
+  });
+
+  it('ignores links that are not http or https', () => {
+    expect(extractLinkedSources('[click](javascript:alert(1)) ftp://files.example.com')).toEqual([]);
+  });
+});
+
+describe('collectSources()', () => {
+  it('uses the segments each grounding chunk supports as its context', () => {
+    const [exploratorium, park, ...rest] = collectSources([groundedEvent]);
+
+    expect(exploratorium.context).toContain('hands-on science exhibits');
+    expect(exploratorium.context).not.toContain('golden gate');
+    expect(park.context).toContain('golden gate park playground');
+    expect(rest).toEqual([]);
+  });
+
+  it('gathers links from findings and tool results, merging repeated links', () => {
+    const toolResult: ADKEvent = {
+      id: 'evt-router-2',
+      timestamp: 1710498601,
+      author: 'WeatherRouter',
+      content: {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              name: 'ActivityResearchGroup',
+              response: { result: 'Community fair: https://sfcommunityfair.org/events' }
+            }
+          }
+        ]
+      }
+    };
+
+    const sources = collectSources([toolResult], parseSessionState(mockSessionState));
+
+    expect(sources.map((source) => source.uri)).toEqual([
+      'https://sfcommunityfair.org/events',
+      'https://www.ferrybuildingmarketplace.com/farmers-market'
+    ]);
+    expect(sources[0].title).toBe('sfcommunityfair.org');
+    expect(sources[0].context).toContain('town center');
+  });
+});
+
+describe('findActivitySources()', () => {
+  const sources = collectSources([groundedEvent], parseSessionState(mockSessionState));
+
+  it('matches sources whose context mentions the activity', () => {
+    expect(
+      findActivitySources({ title: "**Morning**: Visit the local farmer's market for fresh produce" }, sources)
+    ).toEqual([
+      { uri: 'https://www.ferrybuildingmarketplace.com/farmers-market', title: 'ferrybuildingmarketplace.com' }
+    ]);
+    expect(findActivitySources({ title: 'Exploratorium' }, sources)).toEqual([
+      { uri: 'https://www.exploratorium.edu/visit', title: 'exploratorium.edu' }
+    ]);
+  });
+
+  it('does not match on a single shared word', () => {
+    expect(findActivitySources({ title: 'Nature hike at the state park' }, sources)).toEqual([]);
+  });
+
+  it('lists links written in the activity first, without duplicates', () => {
+    const activity = {
+      title: 'Golden Gate Park playground',
+      description: 'Details: https://goldengatepark.com/playgrounds'
+    };
+
+    expect(findActivitySources(activity, sources)).toEqual([
+      { uri: 'https://goldengatepark.com/playgrounds', title: 'goldengatepark.com' }
+    ]);
+  });
+});
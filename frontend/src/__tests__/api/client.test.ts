@@ -16,6 +16,14 @@
  * - generatePlan() malformed JSON response handling
  * - createSession() successful session creation
  * - createSession() session creation failure scenarios
+ * - generatePlanStream() incremental event delivery over run_sse
+ * - generatePlanStream() fallback to the blocking flow when SSE is unavailable
+ * - readEventStream() / appendStreamedText() stream parsing helpers
+ * - refinePlan() follow-up turns in an existing session
+ * - resumePlan() rebuilding plan versions from a stored session, and parse errors for malformed ones
+ * - one session per plan (no separate session creation)
+ * - cancellation through an external AbortSignal
+ * - retry policy: backoff with jitter, Retry-After, retry-safe steps only
  * 
  * @module __tests__/api/client.test
  */
@@ -25,10 +33,29 @@ import { http, HttpResponse } from 'msw';
 import { 
   server, 
   create500Handler,
-  createMalformedJsonHandler 
+  createDelayedHandler,
+  createMalformedJsonHandler,
+  createNetworkErrorHandler,
+  createSessionFailureHandler,
+  createSseHandler,
+  mockErrorResponse,
+  mockStreamEvents,
+  mockSessions,
+  mockSessionState
 } from '../../__mocks__/handlers';
-import { createSession, generatePlan } from '../../api/client';
-import type { GeneratePlanInput } from '../../types';
+import {
+  createSession,
+  generatePlan,
+  generatePlanStream,
+  refinePlan,
+  resumePlan,
+  readEventStream,
+  appendStreamedText,
+  getRetryDelay,
+  parseRetryAfter,
+  DEFAULT_RETRY_POLICY
+} from '../../api/client';
+import type { ADKEvent, GeneratePlanInput } from '../../types';
 
 // ============================================================================
 // Test Data Constants
@@ -113,6 +140,7 @@ describe('API Client', () => {
         // Assert timeout error handling
         expect(result.success).toBe(false);
         expect(result.error).toBeDefined();
+        expect(result.error!.kind).toBe('timeout');
         expect(result.error!.message).toBe('Request timed out. Please try again.');
       } finally {
         // Restore original fetch
@@ -127,11 +155,11 @@ describe('API Client', () => {
      * and extracts error details from the response body.
      * 
      * The two-step session flow uses the session endpoint for both operations.
-     * Session creation (empty body) succeeds, message sending returns 400.
+     * Session creation (no new_message) succeeds, message sending returns 400.
      */
     it('handles 400 Bad Request with structured error', async () => {
       // Set up handler that supports two-step flow:
-      // - Session creation (empty body) succeeds
+      // - Session creation (no new_message) succeeds
       // - Message sending (with new_message) returns 400
       server.use(
         http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
@@ -146,9 +174,9 @@ describe('API Client', () => {
             body = null;
           }
 
-          const isEmpty = !body || Object.keys(body).length === 0;
+          const isCreation = !body || !('new_message' in body);
           
-          if (isEmpty) {
+          if (isCreation) {
             // Session creation succeeds
             return HttpResponse.json({}, { status: 200 });
           }
@@ -167,8 +195,9 @@ describe('API Client', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBeDefined();
       
-      // Assert error message contains "Invalid request" prefix
-      expect(result.error!.message).toContain('Invalid request');
+      // Assert a client error whose message carries the server's reason
+      expect(result.error!.kind).toBe('client');
+      expect(result.error!.message).toBe('Invalid request: Invalid input');
       
       // Assert status code is captured
       expect(result.error!.statusCode).toBe(400);
@@ -191,6 +220,7 @@ describe('API Client', () => {
       expect(result.error).toBeDefined();
       
       // Assert user-friendly error message for server errors
+      expect(result.error!.kind).toBe('server');
       expect(result.error!.message).toBe('Something went wrong on the server. Please try again.');
       
       // Assert status code is captured
@@ -214,7 +244,85 @@ describe('API Client', () => {
       expect(result.error).toBeDefined();
       
       // Assert specific error message for JSON parse failures
+      expect(result.error!.kind).toBe('parse');
       expect(result.error!.message).toBe('Received an unexpected response format');
+      expect(result.error!.decodeFailure).toMatchObject({ path: '$', snippet: 'not valid json {{{' });
+    });
+
+    /**
+     * Verifies a response that is JSON but not an event array is
+     * reported as a parse error pointing at the invalid value.
+     */
+    it('reports events with missing fields as a parse error with their path', async () => {
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          const text = await request.text();
+          if (!text.includes('new_message')) {
+            return HttpResponse.json({ status: 'created' }, { status: 200 });
+          }
+          return HttpResponse.json([{ id: 'evt-1', timestamp: '2024-03-15T10:30:00Z', content: { parts: [] } }]);
+        })
+      );
+
+      const result = await generatePlan(validInput);
+
+      expect(result.error!.kind).toBe('parse');
+      expect(result.error!.decodeFailure).toEqual({
+        path: '$[0].author',
+        reason: 'expected a string, got nothing',
+        snippet: '{"id":"evt-1","timestamp":"2024-03-15T10:30:00Z","content":{"parts":[]}}'
+      });
+    });
+
+    /**
+     * Verifies an unreachable backend is reported as a network error.
+     * The reachability probe fails as well, so it is not mistaken for CORS.
+     */
+    it('reports an unreachable backend as a network error', async () => {
+      server.use(createNetworkErrorHandler());
+
+      const result = await generatePlan(validInput);
+
+      expect(result.error!.kind).toBe('network');
+      expect(result.error!.message).toMatch(/couldn't reach the backend/i);
+    });
+
+    /**
+     * Verifies a blocked response from a backend that answers the no-cors
+     * probe is reported as a CORS error.
+     */
+    it('reports a blocked response from a reachable backend as a CORS error', async () => {
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', () => HttpResponse.error())
+      );
+
+      const result = await generatePlan(validInput);
+
+      expect(result.error!.kind).toBe('cors');
+      expect(result.error!.message).toBe('Connection blocked. See README for proxy setup.');
+    });
+
+    /**
+     * Verifies a failed session creation is reported as session-failed.
+     */
+    it('reports a failed session creation as session-failed', async () => {
+      server.use(createSessionFailureHandler());
+
+      const result = await generatePlan(validInput, { retry: { baseDelayMs: 1 } });
+
+      expect(result.error!.kind).toBe('session-failed');
+      expect(result.error!.statusCode).toBe(500);
+    });
+
+    /**
+     * Verifies 429 responses are reported as rate-limited.
+     */
+    it('reports 429 as rate-limited', async () => {
+      server.use(mockErrorResponse(429, { detail: 'Too many requests' }));
+
+      const result = await generatePlan(validInput, { retry: { maxAttempts: 1 } });
+
+      expect(result.error).toMatchObject({ kind: 'rate-limited', statusCode: 429, retryable: true });
     });
 
     // ==========================================================================
@@ -225,7 +333,7 @@ describe('API Client', () => {
      * Test 6: Creates session before sending plan request
      * 
      * Verifies the two-step session flow is correctly implemented:
-     * 1. First request creates session with empty body
+     * 1. First request creates session seeded with the form input
      * 2. Second request sends plan request with new_message payload
      */
     it('creates session before sending plan request', async () => {
@@ -258,11 +366,11 @@ describe('API Client', () => {
               body = null;
             }
             
-            const isEmpty = !body || Object.keys(body).length === 0;
-            requestsReceived.push({ body: isEmpty ? {} : body });
+            const isCreation = !body || !('new_message' in body);
+            requestsReceived.push({ body });
             
-            // Empty body = session creation, return success
-            if (isEmpty) {
+            // No new_message = session creation, return success
+            if (isCreation) {
               return HttpResponse.json({ status: 'created' }, { status: 200 });
             }
             
@@ -277,8 +385,10 @@ describe('API Client', () => {
       // Should have received exactly 2 requests: session creation + message
       expect(requestsReceived.length).toBe(2);
       
-      // First request should have empty body (session creation)
-      expect(requestsReceived[0].body).toEqual({});
+      // First request should seed the session state with the form input
+      expect(requestsReceived[0].body).toEqual({
+        user_input: { zip_code: validInput.location, kid_ages: validInput.kidsAges.join(',') }
+      });
       
       // Second request should have new_message (plan generation)
       expect(requestsReceived[1].body).toHaveProperty('new_message');
@@ -323,10 +433,10 @@ describe('API Client', () => {
               body = null;
             }
             
-            const isEmpty = !body || Object.keys(body).length === 0;
+            const isCreation = !body || !('new_message' in body);
             
             // Return appropriate response based on request type
-            if (isEmpty) {
+            if (isCreation) {
               return HttpResponse.json({ status: 'created' }, { status: 200 });
             }
             
@@ -387,15 +497,15 @@ describe('API Client', () => {
               body = null;
             }
             
-            const isEmpty = !body || Object.keys(body).length === 0;
+            const isCreation = !body || !('new_message' in body);
             
-            // Capture the message payload (not the empty session creation request)
-            if (!isEmpty && body && body.new_message) {
+            // Capture the message payload (not the session creation request)
+            if (!isCreation && body && body.new_message) {
               capturedPayload = body;
             }
             
             // Return appropriate response based on request type
-            if (isEmpty) {
+            if (isCreation) {
               return HttpResponse.json({ status: 'created' }, { status: 200 });
             }
             
@@ -426,6 +536,714 @@ describe('API Client', () => {
       const messageText = newMessage.parts[0].text;
       expect(messageText.length).toBeGreaterThan(0);
     });
+
+    /**
+     * Verifies learned preferences are appended to the prompt after the input.
+     */
+    it('adds learned preferences to the prompt', async () => {
+      let messageText = '';
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          const body = JSON.parse((await request.text()) || '{}');
+          if (!body.new_message) {
+            return HttpResponse.json({ status: 'created' }, { status: 200 });
+          }
+          messageText = body.new_message.parts[0].text;
+          return HttpResponse.json([], { status: 200 });
+        })
+      );
+
+      await generatePlan(
+        { location: '94105', kidsAges: [5, 8] },
+        { learnedPreferences: 'Our family enjoyed activities like "Zoo".' }
+      );
+
+      expect(messageText).toBe(
+        'Plan a weekend trip for zip code 94105. We have kids ages 5, 8. Our family enjoyed activities like "Zoo".'
+      );
+    });
+
+    /**
+     * Verifies weekend dates and planning preferences are described in the prompt and stored in session state.
+     */
+    it('adds weekend dates and planning preferences to the prompt and session state', async () => {
+      let messageText = '';
+      let createState: Record<string, unknown> = {};
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          const body = JSON.parse((await request.text()) || '{}');
+          if (!body.new_message) {
+            createState = body;
+            return HttpResponse.json({ status: 'created' }, { status: 200 });
+          }
+          messageText = body.new_message.parts[0].text;
+          return HttpResponse.json([], { status: 200 });
+        })
+      );
+
+      await generatePlan(
+        {
+          location: '94105',
+          kidsAges: [5],
+          dates: { start: '2026-09-05', end: '2026-09-07', holiday: 'Labor Day' },
+          preferences: { budget: 'moderate', maxTravelMiles: 20 }
+        },
+        { learnedPreferences: 'Our family enjoyed activities like "Zoo".' }
+      );
+
+      expect(messageText).toBe(
+        'Plan a weekend trip for zip code 94105. We have kids ages 5. ' +
+          'The trip is for Saturday, September 5 to Monday, September 7, 2026. It is the Labor Day long weekend. ' +
+          'Keep each activity under $50 per person. Stay within 20 miles of the zip code. ' +
+          'Our family enjoyed activities like "Zoo".'
+      );
+      expect(createState.weekend_dates).toEqual({ start: '2026-09-05', end: '2026-09-07', holiday: 'Labor Day' });
+      expect(createState.planning_preferences).toEqual({ budget: 'moderate', max_travel_miles: 20 });
+    });
+  });
+
+  // ==========================================================================
+  // Test Suite: Cancellation
+  // ==========================================================================
+
+  describe('cancellation', () => {
+    /**
+     * Verifies aborting mid-request reports a cancelled error, not a timeout.
+     */
+    it('reports a cancelled result when generatePlan is aborted', async () => {
+      server.use(createDelayedHandler(1000));
+      const controller = new AbortController();
+
+      const pending = generatePlan(validInput, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 50);
+      const result = await pending;
+
+      expect(result).toEqual({ success: false, error: { kind: 'cancelled', message: 'The request was cancelled.' } });
+    });
+
+    /**
+     * Verifies an already aborted signal cancels before any request is made.
+     */
+    it('cancels without sending requests when the signal is already aborted', async () => {
+      const requests: string[] = [];
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', ({ request }) => {
+          requests.push(request.url);
+          return HttpResponse.json({ status: 'created' }, { status: 200 });
+        })
+      );
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await generatePlan(validInput, { signal: controller.signal });
+
+      expect(result.error?.kind).toBe('cancelled');
+      expect(requests).toEqual([]);
+    });
+
+    /**
+     * Verifies aborting a stream stops event delivery and reports cancellation.
+     */
+    it('reports a cancelled result when generatePlanStream is aborted mid-stream', async () => {
+      server.use(createSseHandler(undefined, 100));
+      const controller = new AbortController();
+      const received: ADKEvent[] = [];
+
+      const result = await generatePlanStream(
+        validInput,
+        {
+          onEvent: (event) => {
+            received.push(event);
+            controller.abort();
+          }
+        },
+        { signal: controller.signal }
+      );
+
+      expect(result.error?.kind).toBe('cancelled');
+      expect(received).toHaveLength(1);
+    });
+
+    /**
+     * Verifies refinements can be cancelled the same way.
+     */
+    it('reports a cancelled result when refinePlan is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await refinePlan('session-1', validInput, 'More parks', {}, { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.kind).toBe('cancelled');
+    });
+  });
+
+  // ==========================================================================
+  // Test Suite: Retry policy
+  // ==========================================================================
+
+  describe('retry policy', () => {
+    /** Near-instant backoff so retries do not slow the suite down */
+    const fastRetry = { baseDelayMs: 1, jitterRatio: 0 };
+
+    /**
+     * Creates a session endpoint handler that answers message steps with
+     * the given responses in order, then with the mock plan.
+     */
+    const sequenceHandler = (responses: Array<() => Response>, log: string[]) =>
+      http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+        const text = await request.text();
+        if (!text.includes('new_message')) {
+          log.push('create');
+          return HttpResponse.json({ status: 'created' }, { status: 200 });
+        }
+        log.push('message');
+        const next = responses.shift();
+        return next ? next() : HttpResponse.json(mockStreamEvents.filter((event) => !event.partial), { status: 200 });
+      });
+
+    it('retries a message step on 503 and succeeds', async () => {
+      const log: string[] = [];
+      server.use(sequenceHandler([() => HttpResponse.json({ detail: 'busy' }, { status: 503 })], log));
+
+      const result = await generatePlan(validInput, { retry: fastRetry });
+
+      expect(result.success).toBe(true);
+      expect(log).toEqual(['create', 'message', 'message']);
+    });
+
+    it('does not retry a message step on 500', async () => {
+      const log: string[] = [];
+      server.use(sequenceHandler([() => HttpResponse.json({ detail: 'boom' }, { status: 500 })], log));
+
+      const result = await generatePlan(validInput, { retry: fastRetry });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.retryable).toBeUndefined();
+      expect(log).toEqual(['create', 'message']);
+    });
+
+    it('gives up after maxAttempts and reports the error as retryable', async () => {
+      const log: string[] = [];
+      const tooMany = () => HttpResponse.json({ detail: 'slow down' }, { status: 429, headers: { 'Retry-After': '0' } });
+      server.use(sequenceHandler([tooMany, tooMany, tooMany], log));
+
+      const result = await generatePlan(validInput, { retry: { ...fastRetry, maxAttempts: 2 } });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ kind: 'rate-limited', statusCode: 429, retryable: true, retryAfterMs: 0 });
+      expect(log).toEqual(['create', 'message', 'message']);
+    });
+
+    it('does not wait for a Retry-After longer than maxDelayMs', async () => {
+      const log: string[] = [];
+      server.use(
+        sequenceHandler([() => HttpResponse.json({}, { status: 503, headers: { 'Retry-After': '120' } })], log)
+      );
+
+      const result = await generatePlan(validInput, { retry: fastRetry });
+
+      expect(result.error).toMatchObject({ statusCode: 503, retryable: true, retryAfterMs: 120000 });
+      expect(log).toEqual(['create', 'message']);
+    });
+
+    it('retries session creation after a network error', async () => {
+      let creations = 0;
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          const text = await request.text();
+          if (text.includes('new_message')) {
+            return HttpResponse.json(mockStreamEvents.filter((event) => !event.partial), { status: 200 });
+          }
+          creations += 1;
+          return creations === 1 ? HttpResponse.error() : HttpResponse.json({ status: 'created' }, { status: 200 });
+        })
+      );
+
+      const result = await generatePlanStream(validInput, {}, { retry: fastRetry });
+
+      expect(result.success).toBe(true);
+      expect(creations).toBe(2);
+    });
+
+    it('treats 409 on a session creation retry as created', async () => {
+      const statuses = [502, 409];
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          const text = await request.text();
+          if (text.includes('new_message')) {
+            return HttpResponse.json(mockStreamEvents.filter((event) => !event.partial), { status: 200 });
+          }
+          return HttpResponse.json({ detail: 'Session exists' }, { status: statuses.shift() ?? 200 });
+        })
+      );
+
+      const result = await generatePlan(validInput, { retry: fastRetry });
+
+      expect(result.success).toBe(true);
+      expect(statuses).toEqual([]);
+    });
+
+    it('computes exponential backoff with jitter, capped at maxDelayMs', () => {
+      expect(getRetryDelay(1, DEFAULT_RETRY_POLICY, () => 0)).toBe(500);
+      expect(getRetryDelay(2, DEFAULT_RETRY_POLICY, () => 0)).toBe(1000);
+      expect(getRetryDelay(2, DEFAULT_RETRY_POLICY, () => 1)).toBe(500);
+      expect(getRetryDelay(10, DEFAULT_RETRY_POLICY, () => 0)).toBe(8000);
+    });
+
+    it('parses Retry-After seconds and HTTP dates', () => {
+      const now = Date.parse('2024-03-15T12:00:00Z');
+
+      expect(parseRetryAfter('7', now)).toBe(7000);
+      expect(parseRetryAfter('Fri, 15 Mar 2024 12:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Fri, 15 Mar 2024 11:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  // ==========================================================================
+  // Test Suite: generatePlanStream()
+  // ==========================================================================
+
+  describe('generatePlanStream()', () => {
+    /**
+     * Verifies every streamed event reaches onEvent in order, while the
+     * final rawResponse keeps only complete (non-partial) events.
+     */
+    it('reports each event as it arrives and returns complete events', async () => {
+      server.use(createSseHandler());
+      const received: ADKEvent[] = [];
+
+      const result = await generatePlanStream(validInput, {
+        onEvent: (event) => received.push(event)
+      });
+
+      expect(received.map((event) => event.id)).toEqual(mockStreamEvents.map((event) => event.id));
+      expect(result.success).toBe(true);
+      expect(result.rawResponse).toHaveLength(3);
+      expect(result.rawResponse!.some((event) => event.partial)).toBe(false);
+      expect(result.planText).toContain('Weekend Plan for Your Family');
+      expect(result.planText).toContain('Disclaimer');
+    });
+
+    /**
+     * Verifies the run_sse request body follows ADK's RunAgentRequest shape
+     * and targets the session created in step 1.
+     */
+    it('sends an ADK run request to /run_sse for the created session', async () => {
+      let createdSessionId = '';
+      let runBody: Record<string, unknown> | null = null;
+
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', ({ params }) => {
+          createdSessionId = params.session as string;
+          return HttpResponse.json({ status: 'created' }, { status: 200 });
+        }),
+        http.post('http://localhost:8000/run_sse', async ({ request }) => {
+          runBody = await request.json() as Record<string, unknown>;
+          return new HttpResponse('', { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+        })
+      );
+
+      await generatePlanStream(validInput);
+
+      expect(runBody).toMatchObject({
+        app_name: 'WeekendPlanner',
+        user_id: 'user-1',
+        session_id: createdSessionId,
+        streaming: true,
+        new_message: { role: 'user' }
+      });
+    });
+
+    /**
+     * Verifies the blocking flow is used when the server has no SSE endpoint.
+     * The default handlers answer /run_sse with 404.
+     */
+    it('falls back to the blocking message request when SSE is unavailable', async () => {
+      const onEvent = vi.fn();
+
+      const result = await generatePlanStream(validInput, { onEvent });
+
+      expect(result.success).toBe(true);
+      expect(result.planText).toContain('Weekend Plan for Your Family');
+      expect(result.rawResponse).toHaveLength(3);
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies HTTP errors from run_sse are reported, not retried as fallback.
+     */
+    it('handles 500 Internal Server Error from run_sse', async () => {
+      server.use(
+        http.post('http://localhost:8000/run_sse', () =>
+          HttpResponse.json({ detail: 'boom' }, { status: 500 })
+        )
+      );
+
+      const result = await generatePlanStream(validInput);
+
+      expect(result.success).toBe(false);
+      expect(result.error!.message).toBe('Something went wrong on the server. Please try again.');
+      expect(result.error!.statusCode).toBe(500);
+    });
+
+    /**
+     * Verifies an ADK error payload inside the stream ends the run with an error.
+     */
+    it('handles an error payload in the stream', async () => {
+      server.use(createSseHandler([mockStreamEvents[0], { error: 'Model quota exceeded' }]));
+      const onEvent = vi.fn();
+
+      const result = await generatePlanStream(validInput, { onEvent });
+
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(false);
+      expect(result.error!.message).toBe('Something went wrong on the server. Please try again.');
+      expect(result.error!.body).toBe('Model quota exceeded');
+    });
+
+    /**
+     * Verifies an invalid streamed event ends the run with a parse error
+     * that names the event's position in the stream.
+     */
+    it('reports an invalid streamed event as a parse error', async () => {
+      server.use(createSseHandler([mockStreamEvents[0], { ...mockStreamEvents[1], author: 7 }]));
+      const onEvent = vi.fn();
+
+      const result = await generatePlanStream(validInput, { onEvent });
+
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(result.error!.kind).toBe('parse');
+      expect(result.error!.decodeFailure).toMatchObject({ path: '$[1].author', reason: 'expected a string, got a number' });
+    });
+
+    /**
+     * Verifies a `data: null` line is a parse error, not a network failure.
+     */
+    it('reports a null streamed payload as a parse error', async () => {
+      server.use(createSseHandler([mockStreamEvents[0], null]));
+
+      const result = await generatePlanStream(validInput);
+
+      expect(result.error!.kind).toBe('parse');
+      expect(result.error!.decodeFailure).toMatchObject({ path: '$[1]' });
+    });
+  });
+
+  // ==========================================================================
+  // Test Suite: refinePlan()
+  // ==========================================================================
+
+  describe('refinePlan()', () => {
+    /**
+     * Verifies follow-up turns reuse the given session without creating a new
+     * one, and repeat the original input alongside the refinement request.
+     */
+    it('sends the follow-up to the existing session without creating a new one', async () => {
+      const requests: { session: string; body: Record<string, unknown> }[] = [];
+
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ params, request }) => {
+          requests.push({ session: params.session as string, body: await request.json() as Record<string, unknown> });
+          return HttpResponse.json(mockStreamEvents.filter((event) => !event.partial), { status: 200 });
+        })
+      );
+
+      const result = await refinePlan('existing-session', validInput, 'Swap the museum for something outdoors');
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].session).toBe('existing-session');
+
+      const text = (requests[0].body as { new_message: { parts: Array<{ text: string }> } }).new_message.parts[0].text;
+      expect(text).toContain('94105');
+      expect(text).toContain('5, 8');
+      expect(text).toContain('Swap the museum for something outdoors');
+
+      expect(result.success).toBe(true);
+      expect(result.sessionId).toBe('existing-session');
+    });
+
+    /**
+     * Verifies the learned preferences are repeated before the refinement request.
+     */
+    it('repeats the learned preferences in the refinement prompt', async () => {
+      let messageText = '';
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          messageText = ((await request.json()) as { new_message: { parts: Array<{ text: string }> } }).new_message
+            .parts[0].text;
+          return HttpResponse.json(mockStreamEvents.filter((event) => !event.partial), { status: 200 });
+        })
+      );
+
+      await refinePlan('existing-session', validInput, 'More outdoor time', {}, {
+        learnedPreferences: 'Our family enjoyed activities like "Zoo".'
+      });
+
+      expect(messageText).toBe(
+        'Plan a weekend trip for zip code 94105. We have kids ages 5, 8. Our family enjoyed activities like "Zoo". ' +
+          'Please update the previous plan: More outdoor time'
+      );
+    });
+
+    /**
+     * Verifies refinements stream over run_sse when available.
+     */
+    it('streams the refinement over run_sse', async () => {
+      server.use(createSseHandler());
+
+      const onEvent = vi.fn();
+      const result = await refinePlan('existing-session', validInput, 'More outdoor time', { onEvent });
+
+      expect(onEvent).toHaveBeenCalledTimes(mockStreamEvents.length);
+      expect(result.success).toBe(true);
+      expect(result.sessionId).toBe('existing-session');
+      expect(result.planText).toContain('Weekend Plan for Your Family');
+    });
+
+    /**
+     * Verifies the session state written during the run is read back and typed.
+     */
+    it('attaches the session state written by the agents', async () => {
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions/:session', ({ params }) =>
+          HttpResponse.json({ ...mockSessions[1], id: params.session, state: mockSessionState })
+        )
+      );
+
+      const result = await generatePlanStream(validInput);
+
+      expect(result.sessionState).toMatchObject({
+        parsedInput: { zipCode: '94105', kidAges: [5, 8] },
+        weatherForecast: 'good'
+      });
+      expect(result.sessionState?.localActivitiesFindings).toContain('Golden Gate Park');
+    });
+
+    /**
+     * Verifies a failed state lookup does not fail the plan.
+     */
+    it('still succeeds when the session state cannot be read', async () => {
+      const result = await generatePlanStream(validInput);
+
+      expect(result.success).toBe(true);
+      expect(result.sessionState).toBeUndefined();
+    });
+
+    /**
+     * Verifies a streaming plan run creates exactly one session and runs in it.
+     */
+    it('creates exactly one session per plan', async () => {
+      const createdSessions: string[] = [];
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ params, request }) => {
+          const text = await request.text();
+          if (!text.includes('new_message')) {
+            createdSessions.push(params.session as string);
+            return HttpResponse.json({ status: 'created' }, { status: 200 });
+          }
+          return HttpResponse.json(mockStreamEvents.filter((event) => !event.partial), { status: 200 });
+        })
+      );
+
+      const result = await generatePlanStream(validInput);
+
+      expect(createdSessions).toEqual([result.sessionId]);
+    });
+
+    /**
+     * Verifies the session ID is attached to first-turn results so they can be refined.
+     */
+    it('is paired with generatePlanStream() results that carry the session ID', async () => {
+      const result = await generatePlanStream(validInput);
+
+      expect(result.success).toBe(true);
+      expect(result.sessionId).toMatch(/^[0-9a-f-]{36}$/i);
+    });
+  });
+
+  // ==========================================================================
+  // Test Suite: resumePlan()
+  // ==========================================================================
+
+  describe('resumePlan()', () => {
+    /**
+     * Verifies a stored session is rebuilt into a plan with its original input.
+     */
+    it('rebuilds the plan and input from the stored events', async () => {
+      const resumed = await resumePlan('session-recent-0002');
+
+      expect(resumed.result.success).toBe(true);
+      expect(resumed.result.sessionId).toBe('session-recent-0002');
+      expect(resumed.result.planText).toContain('Weekend Plan for Your Family');
+      expect(resumed.result.planText).not.toContain('Plan a weekend trip for zip code');
+      expect(resumed.versions).toHaveLength(1);
+      expect(resumed.refinements).toEqual([]);
+      expect(resumed.input).toEqual({ location: '94105', kidsAges: [5, 8] });
+      expect(resumed.result.sessionState?.weatherForecast).toBe('good');
+    });
+
+    /**
+     * Verifies weekend dates and planning preferences are recovered from the session state.
+     */
+    it('restores weekend dates and planning preferences from the session state', async () => {
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions/:session', () =>
+          HttpResponse.json({
+            ...mockSessions[1],
+            state: {
+              ...mockSessions[1].state,
+              weekend_dates: { start: '2026-10-24', end: '2026-10-25' },
+              planning_preferences: { setting: 'outdoor', interests: ['trains'] }
+            }
+          })
+        )
+      );
+
+      const resumed = await resumePlan('session-recent-0002');
+
+      expect(resumed.input).toEqual({
+        location: '94105',
+        kidsAges: [5, 8],
+        dates: { start: '2026-10-24', end: '2026-10-25' },
+        preferences: { setting: 'outdoor', interests: ['trains'] }
+      });
+    });
+
+    /**
+     * Verifies each refinement turn becomes its own version.
+     */
+    it('restores refinement turns as plan versions', async () => {
+      const summary = (id: string, text: string) => ({
+        id,
+        timestamp: 't',
+        author: 'SummarizerAgent',
+        content: { role: 'model', parts: [{ text }] }
+      });
+      const userTurn = (id: string, text: string) => ({
+        id,
+        timestamp: 't',
+        author: 'user',
+        content: { role: 'user', parts: [{ text }] }
+      });
+
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions/:session', () =>
+          HttpResponse.json({
+            ...mockSessions[1],
+            events: [
+              userTurn('u1', 'Plan a weekend trip for zip code 02138.'),
+              summary('s1', 'Original plan'),
+              userTurn('u2', 'Plan a weekend trip for zip code 02138. Please update the previous plan: more parks'),
+              summary('s2', 'Plan with more parks')
+            ]
+          })
+        )
+      );
+
+      const resumed = await resumePlan('session-recent-0002');
+
+      expect(resumed.versions.map((version) => version.planText)).toEqual(['Original plan', 'Plan with more parks']);
+      expect(resumed.refinements).toEqual(['more parks']);
+      expect(resumed.result.planText).toBe('Plan with more parks');
+      expect(resumed.input).toEqual({ location: '02138', kidsAges: [] });
+    });
+
+    /**
+     * Verifies lookup failures are reported as a failed result.
+     */
+    it('returns a failed result when the session cannot be loaded', async () => {
+      const resumed = await resumePlan('missing-session');
+
+      expect(resumed.result.success).toBe(false);
+      expect(resumed.result.error!.kind).toBe('session-failed');
+      expect(resumed.result.error!.statusCode).toBe(404);
+      expect(resumed.versions).toEqual([]);
+    });
+
+    /**
+     * Verifies a malformed session is a parse error naming the failing path,
+     * not a network failure.
+     */
+    it('reports a malformed session as a parse error', async () => {
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions/:session', () =>
+          HttpResponse.json({ ...mockSessions[1], events: 'none' })
+        )
+      );
+
+      const resumed = await resumePlan('session-recent-0002');
+
+      expect(resumed.result.success).toBe(false);
+      expect(resumed.result.error!.kind).toBe('parse');
+      expect(resumed.result.error!.decodeFailure?.path).toBe('$.events');
+      expect(resumed.versions).toEqual([]);
+    });
+  });
+
+  // ==========================================================================
+  // Test Suite: Stream helpers
+  // ==========================================================================
+
+  describe('readEventStream()', () => {
+    /**
+     * Builds a ReadableStream that emits the given string chunks.
+     */
+    const streamOf = (chunks: string[]): ReadableStream<Uint8Array> => {
+      const encoder = new TextEncoder();
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+          controller.close();
+        }
+      });
+    };
+
+    it('reassembles events split across chunks and CRLF line endings', async () => {
+      const body = streamOf([
+        'data: {"id":"1","timestamp":"t","au',
+        'thor":"WeatherAgent"}\r\n\r\n: keep-alive\r\n\r\n',
+        'data: {"id":"2","timestamp":"t","author":"SummarizerAgent"}'
+      ]);
+
+      const events: ADKEvent[] = [];
+      for await (const event of readEventStream(body)) {
+        events.push(event);
+      }
+
+      expect(events.map((event) => event.author)).toEqual(['WeatherAgent', 'SummarizerAgent']);
+    });
+  });
+
+  describe('appendStreamedText()', () => {
+    const summaryEvent = (text: string, partial?: boolean): ADKEvent => ({
+      id: text,
+      timestamp: 't',
+      author: 'SummarizerAgent',
+      partial,
+      content: { role: 'model', parts: [{ text }] }
+    });
+
+    it('appends partial chunks and replaces them with the final summary', () => {
+      let text = appendStreamedText('', summaryEvent('Hello ', true));
+      text = appendStreamedText(text, summaryEvent('world', true));
+      expect(text).toBe('Hello world');
+
+      expect(appendStreamedText(text, summaryEvent('Hello world!'))).toBe('Hello world!');
+    });
+
+    it('ignores events from other agents', () => {
+      const weatherEvent: ADKEvent = {
+        id: 'w',
+        timestamp: 't',
+        author: 'WeatherAgent',
+        content: { role: 'model', parts: [{ text: 'good' }] }
+      };
+
+      expect(appendStreamedText('Draft', weatherEvent)).toBe('Draft');
+    });
   });
 
   // ==========================================================================
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for PlanError construction (frontend/src/api/errors.ts).
+ *
+ * Test Coverage:
+ * - Standard messages per error kind
+ * - HTTP status classification: rate-limited, client and server errors
+ * - Server reasons extracted from detail, message and error fields
+ * - Session failures, with 429 still reported as rate-limited
+ *
+ * @module __tests__/api/errors.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHttpError, createPlanError, createSessionError, PLAN_ERROR_MESSAGES } from '../../api/errors';
+
+describe('createPlanError()', () => {
+  it('uses the standard message for the kind', () => {
+    expect(createPlanError('timeout')).toEqual({ kind: 'timeout', message: 'Request timed out. Please try again.' });
+  });
+
+  it('keeps technical details', () => {
+    expect(createPlanError('parse', { statusCode: 200, body: 'Unexpected token <' })).toEqual({
+      kind: 'parse',
+      message: PLAN_ERROR_MESSAGES.parse,
+      statusCode: 200,
+      body: 'Unexpected token <'
+    });
+  });
+});
+
+describe('createHttpError()', () => {
+  it('classifies 429 as rate-limited and always retryable', () => {
+    expect(createHttpError(429, '', { retryAfterMs: 5000 })).toEqual({
+      kind: 'rate-limited',
+      message: PLAN_ERROR_MESSAGES['rate-limited'],
+      statusCode: 429,
+      body: '',
+      retryable: true,
+      retryAfterMs: 5000
+    });
+  });
+
+  it('puts the reason of a 4xx response in the message', () => {
+    expect(createHttpError(422, '{"detail": "zip_code is required"}').message).toBe(
+      'Invalid request: zip_code is required'
+    );
+    expect(createHttpError(400, '{"message": "Bad zip"}').message).toBe('Invalid request: Bad zip');
+    expect(createHttpError(404, 'Not Found').message).toBe('Invalid request: Not Found');
+    expect(createHttpError(400, '').message).toBe(PLAN_ERROR_MESSAGES.client);
+  });
+
+  it('serializes structured reasons', () => {
+    const error = createHttpError(422, '{"detail": [{"loc": ["body"], "msg": "field required"}]}');
+
+    expect(error.kind).toBe('client');
+    expect(error.message).toBe('Invalid request: [{"loc":["body"],"msg":"field required"}]');
+  });
+
+  it('classifies 5xx as server errors with retry details', () => {
+    expect(createHttpError(503, 'Unavailable', { retryable: true })).toEqual({
+      kind: 'server',
+      message: PLAN_ERROR_MESSAGES.server,
+      statusCode: 503,
+      body: 'Unavailable',
+      retryable: true
+    });
+  });
+});
+
+describe('createSessionError()', () => {
+  it('reports session failures as session-failed', () => {
+    expect(createSessionError(404, '{"detail": "Session not found"}')).toMatchObject({
+      kind: 'session-failed',
+      statusCode: 404,
+      body: '{"detail": "Session not found"}'
+    });
+  });
+
+  it('still reports 429 as rate-limited', () => {
+    expect(createSessionError(429).kind).toBe('rate-limited');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for learned activity preferences (frontend/src/api/feedback.ts).
+ *
+ * Test Coverage:
+ * - Profiles per zip code and household
+ * - Rating, re-rating and removing activities
+ * - Clearing profiles, and unreadable storage
+ * - The prompt summary of liked and disliked activities
+ *
+ * @module __tests__/api/feedback.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  clearAllFeedback,
+  clearFeedbackProfile,
+  getActivityRating,
+  getFeedbackProfile,
+  getFeedbackProfileId,
+  listFeedbackProfiles,
+  MAX_PROMPT_FEEDBACK,
+  rateActivity,
+  removeActivityFeedback,
+  summarizeFeedback
+} from '../../api/feedback';
+
+const input = { location: '94105', kidsAges: [8, 5] };
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('getFeedbackProfileId()', () => {
+  it('identifies the zip code and household regardless of age order', () => {
+    expect(getFeedbackProfileId(input)).toBe('94105|5,8');
+    expect(getFeedbackProfileId({ location: ' 94105 ', kidsAges: [5, 8] })).toBe('94105|5,8');
+  });
+});
+
+describe('rateActivity()', () => {
+  it('keeps separate profiles per zip code and household', () => {
+    rateActivity(input, '**Exploratorium**', 'like', 1);
+    rateActivity({ location: '94105', kidsAges: [3] }, 'Zoo', 'dislike', 2);
+    rateActivity({ location: '10001', kidsAges: [5, 8] }, 'Zoo', 'like', 3);
+
+    expect(getFeedbackProfile(input)).toEqual({
+      id: '94105|5,8',
+      location: '94105',
+      kidsAges: [5, 8],
+      feedback: [{ title: 'Exploratorium', rating: 'like', ratedAt: 1 }]
+    });
+    expect(listFeedbackProfiles().map((profile) => profile.id)).toEqual(['10001|5,8', '94105|3', '94105|5,8']);
+  });
+
+  it('replaces an earlier rating of the same activity, newest first', () => {
+    rateActivity(input, 'Zoo', 'like', 1);
+    rateActivity(input, 'Park', 'like', 2);
+    const profile = rateActivity(input, 'ZOO!', 'dislike', 3);
+
+    expect(profile?.feedback).toEqual([
+      { title: 'ZOO!', rating: 'dislike', ratedAt: 3 },
+      { title: 'Park', rating: 'like', ratedAt: 2 }
+    ]);
+    expect(getActivityRating(profile, '*Zoo*')).toBe('dislike');
+    expect(getActivityRating(profile, 'Aquarium')).toBeUndefined();
+  });
+
+  it('removes a rating given as null and drops empty profiles', () => {
+    rateActivity(input, 'Zoo', 'like', 1);
+
+    expect(rateActivity(input, 'Zoo', null)).toBeUndefined();
+    expect(listFeedbackProfiles()).toEqual([]);
+    expect(localStorage.length).toBe(0);
+  });
+});
+
+describe('removing feedback', () => {
+  beforeEach(() => {
+    rateActivity(input, 'Zoo', 'like', 1);
+    rateActivity(input, 'Park', 'dislike', 2);
+    rateActivity({ location: '10001', kidsAges: [] }, 'Museum', 'like', 3);
+  });
+
+  it('removes a single rating', () => {
+    removeActivityFeedback('94105|5,8', 'zoo');
+
+    expect(getFeedbackProfile(input)?.feedback.map((entry) => entry.title)).toEqual(['Park']);
+  });
+
+  it('clears one profile or all of them', () => {
+    clearFeedbackProfile('94105|5,8');
+    expect(listFeedbackProfiles().map((profile) => profile.id)).toEqual(['10001|']);
+
+    clearAllFeedback();
+    expect(listFeedbackProfiles()).toEqual([]);
+  });
+
+  it('treats unreadable storage as empty', () => {
+    localStorage.setItem('weekend-planner:feedback', '{not json');
+
+    expect(listFeedbackProfiles()).toEqual([]);
+    expect(rateActivity(input, 'Zoo', 'like', 1)?.feedback).toHaveLength(1);
+  });
+});
+
+describe('summarizeFeedback()', () => {
+  it('names liked and disliked activities for the planner', () => {
+    rateActivity(input, 'Zoo', 'like', 1);
+    rateActivity(input, 'Bowling', 'dislike', 2);
+    rateActivity(input, 'Exploratorium', 'like', 3);
+
+    expect(summarizeFeedback(getFeedbackProfile(input))).toBe(
+      'Our family enjoyed activities like "Exploratorium", "Zoo". We did not enjoy "Bowling", so avoid similar suggestions.'
+    );
+  });
+
+  it('keeps only the most recent ratings', () => {
+    for (let i = 0; i < MAX_PROMPT_FEEDBACK + 2; i++) {
+      rateActivity(input, `Activity ${i}`, 'dislike', i);
+    }
+
+    const summary = summarizeFeedback(getFeedbackProfile(input)) ?? '';
+    expect(summary.startsWith('We did not enjoy "Activity 9"')).toBe(true);
+    expect(summary).not.toContain('"Activity 1"');
+  });
+
+  it('returns undefined without ratings', () => {
+    expect(summarizeFeedback(undefined)).toBeUndefined();
+  });
+});
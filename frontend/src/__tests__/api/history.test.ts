@@ -0,0 +1,242 @@
+/**
+ * Unit tests for the local plan history (frontend/src/api/history.ts).
+ *
+ * Test Coverage:
+ * - Saving plans with their input, raw response and session ID
+ * - Updating a session's entry after a refinement, keeping its pin
+ * - Ordering (pinned first, then newest), pinning and deleting
+ * - Itinerary arrangements kept with the entry of the text they fit
+ * - Storage caps by entry count and size, sparing pinned plans
+ * - Search by zip code, date and keyword
+ *
+ * Runs against the in-memory IndexedDB installed in the test setup.
+ *
+ * @module __tests__/api/history.test
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  deleteSavedPlan,
+  filterSavedPlans,
+  getSavedPlan,
+  listSavedPlans,
+  savePlan,
+  setPlanItinerary,
+  setPlanPinned
+} from '../../api/history';
+import { mockSessionState, mockToolEvents } from '../../__mocks__/handlers';
+import type { GeneratePlanInput, GeneratePlanResult, Itinerary, SavedPlan } from '../../types';
+
+const input: GeneratePlanInput = { location: '94105', kidsAges: [5, 8] };
+
+const result = (sessionId: string, planText = `Plan for ${sessionId}`): GeneratePlanResult => ({
+  success: true,
+  planText,
+  rawResponse: mockToolEvents,
+  sessionId
+});
+
+/**
+ * Saves a plan as if at the given time.
+ */
+const saveAt = async (time: number, ...args: Parameters<typeof savePlan>): Promise<SavedPlan> => {
+  vi.spyOn(Date, 'now').mockReturnValue(time);
+  try {
+    return await savePlan(...args);
+  } finally {
+    vi.mocked(Date.now).mockRestore();
+  }
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('savePlan()', () => {
+  it('saves the plan with its input, raw response and session ID', async () => {
+    const saved = await saveAt(1000, input, { ...result('session-1'), sessionState: { finalSummary: 'x' } });
+
+    expect(saved).toMatchObject({
+      id: 'session-1',
+      savedAt: 1000,
+      input,
+      planText: 'Plan for session-1',
+      rawResponse: mockToolEvents,
+      sessionId: 'session-1',
+      sessionState: { finalSummary: 'x' },
+      pinned: false
+    });
+    expect(saved.size).toBeGreaterThan(0);
+    expect(await listSavedPlans()).toEqual([saved]);
+  });
+
+  it('updates the entry of an already saved session, keeping its pin', async () => {
+    await saveAt(1000, input, result('session-1', 'Original plan'));
+    await setPlanPinned('session-1', true);
+    await saveAt(2000, input, result('session-1', 'Refined plan'));
+
+    const plans = await listSavedPlans();
+    expect(plans).toHaveLength(1);
+    expect(plans[0]).toMatchObject({ planText: 'Refined plan', savedAt: 2000, pinned: true });
+  });
+
+  it('gives plans without a session their own entry', async () => {
+    await savePlan(input, { success: true, planText: 'First' });
+    await savePlan(input, { success: true, planText: 'Second' });
+
+    expect(await listSavedPlans()).toHaveLength(2);
+  });
+
+  it('rejects results without plan text', async () => {
+    await expect(savePlan(input, { success: false })).rejects.toThrow('Only plans with text can be saved');
+  });
+
+  it('removes the oldest unpinned plans beyond the entry limit', async () => {
+    await saveAt(1000, input, result('oldest'));
+    await saveAt(2000, input, result('pinned'));
+    await setPlanPinned('pinned', true);
+    await saveAt(3000, input, result('middle'));
+    await saveAt(4000, input, result('newest'), { maxEntries: 2 });
+
+    const ids = (await listSavedPlans()).map((plan) => plan.id);
+    expect(ids).toEqual(['pinned', 'newest']);
+  });
+
+  it('removes the oldest unpinned plans beyond the size limit', async () => {
+    const first = await saveAt(1000, input, result('plan-1'));
+    await saveAt(2000, input, result('plan-2'));
+    await saveAt(3000, input, result('plan-3'), { maxBytes: first.size * 2 });
+
+    const ids = (await listSavedPlans()).map((plan) => plan.id);
+    expect(ids).toEqual(['plan-3', 'plan-2']);
+  });
+
+  it('keeps the plan just saved even if it alone is over the limit', async () => {
+    await saveAt(1000, input, result('big'), { maxBytes: 10 });
+
+    expect((await listSavedPlans()).map((plan) => plan.id)).toEqual(['big']);
+  });
+});
+
+describe('listSavedPlans(), setPlanPinned() and deleteSavedPlan()', () => {
+  it('lists pinned plans first, then newest first', async () => {
+    await saveAt(1000, input, result('a'));
+    await saveAt(2000, input, result('b'));
+    await saveAt(3000, input, result('c'));
+    await setPlanPinned('a', true);
+
+    expect((await listSavedPlans()).map((plan) => plan.id)).toEqual(['a', 'c', 'b']);
+
+    await setPlanPinned('a', false);
+    expect((await listSavedPlans()).map((plan) => plan.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('deletes a plan', async () => {
+    await savePlan(input, result('a'));
+    await savePlan(input, result('b'));
+    await deleteSavedPlan('a');
+    await deleteSavedPlan('missing');
+
+    expect((await listSavedPlans()).map((plan) => plan.id)).toEqual(['b']);
+  });
+
+  it('rejects pinning a plan that is not saved', async () => {
+    await expect(setPlanPinned('missing', true)).rejects.toThrow('no longer in your history');
+  });
+
+  it('rejects when IndexedDB is unavailable', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    try {
+      await expect(listSavedPlans()).rejects.toThrow('not available');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe('getSavedPlan() and setPlanItinerary()', () => {
+  const itinerary: Itinerary = {
+    'saturday-morning': [],
+    'saturday-afternoon': [],
+    'saturday-evening': [],
+    'sunday-morning': [0],
+    'sunday-afternoon': [],
+    'sunday-evening': []
+  };
+
+  it('keeps the arrangement with the entry of the arranged text', async () => {
+    await savePlan(input, result('a', 'Plan A'));
+    const updated = await setPlanItinerary('a', 'Plan A', itinerary);
+
+    expect(updated.itinerary).toEqual(itinerary);
+    expect(await getSavedPlan('a')).toEqual(updated);
+  });
+
+  it('leaves the entry alone when it holds other text', async () => {
+    const saved = await savePlan(input, result('a', 'Refined plan'));
+
+    expect(await setPlanItinerary('a', 'Original plan', itinerary)).toEqual(saved);
+    expect((await getSavedPlan('a'))?.itinerary).toBeUndefined();
+  });
+
+  it('saves a result\'s arrangement and drops it when the text changes', async () => {
+    await savePlan(input, { ...result('a', 'Plan A'), itinerary });
+    expect((await getSavedPlan('a'))?.itinerary).toEqual(itinerary);
+
+    await savePlan(input, result('a', 'Plan B'));
+    expect((await getSavedPlan('a'))?.itinerary).toBeUndefined();
+  });
+
+  it('removes the arrangement with its entry', async () => {
+    const saved = await savePlan(input, { success: true, planText: 'Imported plan' });
+    await setPlanItinerary(saved.id, 'Imported plan', itinerary);
+    await deleteSavedPlan(saved.id);
+
+    expect(await getSavedPlan(saved.id)).toBeUndefined();
+    await expect(setPlanItinerary(saved.id, 'Imported plan', itinerary)).rejects.toThrow(
+      'no longer in your history'
+    );
+  });
+});
+
+describe('filterSavedPlans()', () => {
+  const plan = (id: string, location: string, savedAt: number, planText: string): SavedPlan => ({
+    id,
+    savedAt,
+    input: { location, kidsAges: [] },
+    planText,
+    pinned: false,
+    size: 0
+  });
+
+  const plans = [
+    plan('sf', '94105', new Date(2026, 9, 17, 9).getTime(), mockSessionState.final_summary),
+    plan('boston', '02138', new Date(2026, 2, 4, 18).getTime(), 'Cardboard box fort and kitchen volcano')
+  ];
+
+  const ids = (query: string) => filterSavedPlans(plans, query).map((entry) => entry.id);
+
+  it('returns every plan for an empty query', () => {
+    expect(ids('  ')).toEqual(['sf', 'boston']);
+  });
+
+  it('finds plans by zip code', () => {
+    expect(ids('021')).toEqual(['boston']);
+  });
+
+  it('finds plans by date', () => {
+    expect(ids('2026-10-17')).toEqual(['sf']);
+    expect(ids('Oct 17')).toEqual(['sf']);
+    expect(ids('march')).toEqual(['boston']);
+  });
+
+  it('finds plans by keyword, case-insensitively', () => {
+    expect(ids('VOLCANO')).toEqual(['boston']);
+    expect(ids("children's museum")).toEqual(['sf']);
+  });
+
+  it('requires every word of the query to match', () => {
+    expect(ids('94105 volcano')).toEqual([]);
+    expect(ids('94105 museum')).toEqual(['sf']);
+  });
+});
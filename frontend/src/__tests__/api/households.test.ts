@@ -0,0 +1,180 @@
+/**
+ * Unit tests for household profiles (frontend/src/api/households.ts).
+ *
+ * Test Coverage:
+ * - Creating, updating, duplicating and deleting profiles
+ * - Name validation, and unreadable storage
+ * - JSON export, import validation and merging by name
+ *
+ * @module __tests__/api/households.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createHouseholdProfile,
+  deleteHouseholdProfile,
+  duplicateHouseholdProfile,
+  formatHouseholdsExport,
+  HouseholdImportError,
+  HOUSEHOLDS_EXPORT_SCHEMA,
+  importHouseholdProfiles,
+  listHouseholdProfiles,
+  parseHouseholdsExport,
+  updateHouseholdProfile,
+  validateHouseholdName,
+  type HouseholdDraft
+} from '../../api/households';
+
+const draft: HouseholdDraft = {
+  name: '  Just   us ',
+  location: ' 94105 ',
+  children: [
+    { age: 7, unit: 'years', nickname: 'Sam' },
+    { age: 9, unit: 'months' }
+  ],
+  preferences: { budget: 'low', interests: ['trains'] }
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('createHouseholdProfile()', () => {
+  it('stores a tidied profile and lists profiles by name', () => {
+    const profile = createHouseholdProfile(draft, 1);
+    createHouseholdProfile({ ...draft, name: 'Grandparents visiting', preferences: undefined }, 2);
+
+    expect(profile).toEqual({
+      id: expect.any(String),
+      name: 'Just us',
+      location: '94105',
+      children: draft.children,
+      preferences: draft.preferences,
+      updatedAt: 1
+    });
+    expect(listHouseholdProfiles().map((stored) => stored.name)).toEqual(['Grandparents visiting', 'Just us']);
+    expect(listHouseholdProfiles()[0]).not.toHaveProperty('preferences');
+  });
+
+  it('treats unreadable storage and invalid entries as empty', () => {
+    localStorage.setItem('weekend-planner:households', '{not json');
+    expect(listHouseholdProfiles()).toEqual([]);
+
+    localStorage.setItem('weekend-planner:households', JSON.stringify({ a: { id: 'a', name: '' } }));
+    expect(listHouseholdProfiles()).toEqual([]);
+  });
+});
+
+describe('validateHouseholdName()', () => {
+  it('requires a short name not used by another profile', () => {
+    const profiles = [createHouseholdProfile(draft)];
+
+    expect(validateHouseholdName('With cousins', profiles)).toBeUndefined();
+    expect(validateHouseholdName('   ', profiles)).toBe('Enter a name for the household');
+    expect(validateHouseholdName('x'.repeat(41), profiles)).toBe('Keep household names to 40 characters or fewer');
+    expect(validateHouseholdName(' just US ', profiles)).toBe('A household named "just US" already exists');
+  });
+});
+
+describe('updateHouseholdProfile()', () => {
+  it('changes the given fields and replaces the preferences', () => {
+    const { id } = createHouseholdProfile(draft, 1);
+
+    expect(updateHouseholdProfile(id, { name: 'Us' }, 2)).toMatchObject({
+      name: 'Us',
+      location: '94105',
+      preferences: draft.preferences,
+      updatedAt: 2
+    });
+    const updated = updateHouseholdProfile(id, { location: '10001', children: [], preferences: undefined }, 3);
+    expect(updated).toEqual({ id, name: 'Us', location: '10001', children: [], updatedAt: 3 });
+    expect(listHouseholdProfiles()).toEqual([updated]);
+  });
+
+  it('returns undefined for a deleted profile', () => {
+    const { id } = createHouseholdProfile(draft);
+    deleteHouseholdProfile(id);
+
+    expect(updateHouseholdProfile(id, { name: 'Us' })).toBeUndefined();
+    expect(listHouseholdProfiles()).toEqual([]);
+    expect(localStorage.getItem('weekend-planner:households')).toBeNull();
+  });
+});
+
+describe('duplicateHouseholdProfile()', () => {
+  it('copies a profile under the first free name', () => {
+    const { id } = createHouseholdProfile(draft);
+
+    expect(duplicateHouseholdProfile(id)).toMatchObject({ name: 'Just us (copy)', children: draft.children });
+    expect(duplicateHouseholdProfile(id)?.name).toBe('Just us (copy 2)');
+    expect(new Set(listHouseholdProfiles().map((profile) => profile.id)).size).toBe(3);
+    expect(duplicateHouseholdProfile('missing')).toBeUndefined();
+  });
+
+  it('shortens long names to fit the copy suffix', () => {
+    const { id } = createHouseholdProfile({ ...draft, name: 'x'.repeat(40) });
+
+    expect(validateHouseholdName(duplicateHouseholdProfile(id)?.name ?? '', [])).toBeUndefined();
+  });
+});
+
+describe('household export and import', () => {
+  it('round-trips profiles through JSON', () => {
+    const profile = createHouseholdProfile(draft, 1);
+    const text = formatHouseholdsExport([profile], new Date('2026-10-19T12:00:00Z'));
+
+    expect(parseHouseholdsExport(text)).toEqual({
+      schema: HOUSEHOLDS_EXPORT_SCHEMA,
+      version: 1,
+      exportedAt: '2026-10-19T12:00:00.000Z',
+      profiles: [profile]
+    });
+  });
+
+  it.each([
+    ['not json', 'The file is not valid JSON'],
+    [JSON.stringify({ schema: 'weekend-planner/plan' }), 'The file is not a Weekend Planner household export'],
+    [
+      JSON.stringify({ schema: HOUSEHOLDS_EXPORT_SCHEMA, version: 2, exportedAt: '', profiles: [] }),
+      'The file was exported by a newer version of Weekend Planner (format version 2)'
+    ],
+    [JSON.stringify({ schema: HOUSEHOLDS_EXPORT_SCHEMA, version: 1, exportedAt: '' }), '$.profiles: expected an array'],
+    [
+      JSON.stringify({
+        schema: HOUSEHOLDS_EXPORT_SCHEMA,
+        version: 1,
+        exportedAt: '',
+        profiles: [{ id: 'a', name: 'Us', location: '94105', children: [{ age: 0, unit: 'years' }], updatedAt: 1 }]
+      }),
+      '$.profiles[0].children: expected a list of children with an age and a unit'
+    ],
+    [
+      JSON.stringify({
+        schema: HOUSEHOLDS_EXPORT_SCHEMA,
+        version: 1,
+        exportedAt: '',
+        profiles: [{ id: 'a', name: 'Us', location: '94105', children: [], preferences: { budget: 'lots' }, updatedAt: 1 }]
+      }),
+      '$.profiles[0].preferences: expected planning preferences'
+    ]
+  ])('rejects an invalid file (%#)', (text, message) => {
+    expect(() => parseHouseholdsExport(text)).toThrow(new HouseholdImportError(message));
+  });
+
+  it('replaces profiles with the same name and adds the others', () => {
+    const stored = createHouseholdProfile(draft, 1);
+    const imported = [
+      { ...stored, id: 'other-browser', name: 'JUST US', location: '10001' },
+      { ...stored, id: stored.id, name: 'With cousins' }
+    ];
+
+    expect(importHouseholdProfiles(imported, 2)).toBe(2);
+    const profiles = listHouseholdProfiles();
+    expect(profiles.map((profile) => [profile.name, profile.location])).toEqual([
+      ['JUST US', '10001'],
+      ['With cousins', '94105']
+    ]);
+    expect(profiles[0].id).toBe(stored.id);
+    expect(profiles[1].id).not.toBe(stored.id);
+  });
+});
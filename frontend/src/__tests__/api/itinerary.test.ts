@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the weekend itinerary (frontend/src/api/itinerary.ts).
+ *
+ * Test Coverage:
+ * - Day and part-of-day inference from times, meals and time-of-day words
+ * - Spreading activities without a time over free slots
+ * - Moving activities between slots without changing the input
+ * - Validation of saved arrangements against the plan
+ * - Restoring a saved arrangement, with a fallback when it no longer fits
+ *
+ * @module __tests__/api/itinerary.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createItinerary,
+  inferSlot,
+  isValidItinerary,
+  moveActivity,
+  resolveItinerary
+} from '../../api/itinerary';
+import { parseWeekendPlan } from '../../api/planParser';
+import { planSummaries } from '../fixtures/planSummaries';
+import type { PlanActivity } from '../../types';
+
+const activity = (title: string, time?: string, description = ''): PlanActivity => ({ title, description, time });
+
+describe('inferSlot()', () => {
+  it.each([
+    ['Saturday 10am-4pm', { day: 'saturday', part: 'morning' }],
+    ['Sat 1:30 pm', { day: 'saturday', part: 'afternoon' }],
+    ['Sunday 6pm', { day: 'sunday', part: 'evening' }],
+    ['Sunday morning', { day: 'sunday', part: 'morning' }],
+    ['12pm-2pm', { day: undefined, part: 'afternoon' }],
+    ['5am-10pm daily', { day: undefined, part: 'morning' }]
+  ])('reads "%s" from the time', (time, expected) => {
+    expect(inferSlot(activity('Outing', time))).toEqual(expected);
+  });
+
+  it('falls back to meal and time-of-day words in the text', () => {
+    expect(inferSlot(activity('Brunch at a cozy local cafe'))).toEqual({ day: undefined, part: 'morning' });
+    expect(inferSlot(activity('Pizza dinner', undefined, 'on Sunday'))).toEqual({ day: 'sunday', part: 'evening' });
+    expect(inferSlot(activity('Picnic lunch in the park'))).toEqual({ day: undefined, part: 'afternoon' });
+  });
+
+  it('finds nothing for activities without any hints', () => {
+    expect(inferSlot(activity('Exploratorium', undefined, 'Hands-on science exhibits'))).toEqual({});
+  });
+});
+
+describe('createItinerary()', () => {
+  it('places activities in the slots their times point to', () => {
+    const plan = parseWeekendPlan(planSummaries[1].text);
+    const itinerary = createItinerary(plan.activities);
+
+    expect(itinerary['saturday-morning']).toEqual([0, 4]);
+    expect(itinerary['saturday-afternoon']).toEqual([1]);
+    expect(itinerary['sunday-morning']).toEqual([2]);
+    expect(itinerary['sunday-afternoon']).toEqual([3]);
+    expect(itinerary['saturday-evening']).toEqual([]);
+    expect(itinerary['sunday-evening']).toEqual([]);
+  });
+
+  it('spreads activities without times across both days and free slots', () => {
+    const itinerary = createItinerary(['Museum', 'Park', 'Beach', 'Zoo'].map((title) => activity(title)));
+
+    expect(itinerary['saturday-morning']).toEqual([0]);
+    expect(itinerary['sunday-morning']).toEqual([1]);
+    expect(itinerary['saturday-afternoon']).toEqual([2]);
+    expect(itinerary['sunday-afternoon']).toEqual([3]);
+  });
+
+  it('fills the free parts of a known day', () => {
+    const itinerary = createItinerary([
+      activity('Market', 'Saturday 8am'),
+      activity('Museum', 'Saturday'),
+      activity('Movie', 'Saturday')
+    ]);
+
+    expect(itinerary['saturday-morning']).toEqual([0]);
+    expect(itinerary['saturday-afternoon']).toEqual([1]);
+    expect(itinerary['saturday-evening']).toEqual([2]);
+  });
+});
+
+describe('moveActivity()', () => {
+  it('moves an activity to the end of another slot without changing the input', () => {
+    const itinerary = createItinerary([activity('Market', 'Saturday 8am'), activity('Museum', 'Sunday 2pm')]);
+    const moved = moveActivity(itinerary, 0, 'sunday-afternoon');
+
+    expect(moved['saturday-morning']).toEqual([]);
+    expect(moved['sunday-afternoon']).toEqual([1, 0]);
+    expect(itinerary['saturday-morning']).toEqual([0]);
+  });
+
+  it('inserts at a position within the slot', () => {
+    const itinerary = createItinerary([activity('Market', 'Saturday 8am'), activity('Museum', 'Sunday 2pm')]);
+
+    expect(moveActivity(itinerary, 0, 'sunday-afternoon', 0)['sunday-afternoon']).toEqual([0, 1]);
+  });
+});
+
+describe('isValidItinerary()', () => {
+  const valid = createItinerary([activity('Market'), activity('Museum')]);
+
+  it('accepts an arrangement holding every activity once', () => {
+    expect(isValidItinerary(valid, 2)).toBe(true);
+  });
+
+  it('rejects arrangements that no longer fit the plan', () => {
+    expect(isValidItinerary(valid, 3)).toBe(false);
+    expect(isValidItinerary({ ...valid, 'sunday-evening': [0] }, 2)).toBe(false);
+    expect(isValidItinerary({ ...valid, 'sunday-evening': undefined }, 2)).toBe(false);
+    expect(isValidItinerary({ ...valid, 'sunday-evening': ['1'] }, 3)).toBe(false);
+    expect(isValidItinerary(null, 0)).toBe(false);
+  });
+});
+
+describe('resolveItinerary()', () => {
+  const activities = [activity('Market', 'Saturday 8am'), activity('Museum', 'Sunday 2pm')];
+
+  it('keeps a saved arrangement that fits the activities', () => {
+    const moved = moveActivity(createItinerary(activities), 1, 'saturday-evening');
+
+    expect(resolveItinerary(moved, activities)).toEqual(moved);
+  });
+
+  it('falls back to a new arrangement when nothing valid is saved', () => {
+    expect(resolveItinerary(undefined, activities)).toEqual(createItinerary(activities));
+    expect(resolveItinerary('{not json', activities)).toEqual(createItinerary(activities));
+    expect(resolveItinerary(createItinerary([activity('Only one')]), activities)).toEqual(
+      createItinerary(activities)
+    );
+  });
+});
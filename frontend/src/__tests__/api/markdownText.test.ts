@@ -0,0 +1,24 @@
+/**
+ * Unit tests for plain-text Markdown handling (frontend/src/api/markdownText.ts).
+ *
+ * Test Coverage:
+ * - Removing inline formatting markers
+ * - Keeping link text and snake_case names
+ *
+ * @module __tests__/api/markdownText.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toPlainText } from '../../api/markdownText';
+
+describe('toPlainText()', () => {
+  it('removes formatting markers and keeps link text', () => {
+    expect(toPlainText('**Morning**: Visit the [market](https://example.com) _early_')).toBe(
+      'Morning: Visit the market early'
+    );
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(toPlainText('Try `snake_case_words` and snake_case_words')).toBe('Try snake_case_words and snake_case_words');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Unit tests for the plan export and import (frontend/src/api/planExport.ts).
+ *
+ * Test Coverage:
+ * - Export data: schema, version, input, confidence, raw events and itinerary
+ * - Markdown, plain text, JSON and printable HTML rendering
+ * - File names and MIME types
+ * - JSON round trip and import validation errors
+ *
+ * @module __tests__/api/planExport.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createPlanExport,
+  exportPlan,
+  formatPlanHtml,
+  formatPlanMarkdown,
+  formatPlanText,
+  parsePlanExport,
+  PlanImportError,
+  PLAN_EXPORT_SCHEMA,
+  PLAN_EXPORT_VERSION
+} from '../../api/planExport';
+import { createItinerary, moveActivity } from '../../api/itinerary';
+import { parseWeekendPlan } from '../../api/planParser';
+import { mockToolEvents } from '../../__mocks__/handlers';
+import { planSummaries } from '../fixtures/planSummaries';
+import type { PlanExport, WeekendPlan } from '../../types';
+
+const now = new Date(Date.UTC(2026, 9, 19, 15, 30));
+const input = { location: '94105', kidsAges: [5, 8] };
+const planText = planSummaries[1].text;
+
+/**
+ * Builds an export of a hand-written plan.
+ */
+const exportOf = (plan: Omit<WeekendPlan, 'confidence'>, text = 'Summary'): PlanExport =>
+  createPlanExport({ planText: text, plan: { ...plan, confidence: 1 }, input }, { now });
+
+describe('createPlanExport()', () => {
+  it('captures the plan, its input and the export time without confidence', () => {
+    const data = createPlanExport({ planText, input, sessionId: 'session-1' }, { now });
+
+    expect(data).toMatchObject({
+      schema: PLAN_EXPORT_SCHEMA,
+      version: PLAN_EXPORT_VERSION,
+      exportedAt: '2026-10-19T15:30:00.000Z',
+      input,
+      sessionId: 'session-1',
+      planText
+    });
+    expect(data.plan.title).toBe('Weekend Plan for Your Family');
+    expect(data.plan.activities).toHaveLength(5);
+    expect(data.plan).not.toHaveProperty('confidence');
+  });
+
+  it('includes raw events only when asked to', () => {
+    const source = { planText, rawResponse: mockToolEvents };
+
+    expect(createPlanExport(source, { now })).not.toHaveProperty('rawResponse');
+    expect(createPlanExport(source, { now, includeRawEvents: true }).rawResponse).toEqual(mockToolEvents);
+  });
+});
+
+describe('formatPlanMarkdown()', () => {
+  it('writes the header, numbered activities, notes and disclaimer', () => {
+    const markdown = formatPlanMarkdown(
+      exportOf({
+        title: 'Our **Weekend**',
+        area: 'San Francisco',
+        kidAges: [5, 8],
+        activities: [
+          {
+            title: 'Exploratorium',
+            description: 'Hands-on *science*',
+            time: 'Saturday 10am',
+            cost: '$30',
+            sources: [{ uri: 'https://www.exploratorium.edu', title: 'exploratorium.edu' }]
+          },
+          { title: 'Park', description: '' }
+        ],
+        remainingContent: 'Bring jackets.',
+        disclaimer: 'Verify opening hours.'
+      })
+    );
+
+    expect(markdown).toBe(
+      [
+        '# Our Weekend',
+        '',
+        '**Area:** San Francisco  \n**Ages:** 5, 8  \n**Requested for:** 94105, kids aged 5, 8',
+        '',
+        '## Activities',
+        '',
+        '### 1. Exploratorium',
+        '',
+        'Hands-on *science*',
+        '',
+        '- **When:** Saturday 10am',
+        '- **Cost:** $30',
+        '- **Sources:** [exploratorium.edu](https://www.exploratorium.edu)',
+        '',
+        '### 2. Park',
+        '',
+        '## Notes',
+        '',
+        'Bring jackets.',
+        '',
+        '---',
+        '',
+        '*Verify opening hours.*',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('keeps the summary as the body when no activities were parsed', () => {
+    const markdown = formatPlanMarkdown(exportOf({ kidAges: [], activities: [] }, 'Just **relax** at home.'));
+
+    expect(markdown).toContain('# Weekend Plan\n');
+    expect(markdown).toContain('Just **relax** at home.');
+  });
+});
+
+describe('formatPlanText()', () => {
+  it('writes the plan without any markup', () => {
+    const text = formatPlanText(createPlanExport({ planText, input }, { now }));
+
+    expect(text.startsWith('WEEKEND PLAN FOR YOUR FAMILY\n============================\n')).toBe(true);
+    expect(text).toContain('Requested for: 94105, kids aged 5, 8');
+    expect(text).toContain('1. Visit the local farmer\'s market for fresh produce and family fun\n   When: Saturday morning');
+    expect(text).toContain('Disclaimer: These results are based on AI agent research');
+    expect(text).not.toMatch(/[*#]/);
+  });
+
+  it('names the weekend the plan was requested for', () => {
+    const dates = { start: '2026-10-24', end: '2026-10-25' };
+    const text = formatPlanText(createPlanExport({ planText, input: { ...input, dates } }, { now }));
+
+    expect(text).toContain('Dates: Sat, Oct 24 – Sun, Oct 25, 2026');
+  });
+
+  it('strips headings and emphasis from unparsed summaries', () => {
+    const text = formatPlanText(exportOf({ kidAges: [], activities: [] }, '## Rainy day\n\n* Bake **cookies**\n\n---'));
+
+    expect(text).toContain('Rainy day\n\n- Bake cookies');
+    expect(text).not.toContain('---');
+  });
+});
+
+describe('formatPlanHtml()', () => {
+  it('writes a standalone document with print styles', () => {
+    const html = formatPlanHtml(createPlanExport({ planText, input }, { now }));
+
+    expect(html.startsWith('<!DOCTYPE html>\n<html lang="en">')).toBe(true);
+    expect(html).toContain('<title>Weekend Plan for Your Family</title>');
+    expect(html).toContain('@media print');
+    expect(html.match(/<section class="activity">/g)).toHaveLength(5);
+    expect(html).toContain('<p class="disclaimer">');
+  });
+
+  it('escapes text and links only http(s) sources', () => {
+    const html = formatPlanHtml(
+      exportOf({
+        kidAges: [],
+        activities: [
+          {
+            title: '<script>alert(1)</script>',
+            description: 'Tom & Jerry "live"',
+            sources: [
+              { uri: 'javascript:alert(1)', title: 'Bad' },
+              { uri: 'https://example.com/?a=1&b=2', title: 'Good' }
+            ]
+          }
+        ]
+      })
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('Tom &amp; Jerry &quot;live&quot;');
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<a href="https://example.com/?a=1&amp;b=2">Good</a>');
+  });
+});
+
+describe('exportPlan()', () => {
+  it.each([
+    ['markdown', 'weekend-plan-94105-2026-10-19.md', 'text/markdown'],
+    ['text', 'weekend-plan-94105-2026-10-19.txt', 'text/plain'],
+    ['json', 'weekend-plan-94105-2026-10-19.json', 'application/json'],
+    ['html', 'weekend-plan-94105-2026-10-19.html', 'text/html']
+  ] as const)('names the %s file and gives its MIME type', (format, filename, mimeType) => {
+    const file = exportPlan(createPlanExport({ planText, input }, { now }), format);
+
+    expect(file).toMatchObject({ filename, mimeType });
+    expect(file.content.length).toBeGreaterThan(0);
+  });
+
+  it('leaves the zip code out of the name when it is unknown', () => {
+    expect(exportPlan(createPlanExport({ planText }, { now }), 'json').filename).toBe('weekend-plan-2026-10-19.json');
+  });
+});
+
+describe('parsePlanExport()', () => {
+  it('reads back a JSON export, with raw events', () => {
+    const data = createPlanExport(
+      { planText, input, sessionId: 'session-1', rawResponse: mockToolEvents },
+      { now, includeRawEvents: true }
+    );
+
+    expect(parsePlanExport(exportPlan(data, 'json').content)).toEqual(data);
+  });
+
+  it('reads back the itinerary arrangement', () => {
+    const itinerary = moveActivity(createItinerary(parseWeekendPlan(planText).activities), 0, 'sunday-evening');
+    const data = createPlanExport({ planText, itinerary }, { now });
+
+    expect(parsePlanExport(exportPlan(data, 'json').content).itinerary).toEqual(itinerary);
+  });
+
+  it('ignores unknown fields', () => {
+    const data = { ...createPlanExport({ planText }, { now }), sharedBy: 'Grandma' };
+
+    expect(parsePlanExport(JSON.stringify(data)).planText).toBe(planText);
+  });
+
+  it.each([
+    ['invalid JSON', '{', 'The file is not valid JSON'],
+    ['another schema', JSON.stringify({ schema: 'other' }), 'not a Weekend Planner plan export'],
+    ['a newer version', { version: PLAN_EXPORT_VERSION + 1 }, 'newer version of Weekend Planner'],
+    ['an empty plan text', { planText: ' ' }, '$.planText'],
+    ['a bad input', { input: { location: 94105, kidsAges: [] } }, '$.input.location'],
+    ['bad kids ages', { input: { location: '94105', kidsAges: ['5'] } }, '$.input.kidsAges'],
+    ['bad dates', { input: { location: '94105', kidsAges: [], dates: { start: 'Saturday' } } }, '$.input.dates'],
+    ['children that are not a list', { input: { location: '94105', kidsAges: [], children: 'Sam' } }, '$.input.children'],
+    [
+      'a child without a unit',
+      { input: { location: '94105', kidsAges: [], children: [{ age: 5, unit: 'years' }, { age: 5 }] } },
+      '$.input.children[1]: expected a child with an age and a unit'
+    ],
+    [
+      'interests that are not a list',
+      { input: { location: '94105', kidsAges: [], preferences: { interests: 'trains' } } },
+      '$.input.preferences.interests'
+    ],
+    [
+      'an unknown budget',
+      { input: { location: '94105', kidsAges: [], preferences: { budget: 'lots' } } },
+      '$.input.preferences.budget: expected one of free, low, moderate, splurge'
+    ],
+    ['preferences that are not an object', { input: { location: '94105', kidsAges: [], preferences: [] } }, '$.input.preferences'],
+    ['a bad activity', { plan: { kidAges: [], activities: [{ title: 'Park' }] } }, '$.plan.activities[0].description'],
+    ['bad raw events', { rawResponse: [{ content: 'hi' }] }, '$.rawResponse[0]'],
+    ['an itinerary that does not fit', { itinerary: { 'saturday-morning': [0] } }, '$.itinerary']
+  ])('rejects %s', (_case, override, message) => {
+    const text =
+      typeof override === 'string'
+        ? override
+        : JSON.stringify({ ...createPlanExport({ planText: 'Park day' }, { now }), ...override });
+
+    expect(() => parsePlanExport(text)).toThrow(PlanImportError);
+    expect(() => parsePlanExport(text)).toThrow(message);
+  });
+
+  it('keeps the plan parseable from its text', () => {
+    const data = parsePlanExport(JSON.stringify(createPlanExport({ planText }, { now })));
+
+    expect(parseWeekendPlan(data.planText).activities).toHaveLength(data.plan.activities.length);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for summary parsing (frontend/src/api/planParser.ts).
+ *
+ * Test Coverage:
+ * - The fixture corpus: header fields, activities with their details,
+ *   disclaimer, leftover prose and the layout each summary gets
+ * - Confidence ordering between well-structured and unstructured summaries
+ * - Inline detail labels, and text that is empty or has Windows line endings
+ * - Weather verdicts from free-form weather text
+ * - The summary lines each activity was parsed from
+ *
+ * @module __tests__/api/planParser.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getActivityLineRanges, getPlanLayout, inferWeatherVerdict, MIN_CARD_CONFIDENCE, parseWeekendPlan } from '../../api/planParser';
+import { planSummaries } from '../fixtures/planSummaries';
+import { mockSessionState } from '../../__mocks__/handlers';
+
+describe('parseWeekendPlan()', () => {
+  describe.each(planSummaries)('fixture: $name', ({ text, expected }) => {
+    const plan = parseWeekendPlan(text);
+    const { activities, hasDisclaimer, remainingIncludes = [], layout, ...header } = expected;
+
+    it('finds the header fields', () => {
+      expect(plan).toMatchObject(header);
+    });
+
+    it('finds the activities with their details', () => {
+      expect(plan.activities).toHaveLength(activities.length);
+      activities.forEach((activity, index) => {
+        expect(plan.activities[index]).toMatchObject(activity);
+      });
+    });
+
+    it('separates the disclaimer and leftover prose', () => {
+      expect(Boolean(plan.disclaimer)).toBe(hasDisclaimer);
+      for (const snippet of remainingIncludes) {
+        expect(plan.remainingContent).toContain(snippet);
+      }
+    });
+
+    it(`picks the ${layout} layout`, () => {
+      expect(getPlanLayout(plan)).toBe(layout);
+    });
+  });
+
+  it('parses the mock summary into cards with high confidence', () => {
+    const plan = parseWeekendPlan(mockSessionState.final_summary);
+
+    expect(plan.title).toBe('Weekend Plan for Your Family');
+    expect(plan.activities).toHaveLength(8);
+    expect(plan.activities[0].time).toBe('Saturday morning');
+    expect(plan.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('scores structured summaries above unstructured ones', () => {
+    const [structured] = planSummaries;
+    const unstructured = planSummaries.find(({ name }) => name === 'prose only');
+    const structuredScore = parseWeekendPlan(structured.text).confidence;
+    const unstructuredScore = parseWeekendPlan(unstructured?.text ?? '').confidence;
+
+    expect(structuredScore).toBeGreaterThan(0.9);
+    expect(unstructuredScore).toBeLessThan(MIN_CARD_CONFIDENCE);
+  });
+
+  it('moves inline detail labels out of the description', () => {
+    const plan = parseWeekendPlan('- **Tilden Park Carousel** - Great for toddlers. Cost: $3. Where: Tilden Regional Park.');
+
+    expect(plan.activities[0]).toMatchObject({
+      title: 'Tilden Park Carousel',
+      description: 'Great for toddlers.',
+      cost: '$3',
+      location: 'Tilden Regional Park'
+    });
+  });
+
+  it('takes the place from "at" in the title when no location is given', () => {
+    const plan = parseWeekendPlan('- Picnic at Dolores Park\n- Walk along the Embarcadero');
+
+    expect(plan.activities[0].location).toBe('Dolores Park');
+    expect(plan.activities[1].location).toBeUndefined();
+  });
+
+  it('reads the Friday and Monday of a long weekend as days', () => {
+    const plan = parseWeekendPlan('## Friday\n- Movie night in the park (7pm-9pm)\n## Monday\n- **Morning**: Holiday parade');
+
+    expect(plan.activities.map((activity) => [activity.title, activity.time, activity.category])).toEqual([
+      ['Movie night in the park', 'Friday 7pm-9pm', undefined],
+      ['Holiday parade', 'Monday morning', undefined]
+    ]);
+  });
+
+  it('handles empty text and Windows line endings', () => {
+    expect(parseWeekendPlan('')).toEqual({ kidAges: [], activities: [], confidence: 0 });
+    expect(parseWeekendPlan('Area: 94105\r\n- Zoo - animals\r\n- Park - swings').activities).toHaveLength(2);
+  });
+});
+
+describe('inferWeatherVerdict()', () => {
+  it.each([
+    ['Sunny and 72°F', 'good'],
+    ['Not great: scattered showers', 'bad'],
+    ['Winter storm warning in effect', 'do not leave home'],
+    ['Stay home - flooding expected', 'do not leave home'],
+    ['Overcast', undefined]
+  ])('classifies "%s" as %s', (text, verdict) => {
+    expect(inferWeatherVerdict(text)).toBe(verdict);
+  });
+});
+
+describe('getActivityLineRanges()', () => {
+  it('covers each activity with its nested and continuation lines', () => {
+    const text = [
+      '# Plan',
+      '',
+      '1. **Zoo** - See the lions',
+      '   - Cost: $20',
+      '2. **Park** - Play on the swings',
+      '   and feed the ducks',
+      '',
+      'Have fun!'
+    ].join('\n');
+
+    expect(getActivityLineRanges(text)).toEqual([
+      { start: 2, end: 4 },
+      { start: 4, end: 6 }
+    ]);
+  });
+
+  it('finds one range per parsed activity', () => {
+    for (const { text } of planSummaries) {
+      expect(getActivityLineRanges(text)).toHaveLength(parseWeekendPlan(text).activities.length);
+    }
+  });
+});
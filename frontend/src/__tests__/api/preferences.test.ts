@@ -0,0 +1,115 @@
+/**
+ * Unit tests for planning preferences (frontend/src/api/preferences.ts).
+ *
+ * Test Coverage:
+ * - Splitting the interests field
+ * - Validation of the travel radius and interests, and of stored preferences by field
+ * - Prompt sentences for each preference
+ *
+ * @module __tests__/api/preferences.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describePlanningPreferences,
+  findInvalidPreference,
+  hasPlanningPreferences,
+  isPlanningPreferences,
+  MAX_INTERESTS,
+  parseInterests,
+  validatePlanningPreferences
+} from '../../api/preferences';
+
+describe('parseInterests()', () => {
+  it('splits on commas, dropping blanks and repeats', () => {
+    expect(parseInterests(' dinosaurs,  trains ,, Dinosaurs, rock   climbing ')).toEqual([
+      'dinosaurs',
+      'trains',
+      'rock climbing'
+    ]);
+    expect(parseInterests('  ')).toEqual([]);
+  });
+});
+
+describe('validatePlanningPreferences()', () => {
+  it('accepts preferences within their limits', () => {
+    expect(validatePlanningPreferences({ maxTravelMiles: 20, interests: ['art'] })).toEqual({});
+    expect(validatePlanningPreferences({})).toEqual({});
+  });
+
+  it.each([0, 101, 2.5, NaN])('rejects a travel radius of %s miles', (maxTravelMiles) => {
+    expect(validatePlanningPreferences({ maxTravelMiles }).maxTravelMiles).toBe(
+      'Enter a whole number of miles from 1 to 100'
+    );
+  });
+
+  it('rejects too many or too long interests', () => {
+    const many = Array.from({ length: MAX_INTERESTS + 1 }, (_, index) => `interest ${index}`);
+
+    expect(validatePlanningPreferences({ interests: many }).interests).toBe('Enter at most 10 interests');
+    expect(validatePlanningPreferences({ interests: ['x'.repeat(40)] }).interests).toBeUndefined();
+    expect(validatePlanningPreferences({ interests: ['x'.repeat(41)] }).interests).toBe(
+      'Keep each interest to 40 characters or fewer'
+    );
+  });
+});
+
+describe('isPlanningPreferences()', () => {
+  it('accepts stored preferences with known choices and valid values', () => {
+    expect(isPlanningPreferences({})).toBe(true);
+    expect(
+      isPlanningPreferences({ budget: 'low', maxTravelMiles: 20, interests: ['trains'], accessibility: ['stroller'] })
+    ).toBe(true);
+    expect(isPlanningPreferences({ budget: 'lots' })).toBe(false);
+    expect(isPlanningPreferences({ maxTravelMiles: 500 })).toBe(false);
+    expect(isPlanningPreferences({ interests: 'trains' })).toBe(false);
+    expect(isPlanningPreferences({ accessibility: ['jetpack'] })).toBe(false);
+    expect(isPlanningPreferences(null)).toBe(false);
+  });
+
+  it('names the first invalid field and what it should hold', () => {
+    expect(findInvalidPreference({ budget: 'low', interests: ['trains'] })).toBeUndefined();
+    expect(findInvalidPreference({ setting: 'space' })).toEqual({
+      field: 'setting',
+      expected: expect.stringMatching(/^one of /)
+    });
+    expect(findInvalidPreference({ maxTravelMiles: '20' })?.field).toBe('maxTravelMiles');
+    expect(findInvalidPreference({ interests: ['x'.repeat(41)] })).toEqual({
+      field: 'interests',
+      expected: 'a list of at most 10 strings of up to 40 characters'
+    });
+  });
+});
+
+describe('hasPlanningPreferences()', () => {
+  it('ignores missing and empty fields', () => {
+    expect(hasPlanningPreferences(undefined)).toBe(false);
+    expect(hasPlanningPreferences({ interests: [], accessibility: [] })).toBe(false);
+    expect(hasPlanningPreferences({ setting: 'indoor' })).toBe(true);
+  });
+});
+
+describe('describePlanningPreferences()', () => {
+  it('writes one sentence per preference, in a fixed order', () => {
+    expect(
+      describePlanningPreferences({
+        intensity: 'active',
+        accessibility: ['stroller', 'wheelchair'],
+        interests: ['dinosaurs', 'trains'],
+        setting: 'outdoor',
+        maxTravelMiles: 20,
+        budget: 'moderate'
+      })
+    ).toBe(
+      'Keep each activity under $50 per person. Stay within 20 miles of the zip code. ' +
+        'We prefer outdoor activities. Our interests include dinosaurs, trains. ' +
+        'Every activity must be wheelchair accessible and stroller friendly. ' +
+        'We want active, energetic activities.'
+    );
+  });
+
+  it('returns an empty string without preferences', () => {
+    expect(describePlanningPreferences(undefined)).toBe('');
+    expect(describePlanningPreferences({})).toBe('');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for session state parsing (frontend/src/api/sessionState.ts).
+ * 
+ * Test Coverage:
+ * - parsed_input as fenced JSON, plain JSON, object and array ages
+ * - weather_forecast normalization and unknown verdicts
+ * - Findings text trimming and missing values
+ * - Initial session state built from the form input, its dates and planning preferences, and read back
+ * - Differences between the form input and the agent's parsed input
+ * 
+ * @module __tests__/api/sessionState.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSessionState,
+  toInitialSessionState,
+  getInputMismatches,
+  readPlanningPreferences,
+  readWeekendDates
+} from '../../api/sessionState';
+import { mockSessionState } from '../../__mocks__/handlers';
+import type { PlanningPreferences } from '../../types';
+
+describe('parseSessionState()', () => {
+  it('parses the state written on the outdoor route', () => {
+    const state = parseSessionState(mockSessionState);
+
+    expect(state.parsedInput).toEqual({ zipCode: '94105', kidAges: [5, 8] });
+    expect(state.weatherForecast).toBe('good');
+    expect(state.localActivitiesFindings).toContain('Golden Gate Park');
+    expect(state.specialActivitiesFindings).toContain('Community fair');
+    expect(state.homeActivitiesFindings).toBeUndefined();
+    expect(state.finalSummary).toContain('Weekend Plan for Your Family');
+  });
+
+  it('accepts parsed_input as an object with array ages', () => {
+    const state = parseSessionState({ parsed_input: { zip_code: '02138', kid_ages: [4, '7'] } });
+
+    expect(state.parsedInput).toEqual({ zipCode: '02138', kidAges: [4, 7] });
+  });
+
+  it('drops parsed_input that is not JSON or has no zip code', () => {
+    expect(parseSessionState({ parsed_input: 'zip 02138' }).parsedInput).toBeUndefined();
+    expect(parseSessionState({ parsed_input: '{"kid_ages": "4"}' }).parsedInput).toBeUndefined();
+  });
+
+  it('normalizes weather verdicts', () => {
+    expect(parseSessionState({ weather_forecast: ' "Bad".\n' }).weatherForecast).toBe('bad');
+    expect(parseSessionState({ weather_forecast: 'Do not  leave home' }).weatherForecast).toBe('do not leave home');
+    expect(parseSessionState({ weather_forecast: 'sunny and 72F' }).weatherForecast).toBeUndefined();
+  });
+
+  it('returns an empty state for an empty session', () => {
+    expect(parseSessionState({})).toEqual({});
+  });
+});
+
+describe('toInitialSessionState()', () => {
+  it('seeds the form input in the parsed_input shape', () => {
+    expect(toInitialSessionState({ location: ' 02138 ', kidsAges: [4, 7] })).toEqual({
+      user_input: { zip_code: '02138', kid_ages: '4,7' }
+    });
+  });
+
+  it('adds chosen planning preferences in snake_case', () => {
+    const state = toInitialSessionState({
+      location: '02138',
+      kidsAges: [],
+      preferences: { budget: 'free', maxTravelMiles: 10, interests: ['art'] }
+    });
+
+    expect(state.planning_preferences).toEqual({ budget: 'free', max_travel_miles: 10, interests: ['art'] });
+    expect(toInitialSessionState({ location: '02138', kidsAges: [], preferences: {} })).not.toHaveProperty(
+      'planning_preferences'
+    );
+  });
+});
+
+describe('readPlanningPreferences()', () => {
+  it('reads back the seeded preferences', () => {
+    const preferences: PlanningPreferences = {
+      budget: 'low',
+      maxTravelMiles: 15,
+      setting: 'mixed',
+      interests: ['trains'],
+      accessibility: ['wheelchair'],
+      intensity: 'moderate'
+    };
+    const state = toInitialSessionState({ location: '02138', kidsAges: [], preferences });
+
+    expect(readPlanningPreferences(state)).toEqual(preferences);
+  });
+
+  it('drops unknown values and returns undefined when nothing is left', () => {
+    expect(
+      readPlanningPreferences({ planning_preferences: { budget: 'cheap', setting: 'indoor', accessibility: ['jetpack'] } })
+    ).toEqual({ setting: 'indoor' });
+    expect(readPlanningPreferences({ planning_preferences: { budget: 'cheap' } })).toBeUndefined();
+    expect(readPlanningPreferences({})).toBeUndefined();
+  });
+});
+
+describe('getInputMismatches()', () => {
+  it('returns no mismatches when the agent used the input as entered', () => {
+    expect(getInputMismatches({ location: '94105', kidsAges: [8, 5] }, { zipCode: '94105', kidAges: [5, 8] })).toEqual([]);
+  });
+
+  it('flags a replaced zip code and dropped ages', () => {
+    const mismatches = getInputMismatches(
+      { location: '9410', kidsAges: [5, 25] },
+      { zipCode: '90120', kidAges: [5] }
+    );
+
+    expect(mismatches).toEqual([
+      'You entered zip code 9410, but the planner used 90120.',
+      'You entered kids ages 5, 25, but the planner used 5.'
+    ]);
+  });
+
+  it('flags default ages assumed when none were entered', () => {
+    expect(getInputMismatches({ location: '94105', kidsAges: [] }, { zipCode: '94105', kidAges: [5, 8] })).toEqual([
+      'No kids ages were entered, but the planner assumed 5, 8.'
+    ]);
+  });
+});
+
+describe('readWeekendDates()', () => {
+  it('reads back the seeded dates', () => {
+    const dates = { start: '2026-09-05', end: '2026-09-07', holiday: 'Labor Day' };
+    const state = toInitialSessionState({ location: '02138', kidsAges: [], dates });
+
+    expect(state.weekend_dates).toEqual(dates);
+    expect(readWeekendDates(state)).toEqual(dates);
+  });
+
+  it('returns undefined for missing or malformed dates', () => {
+    expect(readWeekendDates({})).toBeUndefined();
+    expect(readWeekendDates({ weekend_dates: { start: '2026-09-07', end: '2026-09-05' } })).toBeUndefined();
+    expect(readWeekendDates({ weekend_dates: { start: 'Saturday', end: '2026-09-05' } })).toBeUndefined();
+  });
+});
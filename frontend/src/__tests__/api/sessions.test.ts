@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the ADK session manager (frontend/src/api/sessions.ts).
+ * 
+ * Tests use MSW (Mock Service Worker) for API mocking; the default handlers
+ * serve mockSessions for the list, lookup and delete endpoints.
+ * 
+ * Test Coverage:
+ * - createSession() posts to the session endpoint and returns the ID
+ * - createSession() sends the initial state as the body
+ * - listSessions() returns sessions most recently updated first
+ * - getSession() returns stored events and state
+ * - deleteSession() sends DELETE for the session
+ * - Malformed sessions rejected with the failing path
+ * - SessionApiError details for non-2xx responses
+ * - Timeout and external abort handling
+ * 
+ * @module __tests__/api/sessions.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server, mockSessions, mockSessionState } from '../../__mocks__/handlers';
+import {
+  createSession,
+  listSessions,
+  getSession,
+  deleteSession,
+  SessionApiError
+} from '../../api/sessions';
+import { ResponseValidationError } from '../../api/validation';
+
+describe('Session Manager', () => {
+  afterEach(() => {
+    server.resetHandlers();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('createSession()', () => {
+    it('creates the session with the given ID', async () => {
+      let createdPath = '';
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', ({ request }) => {
+          createdPath = new URL(request.url).pathname;
+          return HttpResponse.json({ id: 'abc' }, { status: 200 });
+        })
+      );
+
+      const sessionId = await createSession('user-7', 'abc');
+
+      expect(sessionId).toBe('abc');
+      expect(createdPath).toBe('/apps/WeekendPlanner/users/user-7/sessions/abc');
+    });
+
+    it('sends the initial state as the request body', async () => {
+      let createdBody: unknown;
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', async ({ request }) => {
+          createdBody = await request.json();
+          return HttpResponse.json({ id: 'seeded' }, { status: 200 });
+        })
+      );
+
+      await createSession('user-1', 'seeded', { state: { user_input: { zip_code: '94105', kid_ages: '5' } } });
+
+      expect(createdBody).toEqual({ user_input: { zip_code: '94105', kid_ages: '5' } });
+    });
+
+    it('throws SessionApiError with status and body on failure', async () => {
+      server.use(
+        http.post('http://localhost:8000/apps/:app/users/:user/sessions/:session', () =>
+          HttpResponse.json({ detail: 'Session already exists' }, { status: 409 })
+        )
+      );
+
+      const error = await createSession('user-1', 'dup').catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(SessionApiError);
+      expect((error as SessionApiError).message).toBe('Session creation failed with status 409');
+      expect((error as SessionApiError).statusCode).toBe(409);
+      expect((error as SessionApiError).body).toContain('Session already exists');
+    });
+  });
+
+  describe('listSessions()', () => {
+    it('returns sessions most recently updated first', async () => {
+      const sessions = await listSessions();
+
+      expect(sessions.map((session) => session.id)).toEqual(['session-recent-0002', 'session-older-0001']);
+    });
+
+    it('rejects a response that is not a list of sessions', async () => {
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions', () =>
+          HttpResponse.json([{ id: 'session-1' }, { id: 2 }])
+        )
+      );
+
+      await expect(listSessions()).rejects.toThrow(ResponseValidationError);
+      await expect(listSessions()).rejects.toThrow('$[1].id: expected a string, got a number');
+    });
+  });
+
+  describe('getSession()', () => {
+    it('returns the stored events and state', async () => {
+      const session = await getSession('session-recent-0002');
+
+      expect(session.events).toHaveLength(mockSessions[1].events.length);
+      expect(session.state).toEqual(mockSessionState);
+    });
+
+    it('fills in missing events and state', async () => {
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions/:session', () =>
+          HttpResponse.json({ id: 'session-1', appName: 'WeekendPlanner', userId: 'user-1' })
+        )
+      );
+
+      expect(await getSession('session-1')).toMatchObject({ id: 'session-1', events: [], state: {} });
+    });
+
+    it.each([
+      ['events that are not a list', { events: { 0: 'hi' } }, '$.events: expected an array of events, got an object'],
+      ['an invalid event', { events: [{ id: 'e1', author: 'user' }] }, '$.events[0].timestamp'],
+      ['state that is not an object', { state: 'done' }, '$.state: expected an object, got a string']
+    ])('rejects a session with %s', async (_case, override, message) => {
+      server.use(
+        http.get('http://localhost:8000/apps/:app/users/:user/sessions/:session', () =>
+          HttpResponse.json({ ...mockSessions[1], ...override })
+        )
+      );
+
+      await expect(getSession('session-recent-0002')).rejects.toThrow(ResponseValidationError);
+      await expect(getSession('session-recent-0002')).rejects.toThrow(message);
+    });
+
+    it('throws SessionApiError for an unknown session', async () => {
+      await expect(getSession('missing')).rejects.toMatchObject({
+        name: 'SessionApiError',
+        statusCode: 404,
+        message: 'Session lookup failed with status 404'
+      });
+    });
+  });
+
+  describe('deleteSession()', () => {
+    it('sends DELETE for the session', async () => {
+      const deleted: string[] = [];
+      server.use(
+        http.delete('http://localhost:8000/apps/:app/users/:user/sessions/:session', ({ params }) => {
+          deleted.push(params.session as string);
+          return new HttpResponse(null, { status: 204 });
+        })
+      );
+
+      await deleteSession('session-older-0001');
+
+      expect(deleted).toEqual(['session-older-0001']);
+    });
+  });
+
+  describe('abort handling', () => {
+    it('reports its own timeout as "<action> timed out"', async () => {
+      vi.useFakeTimers();
+      vi.spyOn(globalThis, 'fetch').mockImplementation((_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => {
+            const abortError = new Error('The operation was aborted.');
+            abortError.name = 'AbortError';
+            reject(abortError);
+          });
+        })
+      );
+
+      const pending = listSessions();
+      vi.advanceTimersByTime(30000);
+
+      await expect(pending).rejects.toMatchObject({ name: 'TimeoutError', message: 'Session listing timed out' });
+    });
+
+    it('rethrows the AbortError when the external signal aborts', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation((_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => {
+            const abortError = new Error('The operation was aborted.');
+            abortError.name = 'AbortError';
+            reject(abortError);
+          });
+        })
+      );
+
+      const controller = new AbortController();
+      const pending = getSession('session-recent-0002', 'user-1', { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+});
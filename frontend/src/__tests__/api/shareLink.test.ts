@@ -0,0 +1,179 @@
+/**
+ * Unit tests for share links (frontend/src/api/shareLink.ts).
+ *
+ * Test Coverage:
+ * - Encode/decode round trip, with and without input
+ * - Share URLs and reading the plan back from a fragment
+ * - Size limit on creation and on opening
+ * - Damaged links and links from newer versions
+ * - Inflated payloads and malformed children or preferences
+ * - Removing the share fragment from the address bar
+ *
+ * @module __tests__/api/shareLink.test
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  clearSharedPlanFragment,
+  createShareUrl,
+  decodeSharedPlan,
+  encodeSharedPlan,
+  getSharedPlanToken,
+  MAX_SHARE_FRAGMENT_LENGTH,
+  ShareLinkError,
+  SHARE_LINK_VERSION
+} from '../../api/shareLink';
+import { planSummaries } from '../fixtures/planSummaries';
+import type { SharedPlan } from '../../types';
+
+const plan = { input: { location: '94105', kidsAges: [5, 8] }, planText: planSummaries[1].text };
+
+/**
+ * Builds text that barely compresses, so it produces a long link.
+ */
+const incompressibleText = (length: number): string => {
+  let seed = 42;
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    text += String.fromCharCode(33 + ((seed >>> 16) % 90));
+  }
+  return text;
+};
+
+/**
+ * Expects a promise to reject with a ShareLinkError of the given reason.
+ */
+const expectShareLinkError = async (promise: Promise<unknown>, reason: ShareLinkError['reason']): Promise<void> => {
+  const error = await promise.then(
+    () => undefined,
+    (rejection: unknown) => rejection
+  );
+  expect(error).toBeInstanceOf(ShareLinkError);
+  expect((error as ShareLinkError).reason).toBe(reason);
+};
+
+describe('encodeSharedPlan() and decodeSharedPlan()', () => {
+  it('round-trips a plan with its input', async () => {
+    const token = await encodeSharedPlan(plan);
+
+    expect(token.startsWith(`${SHARE_LINK_VERSION}.`)).toBe(true);
+    expect(token).toMatch(/^\d+\.[\w-]+$/);
+    expect(token.length).toBeLessThan(plan.planText.length);
+    expect(await decodeSharedPlan(token)).toEqual(plan);
+  });
+
+  it('round-trips a plan without input', async () => {
+    const token = await encodeSharedPlan({ planText: 'Stay in and bake cookies 🍪' });
+
+    expect(await decodeSharedPlan(token)).toEqual({ planText: 'Stay in and bake cookies 🍪' });
+  });
+
+  it('refuses to create links for oversized plans', async () => {
+    await expectShareLinkError(
+      encodeSharedPlan({ planText: incompressibleText(MAX_SHARE_FRAGMENT_LENGTH) }),
+      'too-large'
+    );
+  });
+
+  it('refuses to open oversized links', async () => {
+    await expectShareLinkError(decodeSharedPlan(`1.${'A'.repeat(MAX_SHARE_FRAGMENT_LENGTH)}`), 'too-large');
+  });
+
+  it('refuses links from a newer version', async () => {
+    const token = await encodeSharedPlan(plan);
+
+    await expectShareLinkError(decodeSharedPlan(token.replace(/^\d+/, String(SHARE_LINK_VERSION + 1))), 'unsupported-version');
+  });
+
+  it.each([
+    ['no version', 'abc'],
+    ['bad characters', '1.abc+/='],
+    ['data that is not DEFLATE', '1.aGVsbG8gd29ybGQ'],
+    ['a truncated link', 'truncate']
+  ])('refuses links with %s', async (_case, token) => {
+    const value = token === 'truncate' ? (await encodeSharedPlan(plan)).slice(0, 40) : token;
+
+    await expectShareLinkError(decodeSharedPlan(value), 'invalid');
+  });
+
+  it('refuses links that inflate past the size limit', async () => {
+    const token = await encodeSharedPlan({ planText: 'Go to the park. '.repeat(10_000) });
+
+    expect(token.length).toBeLessThan(MAX_SHARE_FRAGMENT_LENGTH);
+    await expectShareLinkError(decodeSharedPlan(token), 'too-large');
+  });
+
+  it.each([
+    ['children that are not a list', { children: { age: 5, unit: 'years' } }],
+    ['a child without a unit', { children: [{ age: 5 }] }],
+    ['too many children', { children: Array.from({ length: 11 }, () => ({ age: 5, unit: 'years' })) }],
+    ['interests that are not a list', { preferences: { interests: 'trains' } }],
+    ['an unknown budget', { preferences: { budget: 'lots' } }]
+  ])('refuses an input with %s', async (_case, fields) => {
+    const token = await encodeSharedPlan({
+      input: { ...plan.input, ...fields } as unknown as SharedPlan['input'],
+      planText: plan.planText
+    });
+
+    await expectShareLinkError(decodeSharedPlan(token), 'invalid');
+  });
+
+  it('round-trips valid children and preferences', async () => {
+    const shared = {
+      input: {
+        ...plan.input,
+        children: [{ age: 5, unit: 'years' as const, nickname: 'Sam' }],
+        preferences: { budget: 'low' as const, interests: ['trains'] }
+      },
+      planText: plan.planText
+    };
+
+    expect(await decodeSharedPlan(await encodeSharedPlan(shared))).toEqual(shared);
+  });
+
+  it('refuses payloads without plan text', async () => {
+    const token = await encodeSharedPlan({ planText: ' ' });
+
+    await expectShareLinkError(decodeSharedPlan(token), 'invalid');
+  });
+});
+
+describe('createShareUrl() and getSharedPlanToken()', () => {
+  it('puts the plan in the fragment of the given page', async () => {
+    const url = await createShareUrl(plan, 'https://planner.example/app?x=1#old');
+    const parsed = new URL(url);
+
+    expect(`${parsed.origin}${parsed.pathname}${parsed.search}`).toBe('https://planner.example/app?x=1');
+    const token = getSharedPlanToken(parsed.hash);
+    expect(token).not.toBeNull();
+    expect(await decodeSharedPlan(token!)).toEqual(plan);
+  });
+
+  it('finds no plan in other fragments', () => {
+    expect(getSharedPlanToken('')).toBeNull();
+    expect(getSharedPlanToken('#section-2')).toBeNull();
+  });
+});
+
+describe('clearSharedPlanFragment()', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('removes a share fragment and keeps the path and query', () => {
+    window.history.replaceState(null, '', '/app?x=1#plan=1.abc');
+
+    clearSharedPlanFragment();
+
+    expect(`${window.location.pathname}${window.location.search}${window.location.hash}`).toBe('/app?x=1');
+  });
+
+  it('leaves other fragments alone', () => {
+    window.history.replaceState(null, '', '/#section-2');
+
+    clearSharedPlanFragment();
+
+    expect(window.location.hash).toBe('#section-2');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Unit tests for ADK response validation (frontend/src/api/validation.ts).
+ *
+ * Test Coverage:
+ * - Valid responses, including string and numeric timestamps and unknown fields
+ * - Non-array responses and error envelopes
+ * - Missing and mistyped event, content and part fields with their exact paths
+ * - Function calls, function responses, grounding and usage metadata
+ * - Snippets of the offending data, truncated for display
+ * - Sessions and session lists, with missing events and state filled in
+ *
+ * @module __tests__/api/validation.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ResponseValidationError,
+  validateADKEvent,
+  validateADKResponse,
+  validateADKSession,
+  validateADKSessionList
+} from '../../api/validation';
+import { mockStreamEvents, mockToolEvents } from '../../__mocks__/handlers';
+import type { DecodeFailure } from '../../types';
+
+/**
+ * Runs a validation and returns the failure it reports.
+ *
+ * @param run - The validation to run
+ * @returns The DecodeFailure of the thrown ResponseValidationError
+ */
+function failureOf(run: () => unknown): DecodeFailure {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    return (error as ResponseValidationError).failure;
+  }
+  throw new Error('Expected validation to fail');
+}
+
+const modelEvent = {
+  id: 'evt-1',
+  timestamp: 1710498600.25,
+  author: 'model',
+  content: { role: 'model', parts: [{ text: 'Plan' }] }
+};
+
+describe('validateADKResponse()', () => {
+  it('accepts the mock events and returns them unchanged', () => {
+    expect(validateADKResponse(mockStreamEvents)).toEqual(mockStreamEvents);
+    expect(validateADKResponse(mockToolEvents)).toEqual(mockToolEvents);
+  });
+
+  it('accepts numeric timestamps, extra fields and non-text parts', () => {
+    const event = {
+      ...modelEvent,
+      invocationId: 'inv-1',
+      content: { role: 'model', parts: [{ functionCall: { name: 'get_weather' } }] }
+    };
+
+    expect(validateADKResponse([event])).toEqual([event]);
+  });
+
+  it('reports an object instead of an array', () => {
+    expect(failureOf(() => validateADKResponse({ events: [] }))).toEqual({
+      path: '$',
+      reason: 'expected an array of events, got an object',
+      snippet: '{"events":[]}'
+    });
+  });
+
+  it('reports error envelopes with their message', () => {
+    const failure = failureOf(() => validateADKResponse({ detail: 'Agent not found' }));
+
+    expect(failure.reason).toBe('expected an array of events, got an error response: Agent not found');
+  });
+
+  it('reports a missing field with the containing event as snippet', () => {
+    const failure = failureOf(() => validateADKResponse([modelEvent, { id: 'evt-2', timestamp: '2024-03-15' }]));
+
+    expect(failure.path).toBe('$[1].author');
+    expect(failure.reason).toBe('expected a string, got nothing');
+    expect(failure.snippet).toBe('{"id":"evt-2","timestamp":"2024-03-15"}');
+  });
+
+  it('reports mistyped content fields at their exact path', () => {
+    const badPart = { ...modelEvent, content: { role: 'model', parts: [{ text: 'ok' }, { text: 42 }] } };
+    const badParts = { ...modelEvent, content: { role: 'model', parts: 'Plan' } };
+
+    expect(failureOf(() => validateADKResponse([badPart]))).toEqual({
+      path: '$[0].content.parts[1].text',
+      reason: 'expected a string, got a number',
+      snippet: '42'
+    });
+    expect(failureOf(() => validateADKResponse([badParts])).path).toBe('$[0].content.parts');
+  });
+
+  it('truncates long snippets', () => {
+    const failure = failureOf(() => validateADKResponse({ events: 'x'.repeat(500) }));
+
+    expect(failure.snippet.length).toBe(201);
+    expect(failure.snippet.endsWith('…')).toBe(true);
+  });
+});
+
+describe('validateADKEvent()', () => {
+  it('reports malformed tool calls and responses', () => {
+    const unnamed = { ...modelEvent, content: { role: 'model', parts: [{ functionCall: { args: {} } }] } };
+    const badResponse = {
+      ...modelEvent,
+      content: { role: 'user', parts: [{ functionResponse: { name: 'ActivityResearchGroup', response: 'done' } }] }
+    };
+
+    expect(failureOf(() => validateADKEvent(unnamed))).toEqual({
+      path: '$.content.parts[0].functionCall.name',
+      reason: 'expected a string, got nothing',
+      snippet: '{"args":{}}'
+    });
+    expect(failureOf(() => validateADKEvent(badResponse)).path).toBe('$.content.parts[0].functionResponse.response');
+  });
+
+  it('reports malformed grounding and usage metadata', () => {
+    const badQueries = { ...modelEvent, groundingMetadata: { webSearchQueries: ['weather', 7] } };
+    const badChunk = { ...modelEvent, groundingMetadata: { groundingChunks: [{ web: 'weather.gov' }] } };
+    const badUsage = { ...modelEvent, usageMetadata: { totalTokenCount: '12' } };
+    const badSupport = { ...modelEvent, groundingMetadata: { groundingSupports: [{ groundingChunkIndices: ['0'] }] } };
+
+    expect(failureOf(() => validateADKEvent(badQueries)).path).toBe('$.groundingMetadata.webSearchQueries[1]');
+    expect(failureOf(() => validateADKEvent(badChunk)).path).toBe('$.groundingMetadata.groundingChunks[0].web');
+    expect(failureOf(() => validateADKEvent(badUsage)).reason).toBe('expected a number, got a string');
+    expect(failureOf(() => validateADKEvent(badSupport)).path).toBe(
+      '$.groundingMetadata.groundingSupports[0].groundingChunkIndices'
+    );
+  });
+
+  it('reports grounding sources and segments whose text is not a string', () => {
+    const numericTitle = {
+      ...modelEvent,
+      groundingMetadata: { groundingChunks: [{ web: { uri: 'https://weather.gov', title: 42 } }] }
+    };
+    const numericUri = { ...modelEvent, groundingMetadata: { groundingChunks: [{ web: { uri: 7 } }] } };
+    const numericSegment = {
+      ...modelEvent,
+      groundingMetadata: { groundingSupports: [{ segment: { text: 3 }, groundingChunkIndices: [0] }] }
+    };
+
+    expect(failureOf(() => validateADKEvent(numericTitle))).toMatchObject({
+      path: '$.groundingMetadata.groundingChunks[0].web.title',
+      reason: 'expected a string, got a number'
+    });
+    expect(failureOf(() => validateADKEvent(numericUri)).path).toBe('$.groundingMetadata.groundingChunks[0].web.uri');
+    expect(failureOf(() => validateADKEvent(numericSegment)).path).toBe(
+      '$.groundingMetadata.groundingSupports[0].segment.text'
+    );
+    expect(() =>
+      validateADKEvent({ ...modelEvent, groundingMetadata: { groundingChunks: [{ web: {} }, {}] } })
+    ).not.toThrow();
+  });
+
+  it('uses the given path prefix', () => {
+    expect(failureOf(() => validateADKEvent({ ...modelEvent, partial: 'yes' }, '$[3]'))).toEqual({
+      path: '$[3].partial',
+      reason: 'expected a boolean, got a string',
+      snippet: '"yes"'
+    });
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(failureOf(() => validateADKEvent(null)).reason).toBe('expected an object, got null');
+    expect(failureOf(() => validateADKEvent([])).reason).toBe('expected an object, got an array');
+  });
+});
+
+describe('validateADKSession() and validateADKSessionList()', () => {
+  const session = { id: 'session-1', appName: 'WeekendPlanner', userId: 'user-1', lastUpdateTime: 1710498600 };
+
+  it('validates the events and fills in missing events and state', () => {
+    expect(validateADKSession({ ...session, events: [modelEvent], state: { a: 1 } })).toEqual({
+      ...session,
+      events: [modelEvent],
+      state: { a: 1 }
+    });
+    expect(validateADKSession({ ...session, events: null })).toMatchObject({ events: [], state: {} });
+  });
+
+  it('reports the failing path within the session', () => {
+    expect(failureOf(() => validateADKSession({ ...session, events: 'none' })).path).toBe('$.events');
+    expect(failureOf(() => validateADKSession({ ...session, events: [{ ...modelEvent, id: 1 }] })).path).toBe(
+      '$.events[0].id'
+    );
+    expect(failureOf(() => validateADKSession({ ...session, lastUpdateTime: 'today' })).path).toBe(
+      '$.lastUpdateTime'
+    );
+    expect(failureOf(() => validateADKSessionList([session, { ...session, state: [] }])).path).toBe('$[1].state');
+    expect(failureOf(() => validateADKSessionList({ sessions: [] })).reason).toBe(
+      'expected an array of sessions, got an object'
+    );
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for weekend dates (frontend/src/api/weekend.ts).
+ *
+ * Test Coverage:
+ * - Federal holidays, including ones observed on a Friday or Monday
+ * - The upcoming Saturday from any day of the week
+ * - This and next weekend, extended over holiday Fridays and Mondays
+ * - Validation of picked dates and of stored values
+ * - Display text, prompt sentence and past weekends
+ *
+ * @module __tests__/api/weekend.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createWeekendDates,
+  describeWeekendDates,
+  findHoliday,
+  formatWeekendDates,
+  getPresetWeekend,
+  getUpcomingWeekend,
+  getWeekendDates,
+  isWeekendDates,
+  isWeekendPast,
+  listWeekendDays,
+  parseIsoDate,
+  toIsoDate,
+  validateWeekendDates
+} from '../../api/weekend';
+
+describe('findHoliday()', () => {
+  it.each([
+    [new Date(2026, 4, 25), 'Memorial Day'],
+    [new Date(2026, 8, 7), 'Labor Day'],
+    [new Date(2026, 10, 26), 'Thanksgiving'],
+    // July 4, 2026 is a Saturday, observed on Friday July 3
+    [new Date(2026, 6, 3), 'Independence Day'],
+    // January 1, 2028 is a Saturday, observed on Friday December 31, 2027
+    [new Date(2027, 11, 31), "New Year's Day"]
+  ])('finds the holiday on %s', (date, name) => {
+    expect(findHoliday(date)).toBe(name);
+  });
+
+  it('returns undefined on other days', () => {
+    expect(findHoliday(new Date(2026, 6, 4))).toBeUndefined();
+    expect(findHoliday(new Date(2026, 9, 24))).toBeUndefined();
+  });
+});
+
+describe('getUpcomingWeekend()', () => {
+  it.each([
+    ['Monday', new Date(2026, 9, 19, 15), '2026-10-24'],
+    ['Friday', new Date(2026, 9, 23, 8), '2026-10-24'],
+    ['Saturday', new Date(2026, 9, 24, 20), '2026-10-24'],
+    ['Sunday', new Date(2026, 9, 25, 9), '2026-10-24'],
+    ['end of month', new Date(2026, 9, 29), '2026-10-31']
+  ])('finds the Saturday from a %s', (_day, date, expected) => {
+    const result = getUpcomingWeekend(date);
+
+    expect(result.getDay()).toBe(6);
+    expect(result.getHours()).toBe(0);
+    expect(toIsoDate(result)).toBe(expected);
+  });
+});
+
+describe('getWeekendDates() and getPresetWeekend()', () => {
+  it('covers Saturday and Sunday of a regular weekend', () => {
+    expect(getWeekendDates(new Date(2026, 9, 24))).toEqual({ start: '2026-10-24', end: '2026-10-25' });
+  });
+
+  it('extends over a holiday Monday or Friday', () => {
+    expect(getWeekendDates(new Date(2026, 8, 5))).toEqual({
+      start: '2026-09-05',
+      end: '2026-09-07',
+      holiday: 'Labor Day'
+    });
+    expect(getWeekendDates(new Date(2026, 6, 4))).toEqual({
+      start: '2026-07-03',
+      end: '2026-07-05',
+      holiday: 'Independence Day'
+    });
+  });
+
+  it('picks this and next weekend from the current date', () => {
+    const monday = new Date(2026, 9, 19, 15, 30);
+    expect(getPresetWeekend('this', monday)).toEqual({ start: '2026-10-24', end: '2026-10-25' });
+    expect(getPresetWeekend('next', monday)).toEqual({ start: '2026-10-31', end: '2026-11-01' });
+    expect(getPresetWeekend('this', new Date(2026, 9, 25))).toEqual({ start: '2026-10-24', end: '2026-10-25' });
+  });
+});
+
+describe('validateWeekendDates()', () => {
+  const now = new Date(2026, 9, 19, 15, 30);
+
+  it('accepts up to four days from today on', () => {
+    expect(validateWeekendDates('2026-10-19', '2026-10-19', now)).toBeUndefined();
+    expect(validateWeekendDates('2026-10-23', '2026-10-26', now)).toBeUndefined();
+  });
+
+  it.each([
+    ['', '2026-10-25', 'Choose a start and an end date'],
+    ['2026-02-30', '2026-03-01', 'Choose a start and an end date'],
+    ['2026-10-25', '2026-10-24', 'The end date cannot be before the start date'],
+    ['2026-10-17', '2026-10-18', 'These dates have already passed'],
+    ['2026-10-23', '2026-10-27', 'Choose at most 4 days']
+  ])('rejects %s to %s', (start, end, message) => {
+    expect(validateWeekendDates(start, end, now)).toBe(message);
+  });
+});
+
+describe('isWeekendDates()', () => {
+  it('accepts well-formed dates only', () => {
+    expect(isWeekendDates({ start: '2026-10-24', end: '2026-10-25' })).toBe(true);
+    expect(isWeekendDates({ start: '2026-10-24', end: '2026-10-25', holiday: 'Labor Day' })).toBe(true);
+    expect(isWeekendDates({ start: '2026-10-25', end: '2026-10-24' })).toBe(false);
+    expect(isWeekendDates({ start: '10/24/2026', end: '2026-10-25' })).toBe(false);
+    expect(isWeekendDates({ start: '2026-10-24', end: '2026-10-25', holiday: 1 })).toBe(false);
+    expect(isWeekendDates(null)).toBe(false);
+  });
+});
+
+describe('formatWeekendDates() and describeWeekendDates()', () => {
+  it('formats a weekend for display', () => {
+    expect(formatWeekendDates({ start: '2026-10-24', end: '2026-10-25' })).toBe('Sat, Oct 24 – Sun, Oct 25, 2026');
+    expect(formatWeekendDates({ start: '2026-12-31', end: '2027-01-01' })).toBe(
+      'Thu, Dec 31, 2026 – Fri, Jan 1, 2027'
+    );
+    expect(formatWeekendDates({ start: '2026-09-05', end: '2026-09-07', holiday: 'Labor Day' })).toBe(
+      'Sat, Sep 5 – Mon, Sep 7, 2026 (Labor Day weekend)'
+    );
+  });
+
+  it('writes the prompt sentence', () => {
+    expect(describeWeekendDates({ start: '2026-10-24', end: '2026-10-25' })).toBe(
+      'The trip is for Saturday, October 24 to Sunday, October 25, 2026.'
+    );
+    expect(describeWeekendDates({ start: '2026-09-05', end: '2026-09-07', holiday: 'Labor Day' })).toBe(
+      'The trip is for Saturday, September 5 to Monday, September 7, 2026. It is the Labor Day long weekend.'
+    );
+    expect(describeWeekendDates({ start: '2026-10-24', end: '2026-10-24' })).toBe(
+      'The trip is for Saturday, October 24, 2026.'
+    );
+    expect(describeWeekendDates(undefined)).toBe('');
+  });
+});
+
+describe('isWeekendPast(), listWeekendDays() and createWeekendDates()', () => {
+  it('flags a weekend once its last day is over', () => {
+    const dates = { start: '2026-10-24', end: '2026-10-25' };
+    expect(isWeekendPast(dates, new Date(2026, 9, 25, 23, 59))).toBe(false);
+    expect(isWeekendPast(dates, new Date(2026, 9, 26))).toBe(true);
+  });
+
+  it('lists every day of the dates', () => {
+    expect(listWeekendDays({ start: '2026-10-30', end: '2026-11-02' })).toEqual([
+      new Date(2026, 9, 30),
+      new Date(2026, 9, 31),
+      new Date(2026, 10, 1),
+      new Date(2026, 10, 2)
+    ]);
+    expect(listWeekendDays({ start: '2026-10-20', end: '2026-10-20' })).toEqual([new Date(2026, 9, 20)]);
+    expect(listWeekendDays({ start: '2026-10-25', end: '2026-10-24' })).toEqual([]);
+  });
+
+  it('names a holiday within picked dates', () => {
+    expect(createWeekendDates(parseIsoDate('2026-11-26')!, parseIsoDate('2026-11-29')!)).toEqual({
+      start: '2026-11-26',
+      end: '2026-11-29',
+      holiday: 'Thanksgiving'
+    });
+  });
+});
@@ -8,7 +8,7 @@
  * 3. Status code rendering in technical details
  * 4. Raw body content display when expanded
  *
- * Additional tests cover error message mappings, accessibility features,
+ * Additional tests cover message display per error kind, accessibility features,
  * and edge cases for comprehensive coverage.
  *
  * @fileoverview Unit tests for ErrorDisplay component using Vitest and
@@ -16,10 +16,11 @@
  * details functionality, and WCAG AA accessibility compliance.
  */
 
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
-import { ErrorDisplay, type ErrorDisplayError } from '../../components/ErrorDisplay';
-import type { PlanError } from '../../types';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ErrorDisplay } from '../../components/ErrorDisplay';
+import { createHttpError, createPlanError, PLAN_ERROR_MESSAGES } from '../../api/errors';
+import type { PlanError, PlanErrorKind } from '../../types';
 
 /**
  * Test suite for ErrorDisplay component.
@@ -28,30 +29,18 @@ import type { PlanError } from '../../types';
  */
 describe('ErrorDisplay', () => {
   /**
-   * Mock error data for testing different scenarios.
-   * Uses ErrorDisplayError which extends PlanError with additional 'type' field.
+   * Mock error data for testing different scenarios,
+   * built with the same factories the API client uses.
    */
 
-  // Network error to test user-friendly message mapping
-  const networkError: ErrorDisplayError = {
-    message: 'Failed to fetch',
-    type: 'network',
-  };
-
-  // Server error with full technical details (statusCode, body, type)
-  const serverError: ErrorDisplayError = {
-    message: 'Internal server error',
-    statusCode: 500,
-    body: '{"error": "Internal server error"}',
-    type: 'server',
-  };
-
-  // Mock error using PlanError interface (without type field)
-  const planErrorMock: PlanError = {
-    message: 'Bad request',
-    statusCode: 400,
-    body: '{"error": "Invalid input parameters"}',
-  };
+  // Network error without technical details
+  const networkError: PlanError = createPlanError('network');
+
+  // Server error with full technical details (statusCode, body)
+  const serverError: PlanError = createHttpError(500, '{"error": "Internal server error"}');
+
+  // Client error whose message carries the server's reason
+  const clientError: PlanError = createHttpError(400, '{"error": "Invalid input parameters"}');
 
   // ============================================================================
   // CORE REQUIRED TEST CASES (4 tests as per specification)
@@ -60,18 +49,16 @@ describe('ErrorDisplay', () => {
   /**
    * Test Case 1: Displays user-friendly error message
    *
-   * Validates that the component displays appropriate user-friendly messages
-   * based on error type, not showing raw technical error details initially.
-   * Network errors should show the ADK server running message.
+   * Validates that the component displays the error's user-friendly message,
+   * not raw technical error details. Network errors should show the ADK
+   * server running message.
    */
   it('displays user-friendly error message', () => {
     render(<ErrorDisplay error={networkError} />);
 
-    // Network errors should display the user-friendly message
-    // Not the raw "Failed to fetch" error
     expect(screen.getByText(/couldn't reach the backend/i)).toBeInTheDocument();
 
-    // Verify the raw error message is NOT shown directly
+    // Verify no raw fetch failure is shown
     expect(screen.queryByText(/failed to fetch/i)).not.toBeInTheDocument();
   });
 
@@ -164,175 +151,41 @@ describe('ErrorDisplay', () => {
   });
 
   // ============================================================================
-  // ERROR TYPE MAPPINGS
+  // MESSAGE DISPLAY
   // ============================================================================
 
-  describe('getUserMessage error type mappings', () => {
-    it('displays timeout message for timeout errors', () => {
-      const timeoutError: ErrorDisplayError = {
-        message: 'Request aborted',
-        type: 'timeout',
-      };
-      render(<ErrorDisplay error={timeoutError} />);
-      expect(screen.getByText(/request timed out/i)).toBeInTheDocument();
+  describe('Message display', () => {
+    const kinds: Array<Exclude<PlanErrorKind, 'client' | 'rate-limited'>> = [
+      'network',
+      'timeout',
+      'cors',
+      'cancelled',
+      'server',
+      'parse',
+      'session-failed',
+    ];
+
+    it.each(kinds)('displays the standard message for %s errors', (kind) => {
+      render(<ErrorDisplay error={createPlanError(kind)} />);
+      expect(screen.getByText(PLAN_ERROR_MESSAGES[kind])).toBeInTheDocument();
     });
 
-    it('displays CORS message for cors errors', () => {
-      const corsError: ErrorDisplayError = {
-        message: 'CORS error',
-        type: 'cors',
-      };
-      render(<ErrorDisplay error={corsError} />);
-      expect(screen.getByText(/connection blocked/i)).toBeInTheDocument();
-    });
-
-    it('displays parse error message for parse errors', () => {
-      const parseError: ErrorDisplayError = {
-        message: 'JSON parse error',
-        type: 'parse',
-      };
-      render(<ErrorDisplay error={parseError} />);
-      expect(screen.getByText(/unexpected response format/i)).toBeInTheDocument();
-    });
-
-    it('displays invalid request message for client errors', () => {
-      const clientError: ErrorDisplayError = {
-        message: 'Bad request data',
-        type: 'client',
-      };
+    it('displays the server reason for client errors', () => {
       render(<ErrorDisplay error={clientError} />);
-      expect(screen.getByText(/invalid request: bad request data/i)).toBeInTheDocument();
-    });
-
-    it('displays invalid request message for client errors without message', () => {
-      const clientError: ErrorDisplayError = {
-        message: '',
-        type: 'client',
-      };
-      render(<ErrorDisplay error={clientError} />);
-      expect(screen.getByText(/invalid request:.*check your input/i)).toBeInTheDocument();
-    });
-
-    it('falls through to status code check for unknown error types', () => {
-      const unknownTypeError: ErrorDisplayError = {
-        message: 'Some error',
-        type: 'unknown_type',
-        statusCode: 400,
-      };
-      render(<ErrorDisplay error={unknownTypeError} />);
-      expect(screen.getByText(/invalid request/i)).toBeInTheDocument();
-    });
-
-    it('displays server error message for 500 type errors', () => {
-      render(<ErrorDisplay error={serverError} />);
-      expect(screen.getByText(/something went wrong on the server/i)).toBeInTheDocument();
-    });
-  });
-
-  // ============================================================================
-  // STATUS CODE MAPPINGS
-  // ============================================================================
-
-  describe('getUserMessage status code mappings', () => {
-    it('displays invalid request for 4xx status codes without type', () => {
-      render(<ErrorDisplay error={planErrorMock} />);
-      expect(screen.getByText(/invalid request: bad request/i)).toBeInTheDocument();
-    });
-
-    it('displays server error for 5xx status codes without type', () => {
-      const error503: ErrorDisplayError = {
-        message: 'Service unavailable',
-        statusCode: 503,
-      };
-      render(<ErrorDisplay error={error503} />);
-      expect(screen.getByText(/something went wrong on the server/i)).toBeInTheDocument();
-    });
-
-    it('handles 404 errors appropriately', () => {
-      const error404: ErrorDisplayError = {
-        message: 'Not found',
-        statusCode: 404,
-      };
-      render(<ErrorDisplay error={error404} />);
-      expect(screen.getByText(/invalid request: not found/i)).toBeInTheDocument();
-    });
-  });
-
-  // ============================================================================
-  // MESSAGE PATTERN MATCHING
-  // ============================================================================
-
-  describe('getUserMessage message pattern matching', () => {
-    it('detects network error from message pattern - fetch', () => {
-      const fetchError: ErrorDisplayError = {
-        message: 'Failed to fetch resource',
-      };
-      render(<ErrorDisplay error={fetchError} />);
-      expect(screen.getByText(/couldn't reach the backend/i)).toBeInTheDocument();
-    });
-
-    it('detects network error from message pattern - connection refused', () => {
-      const connRefusedError: ErrorDisplayError = {
-        message: 'Connection refused by server',
-      };
-      render(<ErrorDisplay error={connRefusedError} />);
-      expect(screen.getByText(/couldn't reach the backend/i)).toBeInTheDocument();
-    });
-
-    it('detects network error from message pattern - econnrefused', () => {
-      const econnError: ErrorDisplayError = {
-        message: 'ECONNREFUSED',
-      };
-      render(<ErrorDisplay error={econnError} />);
-      expect(screen.getByText(/couldn't reach the backend/i)).toBeInTheDocument();
-    });
-
-    it('detects timeout from message pattern - aborted', () => {
-      const abortedError: ErrorDisplayError = {
-        message: 'Request was aborted',
-      };
-      render(<ErrorDisplay error={abortedError} />);
-      expect(screen.getByText(/request timed out/i)).toBeInTheDocument();
+      expect(screen.getByText('Invalid request: Invalid input parameters')).toBeInTheDocument();
     });
 
-    it('detects cors from message pattern', () => {
-      const corsMessageError: ErrorDisplayError = {
-        message: 'CORS policy blocked this request',
-      };
-      render(<ErrorDisplay error={corsMessageError} />);
-      expect(screen.getByText(/connection blocked/i)).toBeInTheDocument();
+    it('displays the rate-limited message for 429 errors', () => {
+      render(<ErrorDisplay error={createHttpError(429)} />);
+      expect(screen.getByText(/planner is busy/i)).toBeInTheDocument();
     });
 
-    it('detects json parse error from message pattern', () => {
-      const jsonError: ErrorDisplayError = {
-        message: 'Invalid JSON response',
-      };
-      render(<ErrorDisplay error={jsonError} />);
-      expect(screen.getByText(/unexpected response format/i)).toBeInTheDocument();
-    });
-
-    it('detects unexpected error from message pattern', () => {
-      const unexpectedError: ErrorDisplayError = {
-        message: 'Unexpected response received',
-      };
-      render(<ErrorDisplay error={unexpectedError} />);
-      expect(screen.getByText(/unexpected response format/i)).toBeInTheDocument();
-    });
-
-    it('uses original message as fallback when no patterns match', () => {
-      const customError: ErrorDisplayError = {
-        message: 'Custom error that matches nothing',
-      };
-      render(<ErrorDisplay error={customError} />);
-      expect(screen.getByText(/custom error that matches nothing/i)).toBeInTheDocument();
-    });
-
-    it('shows default message when error message is empty', () => {
-      const emptyError: ErrorDisplayError = {
-        message: '',
-      };
-      render(<ErrorDisplay error={emptyError} />);
-      expect(screen.getByText(/unexpected response format/i)).toBeInTheDocument();
+    it('does not reinterpret the message text', () => {
+      // A message that mentions "fetch" is still shown as the server error it is
+      const serverMessage: PlanError = { kind: 'server', message: 'Failed to fetch upstream weather data' };
+      render(<ErrorDisplay error={serverMessage} />);
+      expect(screen.getByText('Failed to fetch upstream weather data')).toBeInTheDocument();
+      expect(screen.queryByText(/couldn't reach the backend/i)).not.toBeInTheDocument();
     });
   });
 
@@ -342,9 +195,9 @@ describe('ErrorDisplay', () => {
 
   describe('Technical Details visibility', () => {
     it('hides technical details section when no statusCode or body', () => {
-      const simpleError: ErrorDisplayError = {
+      const simpleError: PlanError = {
+        kind: 'network',
         message: 'Simple error',
-        type: 'network',
       };
       render(<ErrorDisplay error={simpleError} />);
       expect(
@@ -353,7 +206,8 @@ describe('ErrorDisplay', () => {
     });
 
     it('shows technical details section with only statusCode', () => {
-      const errorWithStatus: ErrorDisplayError = {
+      const errorWithStatus: PlanError = {
+        kind: 'client',
         message: 'Error',
         statusCode: 404,
       };
@@ -362,7 +216,8 @@ describe('ErrorDisplay', () => {
     });
 
     it('shows technical details section with only body', () => {
-      const errorWithBody: ErrorDisplayError = {
+      const errorWithBody: PlanError = {
+        kind: 'server',
         message: 'Error',
         body: 'Some error details',
       };
@@ -391,7 +246,8 @@ describe('ErrorDisplay', () => {
     });
 
     it('shows only status code when body is not provided', () => {
-      const errorStatusOnly: ErrorDisplayError = {
+      const errorStatusOnly: PlanError = {
+        kind: 'server',
         message: 'Error',
         statusCode: 500,
       };
@@ -405,7 +261,8 @@ describe('ErrorDisplay', () => {
     });
 
     it('shows only body when statusCode is not provided', () => {
-      const errorBodyOnly: ErrorDisplayError = {
+      const errorBodyOnly: PlanError = {
+        kind: 'server',
         message: 'Error',
         body: '{"detail": "something went wrong"}',
       };
@@ -471,26 +328,113 @@ describe('ErrorDisplay', () => {
   });
 
   // ============================================================================
-  // PLAN ERROR TYPE COMPATIBILITY
+  // CLIENT ERROR DETAILS
   // ============================================================================
 
-  describe('PlanError type compatibility', () => {
+  describe('Client error details', () => {
     /**
-     * Verifies that errors conforming to PlanError interface work correctly.
-     * PlanError is the base interface from types.ts without the 'type' field.
+     * Verifies a client error shows its reason and the raw response.
      */
-    it('handles PlanError interface correctly', () => {
-      render(<ErrorDisplay error={planErrorMock} />);
-
-      // Should display user-friendly message based on status code
-      expect(screen.getByText(/invalid request: bad request/i)).toBeInTheDocument();
+    it('shows the status code and raw body of client errors', () => {
+      render(<ErrorDisplay error={clientError} />);
 
-      // Technical details should be available
       const detailsButton = screen.getByRole('button', { name: /technical details/i });
       fireEvent.click(detailsButton);
 
       expect(screen.getByText('400')).toBeInTheDocument();
-      expect(screen.getByText(/invalid input parameters/i)).toBeInTheDocument();
+      expect(screen.getByText(/"error": "Invalid input parameters"/i)).toBeInTheDocument();
+    });
+  });
+
+  // ============================================================================
+  // MALFORMED RESPONSE DETAILS
+  // ============================================================================
+
+  describe('Malformed response details', () => {
+    /**
+     * Verifies parse errors show where validation failed and the offending data.
+     */
+    it('shows the validation path, reason and offending snippet', () => {
+      const parseError = createPlanError('parse', {
+        statusCode: 200,
+        decodeFailure: {
+          path: '$[0].content.parts[1].text',
+          reason: 'expected a string, got a number',
+          snippet: '42',
+        },
+      });
+      render(<ErrorDisplay error={parseError} />);
+
+      expect(screen.getByText(/unexpected response format/i)).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: /technical details/i }));
+
+      expect(screen.getByText('$[0].content.parts[1].text')).toBeInTheDocument();
+      expect(screen.getByText('expected a string, got a number')).toBeInTheDocument();
+      expect(screen.getByText(/offending data:/i)).toBeInTheDocument();
+      expect(screen.getByText('42')).toBeInTheDocument();
+    });
+
+    it('offers technical details for a decode failure without status code or body', () => {
+      render(
+        <ErrorDisplay
+          error={createPlanError('parse', { decodeFailure: { path: '$', reason: 'expected valid JSON', snippet: '<html>' } })}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: /technical details/i })).toBeInTheDocument();
+    });
+  });
+
+  // ============================================================================
+  // AUTOMATIC RETRY COUNTDOWN
+  // ============================================================================
+
+  describe('Automatic retry', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('counts down and calls onRetry when it reaches zero', () => {
+      vi.useFakeTimers();
+      const onRetry = vi.fn();
+      render(<ErrorDisplay error={serverError} onRetry={onRetry} autoRetryDelayMs={3000} />);
+
+      expect(screen.getByRole('timer')).toHaveTextContent('Retrying automatically in 3s...');
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(screen.getByRole('timer')).toHaveTextContent('Retrying automatically in 2s...');
+      expect(onRetry).not.toHaveBeenCalled();
+
+      // Each tick schedules the next one after re-rendering
+      for (let tick = 0; tick < 2; tick++) {
+        act(() => {
+          vi.advanceTimersByTime(1000);
+        });
+      }
+      expect(onRetry).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops the countdown when the automatic retry is cancelled', () => {
+      vi.useFakeTimers();
+      const onRetry = vi.fn();
+      render(<ErrorDisplay error={serverError} onRetry={onRetry} autoRetryDelayMs={3000} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel automatic retry' }));
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+      expect(onRetry).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: /try again/i })).toBeInTheDocument();
+    });
+
+    it('does not count down without onRetry', () => {
+      render(<ErrorDisplay error={serverError} autoRetryDelayMs={3000} />);
+
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
     });
   });
 });
@@ -0,0 +1,77 @@
+/**
+ * ExportMenu Component Unit Tests
+ *
+ * Test suite for the ExportMenu component that offers the plan's file
+ * export formats.
+ *
+ * Test Coverage:
+ * - Closed by default, opening a menu of the four formats
+ * - Choosing a format calls onExport and closes the menu
+ * - "Include raw events" applies to JSON only, and only with raw events
+ * - Escape closes the menu and returns focus to the button
+ *
+ * @fileoverview Unit tests for the plan export format menu
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ExportMenu from '../../components/ExportMenu';
+
+describe('ExportMenu', () => {
+  it('opens a menu of the export formats', () => {
+    render(<ExportMenu onExport={vi.fn()} />);
+    const button = screen.getByRole('button', { name: 'Export' });
+
+    expect(button).toHaveAttribute('aria-haspopup', 'menu');
+    expect(button).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+    fireEvent.click(button);
+
+    expect(button).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getAllByRole('menuitem').map((item) => item.textContent)).toEqual([
+      'Markdown (.md)',
+      'Plain text (.txt)',
+      'JSON (.json)',
+      'Printable HTML (.html)',
+    ]);
+    expect(screen.queryByRole('checkbox')).not.toBeInTheDocument();
+  });
+
+  it('exports the chosen format and closes', () => {
+    const onExport = vi.fn();
+    render(<ExportMenu onExport={onExport} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Printable HTML (.html)' }));
+
+    expect(onExport).toHaveBeenCalledWith('html', false);
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export' })).toHaveFocus();
+  });
+
+  it('includes raw events in the JSON export only', () => {
+    const onExport = vi.fn();
+    render(<ExportMenu onExport={onExport} hasRawEvents />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Include raw events in JSON' }));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Markdown (.md)' }));
+    expect(onExport).toHaveBeenLastCalledWith('markdown', false);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    expect(screen.getByRole('checkbox', { name: 'Include raw events in JSON' })).toBeChecked();
+    fireEvent.click(screen.getByRole('menuitem', { name: 'JSON (.json)' }));
+    expect(onExport).toHaveBeenLastCalledWith('json', true);
+  });
+
+  it('closes on Escape', () => {
+    render(<ExportMenu onExport={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+    fireEvent.keyDown(screen.getByRole('menuitem', { name: 'JSON (.json)' }), { key: 'Escape' });
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export' })).toHaveFocus();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * HistoryPanel Component Unit Tests
+ *
+ * Test suite for the HistoryPanel component that browses the plans saved
+ * in the local plan history.
+ *
+ * Test Coverage:
+ * - Collapsed by default, loading the history when opened
+ * - Empty state and previews of saved plans
+ * - Search by zip code and keyword
+ * - Open, Pin/Unpin and Delete actions
+ * - Error state when IndexedDB is unavailable
+ *
+ * @fileoverview Unit tests for the local plan history browser
+ */
+
+import { render, screen, fireEvent, within, waitForElementToBeRemoved } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import HistoryPanel from '../../components/HistoryPanel';
+import { listSavedPlans, savePlan } from '../../api/history';
+import { mockSessionState } from '../../__mocks__/handlers';
+
+/**
+ * Saves two plans, the Boston one last so it is listed first.
+ */
+const seedHistory = async (): Promise<void> => {
+  await savePlan(
+    { location: '94105', kidsAges: [5, 8] },
+    { success: true, planText: mockSessionState.final_summary, sessionId: 'session-sf' }
+  );
+  await savePlan(
+    { location: '02138', kidsAges: [4] },
+    { success: true, planText: 'Rainy day ideas: build a blanket fort and bake cookies.', sessionId: 'session-boston' }
+  );
+};
+
+/**
+ * Renders the panel and expands it.
+ */
+const renderExpanded = (props: Partial<Parameters<typeof HistoryPanel>[0]> = {}) => {
+  const onOpen = vi.fn();
+  render(<HistoryPanel onOpen={onOpen} {...props} />);
+  fireEvent.click(screen.getByRole('button', { name: /plan history/i }));
+  return { onOpen };
+};
+
+describe('HistoryPanel', () => {
+  it('is collapsed by default', () => {
+    render(<HistoryPanel onOpen={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: /plan history/i })).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('region', { name: 'Plan history' })).not.toBeInTheDocument();
+  });
+
+  it('shows an empty state when nothing is saved', async () => {
+    renderExpanded();
+
+    expect(await screen.findByText('No saved plans yet.')).toBeInTheDocument();
+  });
+
+  it('lists saved plans, newest first, with a preview', async () => {
+    await seedHistory();
+    renderExpanded({ activePlanId: 'session-sf' });
+
+    const list = await screen.findByRole('list', { name: 'Saved plans' });
+    const items = within(list).getAllByRole('listitem');
+    expect(items).toHaveLength(2);
+    expect(items[0]).toHaveTextContent('02138');
+    expect(items[0]).toHaveTextContent('Rainy day ideas');
+    expect(items[1]).toHaveTextContent('94105');
+    expect(items[1]).toHaveTextContent("Visit the local farmer's market");
+    expect(items[1]).toHaveAttribute('aria-current', 'true');
+  });
+
+  it('filters plans by zip code and keyword', async () => {
+    await seedHistory();
+    renderExpanded();
+    await screen.findByRole('list', { name: 'Saved plans' });
+
+    const search = screen.getByRole('searchbox', { name: 'Search plan history' });
+    fireEvent.change(search, { target: { value: '94105' } });
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+    expect(screen.getByRole('listitem')).toHaveTextContent('94105');
+
+    fireEvent.change(search, { target: { value: 'blanket fort' } });
+    expect(screen.getByRole('listitem')).toHaveTextContent('02138');
+
+    fireEvent.change(search, { target: { value: 'skydiving' } });
+    expect(screen.getByText('No plans match your search.')).toBeInTheDocument();
+  });
+
+  it('opens a saved plan', async () => {
+    await seedHistory();
+    const { onOpen } = renderExpanded();
+
+    fireEvent.click(await screen.findByRole('button', { name: /^open 94105 plan/i }));
+
+    expect(onOpen).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'session-sf', input: { location: '94105', kidsAges: [5, 8] } })
+    );
+  });
+
+  it('pins a plan to the top and unpins it again', async () => {
+    await seedHistory();
+    renderExpanded();
+
+    fireEvent.click(await screen.findByRole('button', { name: /^pin 94105 plan/i }));
+
+    const unpin = await screen.findByRole('button', { name: /^unpin 94105 plan/i });
+    expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('(pinned)');
+    expect((await listSavedPlans())[0]).toMatchObject({ id: 'session-sf', pinned: true });
+
+    fireEvent.click(unpin);
+    await screen.findByRole('button', { name: /^pin 94105 plan/i });
+    expect(screen.getAllByRole('listitem')[0]).toHaveTextContent('02138');
+  });
+
+  it('deletes a plan', async () => {
+    await seedHistory();
+    renderExpanded();
+
+    fireEvent.click(await screen.findByRole('button', { name: /^delete 02138 plan/i }));
+
+    await waitForElementToBeRemoved(() => screen.queryByRole('button', { name: /^open 02138 plan/i }));
+    expect(screen.getByRole('button', { name: /^open 94105 plan/i })).toBeInTheDocument();
+    expect((await listSavedPlans()).map((plan) => plan.id)).toEqual(['session-sf']);
+  });
+
+  it('shows an error when the history cannot be loaded', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    try {
+      renderExpanded();
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Plan history is not available');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * HouseholdSettings Component Unit Tests
+ *
+ * Test suite for the settings section managing household profiles.
+ *
+ * Test Coverage:
+ * - Empty state and the household list
+ * - Renaming, duplicating and deleting households
+ * - JSON export and import
+ *
+ * @fileoverview Unit tests for household management in the settings
+ */
+
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import HouseholdSettings from '../../components/HouseholdSettings';
+import { downloadFile } from '../../api/download';
+import { createHouseholdProfile, formatHouseholdsExport, listHouseholdProfiles } from '../../api/households';
+
+vi.mock('../../api/download', () => ({ downloadFile: vi.fn() }));
+
+/**
+ * Chooses a file with the given content in the import picker.
+ */
+const chooseFile = (content: string, name = 'households.json'): void => {
+  const file = new File([content], name, { type: 'application/json' });
+  fireEvent.change(screen.getByLabelText('Import households'), { target: { files: [file] } });
+};
+
+/**
+ * Lists the names of the households shown.
+ */
+const shownNames = (): string[] =>
+  within(screen.getByRole('list', { name: 'Households' }))
+    .getAllByRole('listitem')
+    .map((item) => item.querySelector('p')?.textContent ?? '');
+
+describe('HouseholdSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.mocked(downloadFile).mockClear();
+  });
+
+  it('explains that no household was saved yet', () => {
+    render(<HouseholdSettings />);
+
+    expect(screen.getByText('No saved households yet.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export households' })).toBeDisabled();
+  });
+
+  it('lists households with their zip code, kids and preferences', () => {
+    createHouseholdProfile({
+      name: 'Just us',
+      location: '94105',
+      children: [
+        { age: 7, unit: 'years', nickname: 'Sam' },
+        { age: 9, unit: 'months' },
+      ],
+      preferences: { budget: 'low', setting: 'outdoor' },
+    });
+    createHouseholdProfile({ name: 'Grandparents', location: '10001', children: [] });
+    render(<HouseholdSettings />);
+
+    expect(shownNames()).toEqual(['Grandparents', 'Just us']);
+    expect(screen.getByText('94105 · Sam (7 years), 9 months · 2 preferences')).toBeInTheDocument();
+    expect(screen.getByText('10001 · no kids')).toBeInTheDocument();
+  });
+
+  it('renames, duplicates and deletes households and notifies the parent', () => {
+    const onHouseholdsChange = vi.fn();
+    createHouseholdProfile({ name: 'Just us', location: '94105', children: [] });
+    createHouseholdProfile({ name: 'With cousins', location: '94105', children: [] });
+    render(<HouseholdSettings onHouseholdsChange={onHouseholdsChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Rename Just us' }));
+    const nameField = screen.getByLabelText('New name for Just us');
+    fireEvent.change(nameField, { target: { value: 'with COUSINS' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    expect(screen.getByRole('alert')).toHaveTextContent('A household named "with COUSINS" already exists');
+
+    fireEvent.change(nameField, { target: { value: 'Us four' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+    expect(shownNames()).toEqual(['Us four', 'With cousins']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate Us four' }));
+    expect(shownNames()).toEqual(['Us four', 'Us four (copy)', 'With cousins']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete With cousins' }));
+    expect(shownNames()).toEqual(['Us four', 'Us four (copy)']);
+    expect(onHouseholdsChange).toHaveBeenCalledTimes(3);
+  });
+
+  it('exports every household as JSON', () => {
+    createHouseholdProfile({ name: 'Just us', location: '94105', children: [] });
+    render(<HouseholdSettings />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export households' }));
+
+    expect(downloadFile).toHaveBeenCalledWith(
+      'weekend-planner-households.json',
+      expect.stringContaining('"schema": "weekend-planner/households"'),
+      'application/json'
+    );
+    const [, content] = vi.mocked(downloadFile).mock.calls[0];
+    expect(JSON.parse(content).profiles).toEqual(listHouseholdProfiles());
+  });
+
+  it('imports households and explains why a file cannot be imported', async () => {
+    const onHouseholdsChange = vi.fn();
+    const exported = formatHouseholdsExport([
+      { id: 'a', name: 'From the other laptop', location: '60601', children: [], updatedAt: 1 },
+    ]);
+    render(<HouseholdSettings onHouseholdsChange={onHouseholdsChange} />);
+
+    chooseFile('{"schema":"weekend-planner/plan"}', 'plan.json');
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Could not import plan.json: The file is not a Weekend Planner household export'
+    );
+
+    chooseFile(exported);
+    expect(await screen.findByRole('status')).toHaveTextContent('Imported 1 household');
+    await waitFor(() => expect(shownNames()).toEqual(['From the other laptop']));
+    expect(onHouseholdsChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,9 +3,11 @@
  * 
  * Comprehensive test suite for the InputForm component validating:
  * - Form field rendering (zip code, kids ages)
- * - Form validation logic (required zip code, age range validation 0 < age < 120)
+ * - Form validation logic (required zip code, ages the planner keeps: 1 to 18)
  * - Submit and reset functionality
  * - Input format acceptance with various whitespace patterns
+ * - Planning preferences behind the "More options" disclosure
+ * - Household profiles that fill in the form and are saved from it
  * 
  * Uses Vitest as the test runner with React Testing Library for component testing
  * and userEvent for realistic user interaction simulation.
@@ -15,10 +17,12 @@
  * @module __tests__/components/InputForm.test
  */
 
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import InputForm from '../../components/InputForm';
+import { createHouseholdProfile, listHouseholdProfiles } from '../../api/households';
+import { getPresetWeekend } from '../../api/weekend';
 
 /**
  * InputForm Component Test Suite
@@ -52,6 +56,7 @@ describe('InputForm', () => {
   beforeEach(() => {
     mockOnSubmit.mockClear();
     mockOnReset.mockClear();
+    localStorage.clear();
   });
 
   /**
@@ -214,7 +219,9 @@ describe('InputForm', () => {
       expect(mockOnSubmit).toHaveBeenCalledTimes(1);
       expect(mockOnSubmit).toHaveBeenCalledWith({
         location: '94105',
-        kidsAges: [5, 8]  // Now number array instead of string
+        kidsAges: [5, 8],  // Now number array instead of string
+        children: [{ age: 5, unit: 'years' }, { age: 8, unit: 'years' }],  // As entered
+        dates: getPresetWeekend('this')  // This weekend is chosen by default
       });
     });
   });
@@ -354,8 +361,8 @@ describe('InputForm', () => {
   /**
    * Test Case 9: Rejects age 0 as invalid (outside 0 < age)
    * 
-   * Verifies that age 0 fails validation per the constraint 0 < age < 120.
-   * Age must be greater than 0.
+   * Verifies that an age of 0 years fails validation.
+   * Babies under 1 are entered in months instead.
    */
   it('rejects age 0 as invalid (outside 0 < age)', async () => {
     // Setup userEvent for realistic user interaction simulation
@@ -402,16 +409,16 @@ describe('InputForm', () => {
   });
 
   // ============================================================================
-  // Test Case 10: Age Validation - Rejects Age 120 (Outside age < 120)
+  // Test Case 10: Age Validation - Leaves Out Age 120 (Outside 1-18)
   // ============================================================================
 
   /**
-   * Test Case 10: Rejects age 120 as invalid (outside age < 120)
+   * Test Case 10: Leaves age 120 out (outside the planner's 1-18)
    * 
-   * Verifies that age 120 fails validation per the constraint 0 < age < 120.
-   * Age must be less than 120.
+   * Verifies that age 120 is not sent as a kids age, since the planner
+   * only plans for ages 1 to 18.
    */
-  it('rejects age 120 as invalid (outside age < 120)', async () => {
+  it('leaves out age 120 (outside the planner range 1-18)', async () => {
     // Setup userEvent for realistic user interaction simulation
     const user = userEvent.setup();
 
@@ -459,8 +466,8 @@ describe('InputForm', () => {
   /**
    * Test Case 11: Accepts age 1 as valid (boundary)
    * 
-   * Verifies that age 1 passes validation per the constraint 0 < age < 120.
-   * Age 1 is the minimum valid age.
+   * Verifies that age 1 passes validation and is kept.
+   * Age 1 is the youngest age the planner accepts.
    */
   it('accepts age 1 as valid (boundary)', async () => {
     // Setup userEvent for realistic user interaction simulation
@@ -498,48 +505,33 @@ describe('InputForm', () => {
   });
 
   // ============================================================================
-  // Test Case 12: Age Validation - Accepts Age 119 (Boundary)
+  // Test Case 12: Age Validation - Accepts Age 18 (Boundary)
   // ============================================================================
 
   /**
-   * Test Case 12: Accepts age 119 as valid (boundary)
+   * Test Case 12: Accepts age 18 as valid (boundary) and warns about 19
    * 
-   * Verifies that age 119 passes validation per the constraint 0 < age < 120.
-   * Age 119 is the maximum valid age.
+   * Verifies that age 18, the oldest age the planner accepts, is kept, and
+   * that an older age is warned about before submission and left out.
    */
-  it('accepts age 119 as valid (boundary)', async () => {
-    // Setup userEvent for realistic user interaction simulation
+  it('accepts age 18 and warns about age 19 (boundary)', async () => {
     const user = userEvent.setup();
-
-    // Render the InputForm component with mock callbacks
     render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
 
-    // Get references to form elements
-    const zipCodeInput = screen.getByLabelText(/zip code/i);
-    const kidsAgesInput = screen.getByLabelText(/kids ages/i);
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.type(screen.getByLabelText(/kids ages/i), '18, 19');
 
-    // Fill in zip code and valid boundary age
-    await user.type(zipCodeInput, '94105');
-    await user.type(kidsAgesInput, '119');
+    expect(screen.getByRole('status', { name: /ages the planner will leave out/i })).toHaveTextContent(
+      'The planner only plans for ages 1-18, so it will leave out 19 years.'
+    );
 
-    // Wait for all input state updates to complete
-    await waitFor(() => {
-      expect(kidsAgesInput).toHaveValue('119');
-    });
-
-    // Submit the form
-    const submitButton = screen.getByRole('button', { name: /generate plan/i });
-    await user.click(submitButton);
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
 
-    // Verify that onSubmit was called with valid age
-    await waitFor(() => {
-      expect(mockOnSubmit).toHaveBeenCalledTimes(1);
-      expect(mockOnSubmit).toHaveBeenCalledWith(
-        expect.objectContaining({
-          kidsAges: [119]
-        })
-      );
-    });
+    expect(mockOnSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kidsAges: [18]
+      })
+    );
   });
 
   // ============================================================================
@@ -767,4 +759,288 @@ describe('InputForm', () => {
     const submitButton = screen.getByRole('button', { name: /generate plan/i });
     expect(submitButton).toBeEnabled();
   });
+
+  // ============================================================================
+  // Planning Preferences ("More options")
+  // ============================================================================
+
+  /**
+   * Verifies the preferences are collapsed by default and submitted when chosen.
+   */
+  it('submits the planning preferences chosen under More options', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    const disclosure = screen.getByRole('button', { name: /more options/i });
+    expect(disclosure).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByLabelText('Budget')).not.toBeInTheDocument();
+
+    await user.click(disclosure);
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.selectOptions(screen.getByLabelText('Budget'), 'Under $50 per person');
+    await user.type(screen.getByLabelText(/travel radius/i), '20');
+    await user.selectOptions(screen.getByLabelText('Indoor or outdoor'), 'Mostly outdoors');
+    await user.type(screen.getByLabelText('Interests'), 'dinosaurs, trains, Dinosaurs');
+    await user.click(screen.getByRole('checkbox', { name: 'Stroller friendly' }));
+    await user.selectOptions(screen.getByLabelText('Activity level'), 'Relaxed');
+    expect(disclosure).toHaveTextContent('(6 chosen)');
+
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith({
+      location: '94105',
+      kidsAges: [],
+      dates: getPresetWeekend('this'),
+      preferences: {
+        budget: 'moderate',
+        maxTravelMiles: 20,
+        setting: 'outdoor',
+        interests: ['dinosaurs', 'trains'],
+        accessibility: ['stroller'],
+        intensity: 'relaxed'
+      }
+    });
+  });
+
+  /**
+   * Verifies an invalid travel radius blocks submission and reopens the
+   * collapsed preferences to show the error.
+   */
+  it('shows preference errors even when More options was collapsed', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.click(screen.getByRole('button', { name: /more options/i }));
+    await user.type(screen.getByLabelText(/travel radius/i), '500');
+    await user.click(screen.getByRole('button', { name: /more options/i }));
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /more options/i })).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('Enter a whole number of miles from 1 to 100')).toBeInTheDocument();
+    expect(screen.getByLabelText(/travel radius/i)).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  /**
+   * Verifies Reset clears the preferences too.
+   */
+  it('clears the planning preferences on reset', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.click(screen.getByRole('button', { name: /more options/i }));
+    await user.selectOptions(screen.getByLabelText('Budget'), 'Free only');
+    await user.click(screen.getByRole('button', { name: /reset/i }));
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(screen.getByRole('button', { name: /more options/i })).toHaveTextContent(/^More options$/);
+    expect(mockOnSubmit).toHaveBeenCalledWith({ location: '94105', kidsAges: [], dates: getPresetWeekend('this') });
+  });
+
+  // ============================================================================
+  // Which Weekend
+  // ============================================================================
+
+  // ============================================================================
+  // Children Chips
+  // ============================================================================
+
+  /**
+   * Verifies children are added as chips with nicknames and months, can be
+   * removed, and infants are warned about and left out of the kids ages.
+   */
+  it('adds and removes children as chips', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.type(screen.getByLabelText(/kids ages/i), '7');
+    await user.type(screen.getByLabelText(/nickname/i), 'Sam{Enter}');
+    await user.type(screen.getByLabelText(/kids ages/i), '9');
+    await user.selectOptions(screen.getByLabelText('Age unit'), 'Months');
+    await user.click(screen.getByRole('button', { name: 'Add child' }));
+    await user.type(screen.getByLabelText(/kids ages/i), '3, 18 months{Enter}');
+
+    const chips = screen.getByRole('list', { name: 'Children' });
+    expect(within(chips).getAllByRole('listitem').map((chip) => chip.textContent)).toEqual([
+      'Sam (7 years)×',
+      '9 months×',
+      '3 months×',
+      '18 months×',
+    ]);
+    expect(screen.getByLabelText(/kids ages/i)).toHaveValue('');
+    expect(screen.getByRole('status', { name: /ages the planner will leave out/i })).toHaveTextContent(
+      'it will leave out 9 months, 3 months.'
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Remove 3 months' }));
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kidsAges: [7, 1],
+        children: [
+          { age: 7, unit: 'years', nickname: 'Sam' },
+          { age: 9, unit: 'months' },
+          { age: 18, unit: 'months' },
+        ],
+      })
+    );
+  });
+
+  /**
+   * Verifies a nickname needs exactly one age.
+   */
+  it('rejects a nickname for several ages at once', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.type(screen.getByLabelText(/kids ages/i), '3, 5');
+    await user.type(screen.getByLabelText(/nickname/i), 'Twins');
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+    expect(screen.getByRole('alert')).toHaveTextContent('Add one child at a time to give a nickname');
+  });
+
+  /**
+   * Verifies next weekend can be chosen, with its dates shown next to it.
+   */
+  it('submits next weekend when chosen', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    expect(screen.getByRole('radio', { name: /this weekend/i })).toBeChecked();
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.click(screen.getByRole('radio', { name: /next weekend/i }));
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    const nextWeekend = getPresetWeekend('next');
+    expect(nextWeekend.start > getPresetWeekend('this').start).toBe(true);
+    expect(mockOnSubmit).toHaveBeenCalledWith({ location: '94105', kidsAges: [], dates: nextWeekend });
+  });
+
+  /**
+   * Verifies picked dates start from this weekend and are validated.
+   */
+  it('validates picked dates', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.click(screen.getByRole('radio', { name: /pick dates/i }));
+    const firstDay = screen.getByLabelText('First day');
+    const lastDay = screen.getByLabelText('Last day');
+    expect(firstDay).toHaveValue(getPresetWeekend('this').start);
+    expect(lastDay).toHaveValue(getPresetWeekend('this').end);
+
+    fireEvent.change(lastDay, { target: { value: '2000-01-01' } });
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(mockOnSubmit).not.toHaveBeenCalled();
+    expect(screen.getByText('The end date cannot be before the start date')).toBeInTheDocument();
+    expect(lastDay).toHaveAttribute('aria-invalid', 'true');
+
+    fireEvent.change(lastDay, { target: { value: getPresetWeekend('this').start } });
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    const { start } = getPresetWeekend('this');
+    expect(mockOnSubmit).toHaveBeenCalledWith({
+      location: '94105',
+      kidsAges: [],
+      dates: expect.objectContaining({ start, end: start }),
+    });
+  });
+
+  // ============================================================================
+  // Household Profiles
+  // ============================================================================
+
+  /**
+   * Verifies choosing a household fills in its zip code, children and
+   * preferences, replacing what was entered.
+   */
+  it('fills in the form from a chosen household', async () => {
+    const user = userEvent.setup();
+    createHouseholdProfile({
+      name: 'With cousins',
+      location: '10001',
+      children: [
+        { age: 7, unit: 'years', nickname: 'Sam' },
+        { age: 10, unit: 'years' },
+      ],
+      preferences: { budget: 'free', interests: ['trains', 'art'] },
+    });
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.selectOptions(screen.getByLabelText(/household/i), 'With cousins');
+
+    expect(screen.getByLabelText(/zip code/i)).toHaveValue('10001');
+    expect(screen.getByRole('list', { name: 'Children' })).toHaveTextContent('Sam (7 years)');
+    expect(screen.getByRole('button', { name: /more options/i })).toHaveTextContent('(2 chosen)');
+
+    await user.click(screen.getByRole('button', { name: /generate plan/i }));
+
+    expect(mockOnSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        location: '10001',
+        kidsAges: [7, 10],
+        preferences: { budget: 'free', interests: ['trains', 'art'] },
+      })
+    );
+  });
+
+  /**
+   * Verifies the form is saved as a new household, which is then chosen,
+   * and that the chosen household can be updated from the form.
+   */
+  it('saves the form as a new household and updates it', async () => {
+    const user = userEvent.setup();
+    createHouseholdProfile({ name: 'Just us', location: '10001', children: [] });
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    await user.type(screen.getByLabelText(/zip code/i), '94105');
+    await user.type(screen.getByLabelText(/kids ages/i), '5');
+    await user.click(screen.getByRole('button', { name: 'Save as new household' }));
+    await user.type(screen.getByLabelText('Household name'), 'just us{Enter}');
+    expect(screen.getByRole('alert')).toHaveTextContent('A household named "just us" already exists');
+
+    await user.clear(screen.getByLabelText('Household name'));
+    await user.type(screen.getByLabelText('Household name'), 'Us four');
+    await user.click(screen.getByRole('button', { name: 'Save household' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Saved Us four');
+    expect(screen.getByLabelText(/household/i)).toHaveDisplayValue('Us four');
+    expect(listHouseholdProfiles()).toContainEqual(
+      expect.objectContaining({ name: 'Us four', location: '94105', children: [{ age: 5, unit: 'years' }] })
+    );
+
+    await user.type(screen.getByLabelText(/kids ages/i), '8{Enter}');
+    await user.click(screen.getByRole('button', { name: 'Update Us four from the form' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Updated Us four');
+    expect(listHouseholdProfiles().find((profile) => profile.name === 'Us four')?.children).toEqual([
+      { age: 5, unit: 'years' },
+      { age: 8, unit: 'years' },
+    ]);
+  });
+
+  /**
+   * Verifies a household is only saved from valid fields.
+   */
+  it('does not save a household without a zip code', async () => {
+    const user = userEvent.setup();
+    render(<InputForm onSubmit={mockOnSubmit} onReset={mockOnReset} />);
+
+    expect(screen.getByLabelText(/household/i)).toBeDisabled();
+    await user.click(screen.getByRole('button', { name: 'Save as new household' }));
+    await user.type(screen.getByLabelText('Household name'), 'Us{Enter}');
+
+    expect(screen.getByText('Zip Code is required')).toBeInTheDocument();
+    expect(listHouseholdProfiles()).toEqual([]);
+  });
 });
@@ -0,0 +1,141 @@
+/**
+ * ItineraryView Component Unit Tests
+ *
+ * Test suite for the weekend timeline that arranges activities into
+ * Saturday/Sunday morning, afternoon and evening slots.
+ *
+ * Test Coverage:
+ * - Initial slots inferred from activity times
+ * - Moving activities by drag and drop and with the "Move to" select
+ * - Moves reported through onChange and a saved arrangement restored
+ * - Read-only view without drag and drop or "Move to"
+ *
+ * @fileoverview Unit tests for the itinerary timeline view
+ */
+
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ItineraryView from '../../components/ItineraryView';
+import type { PlanActivity } from '../../types';
+
+const activities: PlanActivity[] = [
+  { title: 'Farmers Market', description: 'Fresh fruit', time: 'Saturday 8am-2pm' },
+  { title: '**Exploratorium**', description: 'Science exhibits', time: 'Sunday 1pm' },
+  { title: 'Pizza dinner', description: 'Family favorite' },
+];
+
+/**
+ * Returns the titles shown in a slot, in order.
+ */
+const titlesIn = (slot: string): string[] =>
+  within(screen.getByRole('group', { name: slot }))
+    .queryAllByRole('listitem')
+    .map((item) => item.querySelector('p')?.textContent ?? '');
+
+/**
+ * Minimal DataTransfer stand-in - jsdom does not implement drag and drop.
+ */
+const createDataTransfer = () => {
+  const data: Record<string, string> = {};
+  return {
+    setData: (type: string, value: string) => {
+      data[type] = value;
+    },
+    getData: (type: string) => data[type] ?? '',
+    effectAllowed: 'all',
+  };
+};
+
+describe('ItineraryView', () => {
+  it('shows both days with activities in their inferred slots', () => {
+    render(<ItineraryView activities={activities} />);
+
+    expect(screen.getByRole('heading', { name: 'Saturday' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Sunday' })).toBeInTheDocument();
+    expect(titlesIn('Saturday morning')).toEqual(['Farmers Market']);
+    expect(titlesIn('Sunday afternoon')).toEqual(['Exploratorium']);
+    expect(titlesIn('Saturday evening')).toEqual(['Pizza dinner']);
+    expect(within(screen.getByRole('group', { name: 'Sunday morning' })).getByText('Free time')).toBeInTheDocument();
+  });
+
+  it('moves an activity dragged onto another slot', () => {
+    render(<ItineraryView activities={activities} />);
+
+    const dataTransfer = createDataTransfer();
+    fireEvent.dragStart(screen.getByText('Farmers Market').closest('li')!, { dataTransfer });
+    fireEvent.dragOver(screen.getByRole('group', { name: 'Sunday morning' }), { dataTransfer });
+    fireEvent.drop(screen.getByRole('group', { name: 'Sunday morning' }), { dataTransfer });
+
+    expect(titlesIn('Sunday morning')).toEqual(['Farmers Market']);
+    expect(titlesIn('Saturday morning')).toEqual([]);
+  });
+
+  it('ignores drops that do not carry an activity', () => {
+    render(<ItineraryView activities={activities} />);
+
+    fireEvent.drop(screen.getByRole('group', { name: 'Sunday morning' }), { dataTransfer: createDataTransfer() });
+
+    expect(titlesIn('Sunday morning')).toEqual([]);
+  });
+
+  it('moves an activity with the "Move to" select', () => {
+    render(<ItineraryView activities={activities} />);
+
+    const select = screen.getByRole('combobox', { name: 'Move Exploratorium to' });
+    expect(select).toHaveValue('sunday-afternoon');
+
+    fireEvent.change(select, { target: { value: 'saturday-evening' } });
+
+    expect(titlesIn('Saturday evening')).toEqual(['Pizza dinner', 'Exploratorium']);
+    expect(titlesIn('Sunday afternoon')).toEqual([]);
+  });
+
+  it('reports each move and restores the arrangement passed back in', () => {
+    const onChange = vi.fn();
+    const { unmount } = render(<ItineraryView activities={activities} onChange={onChange} />);
+    fireEvent.change(screen.getByRole('combobox', { name: 'Move Pizza dinner to' }), {
+      target: { value: 'sunday-evening' },
+    });
+    unmount();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    render(<ItineraryView activities={activities} itinerary={onChange.mock.calls[0][0]} />);
+
+    expect(titlesIn('Sunday evening')).toEqual(['Pizza dinner']);
+    expect(titlesIn('Saturday evening')).toEqual([]);
+  });
+
+  it('arranges by time when the saved arrangement no longer fits', () => {
+    render(
+      <ItineraryView
+        activities={activities}
+        itinerary={{
+          'saturday-morning': [0],
+          'saturday-afternoon': [],
+          'saturday-evening': [],
+          'sunday-morning': [],
+          'sunday-afternoon': [],
+          'sunday-evening': [1],
+        }}
+      />,
+    );
+
+    expect(titlesIn('Saturday evening')).toEqual(['Pizza dinner']);
+    expect(titlesIn('Sunday afternoon')).toEqual(['Exploratorium']);
+  });
+
+  it('cannot be rearranged when read-only', () => {
+    render(<ItineraryView activities={activities} readOnly />);
+    const item = screen.getByText('Farmers Market').closest('li')!;
+
+    expect(item).toHaveAttribute('draggable', 'false');
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+
+    const dataTransfer = createDataTransfer();
+    dataTransfer.setData('text/plain', '0');
+    fireEvent.drop(screen.getByRole('group', { name: 'Sunday morning' }), { dataTransfer });
+
+    expect(titlesIn('Sunday morning')).toEqual([]);
+    expect(titlesIn('Saturday morning')).toEqual(['Farmers Market']);
+  });
+});
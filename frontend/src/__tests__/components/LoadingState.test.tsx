@@ -4,17 +4,30 @@
  * This test file validates the LoadingState component which displays a skeleton
  * loading animation while the AI is generating a weekend plan.
  * 
- * Test Coverage (3 test cases as per specification):
+ * Test Coverage:
  * 1. Renders skeleton/pulse animation elements - Verifies visual loading feedback
  * 2. Displays "Creating your perfect weekend..." message - Verifies status text
  * 3. Has aria-busy="true" for accessibility - Verifies WCAG compliance
+ * 4. Shows pipeline stage progress derived from event authors
+ * 5. Counts elapsed time since the request started
+ * 6. Renders a Cancel button when a cancel handler is provided
  * 
  * @module __tests__/components/LoadingState.test
  */
 
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, act, fireEvent } from '@testing-library/react';
 import { LoadingState } from '../../components/LoadingState';
+import type { ADKEvent } from '../../types';
+
+/**
+ * Builds a minimal event authored by the given agent.
+ */
+const eventFrom = (author: string): ADKEvent => ({
+  id: `evt-${author}`,
+  timestamp: '2024-03-15T10:30:00.000Z',
+  author
+});
 
 /**
  * Test suite for LoadingState component
@@ -95,4 +108,82 @@ describe('LoadingState', () => {
     // Also verify the aria-label is present for screen reader context
     expect(statusElement).toHaveAttribute('aria-label', 'Loading weekend plan');
   });
+
+  describe('pipeline progress', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /**
+     * Verifies that the latest recognized author marks its stage running,
+     * earlier stages done and later stages pending, replacing the skeleton.
+     */
+    it('marks stages done, running and pending from event authors', () => {
+      const { container } = render(
+        <LoadingState events={[eventFrom('PreprocessInputAgent'), eventFrom('WeatherAgent'), eventFrom('WeatherRouter')]} />
+      );
+
+      const progress = screen.getByRole('list', { name: /planning progress/i });
+      const stages = Array.from(progress.querySelectorAll('li'));
+      expect(stages.map((stage) => stage.getAttribute('data-status'))).toEqual([
+        'done', 'done', 'running', 'pending', 'pending'
+      ]);
+      expect(screen.getByText('Choosing where to look').closest('li')).toHaveAttribute('aria-current', 'step');
+
+      // Skeleton cards are replaced by stage progress
+      expect(container.querySelectorAll('.bg-gray-200')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies research sub-agent authors map onto the research stage.
+     */
+    it('maps activity research agents to the research stage', () => {
+      render(<LoadingState events={[eventFrom('WeatherAgent'), eventFrom('HomeActivitiesAgent')]} />);
+
+      expect(screen.getByText('Researching activities').closest('li')).toHaveAttribute('data-status', 'running');
+    });
+
+    /**
+     * Verifies unknown authors do not replace the skeleton.
+     */
+    it('falls back to the skeleton when no event matches a stage', () => {
+      const { container } = render(<LoadingState events={[eventFrom('model')]} />);
+
+      expect(screen.queryByRole('list', { name: /planning progress/i })).not.toBeInTheDocument();
+      expect(container.querySelectorAll('.animate-pulse').length).toBeGreaterThanOrEqual(10);
+    });
+
+    /**
+     * Verifies the elapsed timer counts from the provided start time.
+     */
+    it('shows elapsed time since the request started', () => {
+      vi.useFakeTimers();
+      render(<LoadingState startedAt={Date.now()} />);
+
+      expect(screen.getByText('0:00')).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(65000);
+      });
+
+      expect(screen.getByText('1:05')).toBeInTheDocument();
+    });
+  });
+
+  /**
+   * Cancel Button Test
+   * 
+   * Verifies the Cancel button is only shown with an onCancel handler
+   * and calls it when clicked.
+   */
+  it('renders a Cancel button that calls onCancel', () => {
+    const onCancel = vi.fn();
+    const { rerender } = render(<LoadingState />);
+    expect(screen.queryByRole('button', { name: /cancel/i })).not.toBeInTheDocument();
+
+    rerender(<LoadingState onCancel={onCancel} />);
+    fireEvent.click(screen.getByRole('button', { name: /cancel/i }));
+
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
 });
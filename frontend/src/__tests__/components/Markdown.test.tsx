@@ -0,0 +1,97 @@
+/**
+ * Markdown Component Unit Tests
+ * 
+ * Test suite for the in-house Markdown renderer used for agent-written
+ * plan text.
+ * 
+ * Test Coverage:
+ * - Headings, shifted below the page's own heading levels
+ * - Bold, italic and inline code, including underscores inside words
+ * - Bulleted, numbered and nested lists, with wrapped lines
+ * - Paragraphs that keep single line breaks, and horizontal rules
+ * - Links limited to safe schemes
+ * - Raw HTML rendered as text, never as markup
+ * - Inline mode
+ * 
+ * @fileoverview Unit tests for the Markdown renderer component
+ */
+
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import Markdown from '../../components/Markdown';
+
+describe('Markdown', () => {
+  describe('Blocks', () => {
+    it('renders headings two levels below their Markdown level', () => {
+      render(<Markdown text={'# Weekend Plan\n## Saturday\n###### Notes'} />);
+
+      expect(screen.getByRole('heading', { level: 3, name: 'Weekend Plan' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 4, name: 'Saturday' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { level: 6, name: 'Notes' })).toBeInTheDocument();
+    });
+
+    it('nests lists by indentation and joins wrapped lines', () => {
+      const { container } = render(
+        <Markdown text={'- Saturday\n  1. Farmers market\n     with live music\n  2. Park\n- Sunday'} />
+      );
+
+      const outer = container.querySelector('ul');
+      expect(outer?.children).toHaveLength(2);
+      const nested = outer?.querySelector('ol');
+      expect(nested?.children).toHaveLength(2);
+      expect(nested?.children[0]).toHaveTextContent('Farmers market with live music');
+      expect(outer?.children[1]).toHaveTextContent('Sunday');
+    });
+
+    it('keeps single line breaks in paragraphs and renders rules', () => {
+      const { container } = render(<Markdown text={'Area: 94105\nWeather: Sunny\n\n---\n\nEnjoy!'} />);
+
+      const paragraphs = container.querySelectorAll('p');
+      expect(paragraphs).toHaveLength(2);
+      expect(paragraphs[0].querySelectorAll('br')).toHaveLength(1);
+      expect(container.querySelector('hr')).toBeInTheDocument();
+    });
+  });
+
+  describe('Inline formatting', () => {
+    it('renders bold, italic and code', () => {
+      const { container } = render(<Markdown text="**Morning**: *easy* walk, bring `sunscreen`" inline />);
+
+      expect(container.querySelector('strong')).toHaveTextContent('Morning');
+      expect(container.querySelector('em')).toHaveTextContent('easy');
+      expect(container.querySelector('code')).toHaveTextContent('sunscreen');
+      expect(container).toHaveTextContent('Morning: easy walk, bring sunscreen');
+    });
+
+    it('leaves underscores inside words alone', () => {
+      const { container } = render(<Markdown text="see kid_friendly_events and _this_" inline />);
+
+      expect(container.querySelectorAll('em')).toHaveLength(1);
+      expect(container).toHaveTextContent('see kid_friendly_events and this');
+    });
+  });
+
+  describe('Safety', () => {
+    it('links only http, https and mailto targets', () => {
+      render(
+        <Markdown text="[Zoo](https://www.sfzoo.org) [Bad](javascript:alert(1)) [Mail](mailto:hi@example.com)" inline />
+      );
+
+      const zoo = screen.getByRole('link', { name: 'Zoo' });
+      expect(zoo).toHaveAttribute('href', 'https://www.sfzoo.org');
+      expect(zoo).toHaveAttribute('rel', 'noopener noreferrer');
+      expect(screen.getByRole('link', { name: 'Mail' })).toBeInTheDocument();
+      expect(screen.queryByRole('link', { name: 'Bad' })).not.toBeInTheDocument();
+      expect(screen.getByText('Bad')).toBeInTheDocument();
+    });
+
+    it('shows raw HTML as text instead of rendering it', () => {
+      const html = '<img src=x onerror="alert(1)"><script>alert(2)</script>';
+      const { container } = render(<Markdown text={`# Title\n${html}`} />);
+
+      expect(container.querySelector('img')).not.toBeInTheDocument();
+      expect(container.querySelector('script')).not.toBeInTheDocument();
+      expect(container).toHaveTextContent(html);
+    });
+  });
+});
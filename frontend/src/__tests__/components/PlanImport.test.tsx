@@ -0,0 +1,60 @@
+/**
+ * PlanImport Component Unit Tests
+ *
+ * Test suite for the PlanImport component that opens plans exported as JSON.
+ *
+ * Test Coverage:
+ * - Valid exports are passed to onImport
+ * - Invalid files show why they could not be imported
+ * - Disabled state
+ *
+ * @fileoverview Unit tests for the JSON plan import
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import PlanImport from '../../components/PlanImport';
+import { createPlanExport, formatPlanJson } from '../../api/planExport';
+import { mockSessionState } from '../../__mocks__/handlers';
+
+/**
+ * Chooses a file with the given content in the import picker.
+ */
+const chooseFile = (content: string, name = 'plan.json'): void => {
+  const file = new File([content], name, { type: 'application/json' });
+  fireEvent.change(screen.getByLabelText('Import a plan'), { target: { files: [file] } });
+};
+
+describe('PlanImport', () => {
+  it('imports a JSON export', async () => {
+    const onImport = vi.fn();
+    const data = createPlanExport({
+      planText: mockSessionState.final_summary,
+      input: { location: '94105', kidsAges: [5, 8] },
+    });
+    render(<PlanImport onImport={onImport} />);
+
+    chooseFile(formatPlanJson(data));
+
+    await waitFor(() => expect(onImport).toHaveBeenCalledWith(data));
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('explains why a file cannot be imported', async () => {
+    const onImport = vi.fn();
+    render(<PlanImport onImport={onImport} />);
+
+    chooseFile('{"schema":"something-else"}', 'notes.json');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Could not import notes.json: The file is not a Weekend Planner plan export'
+    );
+    expect(onImport).not.toHaveBeenCalled();
+  });
+
+  it('can be disabled', () => {
+    render(<PlanImport onImport={vi.fn()} disabled />);
+
+    expect(screen.getByLabelText('Import a plan')).toBeDisabled();
+  });
+});
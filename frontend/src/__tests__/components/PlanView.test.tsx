@@ -28,8 +28,12 @@
  */
 
 import { render, screen, fireEvent } from '@testing-library/react';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import PlanView from '../../components/PlanView';
+import { getFeedbackProfile } from '../../api/feedback';
+import { parseSessionState } from '../../api/sessionState';
+import { getPresetWeekend } from '../../api/weekend';
+import { mockSessionState, mockToolEvents } from '../../__mocks__/handlers';
 import type { GeneratePlanResult, ADKResponse } from '../../types';
 
 /**
@@ -92,11 +96,11 @@ describe('PlanView', () => {
    * The PlanView parser looks for bullet patterns (- • *) to create activity cards.
    * This data should trigger the structured activity card rendering path.
    * 
-   * Parser Requirements (from PlanView.tsx):
-   * - At least 2 bullet/numbered items for activity cards to render
-   * - Bullet pattern: /^[-•*]\s+(.+)/
-   * - Header pattern: /^(area|weather|ages|location|forecast)/i
-   * - Disclaimer pattern: /disclaimer|note:|based on ai|verify|accuracy/i
+   * Parser Requirements (from api/planParser.ts):
+   * - At least 2 bullet/numbered items, parsed with enough confidence, for activity cards to render
+   * - Bullet points become activities, split into title and description at " - "
+   * - "Area:", "Weather:" and "Ages:" lines become header fields
+   * - The line mentioning AI research and accuracy becomes the disclaimer
    */
   const mockStructuredResult: GeneratePlanResult = {
     success: true,
@@ -178,14 +182,14 @@ Disclaimer: Results are based on AI research and should be verified for accuracy
    * 
    * Verifies that the PlanView component correctly parses bullet-point
    * content into structured activity cards. When the planText contains
-   * parseable structure (bullet points or numbered lists with 2+ items),
+   * parseable structure (2+ bullet points or numbered items, parsed with enough confidence),
    * the component should render individual activity cards with:
    * - Activity titles from the parsed bullet content
    * - Activity descriptions (if present after the title)
    * - Numbered badges for each activity
    * - Proper list semantics for accessibility
    * 
-   * This test validates the parsePlanStructure() function output and
+   * This test validates the parseWeekendPlan() output and
    * ActivityCard component rendering.
    */
   it('displays structured activity cards when data parseable', () => {
@@ -404,7 +408,7 @@ Disclaimer: Results are based on AI research and should be verified for accuracy
     render(<PlanView result={mockStructuredResult} />);
 
     // Verify header content is rendered
-    // The header pattern looks for: area, weather, ages, location, forecast
+    // parseWeekendPlan() reads the area, weather and ages header fields
     expect(screen.getByText(/Area: San Francisco/i)).toBeInTheDocument();
     expect(screen.getByText(/Weather: Good conditions/i)).toBeInTheDocument();
     expect(screen.getByText(/Ages: 5, 8/i)).toBeInTheDocument();
@@ -437,4 +441,461 @@ Disclaimer: Results are based on AI research and should be verified for accuracy
     const rawOutputToggle = screen.getByRole('button', { name: /raw api response/i });
     expect(rawOutputToggle).toBeInTheDocument();
   });
+
+  /**
+   * Additional Test: Streaming indicator
+   * 
+   * Verifies that a partial plan rendered during a streaming run shows the
+   * "still writing" status and marks the article as busy.
+   */
+  it('shows a streaming indicator while the plan is still being written', () => {
+    const { rerender } = render(<PlanView result={mockUnstructuredResult} isStreaming />);
+
+    expect(screen.getByText(/still writing your plan/i)).toBeInTheDocument();
+    expect(screen.getByRole('article', { name: /your weekend plan/i })).toHaveAttribute('aria-busy', 'true');
+
+    rerender(<PlanView result={mockUnstructuredResult} />);
+    expect(screen.queryByText(/still writing your plan/i)).not.toBeInTheDocument();
+  });
+
+  it('offers Cancel while the plan is streaming', () => {
+    const onCancel = vi.fn();
+    const { rerender } = render(<PlanView result={mockUnstructuredResult} isStreaming onCancel={onCancel} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalledTimes(1);
+
+    rerender(<PlanView result={mockUnstructuredResult} onCancel={onCancel} />);
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+  });
+
+  /**
+   * Additional Test: Session state
+   * 
+   * Verifies the parsed input and weather verdict are shown in the header,
+   * and the research findings are available behind a collapsed toggle.
+   */
+  it('shows what the planner understood and the research findings', () => {
+    render(
+      <PlanView
+        result={{
+          ...mockUnstructuredResult,
+          sessionState: {
+            parsedInput: { zipCode: '90120', kidAges: [5, 8] },
+            weatherForecast: 'bad',
+            homeActivitiesFindings: 'Build a cardboard fort',
+          },
+        }}
+      />
+    );
+
+    const understanding = screen.getByRole('region', { name: /what the planner understood/i });
+    expect(understanding).toHaveTextContent('90120');
+    expect(understanding).toHaveTextContent('5, 8');
+    expect(understanding).toHaveTextContent(/bad weather/i);
+
+    expect(screen.queryByText('Build a cardboard fort')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /show research findings/i }));
+    const findings = screen.getByRole('region', { name: /research findings/i });
+    expect(findings).toHaveTextContent('At-home activities');
+    expect(findings).toHaveTextContent('Build a cardboard fort');
+  });
+
+  /**
+   * Additional Test: Input mismatch warning
+   * 
+   * Verifies a warning lists the fields the agent changed, and that no
+   * warning is shown when the parsed input matches what was entered.
+   */
+  it('warns when the parsed input differs from what was entered', () => {
+    const sessionState = { parsedInput: { zipCode: '90120', kidAges: [5, 8] } };
+    const { rerender } = render(
+      <PlanView result={{ ...mockUnstructuredResult, sessionState }} input={{ location: '9410', kidsAges: [5, 8] }} />
+    );
+
+    expect(screen.getByRole('alert', { name: /input mismatch/i })).toHaveTextContent(
+      'You entered zip code 9410, but the planner used 90120.'
+    );
+
+    rerender(
+      <PlanView result={{ ...mockUnstructuredResult, sessionState }} input={{ location: '90120', kidsAges: [8, 5] }} />
+    );
+    expect(screen.queryByRole('alert', { name: /input mismatch/i })).not.toBeInTheDocument();
+  });
+
+  /**
+   * Additional Test: Agent activity
+   * 
+   * Verifies the collapsed agent activity section reveals tool calls,
+   * web searches with their sources, and token usage.
+   */
+  it('shows the tools and searches the agents used on request', () => {
+    render(<PlanView result={{ ...mockUnstructuredResult, rawResponse: mockToolEvents }} />);
+
+    const toggle = screen.getByRole('button', { name: /show agent activity/i });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    fireEvent.click(toggle);
+
+    const activity = screen.getByRole('region', { name: 'Agent activity' });
+    expect(activity).toHaveTextContent('WeatherRouter called ActivityResearchGroup');
+    expect(activity).toHaveTextContent('Searched for: weekend weather forecast 94105');
+    expect(screen.getByRole('link', { name: 'weather.gov' })).toHaveAttribute(
+      'href',
+      'https://forecast.weather.gov/94105'
+    );
+    expect(activity).toHaveTextContent('4,645 tokens used');
+  });
+
+  /**
+   * Additional Test: Unsafe search sources
+   * 
+   * Verifies a search source with a javascript: link, e.g. from an imported
+   * file, is shown as text rather than as a link.
+   */
+  it('shows search sources that are not web links as plain text', () => {
+    const [grounded, ...rest] = mockToolEvents;
+    const unsafe = {
+      ...grounded,
+      groundingMetadata: {
+        ...grounded.groundingMetadata,
+        groundingChunks: [{ web: { uri: 'javascript:alert(1)', title: 'Sneaky source' } }],
+      },
+    };
+    render(<PlanView result={{ ...mockUnstructuredResult, rawResponse: [unsafe, ...rest] }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /show agent activity/i }));
+
+    expect(screen.getByRole('region', { name: 'Agent activity' })).toHaveTextContent('Sneaky source');
+    expect(screen.queryByRole('link', { name: 'Sneaky source' })).not.toBeInTheDocument();
+    expect(document.querySelector('a[href^="javascript:"]')).toBeNull();
+  });
+
+  /**
+   * Additional Test: Activity sources
+   * 
+   * Verifies each activity card lists the research sources that mention it
+   * as links, and that cards without a matching source show no list.
+   */
+  it('lists the sources found for each activity', () => {
+    const sessionState = parseSessionState(mockSessionState);
+    render(<PlanView result={{ planText: mockSessionState.final_summary, rawResponse: mockToolEvents, sessionState }} />);
+
+    const marketSources = screen.getByRole('list', { name: /sources for .*farmer's market/i });
+    expect(marketSources).toContainElement(screen.getByRole('link', { name: 'ferrybuildingmarketplace.com' }));
+    expect(screen.getByRole('link', { name: 'SF Community Fair' })).toHaveAttribute(
+      'href',
+      'https://sfcommunityfair.org/events'
+    );
+    expect(screen.queryByRole('list', { name: /sources for .*nature hike/i })).not.toBeInTheDocument();
+  });
+
+  /**
+   * Additional Test: Markdown rendering
+   * 
+   * Verifies Markdown markers in activity text render as formatting
+   * instead of showing as literal asterisks.
+   */
+  it('renders Markdown in activity cards without the markers', () => {
+    const planText = '- **Exploratorium** - *Hands-on* science museum\n- **Crissy Field** - Fly a **kite** by the bay';
+    render(<PlanView result={{ planText }} />);
+
+    const card = screen.getByRole('listitem', { name: 'Activity 2: Crissy Field' });
+    expect(card.querySelector('strong')).toHaveTextContent('kite');
+    expect(card).not.toHaveTextContent('**');
+    expect(screen.getByRole('listitem', { name: 'Activity 1: Exploratorium' }).querySelector('em')).toHaveTextContent(
+      'Hands-on'
+    );
+  });
+
+  /**
+   * Additional Test: Activity details
+   * 
+   * Verifies the time, place and cost parsed from the summary are shown on
+   * the card, and the summary's title heads the plan.
+   */
+  it('shows the parsed time, place and cost on each card', () => {
+    render(<PlanView result={{ planText: mockSessionState.final_summary }} />);
+
+    expect(screen.getByRole('heading', { name: 'Weekend Plan for Your Family' })).toBeInTheDocument();
+    const fair = screen.getByRole('listitem', { name: /community fair at the town center$/i });
+    expect(fair).toHaveTextContent('When:Saturday 10am-4pm');
+    expect(fair).toHaveTextContent('Special Events This Weekend');
+  });
+
+  /**
+   * Test: Itinerary view
+   * 
+   * Verifies the List/Itinerary toggle switches the cards to the weekend
+   * timeline and back, with activities in the slots their times point to.
+   */
+  it('switches between the list and itinerary views', () => {
+    render(<PlanView result={{ planText: mockSessionState.final_summary, sessionId: 'session-1' }} />);
+
+    expect(screen.getByRole('button', { name: 'List' })).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByRole('button', { name: 'Itinerary' }));
+
+    expect(screen.getByRole('button', { name: 'Itinerary' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.queryByRole('list', { name: 'List of activities' })).not.toBeInTheDocument();
+    const sundayEvening = screen.getByRole('group', { name: 'Sunday evening' });
+    expect(sundayEvening).toHaveTextContent('Relaxing movie night at home');
+
+    fireEvent.click(screen.getByRole('button', { name: 'List' }));
+    expect(screen.getByRole('list', { name: 'List of activities' })).toBeInTheDocument();
+  });
+
+  it('reports itinerary moves and shows the arrangement passed back in', () => {
+    const onItineraryChange = vi.fn();
+    const { unmount } = render(
+      <PlanView result={{ planText: mockSessionState.final_summary }} onItineraryChange={onItineraryChange} />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Itinerary' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Move Relaxing movie night at home to' }), {
+      target: { value: 'saturday-morning' },
+    });
+    unmount();
+
+    expect(onItineraryChange).toHaveBeenCalledTimes(1);
+    render(
+      <PlanView
+        result={{ planText: mockSessionState.final_summary, itinerary: onItineraryChange.mock.calls[0][0] }}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Itinerary' }));
+    expect(screen.getByRole('group', { name: 'Saturday morning' })).toHaveTextContent('Relaxing movie night at home');
+    expect(screen.getByRole('group', { name: 'Sunday evening' })).not.toHaveTextContent('Relaxing movie night');
+  });
+
+  it('hides the view toggle while the plan is streaming', () => {
+    render(<PlanView result={{ planText: mockSessionState.final_summary }} isStreaming />);
+
+    expect(screen.queryByRole('button', { name: 'Itinerary' })).not.toBeInTheDocument();
+  });
+
+  /**
+   * Test: Calendar export
+   * 
+   * Verifies "Add to calendar" downloads an iCalendar file with an event
+   * per activity for the upcoming weekend.
+   */
+  it('downloads the plan as an iCalendar file', async () => {
+    let downloaded: Blob | undefined;
+    const createObjectURL = vi.fn((blob: Blob) => {
+      downloaded = blob;
+      return 'blob:calendar';
+    });
+    // jsdom has no object URLs
+    const { createObjectURL: originalCreate, revokeObjectURL: originalRevoke } = URL;
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    try {
+      render(<PlanView result={{ planText: mockSessionState.final_summary, sessionId: 'session-1' }} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Add to calendar' }));
+
+      expect(click).toHaveBeenCalledTimes(1);
+      const link = click.mock.instances[0] as unknown as HTMLAnchorElement;
+      expect(link.download).toMatch(/^weekend-plan-\d{4}-\d{2}-\d{2}\.ics$/);
+      expect(downloaded?.type).toBe('text/calendar;charset=utf-8');
+      const calendar = await new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(downloaded!);
+      });
+      expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(8);
+      expect(calendar).toContain('SUMMARY:Relaxing movie night at home');
+      expect(calendar).toContain('UID:weekend-plan-session-1-1@weekend-planner');
+    } finally {
+      // Let the deferred revokeObjectURL run before restoring
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      click.mockRestore();
+      URL.createObjectURL = originalCreate;
+      URL.revokeObjectURL = originalRevoke;
+    }
+  });
+
+  /**
+   * Test: Weekend dates
+   * 
+   * Verifies the plan's dates are shown, a past weekend is flagged, and
+   * the calendar export is placed on those dates.
+   */
+  it('shows the weekend dates, flags a past weekend and exports it to the calendar', async () => {
+    const { createObjectURL: originalCreate, revokeObjectURL: originalRevoke } = URL;
+    URL.createObjectURL = vi.fn(() => 'blob:calendar');
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    try {
+      render(
+        <PlanView
+          result={{ planText: mockSessionState.final_summary }}
+          input={{ location: '94105', kidsAges: [], dates: { start: '2024-05-24', end: '2024-05-27', holiday: 'Memorial Day' } }}
+        />
+      );
+
+      expect(screen.getByText('For Fri, May 24 – Mon, May 27, 2024 (Memorial Day weekend)')).toBeInTheDocument();
+      expect(screen.getByRole('status', { name: 'Past weekend' })).toHaveTextContent(/weekend that has passed/);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Add to calendar' }));
+      const link = click.mock.instances[0] as unknown as HTMLAnchorElement;
+      expect(link.download).toBe('weekend-plan-2024-05-24.ics');
+    } finally {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      click.mockRestore();
+      URL.createObjectURL = originalCreate;
+      URL.revokeObjectURL = originalRevoke;
+    }
+  });
+
+  /**
+   * Verifies plans for a weekend still ahead are not flagged.
+   */
+  it('does not flag an upcoming weekend', () => {
+    render(
+      <PlanView
+        result={{ planText: mockSessionState.final_summary }}
+        input={{ location: '94105', kidsAges: [], dates: getPresetWeekend('next') }}
+      />
+    );
+
+    expect(screen.getByText(/^For /)).toBeInTheDocument();
+    expect(screen.queryByRole('status', { name: 'Past weekend' })).not.toBeInTheDocument();
+  });
+
+  /**
+   * Test: File export
+   * 
+   * Verifies the Export menu downloads the plan in the chosen format, and
+   * is offered for unstructured plans too.
+   */
+  it('exports the plan from the Export menu', async () => {
+    let downloaded: Blob | undefined;
+    const { createObjectURL: originalCreate, revokeObjectURL: originalRevoke } = URL;
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      downloaded = blob;
+      return 'blob:export';
+    });
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    try {
+      render(
+        <PlanView
+          result={{ planText: mockSessionState.final_summary, rawResponse: mockToolEvents }}
+          input={{ location: '94105', kidsAges: [5, 8] }}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Export' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Include raw events in JSON' }));
+      fireEvent.click(screen.getByRole('menuitem', { name: 'JSON (.json)' }));
+
+      const link = click.mock.instances[0] as unknown as HTMLAnchorElement;
+      expect(link.download).toMatch(/^weekend-plan-94105-\d{4}-\d{2}-\d{2}\.json$/);
+      const json = await new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.readAsText(downloaded!);
+      });
+      expect(JSON.parse(json)).toMatchObject({
+        schema: 'weekend-planner/plan',
+        input: { location: '94105', kidsAges: [5, 8] },
+        planText: mockSessionState.final_summary,
+        rawResponse: mockToolEvents,
+      });
+    } finally {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      click.mockRestore();
+      URL.createObjectURL = originalCreate;
+      URL.revokeObjectURL = originalRevoke;
+    }
+  });
+
+  it('offers the Export menu for unstructured plans', () => {
+    render(<PlanView result={{ planText: 'Stay in and bake cookies together.' }} />);
+
+    expect(screen.getByRole('button', { name: 'Export' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Add to calendar' })).not.toBeInTheDocument();
+  });
+
+  it('hides sharing and rearranging for read-only plans', () => {
+    const { rerender } = render(<PlanView result={{ planText: mockSessionState.final_summary }} />);
+    expect(screen.getByRole('button', { name: 'Share link' })).toBeInTheDocument();
+
+    rerender(<PlanView result={{ planText: mockSessionState.final_summary }} readOnly />);
+    fireEvent.click(screen.getByRole('button', { name: 'Itinerary' }));
+
+    expect(screen.queryByRole('button', { name: 'Share link' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export' })).toBeInTheDocument();
+    expect(screen.getByRole('region', { name: 'Weekend itinerary' })).toBeInTheDocument();
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+  });
+
+  it('offers to swap each activity card', () => {
+    const onSwapActivity = vi.fn();
+    render(<PlanView result={{ planText: mockSessionState.final_summary }} onSwapActivity={onSwapActivity} />);
+
+    const swapButtons = screen.getAllByRole('button', { name: /^swap /i });
+    expect(swapButtons.length).toBeGreaterThan(1);
+    fireEvent.click(swapButtons[1]);
+
+    expect(onSwapActivity).toHaveBeenCalledWith(1);
+  });
+
+  it('disables swapping while a swap is in flight', () => {
+    render(
+      <PlanView
+        result={{ planText: mockSessionState.final_summary }}
+        onSwapActivity={vi.fn()}
+        swappingActivity={0}
+      />
+    );
+
+    const swapButtons = screen.getAllByRole('button', { name: /^swap /i });
+    expect(swapButtons[0]).toHaveTextContent('Swapping...');
+    expect(swapButtons.every((button) => (button as HTMLButtonElement).disabled)).toBe(true);
+  });
+
+  it('does not offer swaps without a handler or for read-only plans', () => {
+    const { rerender } = render(<PlanView result={{ planText: mockSessionState.final_summary }} />);
+    expect(screen.queryByRole('button', { name: /^swap /i })).not.toBeInTheDocument();
+
+    rerender(<PlanView result={{ planText: mockSessionState.final_summary }} onSwapActivity={vi.fn()} readOnly />);
+    expect(screen.queryByRole('button', { name: /^swap /i })).not.toBeInTheDocument();
+  });
+
+  it('remembers thumbs up and down for the plan\'s zip code and household', () => {
+    localStorage.clear();
+    const input = { location: '94105', kidsAges: [5, 8] };
+    const { unmount } = render(<PlanView result={{ planText: mockSessionState.final_summary }} input={input} />);
+
+    const like = screen.getAllByRole('button', { name: /^like /i })[0];
+    fireEvent.click(like);
+    expect(like).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getAllByRole('button', { name: /^dislike /i })[1]);
+    unmount();
+
+    render(<PlanView result={{ planText: mockSessionState.final_summary }} input={input} />);
+    expect(screen.getAllByRole('button', { name: /^like /i })[0]).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByRole('button', { name: /^dislike /i })[1]).toHaveAttribute('aria-pressed', 'true');
+    expect(getFeedbackProfile(input)?.feedback).toHaveLength(2);
+
+    fireEvent.click(screen.getAllByRole('button', { name: /^like /i })[0]);
+    expect(screen.getAllByRole('button', { name: /^like /i })[0]).toHaveAttribute('aria-pressed', 'false');
+    localStorage.clear();
+  });
+
+  it('offers ratings only for plans with an input that are not read-only', () => {
+    const { rerender } = render(<PlanView result={{ planText: mockSessionState.final_summary }} />);
+    expect(screen.queryByRole('button', { name: /^like /i })).not.toBeInTheDocument();
+
+    rerender(
+      <PlanView
+        result={{ planText: mockSessionState.final_summary }}
+        input={{ location: '94105', kidsAges: [] }}
+        readOnly
+      />
+    );
+    expect(screen.queryByRole('button', { name: /^like /i })).not.toBeInTheDocument();
+  });
 });
@@ -9,6 +9,7 @@
  * - Expand functionality on user click
  * - JSON display in preformatted block element
  * - Toggle behavior (collapse on second click)
+ * - Tool call summary above the JSON
  * 
  * Testing Strategy:
  * - Uses React Testing Library for DOM queries and assertions
@@ -22,6 +23,7 @@
 import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect } from 'vitest';
 import RawOutput from '../../components/RawOutput';
+import { mockToolEvents } from '../../__mocks__/handlers';
 import type { ADKResponse } from '../../types';
 
 /**
@@ -199,4 +201,25 @@ describe('RawOutput', () => {
     // Content should be hidden again
     expect(screen.queryByText(/Sample response/)).not.toBeInTheDocument();
   });
+
+  /**
+   * Test: Tool call summary
+   * 
+   * Verifies the expanded view lists the tools each agent called with
+   * their arguments and results, and omits the summary for text-only runs.
+   */
+  it('summarizes tool calls above the JSON when expanded', () => {
+    const { unmount } = render(<RawOutput data={mockToolEvents} />);
+    fireEvent.click(screen.getByRole('button', { name: /raw output/i }));
+
+    const toolCalls = screen.getByRole('list', { name: 'Tool calls' });
+    expect(toolCalls).toHaveTextContent('WeatherRouter called ActivityResearchGroup');
+    expect(toolCalls).toHaveTextContent('Find weekend activities in 94105 for kids aged 5 and 8');
+    expect(toolCalls).toHaveTextContent('Golden Gate Park playground; Exploratorium; Farmers market');
+    unmount();
+
+    render(<RawOutput data={mockData} />);
+    fireEvent.click(screen.getByRole('button', { name: /raw output/i }));
+    expect(screen.queryByRole('region', { name: 'Agent activity' })).not.toBeInTheDocument();
+  });
 });
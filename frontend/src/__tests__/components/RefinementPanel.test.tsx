@@ -0,0 +1,92 @@
+/**
+ * RefinementPanel Component Unit Tests
+ * 
+ * Test suite for the RefinementPanel component that sends follow-up
+ * refinement requests and switches between plan versions.
+ * 
+ * Test Coverage:
+ * - Sending a trimmed refinement message and clearing the input
+ * - Send button disabled for empty input and while refining
+ * - Turn outcomes (in progress, new version, error)
+ * - Version switcher navigation
+ * 
+ * @fileoverview Unit tests for the plan refinement chat panel
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import RefinementPanel from '../../components/RefinementPanel';
+import type { PlanRefinementTurn } from '../../types';
+
+describe('RefinementPanel', () => {
+  /**
+   * Renders the panel with sensible defaults for a plan without refinements.
+   */
+  const renderPanel = (overrides: Partial<Parameters<typeof RefinementPanel>[0]> = {}) => {
+    const props = {
+      turns: [] as PlanRefinementTurn[],
+      versionCount: 1,
+      activeVersion: 0,
+      onSelectVersion: vi.fn(),
+      onRefine: vi.fn(),
+      ...overrides
+    };
+    render(<RefinementPanel {...props} />);
+    return props;
+  };
+
+  it('sends the trimmed message and clears the input', () => {
+    const { onRefine } = renderPanel();
+
+    const input = screen.getByLabelText(/what would you like to change/i);
+    fireEvent.change(input, { target: { value: '  Swap the museum for a park  ' } });
+    fireEvent.click(screen.getByRole('button', { name: /send/i }));
+
+    expect(onRefine).toHaveBeenCalledWith('Swap the museum for a park');
+    expect(input).toHaveValue('');
+  });
+
+  it('disables sending for empty input and while refining', () => {
+    renderPanel({ isRefining: true });
+
+    expect(screen.getByLabelText(/what would you like to change/i)).toBeDisabled();
+    expect(screen.getByRole('button', { name: /refining/i })).toBeDisabled();
+  });
+
+  it('shows the outcome of each refinement turn', () => {
+    const { onSelectVersion } = renderPanel({
+      turns: [
+        { message: 'More outdoor time', version: 1 },
+        { message: 'Cheaper options', error: 'Something went wrong on the server. Please try again.' },
+        { message: 'Add a picnic' }
+      ],
+      versionCount: 2,
+      activeVersion: 1
+    });
+
+    expect(screen.getByText('More outdoor time')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent(/something went wrong/i);
+    expect(screen.getByText(/refining your plan/i)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /view version 2/i }));
+    expect(onSelectVersion).toHaveBeenCalledWith(1);
+  });
+
+  it('navigates between versions with the version switcher', () => {
+    const { onSelectVersion } = renderPanel({ versionCount: 3, activeVersion: 1 });
+
+    expect(screen.getByText('Version 2 of 3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /previous version/i }));
+    expect(onSelectVersion).toHaveBeenCalledWith(0);
+
+    fireEvent.click(screen.getByRole('button', { name: /next version/i }));
+    expect(onSelectVersion).toHaveBeenCalledWith(2);
+  });
+
+  it('hides the version switcher for a single version', () => {
+    renderPanel();
+
+    expect(screen.queryByRole('navigation', { name: /plan versions/i })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * SessionList Component Unit Tests
+ * 
+ * Test suite for the SessionList component that lists past ADK sessions
+ * and lets users reopen or delete them. Uses the default MSW handlers,
+ * which serve mockSessions.
+ * 
+ * Test Coverage:
+ * - Collapsed by default, loads sessions when opened
+ * - Open action reports the session ID
+ * - Delete action removes the session and notifies the parent
+ * - Error state when listing fails
+ * 
+ * @fileoverview Unit tests for the past session browser
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../../__mocks__/handlers';
+import SessionList from '../../components/SessionList';
+
+describe('SessionList', () => {
+  it('is collapsed by default and loads sessions when opened', async () => {
+    render(<SessionList onOpen={vi.fn()} />);
+
+    const toggle = screen.getByRole('button', { name: /past sessions/i });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('list', { name: /session list/i })).not.toBeInTheDocument();
+
+    fireEvent.click(toggle);
+
+    const list = await screen.findByRole('list', { name: /session list/i });
+    expect(list.querySelectorAll('li')).toHaveLength(2);
+  });
+
+  it('reports the session ID when a session is opened', async () => {
+    const onOpen = vi.fn();
+    render(<SessionList onOpen={onOpen} activeSessionId="session-recent-0002" />);
+
+    fireEvent.click(screen.getByRole('button', { name: /past sessions/i }));
+    const openButtons = await screen.findAllByRole('button', { name: /^open session/i });
+    fireEvent.click(openButtons[0]);
+
+    expect(onOpen).toHaveBeenCalledWith('session-recent-0002');
+    expect(screen.getByText('(current)')).toBeInTheDocument();
+  });
+
+  it('removes a deleted session and notifies the parent', async () => {
+    const onDelete = vi.fn();
+    render(<SessionList onOpen={vi.fn()} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /past sessions/i }));
+    const deleteButtons = await screen.findAllByRole('button', { name: /^delete session/i });
+    fireEvent.click(deleteButtons[1]);
+
+    await waitFor(() => {
+      expect(onDelete).toHaveBeenCalledWith('session-older-0001');
+    });
+    expect(screen.getAllByRole('button', { name: /^delete session/i })).toHaveLength(1);
+  });
+
+  it('shows an error when sessions cannot be listed', async () => {
+    server.use(
+      http.get('http://localhost:8000/apps/:app/users/:user/sessions', () =>
+        HttpResponse.json({ detail: 'boom' }, { status: 500 })
+      )
+    );
+    render(<SessionList onOpen={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /past sessions/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Session listing failed with status 500');
+  });
+});
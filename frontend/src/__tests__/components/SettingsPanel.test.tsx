@@ -0,0 +1,64 @@
+/**
+ * SettingsPanel Component Unit Tests
+ *
+ * Test suite for the settings screen listing learned activity preferences.
+ *
+ * Test Coverage:
+ * - Empty state
+ * - Profiles with liked and disliked activities and the prompt summary
+ * - Removing a rating, clearing a profile and clearing everything
+ *
+ * @fileoverview Unit tests for the settings screen
+ */
+
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SettingsPanel from '../../components/SettingsPanel';
+import { listFeedbackProfiles, rateActivity } from '../../api/feedback';
+
+describe('SettingsPanel', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('explains that nothing was learned yet', () => {
+    const onClose = vi.fn();
+    render(<SettingsPanel onClose={onClose} />);
+
+    expect(screen.getByText(/nothing learned yet/i)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Clear all' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back to planner' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('lists ratings per zip code and household with what the planner is told', () => {
+    rateActivity({ location: '94105', kidsAges: [5, 8] }, 'Exploratorium', 'like', 1);
+    rateActivity({ location: '94105', kidsAges: [5, 8] }, 'Bowling', 'dislike', 2);
+    render(<SettingsPanel onClose={vi.fn()} />);
+
+    const profile = screen.getByRole('region', { name: '94105 · kids 5, 8' });
+    expect(within(profile).getByRole('list', { name: 'Liked activities' })).toHaveTextContent('Exploratorium');
+    expect(within(profile).getByRole('list', { name: 'Disliked activities' })).toHaveTextContent('Bowling');
+    expect(profile).toHaveTextContent('Sent to the planner: Our family enjoyed activities like "Exploratorium".');
+  });
+
+  it('removes ratings and notifies the parent', () => {
+    const onFeedbackChange = vi.fn();
+    rateActivity({ location: '94105', kidsAges: [5, 8] }, 'Exploratorium', 'like', 1);
+    rateActivity({ location: '94105', kidsAges: [5, 8] }, 'Bowling', 'dislike', 2);
+    rateActivity({ location: '10001', kidsAges: [] }, 'Zoo', 'like', 3);
+    render(<SettingsPanel onClose={vi.fn()} onFeedbackChange={onFeedbackChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Bowling' }));
+    expect(screen.queryByText('Bowling')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear preferences for 10001 · no kids ages' }));
+    expect(screen.queryByRole('region', { name: '10001 · no kids ages' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear all' }));
+    expect(screen.getByText(/nothing learned yet/i)).toBeInTheDocument();
+    expect(listFeedbackProfiles()).toEqual([]);
+    expect(onFeedbackChange).toHaveBeenCalledTimes(3);
+  });
+});
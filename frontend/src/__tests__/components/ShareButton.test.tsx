@@ -0,0 +1,69 @@
+/**
+ * ShareButton Component Unit Tests
+ *
+ * Test suite for the ShareButton component that copies a link carrying
+ * the plan in its URL fragment.
+ *
+ * Test Coverage:
+ * - Copies a decodable share link to the clipboard
+ * - Shows the link for manual copying without clipboard access
+ * - Explains when a plan is too long to share
+ *
+ * @fileoverview Unit tests for the plan share link button
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import ShareButton from '../../components/ShareButton';
+import { decodeSharedPlan, getSharedPlanToken, MAX_SHARE_FRAGMENT_LENGTH } from '../../api/shareLink';
+import { mockSessionState } from '../../__mocks__/handlers';
+
+const plan = { input: { location: '94105', kidsAges: [5, 8] }, planText: mockSessionState.final_summary };
+
+/**
+ * Replaces navigator.clipboard.writeText for one test.
+ */
+const mockClipboard = (writeText: (text: string) => Promise<void>) => {
+  const mock = vi.fn(writeText);
+  Object.defineProperty(navigator, 'clipboard', { value: { writeText: mock }, configurable: true });
+  return mock;
+};
+
+describe('ShareButton', () => {
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'clipboard');
+  });
+
+  it('copies a link carrying the plan', async () => {
+    const writeText = mockClipboard(() => Promise.resolve());
+    render(<ShareButton plan={plan} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Share link' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Link copied to clipboard');
+    const url = new URL(writeText.mock.calls[0][0]);
+    expect(await decodeSharedPlan(getSharedPlanToken(url.hash)!)).toEqual(plan);
+  });
+
+  it('shows the link when the clipboard is unavailable', async () => {
+    mockClipboard(() => Promise.reject(new Error('Not allowed')));
+    render(<ShareButton plan={plan} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Share link' }));
+
+    const field = await screen.findByLabelText('Copy this link to share the plan');
+    expect((field as HTMLInputElement).value).toContain('#plan=1.');
+  });
+
+  it('explains when the plan is too long for a link', async () => {
+    const writeText = mockClipboard(() => Promise.resolve());
+    // Distinct numbers compress poorly enough to exceed the limit
+    const planText = Array.from({ length: MAX_SHARE_FRAGMENT_LENGTH }, (_, i) => ((i * 7919) % 100003).toString(36)).join(' ');
+    render(<ShareButton plan={{ planText }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Share link' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('too long to share as a link');
+    expect(writeText).not.toHaveBeenCalled();
+  });
+});
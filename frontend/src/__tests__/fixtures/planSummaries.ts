@@ -0,0 +1,251 @@
+/**
+ * Corpus of SummarizerAgent outputs for the plan parser tests.
+ *
+ * Each fixture is a summary in one of the shapes Gemini produces for the
+ * summarizer instruction (bold labels, day headings, pipe-separated headers,
+ * nested details, prose), plus the parts the parser is expected to find.
+ * Expectations list only what a reader of the summary would agree on;
+ * fields not listed are not checked. Add a fixture whenever a real summary
+ * parses badly.
+ *
+ * @module __tests__/fixtures/planSummaries
+ */
+
+import type { PlanActivity, WeekendPlan } from '../../types';
+
+/**
+ * A summary with the plan parts it should parse into.
+ */
+export interface PlanSummaryFixture {
+  /** Short description of the summary's shape */
+  name: string;
+  /** The summary text as returned by the SummarizerAgent */
+  text: string;
+  /** Header fields, disclaimer presence and layout the parser should find */
+  expected: Partial<Pick<WeekendPlan, 'title' | 'area' | 'zipCode' | 'weather' | 'weatherVerdict' | 'kidAges'>> & {
+    /** The activities, in order; each lists only the fields to check */
+    activities: Partial<PlanActivity>[];
+    /** Whether a disclaimer is present */
+    hasDisclaimer: boolean;
+    /** Text that must end up in remainingContent */
+    remainingIncludes?: string[];
+    /** Layout PlanView should pick */
+    layout: 'cards' | 'text';
+  };
+}
+
+export const planSummaries: PlanSummaryFixture[] = [
+  {
+    name: 'bold header labels and bold activity titles',
+    text: `Hello there! Here's your family weekend plan! ☀️
+
+**Area:** San Francisco, CA (94105)
+**Weather:** Sunny and mild, highs around 68°F
+**Ages:** 5 and 8
+
+* **Exploratorium:** Hands-on science exhibits that keep both kids busy for hours. Admission is $39.95 per adult, kids under 12 are $29.95.
+* **Golden Gate Park Playground:** The Koret Children's Quarter has a carousel and climbing structures. Free to enter.
+* **Ferry Plaza Farmers Market:** Grab breakfast and let the kids sample fruit. Saturday 8am-2pm.
+* **Crissy Field:** Fly a kite and look for crabs at the beach with views of the bridge.
+
+I picked outdoor spots since the weather is great, with one indoor backup in case the fog rolls in.
+
+*Disclaimer: These suggestions are based on AI agent research and should be verified for accuracy and availability before you go.*`,
+    expected: {
+      area: 'San Francisco, CA (94105)',
+      zipCode: '94105',
+      weather: 'Sunny and mild, highs around 68°F',
+      weatherVerdict: 'good',
+      kidAges: [5, 8],
+      activities: [
+        { title: 'Exploratorium', cost: '$39.95 per adult' },
+        { title: 'Golden Gate Park Playground', cost: 'Free' },
+        { title: 'Ferry Plaza Farmers Market', time: 'Saturday 8am-2pm' },
+        { title: 'Crissy Field' }
+      ],
+      hasDisclaimer: true,
+      remainingIncludes: ["Here's your family weekend plan", 'I picked outdoor spots'],
+      layout: 'cards'
+    }
+  },
+  {
+    name: 'day headings with time slot labels',
+    text: `# Weekend Plan for Your Family
+
+## Weather Forecast
+Based on the forecast, the weather looks good for outdoor activities this weekend!
+
+## Recommended Activities
+
+### Saturday
+- **Morning**: Visit the local farmer's market for fresh produce and family fun
+- **Afternoon**: Nature hike at the nearby state park - great for kids of all ages
+
+### Sunday
+- **Morning**: Brunch at a cozy local cafe
+- **Afternoon**: Explore the children's museum with interactive exhibits
+
+## Special Events This Weekend
+- Community fair at the town center (Saturday 10am-4pm)
+
+---
+*Disclaimer: These results are based on AI agent research and should be verified for accuracy and availability.*`,
+    expected: {
+      title: 'Weekend Plan for Your Family',
+      weatherVerdict: 'good',
+      kidAges: [],
+      activities: [
+        { title: "Visit the local farmer's market for fresh produce and family fun", time: 'Saturday morning' },
+        {
+          title: 'Nature hike at the nearby state park',
+          description: 'great for kids of all ages',
+          time: 'Saturday afternoon'
+        },
+        { title: 'Brunch at a cozy local cafe', time: 'Sunday morning' },
+        { title: "Explore the children's museum with interactive exhibits", time: 'Sunday afternoon' },
+        {
+          title: 'Community fair at the town center',
+          time: 'Saturday 10am-4pm',
+          category: 'Special Events This Weekend'
+        }
+      ],
+      hasDisclaimer: true,
+      layout: 'cards'
+    }
+  },
+  {
+    name: 'pipe-separated header with numbered home activities',
+    text: `### 🏠 Cozy Weekend at Home
+
+**Area:** 02138 (Cambridge, MA) | **Weather:** Heavy rain and wind all weekend | **Kids' ages:** 4, 7
+
+Since it's going to be a soggy weekend, here are some indoor projects you can do with things you already have:
+
+1. **Cardboard Box Fort** - Build a castle from delivery boxes and tape. Cost: Free.
+2. **Kitchen Volcano** - Baking soda and vinegar eruptions teach a little chemistry.
+3. **Sock Puppet Theater** - Make puppets from old socks, then put on a show.
+4. **Indoor Scavenger Hunt** - Hide clues around the house for the kids to solve.
+
+**Why these picks:**
+- Everything uses household materials, so there's nothing to buy.
+- Each activity works for both a 4 and a 7 year old.
+
+Disclaimer: These results are based on AI research and need to be verified for accuracy and availability.`,
+    expected: {
+      title: 'Cozy Weekend at Home',
+      area: '02138 (Cambridge, MA)',
+      zipCode: '02138',
+      weather: 'Heavy rain and wind all weekend',
+      weatherVerdict: 'bad',
+      kidAges: [4, 7],
+      activities: [
+        { title: 'Cardboard Box Fort', description: 'Build a castle from delivery boxes and tape.', cost: 'Free' },
+        { title: 'Kitchen Volcano' },
+        { title: 'Sock Puppet Theater' },
+        { title: 'Indoor Scavenger Hunt' }
+      ],
+      hasDisclaimer: true,
+      remainingIncludes: ['soggy weekend', 'Why these picks', 'household materials'],
+      layout: 'cards'
+    }
+  },
+  {
+    name: 'nested detail bullets',
+    text: `## Your Austin Weekend Plan (78701)
+
+Weather: Clear skies, 75°F
+Ages: 6, 9, 12
+
+- **Zilker Park Kite Festival**
+  - Location: Zilker Metropolitan Park
+  - Time: Sunday 10am-5pm
+  - Cost: Free
+  - Kites, music and food trucks on the great lawn.
+- **Thinkery Children's Museum**
+  - Where: 1830 Simond Ave
+  - Price: $17 per person
+  - Hands-on STEM exhibits for younger kids.
+- **Barton Springs Pool**
+  - Hours: 5am-10pm daily
+  - Admission: $9 per adult
+  - A cold spring-fed pool, perfect for a hot afternoon.
+
+Remember: results are based on AI agent research; please verify for accuracy and availability.`,
+    expected: {
+      title: 'Your Austin Weekend Plan (78701)',
+      zipCode: '78701',
+      weather: 'Clear skies, 75°F',
+      weatherVerdict: 'good',
+      kidAges: [6, 9, 12],
+      activities: [
+        {
+          title: 'Zilker Park Kite Festival',
+          location: 'Zilker Metropolitan Park',
+          time: 'Sunday 10am-5pm',
+          cost: 'Free',
+          description: 'Kites, music and food trucks on the great lawn.'
+        },
+        { title: "Thinkery Children's Museum", location: '1830 Simond Ave', cost: '$17 per person' },
+        { title: 'Barton Springs Pool', time: '5am-10pm daily', cost: '$9 per adult' }
+      ],
+      hasDisclaimer: true,
+      layout: 'cards'
+    }
+  },
+  {
+    name: 'stay-home verdict with short list',
+    text: `Weekend plan for 60614 — kids ages 3 and 10
+
+**Weather:** Severe winter storm warning, do not leave home.
+
+Stay warm inside with these ideas:
+- Blanket fort movie marathon
+- Bake and decorate cookies together
+- Build a marble run from paper towel tubes
+
+*Note: these suggestions come from AI research and should be verified for accuracy and availability.*`,
+    expected: {
+      weather: 'Severe winter storm warning, do not leave home',
+      weatherVerdict: 'do not leave home',
+      activities: [
+        { title: 'Blanket fort movie marathon' },
+        { title: 'Bake and decorate cookies together' },
+        { title: 'Build a marble run from paper towel tubes' }
+      ],
+      hasDisclaimer: true,
+      remainingIncludes: ['Weekend plan for 60614', 'Stay warm inside'],
+      layout: 'cards'
+    }
+  },
+  {
+    name: 'prose only',
+    text: `Your weekend in Portland looks promising! The forecast calls for light clouds, so a morning at Washington Park followed by lunch at a food cart pod would be a great fit for your kids. If the afternoon turns drizzly, OMSI is a short drive away.
+
+Please double-check opening hours before heading out.`,
+    expected: {
+      kidAges: [],
+      activities: [],
+      hasDisclaimer: false,
+      remainingIncludes: ['Washington Park', 'double-check opening hours'],
+      layout: 'text'
+    }
+  },
+  {
+    name: 'single suggestion',
+    text: `Area: 98101
+Weather: Rainy
+
+- Seattle Aquarium - see the sea otters at feeding time
+
+Disclaimer: based on AI research.`,
+    expected: {
+      area: '98101',
+      zipCode: '98101',
+      weather: 'Rainy',
+      weatherVerdict: 'bad',
+      activities: [{ title: 'Seattle Aquarium', description: 'see the sea otters at feeding time' }],
+      hasDisclaimer: true,
+      layout: 'text'
+    }
+  }
+];
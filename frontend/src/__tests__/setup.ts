@@ -5,6 +5,7 @@
  * 1. Importing jest-dom matchers to extend Vitest's expect with DOM-specific assertions
  * 2. Setting up MSW server lifecycle hooks for API mocking
  * 3. Providing browser API mocks for jsdom environment compatibility
+ * 4. Providing an in-memory IndexedDB for the plan history, reset after each test
  * 
  * This setup file is referenced in vitest.config.ts as setupFiles and runs 
  * before all test files to ensure a consistent testing environment.
@@ -135,6 +136,21 @@ Object.defineProperty(window, 'IntersectionObserver', {
   value: MockIntersectionObserver,
 });
 
+/**
+ * In-memory IndexedDB implementation for the plan history.
+ * 
+ * jsdom does not implement IndexedDB. fake-indexeddb/auto installs a
+ * spec-compliant in-memory version as the global indexedDB; a fresh
+ * factory is installed after each test so saved plans do not leak
+ * between tests.
+ */
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+
+afterEach(() => {
+  globalThis.indexedDB = new IDBFactory();
+});
+
 // ============================================================================
 // MSW Server Lifecycle Hooks
 // ============================================================================
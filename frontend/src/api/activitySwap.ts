@@ -0,0 +1,118 @@
+/**
+ * Swapping a single activity of a plan.
+ *
+ * buildSwapRequest() writes the follow-up turn asking the agent for one
+ * replacement activity. The agent answers with a whole new summary, which
+ * may reword or reorder the rest of the plan, so swapActivity() takes only
+ * the new activity from it and puts its lines in place of the old one's.
+ * Everything else in the summary stays exactly as it was.
+ */
+
+import { toPlainText } from './markdownText';
+import { getActivityLineRanges, parseWeekendPlan, splitSummaryLines } from './planParser';
+import type { WeekendPlan } from '../types';
+
+/** Shown when the agent's answer repeats the plan's activities instead of suggesting a new one */
+export const SWAP_NO_REPLACEMENT_MESSAGE = 'The planner did not suggest a different activity. Please try again.';
+
+/** Leading bullet or number of a list item, with its indentation */
+const LIST_MARKER_PATTERN = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+
+/**
+ * Normalizes an activity title for comparisons: plain text, lower case,
+ * punctuation and extra spaces removed.
+ *
+ * @param title - The activity title, as Markdown
+ * @returns Comparable title
+ */
+export function normalizeActivityTitle(title: string): string {
+  return toPlainText(title)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Builds the follow-up request asking the agent to replace one activity.
+ * Names every activity of the plan so none of them is suggested again.
+ *
+ * @param plan - The parsed plan
+ * @param index - Index of the activity to replace
+ * @returns The refinement message
+ *
+ * @example
+ * buildSwapRequest(plan, 1);
+ * // 'Replace only activity 2, "Nature hike", planned for Saturday afternoon, with one ...'
+ */
+export function buildSwapRequest(plan: WeekendPlan, index: number): string {
+  const activity = plan.activities[index];
+  const time = activity.time && toPlainText(activity.time);
+  const titles = plan.activities.map((candidate) => `"${toPlainText(candidate.title)}"`).join(', ');
+
+  return [
+    `Replace only activity ${index + 1}, "${toPlainText(activity.title)}"${time ? `, planned for ${time}` : ''},`,
+    `with one different activity${time ? ' for the same time' : ''} that suits the same weather and kids ages.`,
+    `Do not suggest any of these activities again: ${titles}.`,
+    'Keep every other activity exactly as it is.'
+  ].join(' ');
+}
+
+/**
+ * Finds the replacement for a swapped activity in the agent's new summary:
+ * an activity whose title is not in the old plan, preferably at the
+ * swapped activity's position.
+ *
+ * @param oldPlan - The plan before the swap
+ * @param index - Index of the swapped activity
+ * @param newPlan - The plan parsed from the agent's answer
+ * @returns Index of the replacement in newPlan, or undefined if every activity is a repeat
+ */
+export function findReplacementActivity(oldPlan: WeekendPlan, index: number, newPlan: WeekendPlan): number | undefined {
+  const oldTitles = new Set(oldPlan.activities.map((activity) => normalizeActivityTitle(activity.title)));
+  const candidates = newPlan.activities
+    .map((activity, candidateIndex) => ({ title: normalizeActivityTitle(activity.title), candidateIndex }))
+    .filter(({ title }) => title !== '' && !oldTitles.has(title))
+    .map(({ candidateIndex }) => candidateIndex);
+
+  return candidates.includes(index) ? index : candidates[0];
+}
+
+/**
+ * Replaces one activity of a summary with the replacement from the agent's
+ * answer to buildSwapRequest(). The replacement keeps the old activity's
+ * list marker, so numbered lists stay numbered.
+ *
+ * @param planText - The summary before the swap
+ * @param index - Index of the activity to replace
+ * @param answerText - The agent's new summary
+ * @returns The summary with only that activity replaced, or undefined when
+ *   the answer has no new activity
+ *
+ * @example
+ * const refined = await refinePlan(sessionId, input, buildSwapRequest(plan, 1));
+ * const swapped = swapActivity(planText, 1, refined.planText ?? '');
+ */
+export function swapActivity(planText: string, index: number, answerText: string): string | undefined {
+  const oldPlan = parseWeekendPlan(planText);
+  const oldRange = getActivityLineRanges(planText)[index];
+  if (!oldRange) {
+    return undefined;
+  }
+
+  const newPlan = parseWeekendPlan(answerText);
+  const replacement = findReplacementActivity(oldPlan, index, newPlan);
+  if (replacement === undefined) {
+    return undefined;
+  }
+
+  const newRange = getActivityLineRanges(answerText)[replacement];
+  const lines = splitSummaryLines(planText);
+  const newLines = splitSummaryLines(answerText).slice(newRange.start, newRange.end);
+  const marker = LIST_MARKER_PATTERN.exec(lines[oldRange.start])?.[0];
+  if (marker) {
+    newLines[0] = newLines[0].replace(LIST_MARKER_PATTERN, marker);
+  }
+
+  lines.splice(oldRange.start, oldRange.end - oldRange.start, ...newLines);
+  return lines.join('\n');
+}
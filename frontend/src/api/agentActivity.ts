@@ -0,0 +1,135 @@
+/**
+ * Summaries of what the agents did during a run, derived from its events.
+ *
+ * ADK reports tool use in two ways. AgentTool calls, such as the
+ * WeatherRouter handing off to ActivityResearchGroup, appear as function call
+ * and function response parts. google_search runs inside the model, so it only
+ * leaves grounding metadata: the queries it ran and the sources it used.
+ * These helpers turn both into display-ready lists, and add up token usage.
+ */
+
+import { toWebLink } from './citations';
+import type { ADKEvent, SearchGrounding, ToolInvocation, UsageMetadata } from '../types';
+
+/**
+ * Pairs each function call in the events with its function response.
+ * Responses are matched by call ID when the server assigns one, otherwise
+ * to the earliest unanswered call of the same tool. Partial streaming
+ * events are skipped, since ADK repeats their content in the final event.
+ *
+ * @param events - Events of a run, in order
+ * @returns One invocation per function call, in call order
+ *
+ * @example
+ * getToolInvocations(result.rawResponse ?? []);
+ * // [{ agent: 'WeatherRouter', name: 'ActivityResearchGroup', args: {...}, response: { result: '...' } }]
+ */
+export function getToolInvocations(events: ADKEvent[]): ToolInvocation[] {
+  const invocations: (ToolInvocation & { callId?: string })[] = [];
+
+  for (const event of events) {
+    if (event.partial) {
+      continue;
+    }
+
+    for (const part of event.content?.parts ?? []) {
+      if (part.functionCall) {
+        invocations.push({
+          agent: event.author,
+          name: part.functionCall.name,
+          args: part.functionCall.args,
+          callId: part.functionCall.id
+        });
+      }
+
+      const functionResponse = part.functionResponse;
+      if (functionResponse) {
+        const call =
+          (functionResponse.id && invocations.find((candidate) => candidate.callId === functionResponse.id)) ||
+          invocations.find((candidate) => candidate.name === functionResponse.name && !candidate.response);
+        if (call) {
+          call.response = functionResponse.response ?? {};
+        }
+      }
+    }
+  }
+
+  return invocations.map(({ callId: _callId, ...invocation }) => invocation);
+}
+
+/**
+ * Collects the google_search queries and sources behind each agent's responses.
+ * Repeated queries and sources of the same agent are listed once.
+ *
+ * @param events - Events of a run, in order
+ * @returns One entry per agent that used search, in order of first use
+ *
+ * @example
+ * getSearchGroundings(events);
+ * // [{ agent: 'WeatherAgent', queries: ['weekend weather 94105'], sources: [{ uri: '...', title: 'weather.gov' }] }]
+ */
+export function getSearchGroundings(events: ADKEvent[]): SearchGrounding[] {
+  const groundings: SearchGrounding[] = [];
+
+  for (const event of events) {
+    const metadata = event.groundingMetadata;
+    if (event.partial || !metadata) {
+      continue;
+    }
+
+    let grounding = groundings.find((candidate) => candidate.agent === event.author);
+    if (!grounding) {
+      grounding = { agent: event.author, queries: [], sources: [] };
+      groundings.push(grounding);
+    }
+
+    for (const query of metadata.webSearchQueries ?? []) {
+      if (!grounding.queries.includes(query)) {
+        grounding.queries.push(query);
+      }
+    }
+
+    for (const chunk of metadata.groundingChunks ?? []) {
+      const rawUri = chunk.web?.uri;
+      if (!rawUri) {
+        continue;
+      }
+      // Only http(s) links stay clickable; others (javascript:, data:) are kept as text
+      const uri = toWebLink(rawUri);
+      const source = uri ? { uri, title: chunk.web?.title } : { title: chunk.web?.title || rawUri };
+      const isKnown = grounding.sources.some((known) =>
+        source.uri ? known.uri === source.uri : !known.uri && known.title === source.title
+      );
+      if (!isKnown) {
+        grounding.sources.push(source);
+      }
+    }
+  }
+
+  return groundings.filter((grounding) => grounding.queries.length > 0 || grounding.sources.length > 0);
+}
+
+/**
+ * Adds up the token counts of all model calls in a run.
+ *
+ * @param events - Events of a run
+ * @returns Summed counts, or undefined if no event reported usage
+ *
+ * @example
+ * getTokenUsage(events)?.totalTokenCount; // 5230
+ */
+export function getTokenUsage(events: ADKEvent[]): UsageMetadata | undefined {
+  const reported = events.filter((event) => !event.partial && event.usageMetadata);
+  if (reported.length === 0) {
+    return undefined;
+  }
+
+  const sum = (key: keyof UsageMetadata): number =>
+    reported.reduce((total, event) => total + (event.usageMetadata?.[key] ?? 0), 0);
+
+  return {
+    promptTokenCount: sum('promptTokenCount'),
+    candidatesTokenCount: sum('candidatesTokenCount'),
+    totalTokenCount: sum('totalTokenCount')
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * iCalendar (RFC 5545) export of a weekend plan.
+ *
+ * createPlanCalendar() turns a parsed plan into a VCALENDAR with one VEVENT
+ * per activity, placed on the plan's dates. Activities go on the Saturday
+ * or Sunday the itinerary gives them, or on the day their time names when
+ * that is another day of the dates, such as a holiday Friday or Monday.
+ *
+ * Clock times from the summary ("Saturday 10am-4pm") are used when they
+ * fit the activity's slot; other activities share the slot's default hours.
+ * Events use floating local times, so they land at the same wall-clock
+ * time in whatever time zone the calendar app is in.
+ */
+
+import { toPlainText } from './markdownText';
+import { createItinerary, DAY_PARTS, ITINERARY_DAYS } from './itinerary';
+import { listWeekendDays } from './weekend';
+import type { DayPart, Itinerary, ItineraryDay, PlanActivity, WeekendDates, WeekendPlan } from '../types';
+
+/** PRODID of exported calendars */
+const CALENDAR_PRODUCT_ID = '-//Weekend Planner//Weekend Plan Export//EN';
+
+/** Default hours of each part of the day, as [start, end] in minutes after midnight */
+const DAY_PART_HOURS: Record<DayPart, [number, number]> = {
+  morning: [9 * 60, 12 * 60],
+  afternoon: [13 * 60, 17 * 60],
+  evening: [18 * 60, 20 * 60]
+};
+
+/** Length of an event whose summary gave only a start time */
+const DEFAULT_DURATION_MINUTES = 120;
+
+/** Longest content line in octets before it is folded (RFC 5545 section 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+/** Weekday abbreviations, indexed like Date.getDay() */
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Options for createPlanCalendar().
+ */
+export interface CalendarExportOptions {
+  /** Dates the plan is for; events are placed on the days between start and end */
+  dates: WeekendDates;
+
+  /**
+   * Slot of each activity; inferred from the activities when omitted.
+   * Pass the user's saved arrangement so the calendar matches the itinerary view.
+   */
+  itinerary?: Itinerary;
+
+  /**
+   * Prefix of each event's UID. Re-exporting with the same prefix lets
+   * calendar apps update the events instead of adding duplicates.
+   * @default 'weekend-plan-YYYYMMDD', from the first day
+   */
+  uidPrefix?: string;
+
+  /**
+   * Time the calendar is created, written as each event's DTSTAMP.
+   * @default new Date()
+   */
+  now?: Date;
+}
+
+/**
+ * Builds the download file name of a plan's calendar.
+ *
+ * @param dates - Dates the plan is for
+ * @returns e.g. "weekend-plan-2026-10-24.ics", named after the first day
+ */
+export function getCalendarFilename(dates: WeekendDates): string {
+  return `weekend-plan-${dates.start}.ics`;
+}
+
+/**
+ * Reads a clock time or time range such as "10am-4pm", "1:30 pm" or
+ * "10-11:30am". A start without am/pm takes the end's.
+ *
+ * @param text - Text that may contain a clock time
+ * @returns Start and optional end in minutes after midnight, if a time was found
+ */
+export function parseClockRange(text: string): { start: number; end?: number } | undefined {
+  const match =
+    /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|to)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i.exec(text) ??
+    /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const toMinutes = (hour: string, minute: string | undefined, meridiem: string): number =>
+    ((Number(hour) % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0)) * 60 + Number(minute ?? 0);
+
+  if (match[4] !== undefined) {
+    const end = toMinutes(match[4], match[5], match[6]);
+    return { start: toMinutes(match[1], match[2], match[3] ?? match[6]), end };
+  }
+  return { start: toMinutes(match[1], match[2], match[3]) };
+}
+
+/**
+ * Finds the weekday an activity's time names, e.g. "Monday 10am" or "Fri evening".
+ *
+ * @param time - The activity's time, if any
+ * @returns The weekday as in Date.getDay(), if one is named
+ */
+function findNamedWeekday(time: string | undefined): number | undefined {
+  const match = /\b(sun|mon|tue|wed|thu|fri|sat)(?:day|sday|nesday|rsday|urday)?\b/i.exec(time ?? '');
+  return match ? WEEKDAYS.indexOf(match[1].toLowerCase()) : undefined;
+}
+
+/**
+ * Finds the part of the day a time falls in.
+ *
+ * @param minutes - Minutes after midnight
+ * @returns The part of the day
+ */
+function getDayPart(minutes: number): DayPart {
+  if (minutes < 12 * 60) {
+    return 'morning';
+  }
+  return minutes < 17 * 60 ? 'afternoon' : 'evening';
+}
+
+/**
+ * Formats a date and time as a floating iCalendar DATE-TIME.
+ *
+ * @param date - The day
+ * @param minutes - Minutes after midnight
+ * @returns e.g. "20261024T093000"
+ */
+function formatLocalDateTime(date: Date, minutes: number): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`
+  );
+}
+
+/**
+ * Formats a time as a UTC iCalendar DATE-TIME, e.g. "20261019T153000Z".
+ *
+ * @param date - The time
+ * @returns The UTC DATE-TIME
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escapes a TEXT property value (RFC 5545 section 3.3.11).
+ *
+ * @param value - Plain text
+ * @returns The escaped value
+ */
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line longer than 75 octets onto continuation lines that
+ * start with a space, without splitting multi-byte characters.
+ *
+ * @param line - The unfolded content line
+ * @returns The folded line, joined with CRLF
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Builds an event's description: the activity's text, its details and
+ * its source links.
+ *
+ * @param activity - The activity
+ * @returns Plain-text description
+ */
+function getEventDescription(activity: PlanActivity): string {
+  const sections: string[] = [];
+  if (activity.description) {
+    sections.push(toPlainText(activity.description));
+  }
+
+  const details = [
+    activity.time && `When: ${toPlainText(activity.time)}`,
+    activity.cost && `Cost: ${toPlainText(activity.cost)}`
+  ].filter(Boolean);
+  if (details.length > 0) {
+    sections.push(details.join('\n'));
+  }
+
+  if (activity.sources && activity.sources.length > 0) {
+    sections.push(['Sources:', ...activity.sources.map((source) => `- ${source.title}: ${source.uri}`)].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Creates an iCalendar file for a plan, with one event per activity.
+ *
+ * Itinerary Saturday and Sunday activities go on the Saturday and Sunday
+ * of the dates. Dates without a Saturday put them on their first day, and
+ * dates without a Sunday put Sunday activities on the day after. An
+ * activity whose time names another weekday of the dates, such as a
+ * holiday Friday or Monday, goes on that day in its itinerary slot's part
+ * of the day.
+ *
+ * @param plan - The parsed plan; activity sources are included when set
+ * @param options - Plan dates, itinerary, UID prefix and creation time
+ * @returns The calendar as RFC 5545 text with CRLF line endings
+ *
+ * @example
+ * const dates = getPresetWeekend('this');
+ * const ics = createPlanCalendar(plan, { dates });
+ * downloadFile(getCalendarFilename(dates), ics, 'text/calendar');
+ */
+export function createPlanCalendar(plan: WeekendPlan, options: CalendarExportOptions): string {
+  const { dates, now = new Date() } = options;
+  const itinerary = options.itinerary ?? createItinerary(plan.activities);
+  const uidPrefix = options.uidPrefix ?? `weekend-plan-${dates.start.replace(/-/g, '')}`;
+  const stamp = formatUtcDateTime(now);
+
+  const days = listWeekendDays(dates);
+  const saturday = days.find((day) => day.getDay() === 6) ?? days[0];
+  const itineraryDates: Record<ItineraryDay, Date> = {
+    saturday,
+    sunday:
+      days.find((day) => day.getDay() === 0) ?? days[Math.min(days.indexOf(saturday) + 1, days.length - 1)]
+  };
+
+  /**
+   * Finds the day an activity goes on: the weekday its time names, when
+   * that is a weekday of the dates, otherwise its itinerary day.
+   */
+  const getEventDay = (index: number, itineraryDay: ItineraryDay): Date => {
+    const weekday = findNamedWeekday(plan.activities[index].time);
+    const named = weekday === 0 || weekday === 6 ? undefined : days.find((day) => day.getDay() === weekday);
+    return named ?? itineraryDates[itineraryDay];
+  };
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(plan.title ? toPlainText(plan.title) : 'Weekend Plan')}`
+  ];
+
+  for (const date of days) {
+    for (const part of DAY_PARTS) {
+      const indices = ITINERARY_DAYS.flatMap((day) =>
+        itinerary[`${day}-${part}`].filter((index) => getEventDay(index, day) === date)
+      );
+      // Activities with a clock time in this part keep it; the rest share the part's hours
+      const timed = new Map(
+        indices
+          .map((index) => [index, parseClockRange(plan.activities[index].time ?? '')] as const)
+          .filter(([, range]) => range !== undefined && getDayPart(range.start) === part)
+      );
+      const untimed = indices.filter((index) => !timed.has(index));
+      const [partStart, partEnd] = DAY_PART_HOURS[part];
+      const share = Math.floor((partEnd - partStart) / Math.max(untimed.length, 1));
+
+      for (const index of indices) {
+        const activity = plan.activities[index];
+        const range = timed.get(index);
+        let start: number;
+        let end: number;
+        if (range) {
+          start = range.start;
+          end = range.end !== undefined && range.end > range.start ? range.end : start + DEFAULT_DURATION_MINUTES;
+        } else {
+          start = partStart + share * untimed.indexOf(index);
+          end = start + share;
+        }
+        end = Math.min(end, 24 * 60 - 1);
+
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${uidPrefix}-${index + 1}@weekend-planner`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${formatLocalDateTime(date, start)}`,
+          `DTEND:${formatLocalDateTime(date, end)}`,
+          `SUMMARY:${escapeText(toPlainText(activity.title))}`
+        );
+        const description = getEventDescription(activity);
+        if (description) {
+          lines.push(`DESCRIPTION:${escapeText(description)}`);
+        }
+        if (activity.location) {
+          lines.push(`LOCATION:${escapeText(toPlainText(activity.location))}`);
+        }
+        if (activity.sources && activity.sources.length > 0) {
+          lines.push(`URL:${activity.sources[0].uri}`);
+        }
+        if (activity.category) {
+          lines.push(`CATEGORIES:${escapeText(activity.category)}`);
+        }
+        lines.push('END:VEVENT');
+      }
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
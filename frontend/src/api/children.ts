@@ -0,0 +1,184 @@
+/**
+ * Children entered in the form and the ages the planner accepts.
+ *
+ * The PreprocessInputAgent keeps only whole ages from 1 to 18 and assumes
+ * kids aged 5 and 8 when none are left. These rules mirror it, so the form
+ * accepts what the agent understands and warns, before the plan is
+ * requested, about children it would leave out. Children under two may be
+ * entered in months; from 12 months on they count as 1 year old.
+ */
+
+import type { AgeUnit, Child } from '../types';
+
+/** Youngest age the PreprocessInputAgent keeps, in years */
+export const MIN_PLANNER_AGE = 1;
+
+/** Oldest age the PreprocessInputAgent keeps, in years */
+export const MAX_PLANNER_AGE = 18;
+
+/** Ages the PreprocessInputAgent assumes when it finds none it keeps */
+export const DEFAULT_PLANNER_AGES = [5, 8];
+
+/** Oldest age that may be entered in months; older children are entered in years */
+export const MAX_AGE_MONTHS = 23;
+
+/** Most children accepted */
+export const MAX_CHILDREN = 10;
+
+/** Longest nickname accepted, in characters */
+export const MAX_NICKNAME_LENGTH = 30;
+
+/** Shown when an entered age is not a whole number of years or months */
+export const KIDS_AGES_FORMAT_MESSAGE = 'Enter ages as numbers separated by commas, e.g. 3, 7 or 9 months';
+
+/** An age with an optional unit: "7", "9 months", "9m", "2 yrs" */
+const AGE_PATTERN = /^(\d+)\s*(m|mo|mos|months?|y|yrs?|years?)?$/i;
+
+/**
+ * Result of parseChildAges().
+ */
+export interface ParsedChildAges {
+  /** The children, in order of entry; empty when there is an error */
+  children: Child[];
+  /** Validation message for the entered text */
+  error?: string;
+}
+
+/**
+ * Parses comma-separated ages typed into the form.
+ *
+ * @param text - Raw ages, e.g. "3, 7, 9 months"
+ * @param unit - Unit of ages typed without one
+ * @param nickname - Nickname for the child; only allowed with a single age
+ * @returns The children, or an error message
+ *
+ * @example
+ * parseChildAges('7, 9 months', 'years');
+ * // { children: [{ age: 7, unit: 'years' }, { age: 9, unit: 'months' }] }
+ */
+export function parseChildAges(text: string, unit: AgeUnit, nickname = ''): ParsedChildAges {
+  const entries = text
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+  const name = nickname.trim().replace(/\s+/g, ' ');
+  if (name && entries.length > 1) {
+    return { children: [], error: 'Add one child at a time to give a nickname' };
+  }
+
+  const children: Child[] = [];
+  for (const entry of entries) {
+    const match = AGE_PATTERN.exec(entry);
+    if (!match) {
+      return { children: [], error: KIDS_AGES_FORMAT_MESSAGE };
+    }
+    const age = parseInt(match[1], 10);
+    const entryUnit: AgeUnit = match[2] ? (match[2][0].toLowerCase() === 'm' ? 'months' : 'years') : unit;
+    if (entryUnit === 'years' && age === 0) {
+      return { children: [], error: 'Enter ages under 1 in months, e.g. 9 months' };
+    }
+    if (entryUnit === 'months' && age > MAX_AGE_MONTHS) {
+      return { children: [], error: `Enter ages over ${MAX_AGE_MONTHS} months in years` };
+    }
+    children.push({ age, unit: entryUnit, ...(name && { nickname: name }) });
+  }
+  return { children };
+}
+
+/**
+ * Checks a stored value is a Child, e.g. from an imported file.
+ *
+ * @param value - The value
+ * @returns Whether it has a whole, positive age, a unit and an optional nickname
+ */
+export function isChild(value: unknown): value is Child {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { age, unit, nickname } = value as Partial<Record<keyof Child, unknown>>;
+  return (
+    typeof age === 'number' &&
+    Number.isInteger(age) &&
+    (unit === 'years' ? age >= 1 : unit === 'months' && age >= 0 && age <= MAX_AGE_MONTHS) &&
+    (nickname === undefined || typeof nickname === 'string')
+  );
+}
+
+/**
+ * Checks the number of children and their nicknames.
+ *
+ * @param children - All children entered
+ * @returns The validation message, or undefined when they are valid
+ */
+export function validateChildren(children: Child[]): string | undefined {
+  if (children.length > MAX_CHILDREN) {
+    return `Add at most ${MAX_CHILDREN} children`;
+  }
+  if (children.some((child) => (child.nickname?.length ?? 0) > MAX_NICKNAME_LENGTH)) {
+    return `Keep nicknames to ${MAX_NICKNAME_LENGTH} characters or fewer`;
+  }
+  return undefined;
+}
+
+/**
+ * Works out the age the planner will use for a child.
+ *
+ * @param child - The child
+ * @returns Whole years, or undefined when the planner leaves the child out
+ */
+export function getPlannerAge(child: Child): number | undefined {
+  const years = child.unit === 'months' ? Math.floor(child.age / 12) : child.age;
+  return years >= MIN_PLANNER_AGE && years <= MAX_PLANNER_AGE ? years : undefined;
+}
+
+/**
+ * Lists the ages the planner will use, for GeneratePlanInput.kidsAges.
+ *
+ * @param children - The children
+ * @returns Whole years from 1 to 18, in order of entry
+ */
+export function toPlannerAges(children: Child[]): number[] {
+  return children.map(getPlannerAge).filter((age): age is number => age !== undefined);
+}
+
+/**
+ * Describes a child for chips and warnings.
+ *
+ * @param child - The child
+ * @returns e.g. "Sam (9 months)", "7 years" or "1 month"
+ */
+export function describeChild(child: Child): string {
+  const noun = child.unit === 'months' ? 'month' : 'year';
+  const age = `${child.age} ${noun}${child.age === 1 ? '' : 's'}`;
+  return child.nickname ? `${child.nickname} (${age})` : age;
+}
+
+/**
+ * Warns about children the planner will leave out, and about the ages it
+ * assumes when it keeps none.
+ *
+ * @param children - The children
+ * @returns One message per problem; empty when the planner uses every child
+ *
+ * @example
+ * getIgnoredAgeWarnings([{ age: 9, unit: 'months', nickname: 'Sam' }]);
+ * // ['The planner only plans for ages 1-18, so it will leave out Sam (9 months).',
+ * //  'With no child aged 1-18, the planner will assume kids aged 5 and 8.']
+ */
+export function getIgnoredAgeWarnings(children: Child[]): string[] {
+  const ignored = children.filter((child) => getPlannerAge(child) === undefined);
+  if (ignored.length === 0) {
+    return [];
+  }
+
+  const range = `${MIN_PLANNER_AGE}-${MAX_PLANNER_AGE}`;
+  const warnings = [
+    `The planner only plans for ages ${range}, so it will leave out ${ignored.map(describeChild).join(', ')}.`
+  ];
+  if (ignored.length === children.length) {
+    warnings.push(
+      `With no child aged ${range}, the planner will assume kids aged ${DEFAULT_PLANNER_AGES.join(' and ')}.`
+    );
+  }
+  return warnings;
+}
@@ -0,0 +1,216 @@
+/**
+ * Source citations for the activities in a plan.
+ *
+ * The research agents find activities with google_search, but the
+ * SummarizerAgent writes its plan without links. This module gathers every
+ * source the run produced and matches them to the recommended activities:
+ *
+ * - Grounding chunks from events, with the response segments they support
+ * - Links in the research findings stored in session state
+ * - Links in AgentTool results, for runs without session state
+ *
+ * Each source keeps the text it was cited for. A source belongs to an
+ * activity when that text mentions the activity's distinctive words, so a
+ * source for "Golden Gate Park" is not attached to the museum visit.
+ * Only http and https links are kept.
+ */
+
+import type { ActivitySource, ADKEvent, PlanSessionState } from '../types';
+
+/**
+ * A source gathered from a run, with the text it was cited for.
+ */
+export interface CitedSource extends ActivitySource {
+  /** Lowercased text the source backs: a grounded segment or findings line */
+  context: string;
+}
+
+/** Matches http(s) links, optionally as Markdown links: [text](url) */
+const LINK_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<>()\]]+)/g;
+
+/** Trailing punctuation that ends a sentence rather than a bare link */
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/;
+
+/** Words too common in activity titles to tell activities apart */
+const STOP_WORDS = new Set([
+  'about', 'after', 'afternoon', 'ages', 'all', 'and', 'any', 'are', 'around', 'at', 'back', 'best', 'day',
+  'enjoy', 'evening', 'explore', 'family', 'for', 'free', 'from', 'fun', 'great', 'have', 'home', 'into',
+  'kids', 'local', 'morning', 'nearby', 'night', 'open', 'our', 'out', 'saturday', 'some', 'sunday', 'take',
+  'that', 'the', 'their', 'then', 'this', 'time', 'visit', 'weekend', 'with', 'your'
+]);
+
+/**
+ * Returns the link if it is a valid http or https URL. Links from agent
+ * output or imported files pass through here before they become clickable.
+ *
+ * @param uri - Candidate link
+ * @returns The normalized link, or undefined for other schemes and invalid URLs
+ */
+export function toWebLink(uri: string | undefined): string | undefined {
+  if (!uri) {
+    return undefined;
+  }
+  try {
+    const url = new URL(uri);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Names a source after its host when it has no title.
+ *
+ * @param uri - A valid web link
+ * @returns The host name without "www."
+ */
+function hostName(uri: string): string {
+  return new URL(uri).hostname.replace(/^www\./, '');
+}
+
+/**
+ * Finds the links in free text. Each link's context is the line it is on.
+ *
+ * @param text - Research findings or a tool result
+ * @returns Sources in order of appearance
+ */
+export function extractLinkedSources(text: string): CitedSource[] {
+  const sources: CitedSource[] = [];
+
+  for (const line of text.split('\n')) {
+    for (const match of line.matchAll(LINK_PATTERN)) {
+      const uri = toWebLink((match[2] ?? match[3]).replace(TRAILING_PUNCTUATION, ''));
+      if (uri) {
+        sources.push({ uri, title: match[1]?.trim() || hostName(uri), context: line.toLowerCase() });
+      }
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Turns the grounding chunks of an event into sources. A chunk's context is
+ * its title plus every response segment it supports.
+ *
+ * @param event - A grounded event
+ * @returns Sources in chunk order
+ */
+function getGroundedSources(event: ADKEvent): CitedSource[] {
+  const metadata = event.groundingMetadata;
+  const sources: CitedSource[] = [];
+
+  (metadata?.groundingChunks ?? []).forEach((chunk, index) => {
+    const uri = toWebLink(chunk.web?.uri);
+    if (!uri) {
+      return;
+    }
+    const segments = (metadata?.groundingSupports ?? [])
+      .filter((support) => support.groundingChunkIndices?.includes(index))
+      .map((support) => support.segment?.text ?? '');
+    const title = chunk.web?.title?.trim() || hostName(uri);
+    sources.push({ uri, title, context: [title, ...segments].join('\n').toLowerCase() });
+  });
+
+  return sources;
+}
+
+/**
+ * Gathers all sources of a run: grounding from events, links in the session
+ * findings and links in AgentTool results. The same link found twice keeps
+ * both contexts.
+ *
+ * @param events - Events of the run
+ * @param state - Session state with the research findings, if loaded
+ * @returns Sources with one entry per link
+ *
+ * @example
+ * const sources = collectSources(result.rawResponse ?? [], result.sessionState);
+ */
+export function collectSources(events: ADKEvent[], state?: PlanSessionState): CitedSource[] {
+  const found: CitedSource[] = [];
+
+  for (const event of events) {
+    if (event.partial) {
+      continue;
+    }
+    found.push(...getGroundedSources(event));
+    for (const part of event.content?.parts ?? []) {
+      for (const value of Object.values(part.functionResponse?.response ?? {})) {
+        if (typeof value === 'string') {
+          found.push(...extractLinkedSources(value));
+        }
+      }
+    }
+  }
+
+  for (const findings of [state?.localActivitiesFindings, state?.specialActivitiesFindings, state?.homeActivitiesFindings]) {
+    if (findings) {
+      found.push(...extractLinkedSources(findings));
+    }
+  }
+
+  const byUri = new Map<string, CitedSource>();
+  for (const source of found) {
+    const existing = byUri.get(source.uri);
+    if (existing) {
+      existing.context = `${existing.context}\n${source.context}`;
+    } else {
+      byUri.set(source.uri, { ...source });
+    }
+  }
+  return [...byUri.values()];
+}
+
+/**
+ * Picks the words that identify an activity: its title's words of four or
+ * more letters, without Markdown and common planning words.
+ *
+ * @param title - Activity title, e.g. "**Morning**: Visit the farmer's market"
+ * @returns Lowercased keywords
+ */
+function getKeywords(title: string): string[] {
+  const words = title
+    .toLowerCase()
+    .replace(/\*\*[^*]*\*\*:?/g, ' ')
+    .split(/[^a-z0-9']+/)
+    .map((word) => word.replace(/'s$|'/g, ''))
+    .filter((word) => word.length >= 4 && !STOP_WORDS.has(word));
+  return [...new Set(words)];
+}
+
+/**
+ * Finds the sources for one activity: links written in the activity itself,
+ * then gathered sources whose context mentions at least two of the
+ * activity's keywords (or its only keyword).
+ *
+ * @param activity - The activity's title and description
+ * @param sources - Sources from collectSources()
+ * @returns Matching sources without duplicates, links in the activity first
+ *
+ * @example
+ * findActivitySources({ title: 'Golden Gate Park playground', description: '' }, sources);
+ * // [{ uri: 'https://goldengatepark.com/', title: 'goldengatepark.com' }]
+ */
+export function findActivitySources(
+  activity: { title: string; description?: string },
+  sources: CitedSource[]
+): ActivitySource[] {
+  const matches: ActivitySource[] = extractLinkedSources(`${activity.title}\n${activity.description ?? ''}`);
+
+  const keywords = getKeywords(activity.title);
+  const required = Math.min(2, keywords.length);
+  if (required > 0) {
+    for (const source of sources) {
+      const mentioned = keywords.filter((keyword) => source.context.includes(keyword)).length;
+      if (mentioned >= required) {
+        matches.push(source);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  return matches
+    .filter((source) => !seen.has(source.uri) && seen.add(source.uri))
+    .map(({ uri, title }) => ({ uri, title }));
+}
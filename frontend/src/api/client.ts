@@ -3,77 +3,101 @@
  * Implements communication with the ADK backend using native fetch API.
  * 
  * Uses two-step session-based flow per Google ADK conventions:
- * 1. Create session with empty body POST to /apps/{app}/users/{user}/sessions/{session}
+ * 1. Create session POST to /apps/{app}/users/{user}/sessions/{session}, with
+ *    the validated form input as initial session state
  * 2. Send message with new_message payload to the same endpoint
+ * 
+ * A streaming variant sends step 2 to ADK's /run_sse endpoint instead and
+ * reports each event as it arrives, falling back to the blocking message
+ * request when the server does not offer SSE.
+ * 
+ * Follow-up turns (refinePlan) reuse the session of an earlier run so the
+ * agent sees the conversation so far, and resumePlan rebuilds a plan from the
+ * events stored in a past session. Session CRUD lives in ./sessions.
+ * 
+ * After each successful run the session is read back so results carry the
+ * structured values the agents wrote to session state (see ./sessionState).
+ * 
+ * Every plan function accepts an external AbortSignal. Aborting it resolves
+ * the call with an error of kind 'cancelled', distinct from a timeout.
+ * 
+ * Failures are always reported as a typed PlanError (see ./errors), never
+ * thrown, so callers can branch on error.kind. Responses are validated at
+ * runtime (see ./validation); malformed ones become parse errors that say
+ * where the response went wrong.
+ * 
+ * Transient failures are retried with exponential backoff and jitter,
+ * honouring Retry-After headers (see DEFAULT_RETRY_POLICY).
  */
 
-import type { GeneratePlanInput, ADKResponse, GeneratePlanResult, ADKEvent, PlanError } from '../types';
+import type {
+  GeneratePlanInput,
+  ADKResponse,
+  GeneratePlanResult,
+  ADKEvent,
+  ADKRunSseRequest,
+  PlanError,
+  PlanRequestOptions,
+  PlanStreamCallbacks,
+  ResumedPlan,
+  RetryPolicy
+} from '../types';
+import { API_BASE_URL, APP_NAME, DEFAULT_USER_ID, REQUEST_TIMEOUT_MS, getSessionUrl, getSessionsUrl } from './config';
+import { createHttpError, createPlanError, createSessionError, type PlanErrorDetails } from './errors';
+import { describePlanningPreferences } from './preferences';
+import { createSession, getSession, SessionApiError } from './sessions';
+import { parseSessionState, readPlanningPreferences, readWeekendDates, toInitialSessionState } from './sessionState';
+import { clipSnippet, ResponseValidationError, validateADKEvent, validateADKResponse } from './validation';
+import { describeWeekendDates } from './weekend';
 
-/** API base URL from environment or default */
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
+export { createSession } from './sessions';
 
-/** Default timeout for API requests (30 seconds) */
-const REQUEST_TIMEOUT_MS = 30000;
 
-/** Default app name for ADK */
-const APP_NAME = 'WeekendPlanner';
+/** ADK endpoint that streams agent events as server-sent events */
+const RUN_SSE_PATH = '/run_sse';
 
-/** Default user ID for ADK sessions - static per requirements */
-const DEFAULT_USER_ID = 'user-1';
+/** Status codes meaning the server has no SSE endpoint, triggering the blocking fallback */
+const SSE_UNAVAILABLE_STATUSES = [404, 405, 501];
 
-/**
- * Creates a new ADK session.
- * @param userId - The user ID for the session (defaults to 'user-1')
- * @param sessionId - The session ID (generated via crypto.randomUUID() if not provided)
- * @returns Promise resolving to the session ID on success
- * @throws Error if session creation fails
- */
-export async function createSession(
-  userId: string = DEFAULT_USER_ID,
-  sessionId?: string
-): Promise<string> {
-  const sid = sessionId || crypto.randomUUID();
-  const url = `${API_BASE_URL}/apps/${APP_NAME}/users/${userId}/sessions/${sid}`;
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+/** Error name used when the SSE stream reports a server-side failure */
+const STREAM_ERROR_NAME = 'StreamError';
 
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({}),
-      signal: controller.signal
-    });
+/** Time allowed for the reachability probe that tells network and CORS failures apart */
+const PROBE_TIMEOUT_MS = 5000;
 
-    clearTimeout(timeoutId);
+/** Separates the original request from the user's message in refinement prompts */
+const REFINEMENT_MARKER = 'Please update the previous plan:';
 
-    if (!response.ok) {
-      throw new Error(`Session creation failed with status ${response.status}`);
-    }
+/**
+ * Default retry policy for plan requests.
+ * Three attempts per step, backing off 0.5s then 1s (up to 8s), half of each
+ * delay randomized. Message steps are retried on 429, 502 and 503 only.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitterRatio: 0.5,
+  retryableStatuses: [429, 502, 503]
+};
 
-    return sid;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Session creation timed out');
-    }
-    
-    throw error;
-  }
-}
+/**
+ * Status codes on which session creation is retried, besides network errors.
+ * Creation uses a client-generated ID, so repeating it cannot duplicate work.
+ */
+const SESSION_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
 
 /**
  * Builds the prompt string from input data.
- * Constructs a simple prompt with zip code and optional kids ages.
+ * Constructs a simple prompt with zip code and optional kids ages, followed
+ * by the weekend dates, the planning preferences and the family's learned
+ * preferences when there are any.
  * 
  * @param input - The user's input data
+ * @param learnedPreferences - Summary of liked and disliked activities (see summarizeFeedback())
  * @returns The formatted prompt string
  */
-function buildPrompt(input: GeneratePlanInput): string {
+function buildPrompt(input: GeneratePlanInput, learnedPreferences?: string): string {
   let prompt = `Plan a weekend trip for zip code ${input.location}.`;
 
   // kidsAges is now number[] - check length for presence of ages
@@ -81,9 +105,108 @@ function buildPrompt(input: GeneratePlanInput): string {
     prompt += ` We have kids ages ${input.kidsAges.join(', ')}.`;
   }
 
+  const dates = describeWeekendDates(input.dates);
+  if (dates) {
+    prompt += ` ${dates}`;
+  }
+
+  const preferences = describePlanningPreferences(input.preferences);
+  if (preferences) {
+    prompt += ` ${preferences}`;
+  }
+
+  if (learnedPreferences?.trim()) {
+    prompt += ` ${learnedPreferences.trim()}`;
+  }
+
   return prompt;
 }
 
+/**
+ * Recovers the plan input from a prompt built by buildPrompt().
+ * Used to restore the form input of a reopened session.
+ * 
+ * @param prompt - Text of the first user message in a session
+ * @returns The recovered input, or undefined if the prompt was not built by buildPrompt()
+ */
+function parsePrompt(prompt: string): GeneratePlanInput | undefined {
+  const match = /^Plan a weekend trip for zip code (.+?)\.(?: We have kids ages ([\d, ]+)\.)?/.exec(prompt);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    location: match[1],
+    kidsAges: match[2] ? match[2].split(',').map((age) => parseInt(age.trim(), 10)) : []
+  };
+}
+
+/**
+ * Builds the prompt for a follow-up refinement turn.
+ * Repeats the original zip code, ages and learned preferences so the
+ * PreprocessInputAgent, which runs again on every turn, extracts the same
+ * values instead of its defaults.
+ * 
+ * @param input - The input the session's plan was generated from
+ * @param message - The user's refinement request
+ * @param learnedPreferences - Summary of liked and disliked activities (see summarizeFeedback())
+ * @returns The formatted follow-up prompt string
+ */
+function buildRefinementPrompt(input: GeneratePlanInput, message: string, learnedPreferences?: string): string {
+  return `${buildPrompt(input, learnedPreferences)} ${REFINEMENT_MARKER} ${message.trim()}`;
+}
+
+/**
+ * Checks whether an event was authored by the SummarizerAgent.
+ * 
+ * @param event - ADK event to check
+ * @returns True if the event carries summarizer output
+ */
+function isSummarizerEvent(event: ADKEvent): boolean {
+  return event.author === 'SummarizerAgent' || event.author.includes('Summarizer');
+}
+
+/**
+ * Joins the text parts of a single event.
+ * 
+ * @param event - ADK event to read
+ * @returns The concatenated text, or an empty string if the event has none
+ */
+function getEventText(event: ADKEvent): string {
+  return (event.content?.parts || [])
+    .map((part) => part.text || '')
+    .join('');
+}
+
+/**
+ * Folds a streamed event into the plan text shown while a run is in progress.
+ * Partial SummarizerAgent chunks are appended; the final non-partial
+ * SummarizerAgent event replaces the accumulated text with the complete summary.
+ * Events from other agents leave the text unchanged.
+ * 
+ * @param current - Plan text accumulated so far
+ * @param event - The newly received event
+ * @returns The updated plan text
+ * 
+ * @example
+ * let text = '';
+ * await generatePlanStream(input, {
+ *   onEvent: (event) => { text = appendStreamedText(text, event); }
+ * });
+ */
+export function appendStreamedText(current: string, event: ADKEvent): string {
+  if (!isSummarizerEvent(event)) {
+    return current;
+  }
+
+  const text = getEventText(event);
+  if (!text) {
+    return current;
+  }
+
+  return event.partial ? current + text : text;
+}
+
 /**
  * Extracts plan text from ADK response events.
  * Prioritizes the final_summary from the SummarizerAgent, falling back to
@@ -101,9 +224,7 @@ function extractPlanText(response: ADKResponse): string | undefined {
   // The SummarizerAgent outputs to 'final_summary' key
   // These events typically have author containing 'SummarizerAgent' or 'model'
   const summarizerEvents: ADKEvent[] = response.filter(
-    (event: ADKEvent) => 
-      (event.author === 'SummarizerAgent' || event.author.includes('Summarizer')) &&
-      event.content?.parts
+    (event: ADKEvent) => isSummarizerEvent(event) && event.content?.parts
   );
 
   // If we found summarizer events, extract text from them
@@ -162,51 +283,208 @@ function extractPlanText(response: ADKResponse): string | undefined {
 }
 
 /**
- * Generates a weekend plan using the ADK backend.
- * Implements two-step session-based flow per Google ADK conventions:
- * 1. Create session with empty body POST
- * 2. Send message with new_message payload
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
  * 
- * @param input - The user's input data for plan generation
- * @returns Promise resolving to the plan result
+ * @param value - Raw header value
+ * @param now - Current time in epoch milliseconds, used for HTTP dates
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ * 
+ * @example
+ * parseRetryAfter('5'); // 5000
+ * parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT'); // ms until then, or 0 if past
  */
-export async function generatePlan(
-  input: GeneratePlanInput
-): Promise<GeneratePlanResult> {
-  // Generate unique session ID client-side using crypto.randomUUID()
-  const sessionId = crypto.randomUUID();
-  const userId = DEFAULT_USER_ID;
-  const url = `${API_BASE_URL}/apps/${APP_NAME}/users/${userId}/sessions/${sessionId}`;
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
 
-  try {
-    // Step 1: Create session with empty body
-    const createResponse = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({}),
-      signal: controller.signal
-    });
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Computes the backoff delay before a retry.
+ * The delay doubles with every attempt up to maxDelayMs; jitterRatio of it
+ * is randomized so the result lies between (1 - jitterRatio) and 1 times that.
+ * 
+ * @param attempt - The attempt that just failed (1 for the first)
+ * @param policy - The retry policy
+ * @param random - Random source returning values in [0, 1)
+ * @returns Delay in milliseconds
+ * 
+ * @example
+ * getRetryDelay(2, DEFAULT_RETRY_POLICY, () => 0); // 1000
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jitterRatio = Math.min(Math.max(policy.jitterRatio, 0), 1);
+  return Math.round(exponential * (1 - jitterRatio * random()));
+}
+
+/**
+ * Waits before the next attempt, ending early if the run is aborted.
+ * 
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Abort signal of the run
+ * @returns Promise resolving after the delay
+ * @throws The signal's abort reason if aborted while waiting
+ */
+function waitForRetry(delayMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
 
-    if (!createResponse.ok) {
+    const onAbort = (): void => {
       clearTimeout(timeoutId);
-      const errorBody = await createResponse.text().catch(() => '');
-      return {
-        success: false,
-        error: {
-          message: `Session creation failed with status ${createResponse.status}`,
-          statusCode: createResponse.status,
-          body: errorBody
-        }
-      };
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Outcome of one attempt of a request step */
+type AttemptOutcome<T> = { value: T } | { error: unknown };
+
+/** Whether to retry an attempt, with the delay the server asked for if any */
+type RetryDecision = false | { retryAfterMs?: number };
+
+/**
+ * Runs a request step, retrying it while shouldRetry accepts the outcome
+ * and attempts remain. Waits for the server's Retry-After when given,
+ * otherwise for the backoff delay; a Retry-After beyond maxDelayMs ends
+ * the retries so the caller can report it instead.
+ * 
+ * @param run - Performs one attempt, given its one-based number
+ * @param shouldRetry - Decides whether an outcome is worth retrying
+ * @param policy - The retry policy
+ * @param signal - Abort signal of the run; aborting stops further attempts
+ * @returns The value of the last attempt
+ * @throws The error of the last attempt
+ */
+async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  shouldRetry: (outcome: AttemptOutcome<T>) => RetryDecision,
+  policy: RetryPolicy,
+  signal: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    let outcome: AttemptOutcome<T>;
+    try {
+      outcome = { value: await run(attempt) };
+    } catch (error) {
+      outcome = { error };
     }
 
-    // Step 2: Send message with new_message payload to the same endpoint
-    const messageResponse = await fetch(url, {
+    const decision = attempt < policy.maxAttempts && !signal.aborted ? shouldRetry(outcome) : false;
+    const delayMs = decision ? decision.retryAfterMs ?? getRetryDelay(attempt, policy) : 0;
+    if (!decision || delayMs > policy.maxDelayMs) {
+      if ('error' in outcome) {
+        throw outcome.error;
+      }
+      return outcome.value;
+    }
+
+    await waitForRetry(delayMs, signal);
+  }
+}
+
+/**
+ * Retry decision for message steps: only responses with a retry-safe status
+ * are retried, since any other failure may have started an agent run.
+ * 
+ * @param policy - The retry policy
+ * @returns Decision function for withRetry()
+ */
+function retryOnStatus(policy: RetryPolicy): (outcome: AttemptOutcome<Response>) => RetryDecision {
+  return (outcome) =>
+    'value' in outcome && policy.retryableStatuses.includes(outcome.value.status)
+      ? { retryAfterMs: parseRetryAfter(outcome.value.headers.get('Retry-After')) }
+      : false;
+}
+
+/**
+ * Retry details for a failed response, added to its PlanError.
+ * 
+ * @param response - The failed response
+ * @param policy - The retry policy
+ * @returns retryable and retryAfterMs for retry-safe statuses, otherwise nothing
+ */
+function getRetryDetails(response: Response, policy: RetryPolicy): Pick<PlanErrorDetails, 'retryable' | 'retryAfterMs'> {
+  if (!policy.retryableStatuses.includes(response.status)) {
+    return {};
+  }
+
+  return {
+    retryable: true,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+  };
+}
+
+/**
+ * Applies caller overrides to the default retry policy.
+ * 
+ * @param overrides - Partial policy from the request options
+ * @returns The complete retry policy
+ */
+function resolveRetryPolicy(overrides?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+/**
+ * Parses JSON text, reporting syntax errors as validation failures.
+ * 
+ * @param text - Raw JSON text
+ * @param path - Location reported if the text is not valid JSON
+ * @returns The parsed value
+ * @throws ResponseValidationError if the text is not valid JSON
+ */
+function parseJson(text: string, path: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ResponseValidationError({
+      path,
+      reason: `expected valid JSON, got a syntax error: ${error instanceof Error ? error.message : String(error)}`,
+      snippet: clipSnippet(text)
+    });
+  }
+}
+
+/**
+ * Sends the plan request as a blocking message to an existing session
+ * and converts the complete ADK response into a plan result.
+ * 
+ * Retries on retry-safe statuses per the policy.
+ * 
+ * @param url - Session endpoint URL
+ * @param prompt - The message text to send
+ * @param signal - Abort signal for the request timeout
+ * @param policy - Retry policy for the request
+ * @returns Promise resolving to the plan result
+ */
+async function sendPlanMessage(
+  url: string,
+  prompt: string,
+  signal: AbortSignal,
+  policy: RetryPolicy
+): Promise<GeneratePlanResult> {
+  const messageResponse = await withRetry(
+    () => fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -214,114 +492,690 @@ export async function generatePlan(
       body: JSON.stringify({
         new_message: {
           role: 'user',
-          parts: [{ text: buildPrompt(input) }]
+          parts: [{ text: prompt }]
         }
       }),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
+      signal
+    }),
+    retryOnStatus(policy),
+    policy,
+    signal
+  );
 
-    if (!messageResponse.ok) {
-      const errorBody = await messageResponse.text().catch(() => '');
-      const error: PlanError = {
-        message: getErrorMessage(messageResponse.status, errorBody),
-        statusCode: messageResponse.status,
-        body: errorBody
-      };
+  if (!messageResponse.ok) {
+    const errorBody = await messageResponse.text().catch(() => '');
+    return {
+      success: false,
+      error: createHttpError(messageResponse.status, errorBody, getRetryDetails(messageResponse, policy))
+    };
+  }
 
+  let data: ADKResponse;
+  try {
+    data = validateADKResponse(parseJson(await messageResponse.text(), '$'));
+  } catch (error) {
+    if (error instanceof ResponseValidationError) {
       return {
         success: false,
-        error
+        error: createPlanError('parse', { statusCode: messageResponse.status, decodeFailure: error.failure })
       };
     }
+    throw error;
+  }
 
-    let data: ADKResponse;
-    try {
-      data = await messageResponse.json();
-    } catch {
+  const planText = extractPlanText(data);
+
+  return {
+    success: true,
+    planText,
+    rawResponse: data
+  };
+}
+
+/**
+ * Creates the session for a plan run, reporting failures as a plan result.
+ * The session state is seeded with the validated form input.
+ * 
+ * Creation is idempotent, so network errors and transient statuses are
+ * retried per the policy. A 409 on a retry means an earlier attempt created
+ * the session before its response was lost, and counts as success.
+ * 
+ * @param sessionId - The client-generated session ID
+ * @param input - The validated form input for the run
+ * @param signal - Abort signal of the plan run
+ * @param policy - Retry policy for the request
+ * @returns Undefined on success, or the failed plan result
+ */
+async function createPlanSession(
+  sessionId: string,
+  input: GeneratePlanInput,
+  signal: AbortSignal,
+  policy: RetryPolicy
+): Promise<GeneratePlanResult | undefined> {
+  try {
+    await withRetry(
+      async (attempt) => {
+        try {
+          await createSession(DEFAULT_USER_ID, sessionId, { signal, state: toInitialSessionState(input) });
+        } catch (error) {
+          if (attempt > 1 && error instanceof SessionApiError && error.statusCode === 409) {
+            return;
+          }
+          throw error;
+        }
+      },
+      (outcome) => {
+        if (!('error' in outcome)) {
+          return false;
+        }
+        if (outcome.error instanceof SessionApiError) {
+          return SESSION_RETRY_STATUSES.includes(outcome.error.statusCode)
+            ? { retryAfterMs: parseRetryAfter(outcome.error.retryAfter) }
+            : false;
+        }
+        // TypeError means the request never got a response
+        return outcome.error instanceof TypeError ? {} : false;
+      },
+      policy,
+      signal
+    );
+    return undefined;
+  } catch (error) {
+    if (error instanceof SessionApiError) {
+      const retryable = SESSION_RETRY_STATUSES.includes(error.statusCode);
       return {
         success: false,
-        error: {
-          message: 'Received an unexpected response format',
-          statusCode: messageResponse.status
-        }
+        error: createSessionError(
+          error.statusCode,
+          error.body,
+          retryable ? { retryable, retryAfterMs: parseRetryAfter(error.retryAfter) } : {}
+        )
       };
     }
+    throw error;
+  }
+}
 
-    const planText = extractPlanText(data);
+/**
+ * Builds the result reported when the caller aborts a run.
+ * 
+ * @returns Cancelled plan result
+ */
+function cancelledResult(): GeneratePlanResult {
+  return { success: false, error: createPlanError('cancelled') };
+}
 
-    return {
-      success: true,
-      planText,
-      rawResponse: data
-    };
+/**
+ * Forwards aborts of the caller's signal to the controller of a run,
+ * so one controller covers both the timeout and user cancellation.
+ * 
+ * @param signal - The caller's abort signal, if any
+ * @param controller - The run's own abort controller
+ * @returns Function that stops forwarding
+ */
+function linkAbortSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+
+  if (signal.aborted) {
+    controller.abort();
+    return () => undefined;
+  }
+
+  const forwardAbort = () => controller.abort();
+  signal.addEventListener('abort', forwardAbort, { once: true });
+  return () => signal.removeEventListener('abort', forwardAbort);
+}
+
+/**
+ * Tells apart the two failures fetch reports as the same TypeError: an
+ * unreachable backend, and a response the browser blocked for lack of CORS
+ * headers. An opaque no-cors request succeeds whenever the backend answers,
+ * so a cross-origin backend that answers it must be blocked by CORS.
+ * 
+ * @returns A network or cors error
+ */
+async function classifyFetchFailure(): Promise<PlanError> {
+  if (new URL(API_BASE_URL, window.location.href).origin === window.location.origin) {
+    return createPlanError('network');
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+  try {
+    await fetch(getSessionsUrl(DEFAULT_USER_ID), { mode: 'no-cors', signal: controller.signal });
+    return createPlanError('cors');
+  } catch {
+    return createPlanError('network');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Converts an exception thrown during plan generation into a failed result.
+ * Classifies by error type and name only, never by message text.
+ * 
+ * @param error - The caught exception
+ * @returns Failed plan result with a typed error
+ */
+async function toErrorResult(error: unknown): Promise<GeneratePlanResult> {
+  if (error instanceof SessionApiError) {
+    return { success: false, error: createSessionError(error.statusCode, error.body) };
+  }
+
+  if (!(error instanceof Error)) {
+    return { success: false, error: createPlanError('server', { body: String(error) }) };
+  }
+
+  // AbortError from the inactivity timeout, TimeoutError from the session manager's
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return { success: false, error: createPlanError('timeout') };
+  }
+
+  // The SSE stream reported a failure after the run started
+  if (error.name === STREAM_ERROR_NAME) {
+    return { success: false, error: createPlanError('server', { body: error.message }) };
+  }
+
+  if (error instanceof ResponseValidationError) {
+    return { success: false, error: createPlanError('parse', { decodeFailure: error.failure }) };
+  }
+
+  // fetch rejects with a TypeError when no response could be read
+  if (error instanceof TypeError) {
+    return { success: false, error: await classifyFetchFailure() };
+  }
+
+  return { success: false, error: createPlanError('server', { body: error.message }) };
+}
+
+/**
+ * Adds the session state written during a successful run to its result.
+ * The state is supplementary, so a failed lookup leaves the result unchanged
+ * rather than failing the plan.
+ * 
+ * @param result - Result of a plan turn
+ * @param signal - Abort signal of the surrounding request
+ * @returns The result with sessionState attached when it could be read
+ */
+async function withSessionState(
+  result: GeneratePlanResult,
+  signal: AbortSignal
+): Promise<GeneratePlanResult> {
+  if (!result.success || !result.sessionId) {
+    return result;
+  }
+
+  try {
+    const session = await getSession(result.sessionId, DEFAULT_USER_ID, { signal });
+    return { ...result, sessionState: parseSessionState(session.state) };
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Generates a weekend plan using the ADK backend.
+ * Implements two-step session-based flow per Google ADK conventions:
+ * 1. Create session POST, seeding its state with the input
+ * 2. Send message with new_message payload
+ * 
+ * @param input - The user's input data for plan generation
+ * @param options - Optional request options: abort signal, retry policy overrides and learned preferences
+ * @returns Promise resolving to the plan result; error kind 'cancelled' if the signal was aborted
+ * 
+ * @example
+ * const controller = new AbortController();
+ * const pending = generatePlan(input, { signal: controller.signal });
+ * controller.abort();
+ * (await pending).error?.kind; // 'cancelled'
+ */
+export async function generatePlan(
+  input: GeneratePlanInput,
+  options: PlanRequestOptions = {}
+): Promise<GeneratePlanResult> {
+  // Generate unique session ID client-side using crypto.randomUUID()
+  const sessionId = crypto.randomUUID();
+  const url = getSessionUrl(DEFAULT_USER_ID, sessionId);
+
+  const policy = resolveRetryPolicy(options.retry);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const unlinkSignal = linkAbortSignal(options.signal, controller);
+
+  try {
+    // Step 1: Create session seeded with the form input
+    const sessionError = await createPlanSession(sessionId, input, controller.signal, policy);
+    if (sessionError) {
+      return sessionError;
+    }
+
+    // Step 2: Send message with new_message payload to the same endpoint
+    const sent = await sendPlanMessage(url, buildPrompt(input, options.learnedPreferences), controller.signal, policy);
+    const result = sent.success ? await withSessionState({ ...sent, sessionId }, controller.signal) : sent;
+    return options.signal?.aborted ? cancelledResult() : result;
   } catch (error) {
+    return options.signal?.aborted ? cancelledResult() : toErrorResult(error);
+  } finally {
     clearTimeout(timeoutId);
+    unlinkSignal();
+  }
+}
 
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        return {
-          success: false,
-          error: {
-            message: 'Request timed out. Please try again.'
-          }
-        };
+/**
+ * Parses one server-sent event block into its JSON payload.
+ * Joins multi-line data fields and ignores comments and other fields.
+ * 
+ * @param block - Raw event block without the trailing blank line
+ * @param path - Location of the event, reported if its data is not valid JSON
+ * @returns Parsed payload, or undefined if the block carries no data
+ * @throws ResponseValidationError if the data is not valid JSON
+ */
+function parseSseBlock(block: string, path: string): unknown {
+  const dataLines: string[] = [];
+
+  for (const rawLine of block.split('\n')) {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    if (line.startsWith('data:')) {
+      dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return undefined;
+  }
+
+  return parseJson(dataLines.join('\n'), path);
+}
+
+/**
+ * Reads ADK events from a server-sent event stream.
+ * Yields each event as soon as its block has been received, so callers can
+ * iterate with `for await` and render output incrementally.
+ * 
+ * ADK reports failures inside the stream as `{"error": "..."}` payloads;
+ * these are thrown as errors named "StreamError". Every other payload is
+ * validated as an ADKEvent; the nth payload is reported at path `$[n]`.
+ * 
+ * @param body - Response body of a run_sse request
+ * @yields Each ADK event in arrival order
+ * @throws Error named "StreamError" if the stream carries an error payload
+ * @throws ResponseValidationError for malformed JSON or an invalid event
+ * 
+ * @example
+ * for await (const event of readEventStream(response.body)) {
+ *   console.log(event.author);
+ * }
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ADKEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventIndex = 0;
+
+  const toEvent = (block: string): ADKEvent | undefined => {
+    const path = `$[${eventIndex}]`;
+    const payload = parseSseBlock(block, path);
+    if (payload === undefined) {
+      return undefined;
+    }
+    eventIndex += 1;
+
+    // Only objects can be error payloads; anything else (null, arrays, numbers)
+    // is left to validateADKEvent, which reports it as a parse failure
+    if (typeof payload === 'object' && payload !== null && !Array.isArray(payload)) {
+      const record = payload as Record<string, unknown>;
+      if (typeof record.error === 'string' && record.author === undefined) {
+        const streamError = new Error(record.error);
+        streamError.name = STREAM_ERROR_NAME;
+        throw streamError;
       }
+    }
 
-      // Network error or CORS issue
-      if (error.message.includes('fetch') || error.message.includes('network')) {
-        return {
-          success: false,
-          error: {
-            message: "Couldn't reach the backend. Make sure the ADK server is running with `adk web`"
-          }
-        };
+    return validateADKEvent(payload, path);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
       }
 
-      // TypeError typically indicates CORS blocking
-      if (error instanceof TypeError) {
-        return {
-          success: false,
-          error: {
-            message: 'Connection blocked. See README for proxy setup.'
-          }
-        };
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = /\r?\n\r?\n/.exec(buffer);
+      while (boundary) {
+        const event = toEvent(buffer.slice(0, boundary.index));
+        buffer = buffer.slice(boundary.index + boundary[0].length);
+        if (event) {
+          yield event;
+        }
+        boundary = /\r?\n\r?\n/.exec(buffer);
       }
     }
 
+    // Flush a final event that was not followed by a blank line
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      const event = toEvent(buffer);
+      if (event) {
+        yield event;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Runs one conversation turn in an existing session, streaming over run_sse.
+ * 
+ * If the server has no SSE endpoint (404, 405 or 501) or the response has no
+ * readable body, the message is sent to the session endpoint instead and the
+ * blocking response is returned.
+ * 
+ * @param userId - The user ID that owns the session
+ * @param sessionId - The existing session to run the turn in
+ * @param prompt - The message text to send
+ * @param callbacks - Callbacks for observing streamed events
+ * @param signal - Abort signal for the request timeout
+ * @param onActivity - Called whenever an event arrives, to restart the inactivity timeout
+ * @param policy - Retry policy for opening the stream and the fallback request
+ * @returns Promise resolving to the result of the turn
+ */
+async function runPlanTurn(
+  userId: string,
+  sessionId: string,
+  prompt: string,
+  callbacks: PlanStreamCallbacks,
+  signal: AbortSignal,
+  onActivity: () => void,
+  policy: RetryPolicy
+): Promise<GeneratePlanResult> {
+  const runRequest: ADKRunSseRequest = {
+    app_name: APP_NAME,
+    user_id: userId,
+    session_id: sessionId,
+    new_message: {
+      role: 'user',
+      parts: [{ text: prompt }]
+    },
+    streaming: true
+  };
+
+  const streamResponse = await withRetry(
+    () => fetch(`${API_BASE_URL}${RUN_SSE_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream'
+      },
+      body: JSON.stringify(runRequest),
+      signal
+    }),
+    retryOnStatus(policy),
+    policy,
+    signal
+  );
+
+  // SSE not available - fall back to the blocking message request
+  if (SSE_UNAVAILABLE_STATUSES.includes(streamResponse.status) || (streamResponse.ok && !streamResponse.body)) {
+    const result = await sendPlanMessage(getSessionUrl(userId, sessionId), prompt, signal, policy);
+    return result.success ? { ...result, sessionId } : result;
+  }
+
+  if (!streamResponse.ok) {
+    const errorBody = await streamResponse.text().catch(() => '');
     return {
       success: false,
-      error: {
-        message: error instanceof Error ? error.message : 'An unknown error occurred'
-      }
+      error: createHttpError(streamResponse.status, errorBody, getRetryDetails(streamResponse, policy))
     };
   }
+
+  // Consume events, keeping only complete ones for the final response
+  const events: ADKResponse = [];
+  try {
+    for await (const event of readEventStream(streamResponse.body!)) {
+      // Stop delivering events as soon as the run is aborted
+      signal.throwIfAborted();
+      onActivity();
+      if (!event.partial) {
+        events.push(event);
+      }
+      callbacks.onEvent?.(event);
+    }
+  } catch (error) {
+    if (error instanceof ResponseValidationError) {
+      return {
+        success: false,
+        error: createPlanError('parse', { statusCode: streamResponse.status, decodeFailure: error.failure })
+      };
+    }
+    throw error;
+  }
+
+  return {
+    success: true,
+    planText: extractPlanText(events),
+    rawResponse: events,
+    sessionId
+  };
 }
 
 /**
- * Gets a user-friendly error message based on status code.
- * @param statusCode - HTTP status code
- * @param body - Response body (if available)
- * @returns User-friendly error message
+ * Creates an abort controller whose timeout can be restarted.
+ * Streaming requests restart it on every event, so the timeout measures
+ * inactivity rather than total duration.
+ * 
+ * @param signal - Optional caller signal; aborting it aborts the controller too
+ * @returns The controller, a restart function and a cleanup function
  */
-function getErrorMessage(statusCode: number, body?: string): string {
-  if (statusCode >= 400 && statusCode < 500) {
-    // Try to extract error details from body
-    try {
-      const parsed = JSON.parse(body || '{}');
-      if (parsed.detail || parsed.message || parsed.error) {
-        return `Invalid request: ${parsed.detail || parsed.message || parsed.error}`;
-      }
-    } catch {
-      // Ignore JSON parse errors
+function createInactivityTimeout(signal?: AbortSignal): {
+  controller: AbortController;
+  restart: () => void;
+  clear: () => void;
+} {
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const unlinkSignal = linkAbortSignal(signal, controller);
+
+  return {
+    controller,
+    restart: () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    },
+    clear: () => {
+      clearTimeout(timeoutId);
+      unlinkSignal();
     }
-    return `Invalid request: ${body || 'Unknown client error'}`;
+  };
+}
+
+/**
+ * Generates a weekend plan while streaming agent events from ADK's run_sse endpoint.
+ * 
+ * Flow:
+ * 1. Create session POST seeded with the input (same as generatePlan)
+ * 2. POST the message to /run_sse and report each event via onEvent as it arrives
+ * 3. Build the final result from the complete (non-partial) events and
+ *    attach the session state the agents wrote
+ * 
+ * If the server has no SSE endpoint (404, 405 or 501) or the response has no
+ * readable body, the message is sent to the session endpoint instead and the
+ * blocking response is returned, so callers can use this function unconditionally.
+ * 
+ * The 30-second timeout applies to inactivity: it is restarted every time an
+ * event arrives, so long pipelines keep streaming as long as they make progress.
+ * 
+ * @param input - The user's input data for plan generation
+ * @param callbacks - Optional callbacks for observing streamed events
+ * @param options - Optional request options: abort signal, retry policy overrides and learned preferences
+ * @returns Promise resolving to the plan result once the stream completes;
+ *          successful results carry the sessionId for follow-up turns, and
+ *          the error kind is 'cancelled' if the signal was aborted
+ * 
+ * @example
+ * const result = await generatePlanStream(input, {
+ *   onEvent: (event) => console.log(event.author, event.partial)
+ * });
+ */
+export async function generatePlanStream(
+  input: GeneratePlanInput,
+  callbacks: PlanStreamCallbacks = {},
+  options: PlanRequestOptions = {}
+): Promise<GeneratePlanResult> {
+  const sessionId = crypto.randomUUID();
+  const userId = DEFAULT_USER_ID;
+  const policy = resolveRetryPolicy(options.retry);
+  const timeout = createInactivityTimeout(options.signal);
+
+  try {
+    // Step 1: Create session seeded with the form input
+    const sessionError = await createPlanSession(sessionId, input, timeout.controller.signal, policy);
+    if (sessionError) {
+      return sessionError;
+    }
+
+    // Step 2: Run the first turn, streaming when available
+    const result = await runPlanTurn(
+      userId,
+      sessionId,
+      buildPrompt(input, options.learnedPreferences),
+      callbacks,
+      timeout.controller.signal,
+      timeout.restart,
+      policy
+    );
+
+    // Step 3: Read back the state the agents wrote
+    const withState = await withSessionState(result, timeout.controller.signal);
+    return options.signal?.aborted ? cancelledResult() : withState;
+  } catch (error) {
+    return options.signal?.aborted ? cancelledResult() : toErrorResult(error);
+  } finally {
+    timeout.clear();
   }
+}
+
+/**
+ * Refines an existing plan by sending a follow-up turn to its ADK session.
+ * 
+ * The agent keeps the conversation history of the session, so requests like
+ * "swap the museum for something outdoors" are applied to the previous plan
+ * instead of starting over. Streams over run_sse with the same blocking
+ * fallback as generatePlanStream().
+ * 
+ * @param sessionId - Session ID returned with the plan being refined
+ * @param input - The input the plan was generated from
+ * @param message - The user's refinement request
+ * @param callbacks - Optional callbacks for observing streamed events
+ * @param options - Optional request options: abort signal, retry policy overrides and learned preferences
+ * @returns Promise resolving to the refined plan result
+ * 
+ * @example
+ * const first = await generatePlanStream(input);
+ * const refined = await refinePlan(first.sessionId!, input, 'Swap the museum for something outdoors');
+ */
+export async function refinePlan(
+  sessionId: string,
+  input: GeneratePlanInput,
+  message: string,
+  callbacks: PlanStreamCallbacks = {},
+  options: PlanRequestOptions = {}
+): Promise<GeneratePlanResult> {
+  const timeout = createInactivityTimeout(options.signal);
 
-  if (statusCode >= 500) {
-    return 'Something went wrong on the server. Please try again.';
+  try {
+    const result = await runPlanTurn(
+      DEFAULT_USER_ID,
+      sessionId,
+      buildRefinementPrompt(input, message, options.learnedPreferences),
+      callbacks,
+      timeout.controller.signal,
+      timeout.restart,
+      resolveRetryPolicy(options.retry)
+    );
+    const withState = await withSessionState(result, timeout.controller.signal);
+    return options.signal?.aborted ? cancelledResult() : withState;
+  } catch (error) {
+    return options.signal?.aborted ? cancelledResult() : toErrorResult(error);
+  } finally {
+    timeout.clear();
   }
+}
+
+/**
+ * Rebuilds a plan from the events stored in a past ADK session.
+ * Used to reopen a session from the session list. Each user turn in the
+ * session becomes one plan version, so refinements are restored as well.
+ * The returned results carry the session ID so the plan can be refined further.
+ * 
+ * @param sessionId - The session to reopen
+ * @returns Promise resolving to the rebuilt versions, refinement messages and input
+ * 
+ * @example
+ * const { result, versions, refinements, input } = await resumePlan(sessionId);
+ */
+export async function resumePlan(sessionId: string): Promise<ResumedPlan> {
+  try {
+    // getSession() validates the events, so a malformed session is a 'parse' error
+    const session = await getSession(sessionId);
+    const { events } = session;
+
+    // Split the conversation into turns, each starting with a user message
+    const turns: { prompt: string; events: ADKEvent[] }[] = [];
+    for (const event of events) {
+      if (event.author === 'user') {
+        turns.push({ prompt: getEventText(event), events: [] });
+      } else if (turns.length === 0) {
+        turns.push({ prompt: '', events: [event] });
+      } else {
+        turns[turns.length - 1].events.push(event);
+      }
+    }
 
-  return `Request failed with status ${statusCode}`;
+    const completedTurns = turns.filter((turn) => extractPlanText(turn.events) !== undefined);
+    const versions: GeneratePlanResult[] = completedTurns.map((turn) => ({
+      success: true,
+      planText: extractPlanText(turn.events),
+      rawResponse: turn.events,
+      sessionId
+    }));
+
+    if (versions.length === 0) {
+      versions.push({ success: true, rawResponse: events, sessionId });
+    }
+
+    // Session state reflects the latest turn only
+    versions[versions.length - 1] = {
+      ...versions[versions.length - 1],
+      sessionState: parseSessionState(session.state)
+    };
+
+    const refinements = completedTurns
+      .slice(1)
+      .map((turn) => turn.prompt.split(REFINEMENT_MARKER)[1]?.trim() || turn.prompt);
+
+    // The prompt holds the zip code and ages; the dates and preferences are in the state
+    const parsed = turns.length > 0 ? parsePrompt(turns[0].prompt) : undefined;
+    const dates = readWeekendDates(session.state);
+    const preferences = readPlanningPreferences(session.state);
+    const input = parsed && { ...parsed, ...(dates && { dates }), ...(preferences && { preferences }) };
+
+    return {
+      result: versions[versions.length - 1],
+      versions,
+      refinements,
+      input
+    };
+  } catch (error) {
+    return { result: await toErrorResult(error), versions: [], refinements: [] };
+  }
 }
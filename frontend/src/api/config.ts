@@ -0,0 +1,39 @@
+/**
+ * Shared configuration for the ADK API modules.
+ * Centralizes the backend location, app and user identifiers and request
+ * timeout used by both the plan client and the session manager.
+ */
+
+/** API base URL from environment or default */
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000';
+
+/** Default timeout for API requests (30 seconds) */
+export const REQUEST_TIMEOUT_MS = 30000;
+
+/** Default app name for ADK */
+export const APP_NAME = 'WeekendPlanner';
+
+/** Default user ID for ADK sessions - static per requirements */
+export const DEFAULT_USER_ID = 'user-1';
+
+/**
+ * Builds the URL of the sessions collection for a user.
+ * 
+ * @param userId - The user ID that owns the sessions
+ * @returns Fully qualified sessions collection URL
+ */
+export function getSessionsUrl(userId: string): string {
+  return `${API_BASE_URL}/apps/${APP_NAME}/users/${userId}/sessions`;
+}
+
+/**
+ * Builds the URL of a single session, used for session creation,
+ * lookup, deletion and blocking messages.
+ * 
+ * @param userId - The user ID that owns the session
+ * @param sessionId - The session ID
+ * @returns Fully qualified session endpoint URL
+ */
+export function getSessionUrl(userId: string, sessionId: string): string {
+  return `${getSessionsUrl(userId)}/${sessionId}`;
+}
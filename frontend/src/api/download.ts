@@ -0,0 +1,28 @@
+/**
+ * File downloads for plan exports.
+ * Saves generated text (calendar files, exports) through a temporary
+ * object URL, so no server round trip is needed.
+ */
+
+/**
+ * Offers text content as a file download.
+ *
+ * @param filename - Suggested file name, e.g. "weekend-plan.ics"
+ * @param content - File content
+ * @param mimeType - MIME type of the content, e.g. "text/calendar"
+ *
+ * @example
+ * downloadFile('weekend-plan.ics', createPlanCalendar(plan, { dates }), 'text/calendar');
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
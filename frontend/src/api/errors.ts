@@ -0,0 +1,140 @@
+/**
+ * Construction of the typed PlanError values reported by the plan client.
+ *
+ * Every failure is classified once, here, into a PlanErrorKind with the
+ * matching user-facing message. Components display the message as-is and
+ * branch on the kind, so nothing downstream inspects message text.
+ */
+
+import type { DecodeFailure, PlanError, PlanErrorKind } from '../types';
+
+/** User-facing message for each kind of error */
+export const PLAN_ERROR_MESSAGES: Record<PlanErrorKind, string> = {
+  network: "Couldn't reach the backend. Make sure the ADK server is running with `adk web`",
+  timeout: 'Request timed out. Please try again.',
+  cors: 'Connection blocked. See README for proxy setup.',
+  cancelled: 'The request was cancelled.',
+  client: 'Invalid request: Please check your input and try again.',
+  server: 'Something went wrong on the server. Please try again.',
+  parse: 'Received an unexpected response format',
+  'rate-limited': 'The planner is busy right now. Please wait a moment and try again.',
+  'session-failed': "Couldn't start or load the planning session. Please try again."
+};
+
+/**
+ * Technical details attached to a PlanError.
+ */
+export interface PlanErrorDetails {
+  /** HTTP status code of the failed response */
+  statusCode?: number;
+  /** Raw response body or other technical detail */
+  body?: string;
+  /** Whether the request can safely be retried */
+  retryable?: boolean;
+  /** Delay the server asked for before retrying, in milliseconds */
+  retryAfterMs?: number;
+  /** Where a malformed response failed validation */
+  decodeFailure?: DecodeFailure;
+}
+
+/**
+ * Extracts the reason a 4xx response gives for rejecting the request.
+ * ADK and FastAPI use `detail`; other servers use `message` or `error`.
+ *
+ * @param body - Raw response body
+ * @returns The reason, the raw body if it is not JSON, or undefined if empty
+ */
+function getRejectionReason(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body || '{}');
+    const reason = parsed?.detail || parsed?.message || parsed?.error;
+    if (reason) {
+      return typeof reason === 'string' ? reason : JSON.stringify(reason);
+    }
+  } catch {
+    // Not JSON - fall back to the raw body
+  }
+  return body.trim() === '' ? undefined : body;
+}
+
+/**
+ * Creates a PlanError of a kind that needs no status code, with the
+ * kind's standard message.
+ *
+ * @param kind - The error kind
+ * @param details - Optional technical details
+ * @returns The typed error
+ *
+ * @example
+ * createPlanError('timeout');
+ * // { kind: 'timeout', message: 'Request timed out. Please try again.' }
+ */
+export function createPlanError(
+  kind: Exclude<PlanErrorKind, 'client' | 'rate-limited'>,
+  details: PlanErrorDetails = {}
+): PlanError {
+  return { kind, message: PLAN_ERROR_MESSAGES[kind], ...details };
+}
+
+/**
+ * Classifies a failed plan response by its status code.
+ * 429 is rate-limited, other 4xx statuses are client errors with the
+ * server's reason in the message, and everything else is a server error.
+ *
+ * @param statusCode - HTTP status code of the response
+ * @param body - Raw response body
+ * @param retry - Retry details for retry-safe statuses
+ * @returns The typed error
+ *
+ * @example
+ * createHttpError(400, '{"detail": "Missing zip code"}');
+ * // { kind: 'client', message: 'Invalid request: Missing zip code', statusCode: 400, body: ... }
+ */
+export function createHttpError(
+  statusCode: number,
+  body: string = '',
+  retry: Pick<PlanErrorDetails, 'retryable' | 'retryAfterMs'> = {}
+): PlanError {
+  if (statusCode === 429) {
+    return {
+      kind: 'rate-limited',
+      message: PLAN_ERROR_MESSAGES['rate-limited'],
+      statusCode,
+      body,
+      retryable: true,
+      retryAfterMs: retry.retryAfterMs
+    };
+  }
+
+  if (statusCode >= 400 && statusCode < 500) {
+    const reason = getRejectionReason(body);
+    return {
+      kind: 'client',
+      message: reason ? `Invalid request: ${reason}` : PLAN_ERROR_MESSAGES.client,
+      statusCode,
+      body
+    };
+  }
+
+  return createPlanError('server', { statusCode, body, ...retry });
+}
+
+/**
+ * Classifies a failed session request. A 429 is still rate-limited;
+ * any other status means the session could not be created or loaded.
+ *
+ * @param statusCode - HTTP status code of the session response
+ * @param body - Raw response body
+ * @param retry - Retry details for retry-safe statuses
+ * @returns The typed error
+ */
+export function createSessionError(
+  statusCode: number,
+  body: string = '',
+  retry: Pick<PlanErrorDetails, 'retryable' | 'retryAfterMs'> = {}
+): PlanError {
+  if (statusCode === 429) {
+    return createHttpError(statusCode, body, retry);
+  }
+  return createPlanError('session-failed', { statusCode, body, ...retry });
+}
@@ -0,0 +1,224 @@
+/**
+ * Learned activity preferences: thumbs up and down on plan activities.
+ *
+ * Ratings are kept in localStorage per feedback profile, one per zip code
+ * and household, so what a family liked near home does not steer a trip
+ * elsewhere. summarizeFeedback() turns a profile into a short paragraph
+ * that is added to the prompt of later plans for the same zip and household.
+ */
+
+import { toPlainText } from './markdownText';
+import { normalizeActivityTitle } from './activitySwap';
+import type { ActivityFeedback, ActivityRating, FeedbackProfile, GeneratePlanInput } from '../types';
+
+/** localStorage key holding every feedback profile */
+const FEEDBACK_STORAGE_KEY = 'weekend-planner:feedback';
+
+/** Ratings kept per profile; the oldest are dropped beyond this */
+const MAX_PROFILE_FEEDBACK = 100;
+
+/** Liked and disliked activities each named in the prompt, most recent first */
+export const MAX_PROMPT_FEEDBACK = 8;
+
+/**
+ * Checks a stored value is a feedback profile.
+ *
+ * @param value - Value read from storage
+ * @returns Whether it has the profile's fields and valid ratings
+ */
+function isFeedbackProfile(value: unknown): value is FeedbackProfile {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { id, location, kidsAges, feedback } = value as Partial<Record<keyof FeedbackProfile, unknown>>;
+  return (
+    typeof id === 'string' &&
+    typeof location === 'string' &&
+    Array.isArray(kidsAges) &&
+    kidsAges.every((age) => typeof age === 'number') &&
+    Array.isArray(feedback) &&
+    feedback.every(
+      (entry: Partial<ActivityFeedback>) =>
+        typeof entry?.title === 'string' &&
+        (entry.rating === 'like' || entry.rating === 'dislike') &&
+        typeof entry.ratedAt === 'number'
+    )
+  );
+}
+
+/**
+ * Reads every stored profile. Unreadable storage or entries count as empty.
+ *
+ * @returns Profiles by ID
+ */
+function readProfiles(): Record<string, FeedbackProfile> {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(FEEDBACK_STORAGE_KEY) ?? 'null');
+    if (typeof stored !== 'object' || stored === null) {
+      return {};
+    }
+    return Object.fromEntries(Object.entries(stored).filter(([, profile]) => isFeedbackProfile(profile)));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Stores every profile, dropping empty ones. Storage errors (quota,
+ * private mode) are ignored; ratings then last until the page is reloaded.
+ *
+ * @param profiles - Profiles by ID
+ */
+function writeProfiles(profiles: Record<string, FeedbackProfile>): void {
+  const kept = Object.fromEntries(Object.entries(profiles).filter(([, profile]) => profile.feedback.length > 0));
+  try {
+    if (Object.keys(kept).length === 0) {
+      localStorage.removeItem(FEEDBACK_STORAGE_KEY);
+    } else {
+      localStorage.setItem(FEEDBACK_STORAGE_KEY, JSON.stringify(kept));
+    }
+  } catch {
+    // Storage unavailable - keep nothing
+  }
+}
+
+/**
+ * Builds the profile ID for a plan input: its zip code and its kids ages,
+ * which stand for the household.
+ *
+ * @param input - The plan's form input
+ * @returns e.g. "94105|5,8"
+ */
+export function getFeedbackProfileId(input: GeneratePlanInput): string {
+  return `${input.location.trim()}|${[...input.kidsAges].sort((a, b) => a - b).join(',')}`;
+}
+
+/**
+ * Lists the stored profiles, by zip code and then kids ages.
+ *
+ * @returns Profiles with at least one rating
+ */
+export function listFeedbackProfiles(): FeedbackProfile[] {
+  return Object.values(readProfiles()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Loads the profile for a plan input.
+ *
+ * @param input - The plan's form input
+ * @returns The profile, or undefined when nothing was rated yet
+ */
+export function getFeedbackProfile(input: GeneratePlanInput): FeedbackProfile | undefined {
+  return readProfiles()[getFeedbackProfileId(input)];
+}
+
+/**
+ * Looks up the rating of an activity in a profile.
+ *
+ * @param profile - The profile, if any
+ * @param title - The activity title, as Markdown
+ * @returns The rating, or undefined when the activity was not rated
+ */
+export function getActivityRating(profile: FeedbackProfile | undefined, title: string): ActivityRating | undefined {
+  const normalized = normalizeActivityTitle(title);
+  return profile?.feedback.find((entry) => normalizeActivityTitle(entry.title) === normalized)?.rating;
+}
+
+/**
+ * Rates an activity, replacing any earlier rating of the same activity.
+ *
+ * @param input - Form input of the plan the activity is in
+ * @param title - The activity title, as Markdown
+ * @param rating - The rating, or null to remove it
+ * @param now - Rating time (default: now)
+ * @returns The updated profile, or undefined when it has no ratings left
+ */
+export function rateActivity(
+  input: GeneratePlanInput,
+  title: string,
+  rating: ActivityRating | null,
+  now: number = Date.now()
+): FeedbackProfile | undefined {
+  const profiles = readProfiles();
+  const id = getFeedbackProfileId(input);
+  const profile: FeedbackProfile = profiles[id] ?? {
+    id,
+    location: input.location.trim(),
+    kidsAges: [...input.kidsAges].sort((a, b) => a - b),
+    feedback: []
+  };
+
+  const normalized = normalizeActivityTitle(title);
+  const others = profile.feedback.filter((entry) => normalizeActivityTitle(entry.title) !== normalized);
+  const feedback = rating ? [{ title: toPlainText(title).trim(), rating, ratedAt: now }, ...others] : others;
+
+  profiles[id] = { ...profile, feedback: feedback.slice(0, MAX_PROFILE_FEEDBACK) };
+  writeProfiles(profiles);
+  return profiles[id].feedback.length > 0 ? profiles[id] : undefined;
+}
+
+/**
+ * Removes one rating from a profile, e.g. from the settings screen.
+ *
+ * @param profileId - ID of the profile
+ * @param title - Title of the rated activity
+ */
+export function removeActivityFeedback(profileId: string, title: string): void {
+  const profiles = readProfiles();
+  const profile = profiles[profileId];
+  if (!profile) {
+    return;
+  }
+  const normalized = normalizeActivityTitle(title);
+  profiles[profileId] = {
+    ...profile,
+    feedback: profile.feedback.filter((entry) => normalizeActivityTitle(entry.title) !== normalized)
+  };
+  writeProfiles(profiles);
+}
+
+/**
+ * Removes every rating of one profile.
+ *
+ * @param profileId - ID of the profile
+ */
+export function clearFeedbackProfile(profileId: string): void {
+  const profiles = readProfiles();
+  delete profiles[profileId];
+  writeProfiles(profiles);
+}
+
+/**
+ * Removes every rating of every profile.
+ */
+export function clearAllFeedback(): void {
+  writeProfiles({});
+}
+
+/**
+ * Summarizes a profile for the planner: the most recently liked and
+ * disliked activities, at most MAX_PROMPT_FEEDBACK of each.
+ *
+ * @param profile - The profile, if any
+ * @returns The summary, or undefined when there is nothing to tell
+ *
+ * @example
+ * summarizeFeedback(getFeedbackProfile(input));
+ * // 'Our family enjoyed activities like "Exploratorium". We did not enjoy "Bowling", so avoid similar suggestions.'
+ */
+export function summarizeFeedback(profile: FeedbackProfile | undefined): string | undefined {
+  const titles = (rating: ActivityRating): string =>
+    (profile?.feedback ?? [])
+      .filter((entry) => entry.rating === rating)
+      .slice(0, MAX_PROMPT_FEEDBACK)
+      .map((entry) => `"${entry.title}"`)
+      .join(', ');
+
+  const liked = titles('like');
+  const disliked = titles('dislike');
+  const sentences = [
+    liked && `Our family enjoyed activities like ${liked}.`,
+    disliked && `We did not enjoy ${disliked}, so avoid similar suggestions.`
+  ].filter(Boolean);
+  return sentences.length > 0 ? sentences.join(' ') : undefined;
+}
@@ -0,0 +1,338 @@
+/**
+ * Local plan history for the Weekend Planner frontend.
+ * Keeps every generated plan in IndexedDB with its input, timestamp, raw
+ * response, session ID and itinerary arrangement, so plans survive Reset,
+ * new runs and reloads.
+ *
+ * - savePlan()          Save a plan, or update its entry after a refinement
+ * - listSavedPlans()    All entries, pinned first, then newest first
+ * - getSavedPlan()      One entry by ID
+ * - setPlanPinned()     Pin or unpin an entry
+ * - setPlanItinerary()  Keep the user's itinerary arrangement with an entry
+ * - deleteSavedPlan()   Remove an entry, and its arrangement with it
+ * - filterSavedPlans()  Search entries by zip code, date or keyword
+ *
+ * Storage is capped by entry count and total size; when a save goes over
+ * either limit, the oldest unpinned entries are removed. Every function
+ * rejects when IndexedDB is unavailable (e.g. some private browsing modes).
+ */
+
+import type { GeneratePlanInput, GeneratePlanResult, Itinerary, SavedPlan } from '../types';
+
+/** IndexedDB database and object store holding the history */
+const HISTORY_DB_NAME = 'weekend-planner';
+const HISTORY_DB_VERSION = 1;
+const HISTORY_STORE = 'plans';
+
+/** Most entries kept before the oldest unpinned ones are removed */
+export const MAX_SAVED_PLANS = 50;
+
+/** Most bytes kept before the oldest unpinned entries are removed - raw responses make up most of it */
+export const MAX_HISTORY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Options for savePlan().
+ */
+export interface SavePlanOptions {
+  /**
+   * Most entries to keep.
+   * @default MAX_SAVED_PLANS
+   */
+  maxEntries?: number;
+
+  /**
+   * Most bytes to keep across all entries.
+   * @default MAX_HISTORY_BYTES
+   */
+  maxBytes?: number;
+}
+
+/**
+ * Opens the history database, creating the object store on first use.
+ *
+ * @returns The open database; callers close it when done
+ * @throws Error when IndexedDB is unavailable or cannot be opened
+ */
+function openHistoryDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Plan history is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(HISTORY_DB_NAME, HISTORY_DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Could not open plan history'));
+  });
+}
+
+/**
+ * Runs one request against the history store in its own transaction.
+ *
+ * @param db - The open history database
+ * @param mode - Transaction mode
+ * @param operation - Issues the request on the store
+ * @returns The request's result once the transaction has completed
+ */
+function runHistoryRequest<T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE, mode);
+    const request = operation(transaction.objectStore(HISTORY_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Plan history update was aborted'));
+  });
+}
+
+/**
+ * Opens the history database for the duration of one history operation.
+ *
+ * @param operation - Runs the operation's requests on the open database
+ * @returns The operation's result
+ */
+async function withHistoryDb<T>(operation: (db: IDBDatabase) => Promise<T>): Promise<T> {
+  const db = await openHistoryDb();
+  try {
+    return await operation(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Sorts entries for display: pinned first, then newest first.
+ *
+ * @param plans - Entries in any order
+ * @returns A new, sorted array
+ */
+function sortSavedPlans(plans: SavedPlan[]): SavedPlan[] {
+  return [...plans].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.savedAt - a.savedAt);
+}
+
+/**
+ * Lists all saved plans.
+ *
+ * @returns Entries, pinned first, then newest first
+ * @throws Error when IndexedDB is unavailable
+ */
+export async function listSavedPlans(): Promise<SavedPlan[]> {
+  const plans = await withHistoryDb((db) =>
+    runHistoryRequest<SavedPlan[]>(db, 'readonly', (store) => store.getAll())
+  );
+  return sortSavedPlans(plans);
+}
+
+/**
+ * Reads one saved plan.
+ *
+ * @param id - Entry ID
+ * @returns The entry, or undefined when it is not in the history
+ * @throws Error when IndexedDB is unavailable
+ */
+export async function getSavedPlan(id: string): Promise<SavedPlan | undefined> {
+  return withHistoryDb((db) =>
+    runHistoryRequest<SavedPlan | undefined>(db, 'readonly', (store) => store.get(id))
+  );
+}
+
+/**
+ * Measures an entry for the storage cap.
+ *
+ * @param entry - The entry, with any size
+ * @returns Approximate size of the entry in bytes
+ */
+function getEntrySize(entry: SavedPlan): number {
+  return new TextEncoder().encode(JSON.stringify(entry)).length;
+}
+
+/**
+ * Removes the oldest unpinned entries until the history fits the limits.
+ * The entry just saved is always kept.
+ *
+ * @param db - The open history database
+ * @param keepId - ID of the entry just saved
+ * @param maxEntries - Most entries to keep
+ * @param maxBytes - Most bytes to keep
+ */
+async function enforceHistoryLimits(
+  db: IDBDatabase,
+  keepId: string,
+  maxEntries: number,
+  maxBytes: number
+): Promise<void> {
+  const plans = await runHistoryRequest<SavedPlan[]>(db, 'readonly', (store) => store.getAll());
+  let count = plans.length;
+  let bytes = plans.reduce((total, plan) => total + plan.size, 0);
+
+  const removable = plans
+    .filter((plan) => !plan.pinned && plan.id !== keepId)
+    .sort((a, b) => a.savedAt - b.savedAt);
+
+  for (const plan of removable) {
+    if (count <= maxEntries && bytes <= maxBytes) {
+      break;
+    }
+    await runHistoryRequest(db, 'readwrite', (store) => store.delete(plan.id));
+    count -= 1;
+    bytes -= plan.size;
+  }
+}
+
+/**
+ * Saves a successful plan to the history. A plan from a session that is
+ * already saved (e.g. after a refinement) replaces that entry, keeping
+ * its pin. The entry's itinerary is the result's, since an arrangement
+ * only fits the text it was made for.
+ *
+ * @param input - The form input the plan was requested with
+ * @param result - The successful plan result
+ * @param options - Storage limits, defaulting to MAX_SAVED_PLANS and MAX_HISTORY_BYTES
+ * @returns The saved entry
+ * @throws Error when the result has no plan text or IndexedDB is unavailable
+ *
+ * @example
+ * const result = await generatePlan(input);
+ * if (result.success) {
+ *   await savePlan(input, result);
+ * }
+ */
+export async function savePlan(
+  input: GeneratePlanInput,
+  result: GeneratePlanResult,
+  options: SavePlanOptions = {}
+): Promise<SavedPlan> {
+  const { planText } = result;
+  if (!planText) {
+    throw new Error('Only plans with text can be saved');
+  }
+  const { maxEntries = MAX_SAVED_PLANS, maxBytes = MAX_HISTORY_BYTES } = options;
+
+  const id = result.sessionId ?? crypto.randomUUID();
+  return withHistoryDb(async (db) => {
+    const existing = await runHistoryRequest<SavedPlan | undefined>(db, 'readonly', (store) => store.get(id));
+
+    const entry: SavedPlan = {
+      id,
+      savedAt: Date.now(),
+      input,
+      planText,
+      rawResponse: result.rawResponse,
+      sessionId: result.sessionId,
+      sessionState: result.sessionState,
+      itinerary: result.itinerary,
+      pinned: existing?.pinned ?? false,
+      size: 0
+    };
+    entry.size = getEntrySize(entry);
+
+    await runHistoryRequest(db, 'readwrite', (store) => store.put(entry));
+    await enforceHistoryLimits(db, id, maxEntries, maxBytes);
+    return entry;
+  });
+}
+
+/**
+ * Pins or unpins a saved plan.
+ *
+ * @param id - Entry ID
+ * @param pinned - Whether the plan should be pinned
+ * @returns The updated entry
+ * @throws Error when the entry does not exist or IndexedDB is unavailable
+ */
+export async function setPlanPinned(id: string, pinned: boolean): Promise<SavedPlan> {
+  return withHistoryDb(async (db) => {
+    const existing = await runHistoryRequest<SavedPlan | undefined>(db, 'readonly', (store) => store.get(id));
+    if (!existing) {
+      throw new Error('This plan is no longer in your history');
+    }
+    const updated: SavedPlan = { ...existing, pinned };
+    await runHistoryRequest(db, 'readwrite', (store) => store.put(updated));
+    return updated;
+  });
+}
+
+/**
+ * Keeps the user's itinerary arrangement with a saved plan. The entry is
+ * left unchanged when it now holds other text, e.g. after a refinement
+ * while an earlier version was shown, as the arrangement would not fit.
+ *
+ * @param id - Entry ID
+ * @param planText - Text of the plan version that was arranged
+ * @param itinerary - The arrangement
+ * @returns The entry, updated when its text matched
+ * @throws Error when the entry does not exist or IndexedDB is unavailable
+ *
+ * @example
+ * await setPlanItinerary(entry.id, entry.planText, moveActivity(itinerary, 0, 'sunday-morning'));
+ */
+export async function setPlanItinerary(id: string, planText: string, itinerary: Itinerary): Promise<SavedPlan> {
+  return withHistoryDb(async (db) => {
+    const existing = await runHistoryRequest<SavedPlan | undefined>(db, 'readonly', (store) => store.get(id));
+    if (!existing) {
+      throw new Error('This plan is no longer in your history');
+    }
+    if (existing.planText !== planText) {
+      return existing;
+    }
+    const updated: SavedPlan = { ...existing, itinerary };
+    updated.size = getEntrySize(updated);
+    await runHistoryRequest(db, 'readwrite', (store) => store.put(updated));
+    return updated;
+  });
+}
+
+/**
+ * Deletes a saved plan. Deleting an entry that does not exist is not an error.
+ *
+ * @param id - Entry ID
+ * @throws Error when IndexedDB is unavailable
+ */
+export async function deleteSavedPlan(id: string): Promise<void> {
+  await withHistoryDb((db) => runHistoryRequest(db, 'readwrite', (store) => store.delete(id)));
+}
+
+/**
+ * Date forms a saved plan can be found by: ISO date plus English month
+ * names, e.g. "2026-10-19 october oct 19 2026".
+ *
+ * @param timestamp - Milliseconds since the epoch
+ * @returns Lowercase searchable date text, in local time
+ */
+function getSearchableDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const iso = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+  const month = date.toLocaleString('en-US', { month: 'long' });
+  return `${iso} ${month} ${month.slice(0, 3)} ${date.getDate()} ${date.getFullYear()}`.toLowerCase();
+}
+
+/**
+ * Filters saved plans by a search query. Every word of the query must
+ * match the plan's zip code, its save date or its text.
+ *
+ * @param plans - Entries to search
+ * @param query - Search text, e.g. "94105", "oct 19" or "museum"
+ * @returns Matching entries in their original order; all entries for an empty query
+ *
+ * @example
+ * filterSavedPlans(plans, '94105 museum');
+ */
+export function filterSavedPlans(plans: SavedPlan[], query: string): SavedPlan[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return plans;
+  }
+  return plans.filter((plan) => {
+    const searchable = `${plan.input.location} ${getSearchableDate(plan.savedAt)} ${plan.planText}`.toLowerCase();
+    return terms.every((term) => searchable.includes(term));
+  });
+}
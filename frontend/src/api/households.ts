@@ -0,0 +1,332 @@
+/**
+ * Household profiles: named sets of a zip code, children and default
+ * planning preferences, e.g. "Just us" or "With cousins".
+ *
+ * Profiles are kept in localStorage, so they stay in this browser. The
+ * household switcher in InputForm fills in the form from a profile and
+ * saves the form as one; the settings screen renames, duplicates and
+ * deletes them, and moves them between browsers as JSON files.
+ */
+
+import { isChild, validateChildren } from './children';
+import { isPlanningPreferences } from './preferences';
+import type { HouseholdProfile, HouseholdsExport } from '../types';
+
+/** localStorage key holding every household profile */
+const HOUSEHOLDS_STORAGE_KEY = 'weekend-planner:households';
+
+/** Schema identifier written to and required in household exports */
+export const HOUSEHOLDS_EXPORT_SCHEMA = 'weekend-planner/households';
+
+/** Current household export version; imports accept this version and older */
+export const HOUSEHOLDS_EXPORT_VERSION = 1;
+
+/** Longest household name accepted, in characters */
+export const MAX_HOUSEHOLD_NAME_LENGTH = 40;
+
+/**
+ * Fields of a profile the user chooses, for creating and updating it.
+ */
+export type HouseholdDraft = Pick<HouseholdProfile, 'name' | 'location' | 'children' | 'preferences'>;
+
+/**
+ * Thrown when an imported file is not a valid household export.
+ * The message names the first invalid field by its path, e.g. `$.profiles[0].name`.
+ */
+export class HouseholdImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HouseholdImportError';
+  }
+}
+
+/**
+ * Checks a value is a plain object.
+ *
+ * @param value - Any value
+ * @returns Whether it is a non-null, non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Finds the first invalid field of a stored or imported profile.
+ *
+ * @param value - The value
+ * @param path - Path of the value, used in the message
+ * @returns The message, or undefined when the value is a valid profile
+ */
+function findProfileError(value: unknown, path: string): string | undefined {
+  if (!isRecord(value)) {
+    return `${path}: expected a household profile`;
+  }
+  if (typeof value.id !== 'string' || value.id === '') {
+    return `${path}.id: expected a string`;
+  }
+  if (typeof value.name !== 'string' || validateHouseholdName(value.name, [])) {
+    return `${path}.name: expected a name of 1 to ${MAX_HOUSEHOLD_NAME_LENGTH} characters`;
+  }
+  if (typeof value.location !== 'string') {
+    return `${path}.location: expected a string`;
+  }
+  if (!Array.isArray(value.children) || !value.children.every(isChild) || validateChildren(value.children)) {
+    return `${path}.children: expected a list of children with an age and a unit`;
+  }
+  if (value.preferences !== undefined && !isPlanningPreferences(value.preferences)) {
+    return `${path}.preferences: expected planning preferences`;
+  }
+  if (typeof value.updatedAt !== 'number') {
+    return `${path}.updatedAt: expected a number`;
+  }
+  return undefined;
+}
+
+/**
+ * Reads every stored profile. Unreadable storage or entries count as empty.
+ *
+ * @returns Profiles by ID
+ */
+function readHouseholds(): Record<string, HouseholdProfile> {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(HOUSEHOLDS_STORAGE_KEY) ?? 'null');
+    if (!isRecord(stored)) {
+      return {};
+    }
+    return Object.fromEntries(
+      Object.entries(stored).filter(([, profile]) => findProfileError(profile, '$') === undefined)
+    ) as Record<string, HouseholdProfile>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Stores every profile. Storage errors (quota, private mode) are ignored;
+ * profiles then last until the page is reloaded.
+ *
+ * @param profiles - Profiles by ID
+ */
+function writeHouseholds(profiles: Record<string, HouseholdProfile>): void {
+  try {
+    if (Object.keys(profiles).length === 0) {
+      localStorage.removeItem(HOUSEHOLDS_STORAGE_KEY);
+    } else {
+      localStorage.setItem(HOUSEHOLDS_STORAGE_KEY, JSON.stringify(profiles));
+    }
+  } catch {
+    // Storage unavailable - keep nothing
+  }
+}
+
+/**
+ * Tidies a name as it is stored: trimmed, with single spaces.
+ *
+ * @param name - The entered name
+ * @returns The tidied name
+ */
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Builds a profile from a draft, tidying the name and zip code.
+ *
+ * @param id - ID of the profile
+ * @param draft - The chosen fields
+ * @param now - Save time
+ * @returns The profile
+ */
+function toProfile(id: string, draft: HouseholdDraft, now: number): HouseholdProfile {
+  return {
+    id,
+    name: normalizeName(draft.name),
+    location: draft.location.trim(),
+    children: draft.children,
+    ...(draft.preferences && { preferences: draft.preferences }),
+    updatedAt: now
+  };
+}
+
+/**
+ * Lists the stored profiles by name.
+ *
+ * @returns The profiles
+ */
+export function listHouseholdProfiles(): HouseholdProfile[] {
+  return Object.values(readHouseholds()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Checks a name for a new or renamed profile.
+ *
+ * @param name - The entered name
+ * @param profiles - The other profiles, whose names it must not repeat
+ * @returns The validation message, or undefined when the name is valid
+ */
+export function validateHouseholdName(name: string, profiles: HouseholdProfile[]): string | undefined {
+  const normalized = normalizeName(name);
+  if (!normalized) {
+    return 'Enter a name for the household';
+  }
+  if (normalized.length > MAX_HOUSEHOLD_NAME_LENGTH) {
+    return `Keep household names to ${MAX_HOUSEHOLD_NAME_LENGTH} characters or fewer`;
+  }
+  if (profiles.some((profile) => profile.name.toLowerCase() === normalized.toLowerCase())) {
+    return `A household named "${normalized}" already exists`;
+  }
+  return undefined;
+}
+
+/**
+ * Saves a new profile.
+ *
+ * @param draft - The chosen fields; the name should pass validateHouseholdName()
+ * @param now - Save time (default: now)
+ * @returns The saved profile
+ */
+export function createHouseholdProfile(draft: HouseholdDraft, now: number = Date.now()): HouseholdProfile {
+  const profiles = readHouseholds();
+  const profile = toProfile(crypto.randomUUID(), draft, now);
+  profiles[profile.id] = profile;
+  writeHouseholds(profiles);
+  return profile;
+}
+
+/**
+ * Changes fields of a stored profile.
+ *
+ * @param id - ID of the profile
+ * @param changes - The fields to change; preferences are replaced, not merged
+ * @param now - Save time (default: now)
+ * @returns The updated profile, or undefined when it no longer exists
+ */
+export function updateHouseholdProfile(
+  id: string,
+  changes: Partial<HouseholdDraft>,
+  now: number = Date.now()
+): HouseholdProfile | undefined {
+  const profiles = readHouseholds();
+  const profile = profiles[id];
+  if (!profile) {
+    return undefined;
+  }
+  profiles[id] = toProfile(id, { ...profile, ...changes }, now);
+  writeHouseholds(profiles);
+  return profiles[id];
+}
+
+/**
+ * Saves a copy of a profile, named "<name> (copy)", "<name> (copy 2)" and
+ * so on, whichever is free.
+ *
+ * @param id - ID of the profile to copy
+ * @param now - Save time (default: now)
+ * @returns The copy, or undefined when the profile no longer exists
+ */
+export function duplicateHouseholdProfile(id: string, now: number = Date.now()): HouseholdProfile | undefined {
+  const profiles = readHouseholds();
+  const profile = profiles[id];
+  if (!profile) {
+    return undefined;
+  }
+  const others = Object.values(profiles);
+  const base = profile.name.slice(0, MAX_HOUSEHOLD_NAME_LENGTH - ' (copy 99)'.length);
+  let name = `${base} (copy)`;
+  for (let copy = 2; validateHouseholdName(name, others); copy++) {
+    name = `${base} (copy ${copy})`;
+  }
+  return createHouseholdProfile({ ...profile, name }, now);
+}
+
+/**
+ * Removes a profile.
+ *
+ * @param id - ID of the profile
+ */
+export function deleteHouseholdProfile(id: string): void {
+  const profiles = readHouseholds();
+  delete profiles[id];
+  writeHouseholds(profiles);
+}
+
+/**
+ * Writes profiles as a JSON export.
+ *
+ * @param profiles - The profiles to export
+ * @param now - Export time (default: now)
+ * @returns Pretty-printed JSON
+ */
+export function formatHouseholdsExport(profiles: HouseholdProfile[], now: Date = new Date()): string {
+  const data: HouseholdsExport = {
+    schema: HOUSEHOLDS_EXPORT_SCHEMA,
+    version: HOUSEHOLDS_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    profiles
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Reads a JSON household export, e.g. from an uploaded file.
+ *
+ * @param text - The file's content
+ * @returns The validated export
+ * @throws HouseholdImportError when the text is not JSON, not a household
+ *   export, from a newer version, or has a field of the wrong type
+ */
+export function parseHouseholdsExport(text: string): HouseholdsExport {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new HouseholdImportError('The file is not valid JSON');
+  }
+
+  if (!isRecord(value) || value.schema !== HOUSEHOLDS_EXPORT_SCHEMA) {
+    throw new HouseholdImportError('The file is not a Weekend Planner household export');
+  }
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new HouseholdImportError('$.version: expected a positive integer');
+  }
+  if (value.version > HOUSEHOLDS_EXPORT_VERSION) {
+    throw new HouseholdImportError(
+      `The file was exported by a newer version of Weekend Planner (format version ${value.version})`
+    );
+  }
+  if (typeof value.exportedAt !== 'string') {
+    throw new HouseholdImportError('$.exportedAt: expected a string');
+  }
+  if (!Array.isArray(value.profiles)) {
+    throw new HouseholdImportError('$.profiles: expected an array');
+  }
+  value.profiles.forEach((profile, index) => {
+    const error = findProfileError(profile, `$.profiles[${index}]`);
+    if (error) {
+      throw new HouseholdImportError(error);
+    }
+  });
+
+  return value as unknown as HouseholdsExport;
+}
+
+/**
+ * Stores imported profiles. A profile replaces the stored one with the same
+ * name, regardless of case, keeping its ID; others are added with a new ID.
+ *
+ * @param imported - Profiles from parseHouseholdsExport()
+ * @param now - Save time (default: now)
+ * @returns The number of profiles stored
+ */
+export function importHouseholdProfiles(imported: HouseholdProfile[], now: number = Date.now()): number {
+  const profiles = readHouseholds();
+  for (const profile of imported) {
+    const existing = Object.values(profiles).find(
+      (stored) => stored.name.toLowerCase() === normalizeName(profile.name).toLowerCase()
+    );
+    const id = existing?.id ?? crypto.randomUUID();
+    profiles[id] = toProfile(id, profile, now);
+  }
+  writeHouseholds(profiles);
+  return imported.length;
+}
@@ -0,0 +1,188 @@
+/**
+ * Weekend itinerary: parsed activities arranged into Saturday and Sunday
+ * morning, afternoon and evening slots.
+ *
+ * createItinerary() places each activity in the slot its time points to
+ * ("Saturday 10am-4pm" is Saturday morning, "dinner" is an evening) and
+ * spreads the rest over the free slots. Users can then move activities
+ * between slots; the app keeps the arrangement with the plan version and
+ * its history entry, and resolveItinerary() checks it still fits.
+ */
+
+import type { DayPart, Itinerary, ItineraryDay, ItinerarySlotId, PlanActivity } from '../types';
+
+/** Days of the itinerary, in order */
+export const ITINERARY_DAYS: ItineraryDay[] = ['saturday', 'sunday'];
+
+/** Parts of a day, in order */
+export const DAY_PARTS: DayPart[] = ['morning', 'afternoon', 'evening'];
+
+/** All slots in display order, Saturday morning first */
+export const ITINERARY_SLOTS: ItinerarySlotId[] = ITINERARY_DAYS.flatMap((day) =>
+  DAY_PARTS.map((part): ItinerarySlotId => `${day}-${part}`)
+);
+
+/**
+ * Creates an itinerary with every slot empty.
+ *
+ * @returns The empty itinerary
+ */
+function createEmptyItinerary(): Itinerary {
+  return Object.fromEntries(ITINERARY_SLOTS.map((slot) => [slot, []])) as unknown as Itinerary;
+}
+
+/**
+ * Reads the part of the day from a clock time such as "10am" or "5:30 pm".
+ *
+ * @param text - Text that may contain a clock time
+ * @returns The part of the day of the first time in the text, if any
+ */
+function partFromClockTime(text: string): DayPart | undefined {
+  const match = /\b(\d{1,2})(?::\d{2})?\s*(am|pm)\b/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const hour = (Number(match[1]) % 12) + (match[2].toLowerCase() === 'pm' ? 12 : 0);
+  if (hour < 12) {
+    return 'morning';
+  }
+  return hour < 17 ? 'afternoon' : 'evening';
+}
+
+/**
+ * Reads the part of the day from the first time-of-day or meal word,
+ * e.g. "brunch" or "evening".
+ *
+ * @param text - Text that may mention a time of day
+ * @returns The part of the day of the first such word, if any
+ */
+function partFromWords(text: string): DayPart | undefined {
+  const match = /\b(morning|breakfast|brunch|afternoon|lunch|noon|midday|evening|night|dinner|sunset)\b/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const word = match[1].toLowerCase();
+  if (['morning', 'breakfast', 'brunch'].includes(word)) {
+    return 'morning';
+  }
+  return ['afternoon', 'lunch', 'noon', 'midday'].includes(word) ? 'afternoon' : 'evening';
+}
+
+/**
+ * Infers the day and part of the day an activity is meant for.
+ * The activity's time is checked first, then its title and description
+ * for meal and time-of-day words.
+ *
+ * @param activity - A parsed activity
+ * @returns The day and part found; either may be missing
+ *
+ * @example
+ * inferSlot({ title: 'Community fair', description: '', time: 'Saturday 10am-4pm' });
+ * // { day: 'saturday', part: 'morning' }
+ */
+export function inferSlot(activity: PlanActivity): { day?: ItineraryDay; part?: DayPart } {
+  const time = activity.time ?? '';
+  const text = `${time} ${activity.title} ${activity.description}`;
+
+  const dayMatch = /\b(sat|sun)(?:urday|day)?\b/i.exec(time) ?? /\b(saturday|sunday)\b/i.exec(text);
+  const day = dayMatch ? (dayMatch[1].toLowerCase().startsWith('sat') ? 'saturday' : 'sunday') : undefined;
+
+  const part = partFromClockTime(time) ?? partFromWords(time) ?? partFromWords(text);
+
+  return { day, part };
+}
+
+/**
+ * Arranges activities into slots by their inferred day and part of the day.
+ * Activities without a day go to the day with fewer activities so far
+ * (Saturday on a tie); activities without a part go to the first free part
+ * of their day, or the least busy one if all are taken.
+ *
+ * @param activities - The plan's activities
+ * @returns An itinerary holding every activity once
+ */
+export function createItinerary(activities: PlanActivity[]): Itinerary {
+  const itinerary = createEmptyItinerary();
+  const countFor = (day: ItineraryDay): number =>
+    DAY_PARTS.reduce((total, part) => total + itinerary[`${day}-${part}`].length, 0);
+
+  activities.forEach((activity, index) => {
+    const inferred = inferSlot(activity);
+    const day = inferred.day ?? (countFor('sunday') < countFor('saturday') ? 'sunday' : 'saturday');
+    const part =
+      inferred.part ??
+      DAY_PARTS.find((candidate) => itinerary[`${day}-${candidate}`].length === 0) ??
+      DAY_PARTS.reduce((least, candidate) =>
+        itinerary[`${day}-${candidate}`].length < itinerary[`${day}-${least}`].length ? candidate : least
+      );
+    itinerary[`${day}-${part}`].push(index);
+  });
+
+  return itinerary;
+}
+
+/**
+ * Checks that a saved itinerary still fits the plan: every slot is present
+ * and every activity index appears exactly once.
+ *
+ * @param value - The saved value
+ * @param activityCount - Number of activities in the plan
+ * @returns Whether the value can be used as the plan's itinerary
+ */
+export function isValidItinerary(value: unknown, activityCount: number): value is Itinerary {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  if (!ITINERARY_SLOTS.every((slot) => Array.isArray(record[slot]))) {
+    return false;
+  }
+  const indices = ITINERARY_SLOTS.flatMap((slot) => record[slot] as unknown[]);
+  return (
+    indices.length === activityCount &&
+    new Set(indices).size === activityCount &&
+    indices.every((index) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < activityCount)
+  );
+}
+
+/**
+ * Moves an activity to a slot.
+ *
+ * @param itinerary - The current itinerary
+ * @param activityIndex - Index of the activity to move
+ * @param slot - Destination slot
+ * @param position - Position in the destination slot (default: the end)
+ * @returns A new itinerary; the input is not changed
+ *
+ * @example
+ * const next = moveActivity(itinerary, 2, 'sunday-evening');
+ */
+export function moveActivity(
+  itinerary: Itinerary,
+  activityIndex: number,
+  slot: ItinerarySlotId,
+  position?: number
+): Itinerary {
+  const next = createEmptyItinerary();
+  for (const id of ITINERARY_SLOTS) {
+    next[id] = itinerary[id].filter((index) => index !== activityIndex);
+  }
+  const target = next[slot];
+  target.splice(position === undefined ? target.length : Math.min(position, target.length), 0, activityIndex);
+  return next;
+}
+
+/**
+ * Picks the itinerary to show for a plan: the saved arrangement when it
+ * still fits the activities, a new arrangement otherwise.
+ *
+ * @param saved - The arrangement saved with the plan, if any
+ * @param activities - The plan's activities
+ * @returns The itinerary to show
+ *
+ * @example
+ * const itinerary = resolveItinerary(savedPlan.itinerary, plan.activities);
+ */
+export function resolveItinerary(saved: unknown, activities: PlanActivity[]): Itinerary {
+  return isValidItinerary(saved, activities.length) ? saved : createItinerary(activities);
+}
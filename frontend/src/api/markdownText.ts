@@ -0,0 +1,32 @@
+/**
+ * Plain-text handling of the inline Markdown the agents write.
+ *
+ * The Markdown component renders the same inline tokens as React elements;
+ * this module is what the API layer uses where only text is wanted, such as
+ * calendar events, exports, swap requests and rated activity titles.
+ */
+
+/**
+ * Inline tokens, in priority order: code, links, bold, then italic.
+ * Underscore emphasis must start and end at a word boundary, so names like
+ * snake_case_words are left alone.
+ */
+export const INLINE_PATTERN =
+  /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|(?<![\w])_(?!\s)(.+?)_(?![\w])/g;
+
+/**
+ * Removes inline Markdown markers, for places that need plain text such as
+ * ARIA labels. Links keep their text.
+ *
+ * @param text - Markdown text
+ * @returns The text without formatting markers
+ *
+ * @example
+ * toPlainText('**Morning**: Visit the [market](https://example.com)');
+ * // "Morning: Visit the market"
+ */
+export function toPlainText(text: string): string {
+  return text.replace(INLINE_PATTERN, (_match, code, linkText, _href, bold, boldAlt, italic, italicAlt) =>
+    toPlainText(code ?? linkText ?? bold ?? boldAlt ?? italic ?? italicAlt ?? '')
+  );
+}
@@ -0,0 +1,614 @@
+/**
+ * Plan export and import.
+ *
+ * createPlanExport() captures the current plan - its input, parsed header
+ * and activities, disclaimer, itinerary arrangement and optionally the raw
+ * ADK events - as a
+ * PlanExport (see types.ts for the JSON schema). exportPlan() renders it
+ * in one of four formats:
+ *
+ * - markdown  Headings and bullet details, for notes apps and chat
+ * - text      Plain text without any markup, for email
+ * - json      The PlanExport itself; the only format that can be imported
+ * - html      A standalone, print-optimized document
+ *
+ * parsePlanExport() reads a JSON export back, checking every field the
+ * app relies on and reporting the first problem with its path.
+ */
+
+import { isChild, MAX_CHILDREN, MAX_NICKNAME_LENGTH, validateChildren } from './children';
+import { isValidItinerary } from './itinerary';
+import { toPlainText } from './markdownText';
+import { parseWeekendPlan } from './planParser';
+import { findInvalidPreference } from './preferences';
+import { validateADKResponse, ResponseValidationError } from './validation';
+import { formatWeekendDates, isWeekendDates } from './weekend';
+import type {
+  ADKResponse,
+  ExportFormat,
+  GeneratePlanInput,
+  Itinerary,
+  PlanActivity,
+  PlanExport,
+  WeekendPlan
+} from '../types';
+
+/** Schema identifier written to and required in JSON exports */
+export const PLAN_EXPORT_SCHEMA = 'weekend-planner/plan';
+
+/** Current JSON export version; imports accept this version and older */
+export const PLAN_EXPORT_VERSION = 1;
+
+/**
+ * Menu label, file extension and MIME type of each export format.
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  html: { label: 'Printable HTML', extension: 'html', mimeType: 'text/html' }
+};
+
+/**
+ * Thrown when an imported file is not a valid plan export.
+ * The message names the first invalid field by its path, e.g. `$.input.location`.
+ */
+export class PlanImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanImportError';
+  }
+}
+
+/**
+ * The plan being exported, as shown in PlanView.
+ */
+export interface PlanExportSource {
+  /** The summary text */
+  planText: string;
+
+  /** The parsed plan, with activity sources if found; parsed from planText when omitted */
+  plan?: WeekendPlan;
+
+  /** The form input the plan was requested with */
+  input?: GeneratePlanInput;
+
+  /** ADK session the plan was generated in */
+  sessionId?: string;
+
+  /** Raw ADK events of the run */
+  rawResponse?: ADKResponse;
+
+  /** How the user arranged the activities in the itinerary view */
+  itinerary?: Itinerary;
+}
+
+/**
+ * Options for createPlanExport().
+ */
+export interface PlanExportOptions {
+  /**
+   * Whether to include the raw ADK events. They make the export much
+   * larger and are only needed for debugging.
+   * @default false
+   */
+  includeRawEvents?: boolean;
+
+  /**
+   * Export time written to exportedAt.
+   * @default new Date()
+   */
+  now?: Date;
+}
+
+/**
+ * Captures a plan as a PlanExport.
+ *
+ * @param source - The plan, its input and optionally its raw events
+ * @param options - Whether to include raw events, and the export time
+ * @returns The export, ready for exportPlan()
+ *
+ * @example
+ * const data = createPlanExport({ planText, plan, input }, { includeRawEvents: true });
+ * const file = exportPlan(data, 'markdown');
+ */
+export function createPlanExport(source: PlanExportSource, options: PlanExportOptions = {}): PlanExport {
+  const { includeRawEvents = false, now = new Date() } = options;
+  // Confidence describes the parse, not the plan, so it is not exported
+  const { confidence: _confidence, ...plan } = source.plan ?? parseWeekendPlan(source.planText);
+
+  return {
+    schema: PLAN_EXPORT_SCHEMA,
+    version: PLAN_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    ...(source.input && { input: source.input }),
+    ...(source.sessionId && { sessionId: source.sessionId }),
+    plan,
+    planText: source.planText,
+    ...(includeRawEvents && source.rawResponse && { rawResponse: source.rawResponse }),
+    ...(source.itinerary && { itinerary: source.itinerary })
+  };
+}
+
+/**
+ * Lists the header lines shared by all formats: the area, weather and ages
+ * the summary stated, and what the plan was requested for.
+ *
+ * @param data - The export
+ * @returns Label and plain-text value pairs
+ */
+function getHeaderFields(data: PlanExport): [string, string][] {
+  const { plan, input } = data;
+  const fields: [string, string | undefined][] = [
+    ['Area', plan.area && toPlainText(plan.area)],
+    ['Weather', plan.weather && toPlainText(plan.weather)],
+    ['Ages', plan.kidAges.length > 0 ? plan.kidAges.join(', ') : undefined],
+    [
+      'Requested for',
+      input && `${input.location}${input.kidsAges.length > 0 ? `, kids aged ${input.kidsAges.join(', ')}` : ''}`
+    ],
+    ['Dates', input?.dates && formatWeekendDates(input.dates)]
+  ];
+  return fields.filter((field): field is [string, string] => Boolean(field[1]));
+}
+
+/**
+ * Lists an activity's time, place and cost.
+ *
+ * @param activity - The activity
+ * @returns Label and plain-text value pairs
+ */
+function getActivityDetails(activity: PlanActivity): [string, string][] {
+  const details: [string, string | undefined][] = [
+    ['When', activity.time],
+    ['Where', activity.location],
+    ['Cost', activity.cost]
+  ];
+  return details
+    .filter((detail): detail is [string, string] => Boolean(detail[1]))
+    .map(([label, value]) => [label, toPlainText(value)]);
+}
+
+/**
+ * Gets the export's title.
+ *
+ * @param data - The export
+ * @returns The plan's title as plain text, or a generic one
+ */
+function getTitle(data: PlanExport): string {
+  return data.plan.title ? toPlainText(data.plan.title) : 'Weekend Plan';
+}
+
+/**
+ * Renders the export as Markdown. Plans without parsed activities keep
+ * their summary text as the body.
+ *
+ * @param data - The export
+ * @returns Markdown text
+ */
+export function formatPlanMarkdown(data: PlanExport): string {
+  const { plan } = data;
+  const sections = [`# ${getTitle(data)}`];
+
+  const header = getHeaderFields(data);
+  if (header.length > 0) {
+    sections.push(header.map(([label, value]) => `**${label}:** ${value}`).join('  \n'));
+  }
+
+  if (plan.activities.length === 0) {
+    sections.push(data.planText.trim());
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  sections.push('## Activities');
+  plan.activities.forEach((activity, index) => {
+    const lines = [`### ${index + 1}. ${toPlainText(activity.title)}`];
+    if (activity.description) {
+      lines.push('', activity.description);
+    }
+    const details = getActivityDetails(activity).map(([label, value]) => `- **${label}:** ${value}`);
+    if (activity.category) {
+      details.push(`- **Category:** ${activity.category}`);
+    }
+    if (activity.sources && activity.sources.length > 0) {
+      details.push(`- **Sources:** ${activity.sources.map((source) => `[${source.title}](${source.uri})`).join(', ')}`);
+    }
+    if (details.length > 0) {
+      lines.push('', ...details);
+    }
+    sections.push(lines.join('\n'));
+  });
+
+  if (plan.remainingContent) {
+    sections.push('## Notes', plan.remainingContent);
+  }
+  if (plan.disclaimer) {
+    sections.push('---', `*${toPlainText(plan.disclaimer)}*`);
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Removes block Markdown (headings, list bullets, rules) on top of the
+ * inline markers toPlainText() removes.
+ *
+ * @param text - Markdown text
+ * @returns Plain text
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .split('\n')
+    .filter((line) => !/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(line))
+    .map((line) => toPlainText(line.replace(/^(\s*)#{1,6}\s+/, '$1').replace(/^(\s*)[*+]\s+/, '$1- ')))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Renders the export as plain text without any markup.
+ *
+ * @param data - The export
+ * @returns Plain text
+ */
+export function formatPlanText(data: PlanExport): string {
+  const { plan } = data;
+  const title = getTitle(data).toUpperCase();
+  const sections = [`${title}\n${'='.repeat(title.length)}`];
+
+  const header = getHeaderFields(data);
+  if (header.length > 0) {
+    sections.push(header.map(([label, value]) => `${label}: ${value}`).join('\n'));
+  }
+
+  if (plan.activities.length === 0) {
+    sections.push(stripMarkdown(data.planText));
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  sections.push('ACTIVITIES');
+  plan.activities.forEach((activity, index) => {
+    const lines = [`${index + 1}. ${toPlainText(activity.title)}`];
+    if (activity.description) {
+      lines.push(`   ${toPlainText(activity.description)}`);
+    }
+    lines.push(...getActivityDetails(activity).map(([label, value]) => `   ${label}: ${value}`));
+    if (activity.sources && activity.sources.length > 0) {
+      lines.push('   Sources:', ...activity.sources.map((source) => `   - ${source.title}: ${source.uri}`));
+    }
+    sections.push(lines.join('\n'));
+  });
+
+  if (plan.remainingContent) {
+    sections.push(`NOTES\n${stripMarkdown(plan.remainingContent)}`);
+  }
+  if (plan.disclaimer) {
+    sections.push(toPlainText(plan.disclaimer));
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Renders the export as indented JSON.
+ *
+ * @param data - The export
+ * @returns JSON text
+ */
+export function formatPlanJson(data: PlanExport): string {
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * Escapes text for HTML element content and attribute values.
+ *
+ * @param text - Plain text
+ * @returns HTML-safe text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders Markdown prose as escaped HTML paragraphs, one per blank-line
+ * separated block, keeping single line breaks.
+ *
+ * @param text - Markdown text
+ * @returns HTML paragraphs
+ */
+function toHtmlParagraphs(text: string): string {
+  return stripMarkdown(text)
+    .split(/\n\s*\n/)
+    .filter((block) => block.trim())
+    .map((block) => `<p>${block.trim().split('\n').map(escapeHtml).join('<br>')}</p>`)
+    .join('\n');
+}
+
+/** Styles of the printable HTML export, using the app's colors on screen and plain black in print */
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #3D405B; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { color: #1e3a5f; margin-bottom: 0.25rem; }
+  h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+  h3 { margin-bottom: 0.25rem; }
+  .header p { margin: 0; }
+  .activity { break-inside: avoid; page-break-inside: avoid; margin-bottom: 1.25rem; }
+  .details { margin: 0.25rem 0; padding: 0; list-style: none; font-size: 0.9em; }
+  .sources { font-size: 0.85em; }
+  .disclaimer { margin-top: 2rem; padding: 0.75rem; border: 1px solid #ccc; font-size: 0.85em; font-style: italic; }
+  a { color: #1e3a5f; }
+  @page { margin: 2cm; }
+  @media print {
+    body { color: #000; max-width: none; margin: 0; padding: 0; }
+    h1, a { color: #000; }
+    a { text-decoration: none; }
+    .sources a::after { content: ' (' attr(href) ')'; }
+  }
+`;
+
+/**
+ * Renders the export as a standalone HTML document for printing. All text
+ * is escaped; links are limited to the activities' http(s) sources.
+ *
+ * @param data - The export
+ * @returns Complete HTML document
+ */
+export function formatPlanHtml(data: PlanExport): string {
+  const { plan } = data;
+  const title = escapeHtml(getTitle(data));
+  const body: string[] = [`<h1>${title}</h1>`];
+
+  const header = getHeaderFields(data);
+  if (header.length > 0) {
+    body.push(
+      `<div class="header">\n${header
+        .map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`)
+        .join('\n')}\n</div>`
+    );
+  }
+
+  if (plan.activities.length === 0) {
+    body.push(toHtmlParagraphs(data.planText));
+  } else {
+    body.push('<h2>Activities</h2>');
+    plan.activities.forEach((activity, index) => {
+      const parts = [`<h3>${index + 1}. ${escapeHtml(toPlainText(activity.title))}</h3>`];
+      if (activity.description) {
+        parts.push(`<p>${escapeHtml(toPlainText(activity.description))}</p>`);
+      }
+      const details = getActivityDetails(activity);
+      if (details.length > 0) {
+        parts.push(
+          `<ul class="details">${details
+            .map(([label, value]) => `<li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`)
+            .join('')}</ul>`
+        );
+      }
+      const sources = (activity.sources ?? []).filter((source) => /^https?:\/\//i.test(source.uri));
+      if (sources.length > 0) {
+        parts.push(
+          `<p class="sources">Sources: ${sources
+            .map((source) => `<a href="${escapeHtml(source.uri)}">${escapeHtml(source.title)}</a>`)
+            .join(', ')}</p>`
+        );
+      }
+      body.push(`<section class="activity">\n${parts.join('\n')}\n</section>`);
+    });
+
+    if (plan.remainingContent) {
+      body.push('<h2>Notes</h2>', toHtmlParagraphs(plan.remainingContent));
+    }
+  }
+
+  if (plan.disclaimer) {
+    body.push(`<p class="disclaimer">${escapeHtml(toPlainText(plan.disclaimer))}</p>`);
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${PRINT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    `<footer><p><small>Exported from Weekend Planner on ${escapeHtml(data.exportedAt.slice(0, 10))}</small></p></footer>`,
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Renders an export in the given format, with its download file name.
+ *
+ * @param data - The export
+ * @param format - The file format
+ * @returns File name, content and MIME type for downloadFile()
+ *
+ * @example
+ * const { filename, content, mimeType } = exportPlan(data, 'html');
+ * downloadFile(filename, content, mimeType);
+ */
+export function exportPlan(
+  data: PlanExport,
+  format: ExportFormat
+): { filename: string; content: string; mimeType: string } {
+  const formatters: Record<ExportFormat, (value: PlanExport) => string> = {
+    markdown: formatPlanMarkdown,
+    text: formatPlanText,
+    json: formatPlanJson,
+    html: formatPlanHtml
+  };
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const zip = data.input?.location ?? data.plan.zipCode;
+  const filename = `weekend-plan${zip ? `-${zip.replace(/[^\w-]/g, '')}` : ''}-${data.exportedAt.slice(0, 10)}.${extension}`;
+  return { filename, content: formatters[format](data), mimeType };
+}
+
+/**
+ * Checks a value is a plain object.
+ *
+ * @param value - The value to check
+ * @returns Whether the value is a non-null, non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a parsed activity has the fields PlanView shows.
+ *
+ * @param value - The value to check
+ * @param path - Path of the value, for error messages
+ * @throws PlanImportError when a field has the wrong type
+ */
+function validateActivity(value: unknown, path: string): void {
+  if (!isRecord(value)) {
+    throw new PlanImportError(`${path}: expected an activity object`);
+  }
+  for (const key of ['title', 'description'] as const) {
+    if (typeof value[key] !== 'string') {
+      throw new PlanImportError(`${path}.${key}: expected a string`);
+    }
+  }
+  for (const key of ['category', 'location', 'time', 'cost'] as const) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') {
+      throw new PlanImportError(`${path}.${key}: expected a string`);
+    }
+  }
+  if (value.sources !== undefined) {
+    if (!Array.isArray(value.sources)) {
+      throw new PlanImportError(`${path}.sources: expected an array`);
+    }
+    value.sources.forEach((source, index) => {
+      if (!isRecord(source) || typeof source.uri !== 'string' || typeof source.title !== 'string') {
+        throw new PlanImportError(`${path}.sources[${index}]: expected a source with uri and title`);
+      }
+    });
+  }
+}
+
+/**
+ * Reads a JSON plan export, e.g. from an uploaded file.
+ *
+ * @param text - The file's content
+ * @returns The validated export
+ * @throws PlanImportError when the text is not JSON, not a plan export, from a
+ *   newer version, or has a field of the wrong type
+ *
+ * @example
+ * try {
+ *   const data = parsePlanExport(await file.text());
+ *   showPlan(data.planText, data.input);
+ * } catch (error) {
+ *   showError(error.message);
+ * }
+ */
+export function parsePlanExport(text: string): PlanExport {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new PlanImportError('The file is not valid JSON');
+  }
+
+  if (!isRecord(value) || value.schema !== PLAN_EXPORT_SCHEMA) {
+    throw new PlanImportError('The file is not a Weekend Planner plan export');
+  }
+  if (typeof value.version !== 'number' || !Number.isInteger(value.version) || value.version < 1) {
+    throw new PlanImportError('$.version: expected a positive integer');
+  }
+  if (value.version > PLAN_EXPORT_VERSION) {
+    throw new PlanImportError(
+      `The file was exported by a newer version of Weekend Planner (format version ${value.version})`
+    );
+  }
+  if (typeof value.exportedAt !== 'string') {
+    throw new PlanImportError('$.exportedAt: expected a string');
+  }
+  if (typeof value.planText !== 'string' || value.planText.trim().length === 0) {
+    throw new PlanImportError('$.planText: expected the plan text');
+  }
+  if (value.sessionId !== undefined && typeof value.sessionId !== 'string') {
+    throw new PlanImportError('$.sessionId: expected a string');
+  }
+
+  if (value.input !== undefined) {
+    const input = value.input;
+    if (!isRecord(input)) {
+      throw new PlanImportError('$.input: expected an object');
+    }
+    if (typeof input.location !== 'string') {
+      throw new PlanImportError('$.input.location: expected a string');
+    }
+    if (!Array.isArray(input.kidsAges) || !input.kidsAges.every((age) => typeof age === 'number')) {
+      throw new PlanImportError('$.input.kidsAges: expected an array of numbers');
+    }
+    if (input.children !== undefined) {
+      if (!Array.isArray(input.children)) {
+        throw new PlanImportError('$.input.children: expected an array');
+      }
+      input.children.forEach((child, index) => {
+        if (!isChild(child)) {
+          throw new PlanImportError(`$.input.children[${index}]: expected a child with an age and a unit`);
+        }
+      });
+      if (validateChildren(input.children)) {
+        throw new PlanImportError(
+          `$.input.children: expected at most ${MAX_CHILDREN} children with nicknames of up to ${MAX_NICKNAME_LENGTH} characters`
+        );
+      }
+    }
+    if (input.dates !== undefined && !isWeekendDates(input.dates)) {
+      throw new PlanImportError('$.input.dates: expected start and end dates as YYYY-MM-DD');
+    }
+    if (input.preferences !== undefined) {
+      if (!isRecord(input.preferences)) {
+        throw new PlanImportError('$.input.preferences: expected an object');
+      }
+      const invalid = findInvalidPreference(input.preferences);
+      if (invalid) {
+        throw new PlanImportError(`$.input.preferences.${invalid.field}: expected ${invalid.expected}`);
+      }
+    }
+  }
+
+  const plan = value.plan;
+  if (!isRecord(plan)) {
+    throw new PlanImportError('$.plan: expected an object');
+  }
+  if (!Array.isArray(plan.kidAges) || !plan.kidAges.every((age) => typeof age === 'number')) {
+    throw new PlanImportError('$.plan.kidAges: expected an array of numbers');
+  }
+  if (!Array.isArray(plan.activities)) {
+    throw new PlanImportError('$.plan.activities: expected an array');
+  }
+  plan.activities.forEach((activity, index) => validateActivity(activity, `$.plan.activities[${index}]`));
+
+  // The arrangement refers to the activities of planText, which the app parses again on import
+  if (
+    value.itinerary !== undefined &&
+    !isValidItinerary(value.itinerary, parseWeekendPlan(value.planText).activities.length)
+  ) {
+    throw new PlanImportError('$.itinerary: expected every activity of the plan text in one slot');
+  }
+
+  if (value.rawResponse !== undefined) {
+    try {
+      validateADKResponse(value.rawResponse);
+    } catch (error) {
+      if (error instanceof ResponseValidationError) {
+        throw new PlanImportError(`$.rawResponse${error.failure.path.slice(1)}: ${error.failure.reason}`);
+      }
+      throw error;
+    }
+  }
+
+  return value as unknown as PlanExport;
+}
@@ -0,0 +1,553 @@
+/**
+ * Parsing of SummarizerAgent output into a typed WeekendPlan.
+ *
+ * The summarizer is asked for a friendly header (area, weather, ages), a
+ * bulleted list of 3-5 suggestions with explanations, and a disclaimer, in
+ * Markdown. Gemini follows that loosely, so the parser reads the summary
+ * line by line and recognizes each part wherever it appears:
+ *
+ * - Header fields as "Area: ..." lines, bold labels, or several fields on
+ *   one line separated by "|"
+ * - Headings and bold-only lines as sections; day headings ("Saturday")
+ *   give activities their time, other headings their category
+ * - Top-level list items as activities; the title is the bold label or the
+ *   text before " - " or ":", and a leading time slot label
+ *   ("**Morning**:") becomes the activity's time
+ * - Nested items and "Location:", "Cost:" and "Time:" labels as details,
+ *   with free admission, prices and day/time phrases picked up from the text
+ * - List items under explanation headings ("Why these picks") as prose
+ *
+ * Everything else is kept, as Markdown, in remainingContent. The confidence
+ * score tells PlanView whether the structured layout is trustworthy.
+ */
+
+import type { PlanActivity, WeatherVerdict, WeekendPlan } from '../types';
+
+/** Minimum confidence for showing a plan as activity cards */
+export const MIN_CARD_CONFIDENCE = 0.5;
+
+/** Layouts PlanView can render a plan in */
+export type PlanLayout = 'cards' | 'text';
+
+/** A heading seen while parsing, with its nesting level */
+interface Section {
+  level: number;
+  text: string;
+  /** Whether the heading is the summary's title */
+  isTitle?: boolean;
+}
+
+/**
+ * Lines of the summary an activity was read from, as zero-based line
+ * numbers with an exclusive end. Includes nested and continuation lines.
+ */
+export interface ActivityLineRange {
+  start: number;
+  end: number;
+}
+
+/** Details that can be given for an activity */
+type DetailKey = 'location' | 'time' | 'cost';
+
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+•]|\d+[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const BOLD_LINE_PATTERN = /^(?:\*\*|__)(.+?)(?:\*\*|__)\s*:?\s*$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const DISCLAIMER_PATTERN = /disclaimer|based on ai|verif(?:y|ied)\b.*\b(?:accuracy|availability)/i;
+
+/** Header labels and the field each one fills */
+const HEADER_LABEL_PATTERN =
+  /(?:^|[|•·,;]\s*|\s)\**\s*(area|location|zip(?:\s*code)?|weather(?:\s*forecast)?|forecast|kids'?\s*ages|ages|kids)\s*\**\s*:\s*\**/gi;
+
+/** Detail labels inside an activity, and the detail each one fills */
+const DETAIL_LABELS: Record<string, DetailKey> = {
+  location: 'location',
+  where: 'location',
+  address: 'location',
+  time: 'time',
+  when: 'time',
+  hours: 'time',
+  date: 'time',
+  cost: 'cost',
+  price: 'cost',
+  admission: 'cost'
+};
+
+const DETAIL_LINE_PATTERN = /^(location|where|address|time|when|hours|date|cost|price|admission)\s*:\s*(.+)$/i;
+const DETAIL_INLINE_PATTERN =
+  /(^|[.;|]\s+|\s[-–—]\s)\**(location|where|address|time|when|hours|cost|price|admission)\**\s*:\s*\**\s*([^.;|]+?)(?=\s*(?:[.;|](?:\s|$)|$))/gi;
+
+const TIME_SLOT_PATTERN =
+  /^(?:(?:fri(?:day)?|sat(?:urday)?|sun(?:day)?|mon(?:day)?)\b\s*)?(?:morning|afternoon|evening|night|midday|all day|lunch|brunch|dinner)?$/i;
+const DAY_PATTERN = /^(?:fri(?:day)?|sat(?:urday)?|sun(?:day)?|mon(?:day)?)\b/i;
+const TIME_HINT_PATTERN =
+  /\d{1,2}(?::\d{2})?\s*(?:am|pm)|\b(?:fri|sat|sun|mon)(?:day)?\b|\b(?:morning|afternoon|evening|noon|all day|daily)\b/i;
+const TIME_PHRASE_PATTERN =
+  /\b(?:(?:friday|saturday|sunday|monday)(?:\s+(?:morning|afternoon|evening))?(?:,?\s+\d{1,2}(?::\d{2})?\s*(?:am|pm)(?:\s*[-–]\s*\d{1,2}(?::\d{2})?\s*(?:am|pm))?)?|\d{1,2}(?::\d{2})?\s*(?:am|pm)\s*[-–]\s*\d{1,2}(?::\d{2})?\s*(?:am|pm))/i;
+const PRICE_PATTERN =
+  /\$\d[\d,]*(?:\.\d{2})?(?:\s*[-–]\s*\$?\d[\d,]*(?:\.\d{2})?)?(?:\s*(?:per|\/|a)\s*(?:person|adult|child|kid|family|ticket|car))?/i;
+const FREE_PATTERN = /\b(?:free(?! parking| wi-?fi)|no[- ]cost)\b/i;
+const PLACE_PATTERN = /\bat\s+((?:the\s+)?[A-Z][\w'’.&-]*(?:\s+(?:[A-Z][\w'’.&-]*|of|the|and|&))*)/;
+
+/** Headings that only group the activities, and carry no category */
+const GENERIC_HEADING_PATTERN =
+  /^(?:(?:recommended|suggested|top|our|your|key|planned|weekend)\s+)*(?:activities|activity ideas|suggestions|recommendations|ideas|plan|highlights|itinerary|picks)\s*:?$/i;
+
+/** Headings whose list items explain the plan rather than add to it */
+const EXPLANATION_HEADING_PATTERN = /^(?:why|reasons?|explanation|notes?|tips?|before you go|disclaimer)\b/i;
+
+const WEATHER_HEADING_PATTERN = /\bweather\b|forecast/i;
+
+/** Headings that name the whole summary, even after an opening line */
+const TITLE_HEADING_PATTERN = /\bplan\b|itinerary|getaway|adventure/i;
+
+/**
+ * Removes bold and italic markers around and inside a line, for matching
+ * labels. The parsed values themselves keep their Markdown.
+ *
+ * @param text - A line of the summary
+ * @returns The text without emphasis markers or leading emoji
+ */
+function stripEmphasis(text: string): string {
+  return text
+    .replace(/\*\*|__/g, '')
+    .replace(/^[*_]+|[*_]+$/g, '')
+    .replace(/^[^\p{L}\p{N}]+/u, '')
+    .trim();
+}
+
+/**
+ * Trims separators and stray emphasis markers from an extracted value.
+ *
+ * @param value - Raw value text
+ * @returns The cleaned value
+ */
+function cleanValue(value: string): string {
+  return value
+    .replace(/^[\s*_:|,;-]+|[\s*_|,;]+$/g, '')
+    .replace(/\.$/, '')
+    .trim();
+}
+
+/**
+ * Classifies weather text into one of the planner's verdicts.
+ *
+ * @param text - Weather as written in the summary
+ * @returns The verdict, or undefined if the text gives no clear signal
+ *
+ * @example
+ * inferWeatherVerdict('Sunny and 72°F'); // 'good'
+ * inferWeatherVerdict('Heavy rain expected'); // 'bad'
+ */
+export function inferWeatherVerdict(text: string): WeatherVerdict | undefined {
+  if (/do not leave|don'?t leave|stay (?:at )?home|stay indoors|severe|warning|dangerous|hazardous/i.test(text)) {
+    return 'do not leave home';
+  }
+  if (
+    /\bnot (?:good|great|ideal|nice)\b|\b(?:bad|rain(?:y|ing)?|showers?|snow(?:y|ing)?|cold|wet|poor|wind(?:y)?|chilly|drizzle|storm(?:s|y)?|thunder\w*)\b/i.test(
+      text
+    )
+  ) {
+    return 'bad';
+  }
+  if (/\b(?:good|sunny|clear|great|nice|pleasant|warm|mild|beautiful|perfect|lovely|fair|dry)\b/i.test(text)) {
+    return 'good';
+  }
+  return undefined;
+}
+
+/**
+ * Reads the header fields on a line, such as "Area: 94105 | Weather: Sunny".
+ *
+ * @param line - A line of the summary
+ * @returns Field label and value pairs, or an empty list if the line is not a header line
+ */
+function readHeaderFields(line: string): { label: string; value: string }[] {
+  const text = line.replace(/^\s*(?:[-*+•]\s+)?[^\p{L}\p{N}*_]*/u, '');
+  const matches = [...text.matchAll(HEADER_LABEL_PATTERN)];
+  if (matches.length === 0 || matches[0].index !== 0) {
+    return [];
+  }
+
+  return matches
+    .map((match, index) => {
+      const start = (match.index ?? 0) + match[0].length;
+      const end = matches[index + 1]?.index ?? text.length;
+      return { label: match[1].toLowerCase(), value: cleanValue(text.slice(start, end)) };
+    })
+    .filter(({ value }) => value !== '');
+}
+
+/**
+ * Reads kids ages from header text such as "5, 8 and 12 years old".
+ *
+ * @param text - Ages as written
+ * @returns Ages of 18 or younger, in order
+ */
+function readAges(text: string): number[] {
+  return (text.match(/\d{1,2}/g) ?? []).map(Number).filter((age) => age <= 18);
+}
+
+/**
+ * Splits an activity's text into title and description.
+ *
+ * @param text - List item text without the bullet
+ * @returns Title, description and the time slot label, if the item started with one
+ */
+function splitActivityText(text: string): { title: string; description: string; slot?: string } {
+  const bold = /^(?:\*\*|__)(.+?)(?:\*\*|__)\s*(?:[:\-–—]\s*)?(.*)$/.exec(text);
+  if (bold) {
+    const label = bold[1].replace(/:$/, '').trim();
+    const rest = bold[2].trim();
+    if (TIME_SLOT_PATTERN.test(label) && rest !== '') {
+      return { ...splitActivityText(rest), slot: label };
+    }
+    return { title: label, description: rest };
+  }
+
+  const separator = /\s[-–—]\s|:\s/.exec(text);
+  if (separator && separator.index > 0 && separator.index <= 80) {
+    return {
+      title: text.slice(0, separator.index).trim(),
+      description: text.slice(separator.index + separator[0].length).trim()
+    };
+  }
+
+  const sentenceEnd = text.length > 100 ? text.search(/[.!?]\s/) : -1;
+  if (sentenceEnd > 0) {
+    return { title: text.slice(0, sentenceEnd + 1).trim(), description: text.slice(sentenceEnd + 2).trim() };
+  }
+
+  return { title: text.trim(), description: '' };
+}
+
+/**
+ * Builds an activity from a top-level list item.
+ *
+ * @param text - List item text without the bullet
+ * @param sections - Headings the item is nested under
+ * @returns The activity with the details found in its text
+ */
+function createActivity(text: string, sections: Section[]): PlanActivity {
+  const { title: rawTitle, description, slot } = splitActivityText(text);
+  const activity: PlanActivity = { title: rawTitle, description };
+
+  const day = [...sections].reverse().find((section) => DAY_PATTERN.test(section.text))?.text;
+  const category = [...sections]
+    .reverse()
+    .find(
+      (section) =>
+        !section.isTitle &&
+        !DAY_PATTERN.test(section.text) &&
+        !GENERIC_HEADING_PATTERN.test(section.text) &&
+        !WEATHER_HEADING_PATTERN.test(section.text)
+    )?.text;
+  if (category) {
+    activity.category = category;
+  }
+
+  // A time in parentheses at the end of the title: "Community fair (Saturday 10am-4pm)"
+  const parenthetical = /\s*\(([^)]+)\)\s*$/.exec(activity.title);
+  if (parenthetical && TIME_HINT_PATTERN.test(parenthetical[1])) {
+    activity.time = parenthetical[1].trim();
+    activity.title = activity.title.slice(0, parenthetical.index).trim();
+  }
+
+  if (slot) {
+    activity.time = activity.time ?? slot;
+  }
+  if (day && (!activity.time || !DAY_PATTERN.test(activity.time))) {
+    activity.time = activity.time ? `${day} ${activity.time.charAt(0).toLowerCase()}${activity.time.slice(1)}` : day;
+  }
+
+  return activity;
+}
+
+/**
+ * Sets a detail from a labeled value, keeping the first value given.
+ *
+ * @param activity - The activity to update
+ * @param label - Detail label, e.g. "Cost" or "Where"
+ * @param value - The labeled value
+ */
+function setDetail(activity: PlanActivity, label: string, value: string): void {
+  const key = DETAIL_LABELS[label.toLowerCase()];
+  const cleaned = cleanValue(value);
+  if (key && cleaned && !activity[key]) {
+    activity[key] = cleaned;
+  }
+}
+
+/**
+ * Moves labeled details out of the description, then fills missing cost,
+ * time and location from phrases in the title and description.
+ *
+ * @param activity - The activity to complete
+ */
+function completeDetails(activity: PlanActivity): void {
+  activity.description = activity.description
+    .replace(DETAIL_INLINE_PATTERN, (_match, prefix: string, label: string, value: string) => {
+      setDetail(activity, label, value);
+      return /[.;|]/.test(prefix) ? `${prefix.trim()} ` : ' ';
+    })
+    .replace(/([.;|])(?:\s*[.;|])+/g, '$1')
+    .replace(/^[\s.;|]+/, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  const text = stripEmphasis(`${activity.title} ${activity.description}`);
+  if (!activity.cost) {
+    activity.cost = PRICE_PATTERN.exec(text)?.[0] ?? (FREE_PATTERN.test(text) ? 'Free' : undefined);
+  }
+  if (!activity.time) {
+    activity.time = TIME_PHRASE_PATTERN.exec(text)?.[0];
+  }
+  if (!activity.location) {
+    activity.location = PLACE_PATTERN.exec(stripEmphasis(activity.title))?.[1];
+  }
+
+  for (const key of ['cost', 'time', 'location'] as const) {
+    if (!activity[key]) {
+      delete activity[key];
+    }
+  }
+}
+
+/**
+ * Scores how well a parsed plan matches the expected summary structure.
+ *
+ * @param plan - The parsed plan, without a score
+ * @param leftoverLength - Length of the text that went to remainingContent
+ * @param totalLength - Length of all non-blank text
+ * @returns A score from 0 to 1, rounded to two decimals
+ */
+function scorePlan(plan: Omit<WeekendPlan, 'confidence'>, leftoverLength: number, totalLength: number): number {
+  const { activities } = plan;
+  const activityScore = Math.min(activities.length, 3) / 3;
+  const detailScore =
+    activities.length > 0
+      ? activities.filter((activity) => activity.description || activity.location || activity.time || activity.cost)
+          .length / activities.length
+      : 0;
+  const headerScore = [plan.area || plan.zipCode, plan.weather, plan.kidAges.length > 0].filter(Boolean).length / 3;
+  const coverage = totalLength > 0 ? 1 - leftoverLength / totalLength : 0;
+
+  const score =
+    0.45 * activityScore + 0.15 * detailScore + 0.2 * headerScore + 0.1 * (plan.disclaimer ? 1 : 0) + 0.1 * coverage;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Splits a summary into lines, normalizing line endings.
+ *
+ * @param text - The summary
+ * @returns Its lines, as numbered by ActivityLineRange
+ */
+export function splitSummaryLines(text: string): string[] {
+  return (text ?? '').replace(/\r\n?/g, '\n').split('\n');
+}
+
+/**
+ * Parses a summary, recording where each activity was read from.
+ *
+ * @param text - The summary, as Markdown
+ * @returns The parsed plan and one line range per activity
+ */
+function parseSummary(text: string): { plan: WeekendPlan; ranges: ActivityLineRange[] } {
+  const plan: Omit<WeekendPlan, 'confidence'> = { kidAges: [], activities: [] };
+  const ranges: ActivityLineRange[] = [];
+  const leftover: string[][] = [[]];
+  const disclaimer: string[] = [];
+  let sections: Section[] = [];
+  let current: PlanActivity | undefined;
+  let previousBlank = true;
+  let totalLength = 0;
+
+  const addLeftover = (line: string): void => {
+    leftover[leftover.length - 1].push(line);
+  };
+  const endParagraph = (): void => {
+    if (leftover[leftover.length - 1].length > 0) {
+      leftover.push([]);
+    }
+  };
+  const openSection = (level: number, heading: string): void => {
+    sections = [...sections.filter((section) => section.level < level), { level, text: heading }];
+    current = undefined;
+  };
+  const inSection = (pattern: RegExp): boolean => sections.some((section) => pattern.test(section.text));
+
+  // The current activity is always the last one, so continuing it extends the last range
+  const extendCurrent = (lineIndex: number): void => {
+    ranges[ranges.length - 1].end = lineIndex + 1;
+  };
+
+  for (const [lineIndex, rawLine] of splitSummaryLines(text).entries()) {
+    const line = rawLine.replace(/\t/g, '    ');
+    const trimmed = line.trim();
+
+    if (trimmed === '') {
+      previousBlank = true;
+      endParagraph();
+      continue;
+    }
+    totalLength += trimmed.length;
+    const wasBlank = previousBlank;
+    previousBlank = false;
+
+    if (RULE_PATTERN.test(line)) {
+      continue;
+    }
+
+    if (DISCLAIMER_PATTERN.test(trimmed) && !(current && /^\s{2,}/.test(line))) {
+      disclaimer.push(stripEmphasis(trimmed).replace(/^[-*+•]\s+/, ''));
+      current = undefined;
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(trimmed);
+    const boldLine = heading ? null : BOLD_LINE_PATTERN.exec(trimmed);
+    const headerFields = readHeaderFields(trimmed);
+
+    if (headerFields.length > 0 && plan.activities.length === 0 && !heading) {
+      for (const { label, value } of headerFields) {
+        if (label.startsWith('weather') || label === 'forecast') {
+          plan.weather = plan.weather ?? value;
+        } else if (label.includes('age') || label === 'kids') {
+          plan.kidAges = plan.kidAges.length > 0 ? plan.kidAges : readAges(value);
+        } else {
+          plan.area = plan.area ?? value;
+        }
+      }
+      continue;
+    }
+
+    if (heading || boldLine) {
+      const headingText = stripEmphasis(heading ? heading[2] : (boldLine as RegExpExecArray)[1]).replace(/:$/, '');
+      const level = heading ? heading[1].length : 7;
+      const isTitle =
+        !plan.title &&
+        plan.activities.length === 0 &&
+        sections.length === 0 &&
+        (level === 1 || totalLength === trimmed.length || TITLE_HEADING_PATTERN.test(headingText)) &&
+        ![DAY_PATTERN, WEATHER_HEADING_PATTERN, GENERIC_HEADING_PATTERN, EXPLANATION_HEADING_PATTERN].some((pattern) =>
+          pattern.test(headingText)
+        );
+      if (isTitle) {
+        plan.title = headingText;
+        sections = [{ level, text: headingText, isTitle: true }];
+        current = undefined;
+      } else {
+        openSection(level, headingText);
+        if (EXPLANATION_HEADING_PATTERN.test(headingText)) {
+          endParagraph();
+          addLeftover(trimmed);
+        }
+      }
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    const explaining = inSection(EXPLANATION_HEADING_PATTERN);
+
+    if (item && !explaining) {
+      const nested = item[1].length >= 2 && current;
+      if (nested && current) {
+        extendCurrent(lineIndex);
+        const detail = DETAIL_LINE_PATTERN.exec(stripEmphasis(item[2]));
+        if (detail) {
+          setDetail(current, detail[1], detail[2]);
+        } else {
+          current.description = current.description ? `${current.description} ${item[2].trim()}` : item[2].trim();
+        }
+      } else {
+        current = createActivity(item[2], sections);
+        plan.activities.push(current);
+        ranges.push({ start: lineIndex, end: lineIndex + 1 });
+      }
+      continue;
+    }
+
+    if (current && !explaining && (!wasBlank || /^\s{2,}/.test(line))) {
+      // A wrapped or indented line continues the current activity
+      extendCurrent(lineIndex);
+      current.description = current.description ? `${current.description} ${trimmed}` : trimmed;
+      continue;
+    }
+
+    current = undefined;
+    if (!plan.weather && plan.activities.length === 0 && inSection(WEATHER_HEADING_PATTERN)) {
+      plan.weather = stripEmphasis(trimmed);
+      continue;
+    }
+    addLeftover(trimmed);
+  }
+
+  plan.activities.forEach(completeDetails);
+
+  const zipSource = `${plan.area ?? ''} ${plan.title ?? ''}`;
+  const zipCode = /\b\d{5}\b/.exec(zipSource)?.[0];
+  if (zipCode) {
+    plan.zipCode = zipCode;
+  }
+  if (plan.weather) {
+    plan.weatherVerdict = inferWeatherVerdict(plan.weather);
+  }
+  if (disclaimer.length > 0) {
+    plan.disclaimer = disclaimer.join(' ');
+  }
+
+  const paragraphs = leftover.filter((lines) => lines.length > 0).map((lines) => lines.join('\n'));
+  if (paragraphs.length > 0) {
+    plan.remainingContent = paragraphs.join('\n\n');
+  }
+
+  const leftoverLength = paragraphs.reduce((total, paragraph) => total + paragraph.replace(/\n/g, '').length, 0);
+  return { plan: { ...plan, confidence: scorePlan(plan, leftoverLength, totalLength) }, ranges };
+}
+
+/**
+ * Parses a SummarizerAgent summary into a WeekendPlan.
+ * Never throws: text that cannot be placed ends up in remainingContent,
+ * and the confidence score reflects how much was recognized.
+ *
+ * @param text - The summary, as Markdown
+ * @returns The parsed plan with its confidence score
+ *
+ * @example
+ * const plan = parseWeekendPlan(result.planText ?? '');
+ * if (getPlanLayout(plan) === 'cards') {
+ *   plan.activities.forEach((activity) => console.log(activity.title, activity.time));
+ * }
+ */
+export function parseWeekendPlan(text: string): WeekendPlan {
+  return parseSummary(text).plan;
+}
+
+/**
+ * Finds the lines of the summary each activity was read from, in the
+ * order of WeekendPlan.activities. Used to replace a single activity
+ * without touching the rest of the summary.
+ *
+ * @param text - The summary, as Markdown
+ * @returns One line range per activity, numbered as by splitSummaryLines()
+ *
+ * @example
+ * const lines = splitSummaryLines(planText);
+ * const { start, end } = getActivityLineRanges(planText)[1];
+ * lines.slice(start, end); // the second activity's lines
+ */
+export function getActivityLineRanges(text: string): ActivityLineRange[] {
+  return parseSummary(text).ranges;
+}
+
+/**
+ * Picks the layout for a parsed plan: activity cards when at least two
+ * activities were found with enough confidence, otherwise the summary as text.
+ *
+ * @param plan - The parsed plan
+ * @returns 'cards' or 'text'
+ */
+export function getPlanLayout(plan: WeekendPlan): PlanLayout {
+  return plan.activities.length >= 2 && plan.confidence >= MIN_CARD_CONFIDENCE ? 'cards' : 'text';
+}
@@ -0,0 +1,249 @@
+/**
+ * Optional planning preferences: budget, travel radius, indoor or outdoor
+ * setting, interests, accessibility needs and activity intensity.
+ *
+ * The option lists drive the "More options" fields of InputForm.
+ * validatePlanningPreferences() checks what the form collected, and
+ * describePlanningPreferences() writes the sentences added to the prompt,
+ * after the zip code and kids ages. toInitialSessionState() stores the same
+ * values in session state for the agents.
+ */
+
+import type {
+  AccessibilityNeed,
+  ActivityIntensity,
+  BudgetTier,
+  PlanningPreferences,
+  SettingPreference
+} from '../types';
+
+/**
+ * A choice offered by the form, with its label and its prompt wording.
+ */
+export interface PreferenceOption<T extends string> {
+  /** Stored value */
+  value: T;
+  /** Label shown in the form */
+  label: string;
+  /** Wording used in the prompt */
+  prompt: string;
+}
+
+/** Budget choices, cheapest first */
+export const BUDGET_OPTIONS: PreferenceOption<BudgetTier>[] = [
+  { value: 'free', label: 'Free only', prompt: 'Only suggest free activities.' },
+  { value: 'low', label: 'Under $25 per person', prompt: 'Keep each activity under $25 per person.' },
+  { value: 'moderate', label: 'Under $50 per person', prompt: 'Keep each activity under $50 per person.' },
+  { value: 'splurge', label: 'Happy to splurge', prompt: 'Cost is not a concern.' }
+];
+
+/** Indoor or outdoor choices */
+export const SETTING_OPTIONS: PreferenceOption<SettingPreference>[] = [
+  { value: 'indoor', label: 'Mostly indoors', prompt: 'We prefer indoor activities.' },
+  { value: 'outdoor', label: 'Mostly outdoors', prompt: 'We prefer outdoor activities.' },
+  { value: 'mixed', label: 'A mix of both', prompt: 'We would like a mix of indoor and outdoor activities.' }
+];
+
+/** Accessibility needs; the prompt wording completes "Every activity must be ..." */
+export const ACCESSIBILITY_OPTIONS: PreferenceOption<AccessibilityNeed>[] = [
+  { value: 'wheelchair', label: 'Wheelchair accessible', prompt: 'wheelchair accessible' },
+  { value: 'stroller', label: 'Stroller friendly', prompt: 'stroller friendly' },
+  { value: 'sensory', label: 'Sensory friendly (quiet, not crowded)', prompt: 'sensory friendly (quiet and not crowded)' },
+  { value: 'limited-walking', label: 'Little walking', prompt: 'doable with little walking' }
+];
+
+/** Activity intensity choices, calmest first */
+export const INTENSITY_OPTIONS: PreferenceOption<ActivityIntensity>[] = [
+  { value: 'relaxed', label: 'Relaxed', prompt: 'Keep the activities relaxed and low effort.' },
+  { value: 'moderate', label: 'Moderate', prompt: 'Moderately active activities are best.' },
+  { value: 'active', label: 'Active', prompt: 'We want active, energetic activities.' }
+];
+
+/** Shortest travel radius accepted, in miles */
+export const MIN_TRAVEL_MILES = 1;
+
+/** Longest travel radius accepted, in miles */
+export const MAX_TRAVEL_MILES = 100;
+
+/** Most interests accepted */
+export const MAX_INTERESTS = 10;
+
+/** Longest interest accepted, in characters */
+export const MAX_INTEREST_LENGTH = 40;
+
+/**
+ * Validation messages for the preferences that take free input.
+ * The choice fields cannot hold invalid values.
+ */
+export interface PlanningPreferenceErrors {
+  /** Message for a travel radius that is not a whole number of miles in range */
+  maxTravelMiles?: string;
+  /** Message for too many or too long interests */
+  interests?: string;
+}
+
+/**
+ * Splits comma-separated interests, dropping empty entries and repeats.
+ *
+ * @param text - Raw interests field, e.g. "dinosaurs, trains, Dinosaurs"
+ * @returns The interests in order of entry, e.g. ["dinosaurs", "trains"]
+ */
+export function parseInterests(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(',')
+    .map((interest) => interest.trim().replace(/\s+/g, ' '))
+    .filter((interest) => {
+      const key = interest.toLowerCase();
+      if (interest === '' || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Validates the preferences that take free input.
+ *
+ * @param preferences - The collected preferences
+ * @returns One message per invalid field; empty if all are valid
+ *
+ * @example
+ * validatePlanningPreferences({ maxTravelMiles: 0 });
+ * // { maxTravelMiles: 'Enter a whole number of miles from 1 to 100' }
+ */
+export function validatePlanningPreferences(preferences: PlanningPreferences): PlanningPreferenceErrors {
+  const errors: PlanningPreferenceErrors = {};
+  const { maxTravelMiles, interests = [] } = preferences;
+
+  if (
+    maxTravelMiles !== undefined &&
+    (!Number.isInteger(maxTravelMiles) || maxTravelMiles < MIN_TRAVEL_MILES || maxTravelMiles > MAX_TRAVEL_MILES)
+  ) {
+    errors.maxTravelMiles = `Enter a whole number of miles from ${MIN_TRAVEL_MILES} to ${MAX_TRAVEL_MILES}`;
+  }
+
+  if (interests.length > MAX_INTERESTS) {
+    errors.interests = `Enter at most ${MAX_INTERESTS} interests`;
+  } else if (interests.some((interest) => interest.length > MAX_INTEREST_LENGTH)) {
+    errors.interests = `Keep each interest to ${MAX_INTEREST_LENGTH} characters or fewer`;
+  }
+
+  return errors;
+}
+
+/**
+ * Finds the first invalid field of stored preferences, e.g. from an
+ * imported file: present fields must hold a known choice or a value that
+ * passes validatePlanningPreferences().
+ *
+ * @param value - The stored preferences object
+ * @returns The field and what it should hold, or undefined when every field is valid
+ *
+ * @example
+ * findInvalidPreference({ budget: 'lots' });
+ * // { field: 'budget', expected: 'one of free, low, moderate, splurge' }
+ */
+export function findInvalidPreference(
+  value: Record<string, unknown>
+): { field: keyof PlanningPreferences; expected: string } | undefined {
+  const { budget, maxTravelMiles, setting, interests, accessibility, intensity } = value as Partial<
+    Record<keyof PlanningPreferences, unknown>
+  >;
+  const isChoice = <T extends string>(options: PreferenceOption<T>[], choice: unknown): boolean =>
+    choice === undefined || options.some((option) => option.value === choice);
+  const oneOf = <T extends string>(options: PreferenceOption<T>[]): string =>
+    `one of ${options.map((option) => option.value).join(', ')}`;
+  const isStringList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((entry) => typeof entry === 'string');
+  const errors = validatePlanningPreferences({
+    maxTravelMiles: typeof maxTravelMiles === 'number' ? maxTravelMiles : undefined,
+    interests: isStringList(interests) ? interests : undefined
+  });
+
+  if (!isChoice(BUDGET_OPTIONS, budget)) {
+    return { field: 'budget', expected: oneOf(BUDGET_OPTIONS) };
+  }
+  if ((maxTravelMiles !== undefined && typeof maxTravelMiles !== 'number') || errors.maxTravelMiles) {
+    return { field: 'maxTravelMiles', expected: `a whole number from ${MIN_TRAVEL_MILES} to ${MAX_TRAVEL_MILES}` };
+  }
+  if (!isChoice(SETTING_OPTIONS, setting)) {
+    return { field: 'setting', expected: oneOf(SETTING_OPTIONS) };
+  }
+  if ((interests !== undefined && !isStringList(interests)) || errors.interests) {
+    return {
+      field: 'interests',
+      expected: `a list of at most ${MAX_INTERESTS} strings of up to ${MAX_INTEREST_LENGTH} characters`
+    };
+  }
+  if (
+    accessibility !== undefined &&
+    !(isStringList(accessibility) && accessibility.every((need) => isChoice(ACCESSIBILITY_OPTIONS, need)))
+  ) {
+    return { field: 'accessibility', expected: `a list of ${oneOf(ACCESSIBILITY_OPTIONS)}` };
+  }
+  if (!isChoice(INTENSITY_OPTIONS, intensity)) {
+    return { field: 'intensity', expected: oneOf(INTENSITY_OPTIONS) };
+  }
+  return undefined;
+}
+
+/**
+ * Checks a stored value is a PlanningPreferences, e.g. from an imported
+ * file or a share link.
+ *
+ * @param value - The value
+ * @returns Whether it is an object whose fields all pass findInvalidPreference()
+ */
+export function isPlanningPreferences(value: unknown): value is PlanningPreferences {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    findInvalidPreference(value as Record<string, unknown>) === undefined
+  );
+}
+
+/**
+ * Checks whether any preference was chosen.
+ *
+ * @param preferences - The collected preferences, if any
+ * @returns Whether at least one field has a value
+ */
+export function hasPlanningPreferences(preferences: PlanningPreferences | undefined): boolean {
+  return Object.values(preferences ?? {}).some((value) => (Array.isArray(value) ? value.length > 0 : value !== undefined));
+}
+
+/**
+ * Writes the prompt sentences for a plan's preferences.
+ *
+ * @param preferences - The plan's preferences, if any
+ * @returns The sentences, or an empty string when no preference was chosen
+ *
+ * @example
+ * describePlanningPreferences({ budget: 'moderate', maxTravelMiles: 20, interests: ['dinosaurs'] });
+ * // 'Keep each activity under $50 per person. Stay within 20 miles of the zip code. Our interests include dinosaurs.'
+ */
+export function describePlanningPreferences(preferences: PlanningPreferences | undefined): string {
+  if (!preferences) {
+    return '';
+  }
+  const { budget, maxTravelMiles, setting, interests = [], accessibility = [], intensity } = preferences;
+  const promptFor = <T extends string>(options: PreferenceOption<T>[], value: T | undefined): string | undefined =>
+    options.find((option) => option.value === value)?.prompt;
+  const needs = ACCESSIBILITY_OPTIONS.filter((option) => accessibility.includes(option.value)).map(
+    (option) => option.prompt
+  );
+
+  return [
+    promptFor(BUDGET_OPTIONS, budget),
+    maxTravelMiles !== undefined && `Stay within ${maxTravelMiles} miles of the zip code.`,
+    promptFor(SETTING_OPTIONS, setting),
+    interests.length > 0 && `Our interests include ${interests.join(', ')}.`,
+    needs.length > 0 && `Every activity must be ${needs.join(' and ')}.`,
+    promptFor(INTENSITY_OPTIONS, intensity)
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
@@ -0,0 +1,267 @@
+/**
+ * Parsing of the ADK session state written by the WeekendPlanner agents.
+ *
+ * Each agent stores its output under an output_key. The values are model
+ * output, so they arrive as loosely formatted strings: parsed_input is JSON
+ * that may be wrapped in a Markdown code fence, and weather_forecast may carry
+ * stray quotes, punctuation or capitalization. parseSessionState() turns them
+ * into a typed PlanSessionState, dropping values it cannot recognize.
+ *
+ * In the other direction, toInitialSessionState() seeds a new session with the
+ * validated form input, its weekend dates and its planning preferences, and getInputMismatches()
+ * compares that input with what the PreprocessInputAgent made of it.
+ */
+
+import { ACCESSIBILITY_OPTIONS, BUDGET_OPTIONS, hasPlanningPreferences, INTENSITY_OPTIONS, SETTING_OPTIONS } from './preferences';
+import { isWeekendDates } from './weekend';
+import type {
+  GeneratePlanInput,
+  ParsedPlanInput,
+  PlanningPreferences,
+  PlanSessionState,
+  WeatherVerdict,
+  WeekendDates
+} from '../types';
+
+/** State key the validated form input is seeded under */
+const USER_INPUT_STATE_KEY = 'user_input';
+
+/** State key the weekend dates are seeded under, when the input has them */
+const WEEKEND_DATES_STATE_KEY = 'weekend_dates';
+
+/** State key the planning preferences are seeded under, when any were chosen */
+const PLANNING_PREFERENCES_STATE_KEY = 'planning_preferences';
+
+/** Verdicts the WeatherAgent is instructed to answer with */
+const WEATHER_VERDICTS: WeatherVerdict[] = ['good', 'bad', 'do not leave home'];
+
+/**
+ * Removes a surrounding Markdown code fence (```json ... ```) from model output.
+ *
+ * @param text - Raw model output
+ * @returns The text inside the fence, or the trimmed text if there is none
+ */
+function stripCodeFence(text: string): string {
+  const match = /^```[\w-]*\s*\n?([\s\S]*?)\n?```$/.exec(text.trim());
+  return match ? match[1].trim() : text.trim();
+}
+
+/**
+ * Reads a free-text state value.
+ *
+ * @param value - Raw state value
+ * @returns The trimmed text, or undefined if the value is missing or empty
+ */
+function readText(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const text = stripCodeFence(value);
+  return text === '' ? undefined : text;
+}
+
+/**
+ * Parses the PreprocessInputAgent output.
+ * Accepts the documented shape `{"zip_code": "02138", "kid_ages": "4,7"}`
+ * as a JSON string or object; kid_ages may also be an array.
+ *
+ * @param value - Raw parsed_input state value
+ * @returns The parsed input, or undefined if it has no zip code
+ */
+function parseParsedInput(value: unknown): ParsedPlanInput | undefined {
+  let record: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      record = JSON.parse(stripCodeFence(value));
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!record || typeof record !== 'object') {
+    return undefined;
+  }
+
+  const { zip_code: zipCode, kid_ages: kidAges } = record as Record<string, unknown>;
+  if (zipCode === undefined || zipCode === null || String(zipCode).trim() === '') {
+    return undefined;
+  }
+
+  const ageValues = Array.isArray(kidAges)
+    ? kidAges
+    : typeof kidAges === 'string'
+      ? kidAges.split(',')
+      : typeof kidAges === 'number'
+        ? [kidAges]
+        : [];
+
+  return {
+    zipCode: String(zipCode).trim(),
+    kidAges: ageValues
+      .map((age) => parseInt(String(age).trim(), 10))
+      .filter((age) => !Number.isNaN(age))
+  };
+}
+
+/**
+ * Parses the WeatherAgent output into a known verdict.
+ *
+ * @param value - Raw weather_forecast state value
+ * @returns The verdict, or undefined if the output is not one of the known verdicts
+ */
+function parseWeatherVerdict(value: unknown): WeatherVerdict | undefined {
+  const text = readText(value);
+  if (!text) {
+    return undefined;
+  }
+
+  const normalized = text.toLowerCase().replace(/["'`.!]/g, '').replace(/\s+/g, ' ').trim();
+  return WEATHER_VERDICTS.find((verdict) => verdict === normalized);
+}
+
+/**
+ * Converts raw ADK session state into a typed PlanSessionState.
+ * Missing and unrecognizable values are left undefined.
+ *
+ * @param state - The session's state object as returned by the session endpoint
+ * @returns The typed session state
+ *
+ * @example
+ * const session = await getSession(sessionId);
+ * const state = parseSessionState(session.state);
+ * console.log(state.parsedInput?.zipCode, state.weatherForecast);
+ */
+export function parseSessionState(state: Record<string, unknown>): PlanSessionState {
+  return {
+    parsedInput: parseParsedInput(state.parsed_input),
+    weatherForecast: parseWeatherVerdict(state.weather_forecast),
+    localActivitiesFindings: readText(state.local_activities_findings),
+    specialActivitiesFindings: readText(state.special_activities_findings),
+    homeActivitiesFindings: readText(state.home_activities_findings),
+    finalSummary: readText(state.final_summary)
+  };
+}
+
+/**
+ * Builds the initial session state for a plan run from the validated form input.
+ * Uses the same shape as the PreprocessInputAgent's parsed_input output, so the
+ * agents can use the values without re-parsing the free-text prompt.
+ *
+ * @param input - The validated form input
+ * @returns Session state to pass to createSession()
+ *
+ * The weekend dates and the planning preferences, when there are any, are
+ * added under their own keys with snake_case fields.
+ *
+ * @example
+ * toInitialSessionState({ location: '94105', kidsAges: [5, 8] });
+ * // { user_input: { zip_code: '94105', kid_ages: '5,8' } }
+ */
+export function toInitialSessionState(input: GeneratePlanInput): Record<string, unknown> {
+  const { dates, preferences } = input;
+  return {
+    [USER_INPUT_STATE_KEY]: {
+      zip_code: input.location.trim(),
+      kid_ages: input.kidsAges.join(',')
+    },
+    ...(dates && {
+      [WEEKEND_DATES_STATE_KEY]: { start: dates.start, end: dates.end, holiday: dates.holiday }
+    }),
+    ...(preferences &&
+      hasPlanningPreferences(preferences) && {
+        [PLANNING_PREFERENCES_STATE_KEY]: {
+          budget: preferences.budget,
+          max_travel_miles: preferences.maxTravelMiles,
+          setting: preferences.setting,
+          interests: preferences.interests,
+          accessibility: preferences.accessibility,
+          intensity: preferences.intensity
+        }
+      })
+  };
+}
+
+/**
+ * Reads back the weekend dates toInitialSessionState() seeded.
+ *
+ * @param state - The session's state object as returned by the session endpoint
+ * @returns The dates, or undefined when none or malformed ones were seeded
+ */
+export function readWeekendDates(state: Record<string, unknown>): WeekendDates | undefined {
+  const record = state[WEEKEND_DATES_STATE_KEY];
+  if (!isWeekendDates(record)) {
+    return undefined;
+  }
+  return { start: record.start, end: record.end, ...(record.holiday && { holiday: record.holiday }) };
+}
+
+/**
+ * Reads back the planning preferences toInitialSessionState() seeded, e.g.
+ * to restore the input of a reopened session. Unknown values are dropped.
+ *
+ * @param state - The session's state object as returned by the session endpoint
+ * @returns The preferences, or undefined when none were seeded
+ */
+export function readPlanningPreferences(state: Record<string, unknown>): PlanningPreferences | undefined {
+  const record = state[PLANNING_PREFERENCES_STATE_KEY];
+  if (!record || typeof record !== 'object') {
+    return undefined;
+  }
+
+  const { budget, max_travel_miles: maxTravelMiles, setting, interests, accessibility, intensity } = record as Record<
+    string,
+    unknown
+  >;
+  const choose = <T extends string>(options: { value: T }[], value: unknown): T | undefined =>
+    options.find((option) => option.value === value)?.value;
+  const preferences: PlanningPreferences = {
+    budget: choose(BUDGET_OPTIONS, budget),
+    maxTravelMiles: typeof maxTravelMiles === 'number' ? maxTravelMiles : undefined,
+    setting: choose(SETTING_OPTIONS, setting),
+    interests: Array.isArray(interests) ? interests.filter((interest): interest is string => typeof interest === 'string') : undefined,
+    accessibility: Array.isArray(accessibility)
+      ? ACCESSIBILITY_OPTIONS.filter((option) => accessibility.includes(option.value)).map((option) => option.value)
+      : undefined,
+    intensity: choose(INTENSITY_OPTIONS, intensity)
+  };
+
+  const chosen = Object.fromEntries(
+    Object.entries(preferences).filter(([, value]) => (Array.isArray(value) ? value.length > 0 : value !== undefined))
+  ) as PlanningPreferences;
+  return hasPlanningPreferences(chosen) ? chosen : undefined;
+}
+
+/**
+ * Lists the differences between what the user typed and what the
+ * PreprocessInputAgent understood, e.g. when it fell back to its default zip
+ * code 90120 and ages 5 and 8, or dropped ages outside 1-18.
+ *
+ * @param input - The form input the plan was requested with
+ * @param parsed - The agent's parsed_input from session state
+ * @returns One user-facing message per differing field; empty if they match
+ *
+ * @example
+ * getInputMismatches({ location: '94105', kidsAges: [] }, { zipCode: '94105', kidAges: [5, 8] });
+ * // ['No kids ages were entered, but the planner assumed 5, 8.']
+ */
+export function getInputMismatches(input: GeneratePlanInput, parsed: ParsedPlanInput): string[] {
+  const mismatches: string[] = [];
+
+  const enteredZip = input.location.trim();
+  if (parsed.zipCode !== enteredZip) {
+    mismatches.push(`You entered zip code ${enteredZip}, but the planner used ${parsed.zipCode}.`);
+  }
+
+  const enteredAges = [...input.kidsAges].sort((a, b) => a - b);
+  const parsedAges = [...parsed.kidAges].sort((a, b) => a - b);
+  if (enteredAges.join(',') !== parsedAges.join(',')) {
+    const used = parsedAges.length > 0 ? parsedAges.join(', ') : 'no ages';
+    mismatches.push(
+      enteredAges.length > 0
+        ? `You entered kids ages ${enteredAges.join(', ')}, but the planner used ${used}.`
+        : `No kids ages were entered, but the planner assumed ${used}.`
+    );
+  }
+
+  return mismatches;
+}
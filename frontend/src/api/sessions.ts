@@ -0,0 +1,210 @@
+/**
+ * ADK session manager for the Weekend Planner frontend.
+ * Wraps the ADK session endpoints under /apps/{app}/users/{user}/sessions:
+ * 
+ * - POST   /sessions/{session}  Create a session with a client-generated ID,
+ *                              optionally seeding its state
+ * - GET    /sessions            List the user's sessions
+ * - GET    /sessions/{session}  Fetch a session with its stored events and state
+ * - DELETE /sessions/{session}  Delete a session
+ * 
+ * Every function applies the default request timeout and throws a
+ * SessionApiError for non-2xx responses. Sessions are validated before
+ * they are returned; a malformed one throws a ResponseValidationError
+ * naming the failing path, e.g. `$.events`.
+ */
+
+import type { ADKSession } from '../types';
+import { DEFAULT_USER_ID, REQUEST_TIMEOUT_MS, getSessionUrl, getSessionsUrl } from './config';
+import { validateADKSession, validateADKSessionList } from './validation';
+
+/**
+ * Error thrown when a session endpoint responds with a non-2xx status.
+ * Carries the status code and raw body for technical details.
+ */
+export class SessionApiError extends Error {
+  /** HTTP status code of the failed response */
+  readonly statusCode: number;
+
+  /** Raw response body, empty if it could not be read */
+  readonly body: string;
+
+  /** Raw Retry-After header of the response, if the server sent one */
+  readonly retryAfter?: string;
+
+  constructor(message: string, statusCode: number, body: string, retryAfter?: string) {
+    super(message);
+    this.name = 'SessionApiError';
+    this.statusCode = statusCode;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Options shared by the session functions.
+ */
+export interface SessionRequestOptions {
+  /**
+   * External abort signal, e.g. the signal of the plan run this request belongs to.
+   * Aborting it rejects with the original AbortError rather than a timeout error.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for createSession().
+ */
+export interface CreateSessionOptions extends SessionRequestOptions {
+  /**
+   * Initial session state. ADK takes it as the request body, so the
+   * agents can read the values from the first turn on.
+   * @default {}
+   */
+  state?: Record<string, unknown>;
+}
+
+/**
+ * Sends a request to a session endpoint with the default timeout.
+ * 
+ * @param method - HTTP method
+ * @param url - Session endpoint URL
+ * @param action - Action name used in error messages, e.g. "Session creation"
+ * @param options - Request options including the optional external signal
+ * @param body - Optional JSON body
+ * @returns The successful response
+ * @throws SessionApiError for non-2xx responses
+ * @throws Error named TimeoutError, "<action> timed out", when the default timeout elapses
+ */
+async function sessionRequest(
+  method: 'GET' | 'POST' | 'DELETE',
+  url: string,
+  action: string,
+  options: SessionRequestOptions,
+  body?: unknown
+): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, REQUEST_TIMEOUT_MS);
+
+  const forwardAbort = (): void => controller.abort();
+  if (options.signal?.aborted) {
+    controller.abort();
+  }
+  options.signal?.addEventListener('abort', forwardAbort);
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body === undefined ? undefined : {
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      throw new SessionApiError(
+        `${action} failed with status ${response.status}`,
+        response.status,
+        errorBody,
+        response.headers.get('Retry-After') ?? undefined
+      );
+    }
+
+    return response;
+  } catch (error) {
+    if (timedOut && error instanceof Error && error.name === 'AbortError') {
+      const timeoutError = new Error(`${action} timed out`);
+      timeoutError.name = 'TimeoutError';
+      throw timeoutError;
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+/**
+ * Creates a new ADK session.
+ * @param userId - The user ID for the session (defaults to 'user-1')
+ * @param sessionId - The session ID (generated via crypto.randomUUID() if not provided)
+ * @param options - Optional request options, including the initial session state
+ * @returns Promise resolving to the session ID on success
+ * @throws SessionApiError if session creation fails
+ * 
+ * @example
+ * const sessionId = await createSession('user-1', undefined, {
+ *   state: { user_input: { zip_code: '94105', kid_ages: '5,8' } }
+ * });
+ */
+export async function createSession(
+  userId: string = DEFAULT_USER_ID,
+  sessionId?: string,
+  options: CreateSessionOptions = {}
+): Promise<string> {
+  const sid = sessionId || crypto.randomUUID();
+  await sessionRequest('POST', getSessionUrl(userId, sid), 'Session creation', options, options.state ?? {});
+  return sid;
+}
+
+/**
+ * Lists the user's sessions, most recently updated first.
+ * ADK omits events from listed sessions; use getSession() to load them.
+ * 
+ * @param userId - The user ID whose sessions to list (defaults to 'user-1')
+ * @param options - Optional request options
+ * @returns Promise resolving to the sessions
+ * @throws SessionApiError if the request fails
+ * @throws ResponseValidationError if the response is not a list of sessions
+ */
+export async function listSessions(
+  userId: string = DEFAULT_USER_ID,
+  options: SessionRequestOptions = {}
+): Promise<ADKSession[]> {
+  const response = await sessionRequest('GET', getSessionsUrl(userId), 'Session listing', options);
+  const sessions = validateADKSessionList(await response.json());
+
+  return sessions.sort((a, b) => (b.lastUpdateTime || 0) - (a.lastUpdateTime || 0));
+}
+
+/**
+ * Fetches a session with its stored events and state.
+ * 
+ * @param sessionId - The session to fetch
+ * @param userId - The user ID that owns the session (defaults to 'user-1')
+ * @param options - Optional request options
+ * @returns Promise resolving to the session
+ * @throws SessionApiError if the session does not exist or the request fails
+ * @throws ResponseValidationError if the response is not a valid session
+ */
+export async function getSession(
+  sessionId: string,
+  userId: string = DEFAULT_USER_ID,
+  options: SessionRequestOptions = {}
+): Promise<ADKSession> {
+  const response = await sessionRequest('GET', getSessionUrl(userId, sessionId), 'Session lookup', options);
+  return validateADKSession(await response.json());
+}
+
+/**
+ * Deletes a session and its stored events.
+ * 
+ * @param sessionId - The session to delete
+ * @param userId - The user ID that owns the session (defaults to 'user-1')
+ * @param options - Optional request options
+ * @throws SessionApiError if the request fails
+ */
+export async function deleteSession(
+  sessionId: string,
+  userId: string = DEFAULT_USER_ID,
+  options: SessionRequestOptions = {}
+): Promise<void> {
+  await sessionRequest('DELETE', getSessionUrl(userId, sessionId), 'Session deletion', options);
+}
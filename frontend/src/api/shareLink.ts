@@ -0,0 +1,270 @@
+/**
+ * Share links that carry a whole plan in the URL fragment.
+ *
+ * A plan's input and summary text are serialized as JSON, compressed with
+ * raw DEFLATE and base64url-encoded behind a format version:
+ *
+ *   https://planner.example/#plan=1.<base64url data>
+ *
+ * The fragment never reaches a server, so links work without any backend
+ * storage. Links longer than MAX_SHARE_FRAGMENT_LENGTH are refused when
+ * created and when opened, since messaging apps and some browsers cut
+ * long URLs short. Opened links are checked like imported files: the input
+ * must hold valid children, dates and preferences before it is used.
+ */
+
+import { isChild, validateChildren } from './children';
+import { isPlanningPreferences } from './preferences';
+import { isWeekendDates } from './weekend';
+import type { GeneratePlanInput, SharedPlan } from '../types';
+
+/** Fragment parameter holding the shared plan */
+export const SHARE_LINK_PARAM = 'plan';
+
+/** Current share link format version; links with a newer version are refused */
+export const SHARE_LINK_VERSION = 1;
+
+/** Longest fragment value accepted, in characters */
+export const MAX_SHARE_FRAGMENT_LENGTH = 8000;
+
+/**
+ * Most bytes a link may decompress to. Checked while decompressing, so an
+ * inflated payload is refused before it is held in memory in full.
+ */
+const MAX_DECOMPRESSED_BYTES = 100_000;
+
+/**
+ * Why a share link could not be created or opened.
+ */
+export type ShareLinkErrorReason = 'too-large' | 'invalid' | 'unsupported-version' | 'unsupported-browser';
+
+/**
+ * User-facing message for each ShareLinkErrorReason.
+ */
+export const SHARE_LINK_ERROR_MESSAGES: Record<ShareLinkErrorReason, string> = {
+  'too-large': 'This plan is too long to share as a link. Export it as JSON instead.',
+  invalid: 'This share link is damaged or incomplete.',
+  'unsupported-version': 'This share link was made by a newer version of Weekend Planner.',
+  'unsupported-browser': 'This browser cannot create or open share links.'
+};
+
+/**
+ * Thrown when a share link cannot be created or opened.
+ * The message is suitable for display; reason identifies the cause.
+ */
+export class ShareLinkError extends Error {
+  readonly reason: ShareLinkErrorReason;
+
+  constructor(reason: ShareLinkErrorReason) {
+    super(SHARE_LINK_ERROR_MESSAGES[reason]);
+    this.name = 'ShareLinkError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Runs bytes through a compression or decompression stream.
+ *
+ * @param bytes - Input bytes
+ * @param transform - CompressionStream or DecompressionStream
+ * @param maxBytes - Most output bytes accepted (default: no limit)
+ * @returns Output bytes
+ * @throws ShareLinkError 'too-large' as soon as the output exceeds maxBytes
+ */
+async function pipeBytes(
+  bytes: Uint8Array,
+  transform: GenericTransformStream,
+  maxBytes: number = Infinity
+): Promise<Uint8Array> {
+  const body = new Response(bytes as BufferSource).body;
+  if (!body) {
+    throw new ShareLinkError('unsupported-browser');
+  }
+
+  const reader = body.pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    length += chunk.value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      throw new ShareLinkError('too-large');
+    }
+    chunks.push(chunk.value);
+  }
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/**
+ * Encodes bytes as unpadded base64url.
+ *
+ * @param bytes - The bytes to encode
+ * @returns URL-safe base64 text
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes unpadded base64url.
+ *
+ * @param text - URL-safe base64 text
+ * @returns The decoded bytes
+ * @throws ShareLinkError when the text is not base64url
+ */
+function fromBase64Url(text: string): Uint8Array {
+  if (!/^[\w-]*$/.test(text)) {
+    throw new ShareLinkError('invalid');
+  }
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    throw new ShareLinkError('invalid');
+  }
+}
+
+/**
+ * Checks a decoded payload is a shared plan.
+ *
+ * @param value - The parsed JSON payload
+ * @returns Whether it has plan text and a well-formed input, if any: a zip code and ages,
+ *   and valid children, dates and preferences where present
+ */
+function isSharedPlan(value: unknown): value is SharedPlan {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { planText, input } = value as { planText?: unknown; input?: Partial<GeneratePlanInput> };
+  if (typeof planText !== 'string' || planText.trim().length === 0) {
+    return false;
+  }
+  return (
+    input === undefined ||
+    (typeof input === 'object' &&
+      input !== null &&
+      typeof input.location === 'string' &&
+      Array.isArray(input.kidsAges) &&
+      input.kidsAges.every((age) => typeof age === 'number') &&
+      (input.children === undefined ||
+        (Array.isArray(input.children) &&
+          input.children.every(isChild) &&
+          validateChildren(input.children) === undefined)) &&
+      (input.dates === undefined || isWeekendDates(input.dates)) &&
+      (input.preferences === undefined || isPlanningPreferences(input.preferences)))
+  );
+}
+
+/**
+ * Encodes a plan as a share link fragment value.
+ *
+ * @param plan - The plan's input and summary text
+ * @returns e.g. "1.jZDBTsMw..."
+ * @throws ShareLinkError 'too-large' when the value exceeds MAX_SHARE_FRAGMENT_LENGTH,
+ *   'unsupported-browser' without CompressionStream
+ */
+export async function encodeSharedPlan(plan: SharedPlan): Promise<string> {
+  if (typeof CompressionStream === 'undefined') {
+    throw new ShareLinkError('unsupported-browser');
+  }
+  const payload: SharedPlan = { ...(plan.input && { input: plan.input }), planText: plan.planText };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const token = `${SHARE_LINK_VERSION}.${toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))}`;
+  if (token.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    throw new ShareLinkError('too-large');
+  }
+  return token;
+}
+
+/**
+ * Decodes a share link fragment value.
+ *
+ * @param token - The value of the fragment's plan parameter
+ * @returns The shared plan
+ * @throws ShareLinkError 'too-large', 'invalid', 'unsupported-version' or 'unsupported-browser'
+ */
+export async function decodeSharedPlan(token: string): Promise<SharedPlan> {
+  if (token.length > MAX_SHARE_FRAGMENT_LENGTH) {
+    throw new ShareLinkError('too-large');
+  }
+  const match = /^(\d+)\.(.+)$/.exec(token);
+  if (!match) {
+    throw new ShareLinkError('invalid');
+  }
+  if (Number(match[1]) > SHARE_LINK_VERSION) {
+    throw new ShareLinkError('unsupported-version');
+  }
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ShareLinkError('unsupported-browser');
+  }
+
+  const compressed = fromBase64Url(match[2]);
+  let json: string;
+  try {
+    json = new TextDecoder().decode(
+      await pipeBytes(compressed, new DecompressionStream('deflate-raw'), MAX_DECOMPRESSED_BYTES)
+    );
+  } catch (error) {
+    throw error instanceof ShareLinkError ? error : new ShareLinkError('invalid');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new ShareLinkError('invalid');
+  }
+  if (!isSharedPlan(payload)) {
+    throw new ShareLinkError('invalid');
+  }
+  return { ...(payload.input && { input: payload.input }), planText: payload.planText };
+}
+
+/**
+ * Builds a share link for a plan.
+ *
+ * @param plan - The plan's input and summary text
+ * @param baseUrl - Page the link opens; any existing fragment is replaced
+ * @returns The full share URL
+ * @throws ShareLinkError when the plan is too long to share
+ *
+ * @example
+ * const url = await createShareUrl({ input, planText });
+ * await navigator.clipboard.writeText(url);
+ */
+export async function createShareUrl(plan: SharedPlan, baseUrl: string = window.location.href): Promise<string> {
+  const url = new URL(baseUrl);
+  url.hash = `${SHARE_LINK_PARAM}=${await encodeSharedPlan(plan)}`;
+  return url.toString();
+}
+
+/**
+ * Finds the shared plan in a URL fragment.
+ *
+ * @param hash - location.hash, with or without the leading "#"
+ * @returns The encoded plan, or null when the fragment holds none
+ */
+export function getSharedPlanToken(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_LINK_PARAM);
+}
+
+/**
+ * Removes a share link's fragment from the address bar, so reloading the
+ * page does not reopen the shared plan. Other fragments are left alone.
+ */
+export function clearSharedPlanFragment(): void {
+  if (getSharedPlanToken(window.location.hash) !== null) {
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}`);
+  }
+}
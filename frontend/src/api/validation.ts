@@ -0,0 +1,387 @@
+/**
+ * Runtime validation of ADK responses.
+ *
+ * Response bodies are plain JSON, so the ADKEvent and ADKSession types are
+ * only a promise. These validators check the fields the client relies on
+ * (text, tool calls, grounding and usage metadata, session IDs, events and
+ * state) before a response is used, and report the
+ * first problem with its exact path (e.g. `$[2].content.parts[0].text`),
+ * what was expected there and a snippet of the offending data. Fields the
+ * client does not read are passed through unchecked, so newer ADK versions
+ * can add fields without breaking validation.
+ */
+
+import type { ADKEvent, ADKResponse, ADKSession, DecodeFailure, MessageContent, MessagePart } from '../types';
+
+/** Maximum length of the JSON snippet attached to a validation failure */
+const MAX_SNIPPET_LENGTH = 200;
+
+/**
+ * Thrown when a response does not match the expected ADK shape.
+ * Carries the DecodeFailure for the typed parse error.
+ */
+export class ResponseValidationError extends Error {
+  /** Where and why validation failed */
+  readonly failure: DecodeFailure;
+
+  constructor(failure: DecodeFailure) {
+    super(`${failure.path}: ${failure.reason}`);
+    this.name = 'ResponseValidationError';
+    this.failure = failure;
+  }
+}
+
+/**
+ * Truncates raw response text to MAX_SNIPPET_LENGTH for display.
+ *
+ * @param text - The text to truncate
+ * @returns The text, ending in an ellipsis if it was cut
+ */
+export function clipSnippet(text: string): string {
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}…` : text;
+}
+
+/**
+ * Serializes a value for display, truncated to MAX_SNIPPET_LENGTH.
+ *
+ * @param value - The value to serialize
+ * @returns JSON text, or a description for values JSON cannot represent
+ */
+function toSnippet(value: unknown): string {
+  try {
+    return clipSnippet(JSON.stringify(value) ?? String(value));
+  } catch {
+    return clipSnippet(String(value));
+  }
+}
+
+/**
+ * Describes the JSON type of a value for failure reasons.
+ *
+ * @param value - The value to describe
+ * @returns e.g. "a string", "an array", "null" or "nothing"
+ */
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+/**
+ * Throws a ResponseValidationError for the value at a path.
+ *
+ * @param path - Location of the invalid value
+ * @param expected - What should have been there, e.g. "a string"
+ * @param value - What was found
+ * @param context - Data to show instead when the value itself is missing
+ */
+function fail(path: string, expected: string, value: unknown, context?: unknown): never {
+  throw new ResponseValidationError({
+    path,
+    reason: `expected ${expected}, got ${describeValue(value)}`,
+    snippet: toSnippet(value === undefined ? context : value)
+  });
+}
+
+/**
+ * Checks that a value is a plain object.
+ *
+ * @param value - The value to check
+ * @param path - Location of the value
+ * @param context - Data to show if the value is missing
+ * @returns The value as a record
+ */
+function expectObject(value: unknown, path: string, context?: unknown): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'an object', value, context);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Checks an optional field is an object when present.
+ *
+ * @param record - The object holding the field
+ * @param key - Name of the field
+ * @param path - Location of the object
+ */
+function expectOptionalObject(record: Record<string, unknown>, key: string, path: string): void {
+  if (record[key] !== undefined) {
+    expectObject(record[key], `${path}.${key}`);
+  }
+}
+
+/**
+ * Checks an optional field is a string when present.
+ *
+ * @param record - The object holding the field
+ * @param key - Name of the field
+ * @param path - Location of the object
+ */
+function expectOptionalString(record: Record<string, unknown>, key: string, path: string): void {
+  if (record[key] !== undefined && typeof record[key] !== 'string') {
+    fail(`${path}.${key}`, 'a string', record[key]);
+  }
+}
+
+/**
+ * Validates a function call or function response: a named tool with an
+ * optional object payload (args or response).
+ *
+ * @param value - The raw call or response
+ * @param path - Location of the value
+ * @param payloadKey - Name of the payload field
+ * @throws ResponseValidationError if the value is invalid
+ */
+function validateToolPart(value: unknown, path: string, payloadKey: 'args' | 'response'): void {
+  const tool = expectObject(value, path);
+  if (typeof tool.name !== 'string') {
+    fail(`${path}.name`, 'a string', tool.name, tool);
+  }
+  expectOptionalObject(tool, payloadKey, path);
+}
+
+/**
+ * Validates one content part: text, a function call or a function response.
+ * Other part types are accepted as-is.
+ *
+ * @param value - The raw part
+ * @param path - Location of the part
+ * @returns The validated part
+ * @throws ResponseValidationError if the part is invalid
+ */
+function validateMessagePart(value: unknown, path: string): MessagePart {
+  const part = expectObject(value, path);
+  if (part.text !== undefined && typeof part.text !== 'string') {
+    fail(`${path}.text`, 'a string', part.text);
+  }
+  if (part.functionCall !== undefined) {
+    validateToolPart(part.functionCall, `${path}.functionCall`, 'args');
+  }
+  if (part.functionResponse !== undefined) {
+    validateToolPart(part.functionResponse, `${path}.functionResponse`, 'response');
+  }
+  return part as MessagePart;
+}
+
+/**
+ * Validates the grounding metadata of an event.
+ *
+ * @param value - The raw grounding metadata
+ * @param path - Location of the metadata
+ * @throws ResponseValidationError if the metadata is invalid
+ */
+function validateGroundingMetadata(value: unknown, path: string): void {
+  const grounding = expectObject(value, path);
+
+  const queries = grounding.webSearchQueries;
+  if (queries !== undefined) {
+    if (!Array.isArray(queries)) {
+      fail(`${path}.webSearchQueries`, 'an array', queries);
+    }
+    queries.forEach((query, index) => {
+      if (typeof query !== 'string') {
+        fail(`${path}.webSearchQueries[${index}]`, 'a string', query);
+      }
+    });
+  }
+
+  const chunks = grounding.groundingChunks;
+  if (chunks !== undefined) {
+    if (!Array.isArray(chunks)) {
+      fail(`${path}.groundingChunks`, 'an array', chunks);
+    }
+    chunks.forEach((chunk, index) => {
+      const chunkPath = `${path}.groundingChunks[${index}]`;
+      const record = expectObject(chunk, chunkPath);
+      if (record.web !== undefined) {
+        const web = expectObject(record.web, `${chunkPath}.web`);
+        expectOptionalString(web, 'uri', `${chunkPath}.web`);
+        expectOptionalString(web, 'title', `${chunkPath}.web`);
+      }
+    });
+  }
+
+  const supports = grounding.groundingSupports;
+  if (supports !== undefined) {
+    if (!Array.isArray(supports)) {
+      fail(`${path}.groundingSupports`, 'an array', supports);
+    }
+    supports.forEach((support, index) => {
+      const supportPath = `${path}.groundingSupports[${index}]`;
+      const record = expectObject(support, supportPath);
+      if (record.segment !== undefined) {
+        const segment = expectObject(record.segment, `${supportPath}.segment`);
+        expectOptionalString(segment, 'text', `${supportPath}.segment`);
+      }
+      const indices = record.groundingChunkIndices;
+      if (indices !== undefined && (!Array.isArray(indices) || indices.some((item) => typeof item !== 'number'))) {
+        fail(`${supportPath}.groundingChunkIndices`, 'an array of numbers', indices);
+      }
+    });
+  }
+}
+
+/**
+ * Validates the usage metadata of an event: all counts are numbers.
+ *
+ * @param value - The raw usage metadata
+ * @param path - Location of the metadata
+ * @throws ResponseValidationError if the metadata is invalid
+ */
+function validateUsageMetadata(value: unknown, path: string): void {
+  const usage = expectObject(value, path);
+  for (const key of ['promptTokenCount', 'candidatesTokenCount', 'totalTokenCount']) {
+    if (usage[key] !== undefined && typeof usage[key] !== 'number') {
+      fail(`${path}.${key}`, 'a number', usage[key]);
+    }
+  }
+}
+
+/**
+ * Validates the content of an event.
+ *
+ * @param value - The raw content
+ * @param path - Location of the content
+ * @returns The validated content
+ * @throws ResponseValidationError if the content or one of its parts is invalid
+ */
+function validateMessageContent(value: unknown, path: string): MessageContent {
+  const content = expectObject(value, path);
+  if (typeof content.role !== 'string') {
+    fail(`${path}.role`, 'a string', content.role, content);
+  }
+  if (!Array.isArray(content.parts)) {
+    fail(`${path}.parts`, 'an array', content.parts, content);
+  }
+  content.parts.forEach((part, index) => validateMessagePart(part, `${path}.parts[${index}]`));
+  return content as unknown as MessageContent;
+}
+
+/**
+ * Validates a single ADK event.
+ *
+ * @param value - The raw event, e.g. one parsed SSE payload
+ * @param path - Location of the event, used in failure paths (default: '$')
+ * @returns The validated event
+ * @throws ResponseValidationError if the event is invalid
+ *
+ * @example
+ * validateADKEvent({ id: '1', timestamp: 1710498600, author: 'model' });
+ */
+export function validateADKEvent(value: unknown, path: string = '$'): ADKEvent {
+  const event = expectObject(value, path);
+
+  if (typeof event.id !== 'string') {
+    fail(`${path}.id`, 'a string', event.id, event);
+  }
+  if (typeof event.timestamp !== 'string' && typeof event.timestamp !== 'number') {
+    fail(`${path}.timestamp`, 'a string or number', event.timestamp, event);
+  }
+  if (typeof event.author !== 'string') {
+    fail(`${path}.author`, 'a string', event.author, event);
+  }
+  if (event.content !== undefined) {
+    validateMessageContent(event.content, `${path}.content`);
+  }
+  if (event.groundingMetadata !== undefined) {
+    validateGroundingMetadata(event.groundingMetadata, `${path}.groundingMetadata`);
+  }
+  if (event.usageMetadata !== undefined) {
+    validateUsageMetadata(event.usageMetadata, `${path}.usageMetadata`);
+  }
+  if (event.partial !== undefined && typeof event.partial !== 'boolean') {
+    fail(`${path}.partial`, 'a boolean', event.partial);
+  }
+
+  return event as unknown as ADKEvent;
+}
+
+/**
+ * Validates a complete ADK response: an array of events.
+ * An error envelope such as `{"detail": "..."}` is reported as such.
+ *
+ * @param value - The parsed response body
+ * @returns The validated events
+ * @throws ResponseValidationError at the first invalid value
+ *
+ * @example
+ * try {
+ *   const events = validateADKResponse(await response.json());
+ * } catch (error) {
+ *   if (error instanceof ResponseValidationError) {
+ *     console.log(error.failure.path, error.failure.reason);
+ *   }
+ * }
+ */
+export function validateADKResponse(value: unknown): ADKResponse {
+  if (!Array.isArray(value)) {
+    const record = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : undefined;
+    const envelopeMessage = record?.detail ?? record?.error;
+    if (typeof envelopeMessage === 'string') {
+      throw new ResponseValidationError({
+        path: '$',
+        reason: `expected an array of events, got an error response: ${envelopeMessage}`,
+        snippet: toSnippet(value)
+      });
+    }
+    fail('$', 'an array of events', value);
+  }
+
+  return value.map((event, index) => validateADKEvent(event, `$[${index}]`));
+}
+
+/**
+ * Validates a session from the ADK session endpoints. Missing events and
+ * state, as in listed sessions, default to empty.
+ *
+ * @param value - The parsed session
+ * @param path - Location of the session, used in failure paths (default: '$')
+ * @returns The validated session with events and state filled in
+ * @throws ResponseValidationError at the first invalid value
+ *
+ * @example
+ * const session = validateADKSession(await response.json());
+ * session.events.forEach((event) => console.log(event.author));
+ */
+export function validateADKSession(value: unknown, path: string = '$'): ADKSession {
+  const session = expectObject(value, path);
+
+  if (typeof session.id !== 'string') {
+    fail(`${path}.id`, 'a string', session.id, session);
+  }
+  if (session.events !== undefined && session.events !== null && !Array.isArray(session.events)) {
+    fail(`${path}.events`, 'an array of events', session.events);
+  }
+  const events = ((session.events ?? []) as unknown[]).map((event, index) =>
+    validateADKEvent(event, `${path}.events[${index}]`)
+  );
+  const state =
+    session.state === undefined || session.state === null ? {} : expectObject(session.state, `${path}.state`);
+  if (session.lastUpdateTime !== undefined && typeof session.lastUpdateTime !== 'number') {
+    fail(`${path}.lastUpdateTime`, 'a number', session.lastUpdateTime);
+  }
+
+  return { ...session, events, state } as unknown as ADKSession;
+}
+
+/**
+ * Validates the session list endpoint's response: an array of sessions.
+ *
+ * @param value - The parsed response body
+ * @returns The validated sessions
+ * @throws ResponseValidationError at the first invalid value
+ */
+export function validateADKSessionList(value: unknown): ADKSession[] {
+  if (!Array.isArray(value)) {
+    fail('$', 'an array of sessions', value);
+  }
+  return value.map((session, index) => validateADKSession(session, `$[${index}]`));
+}
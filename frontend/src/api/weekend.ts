@@ -0,0 +1,312 @@
+/**
+ * The weekend a plan is for.
+ *
+ * InputForm offers this weekend, next weekend or a range of picked dates.
+ * Weekends next to a US federal holiday on the Friday or Monday are
+ * extended to the long weekend. describeWeekendDates() writes the sentence
+ * added to the prompt, so the agents plan for these days instead of
+ * guessing at "upcoming", and isWeekendPast() flags plans whose weekend is
+ * over. Dates are kept as local YYYY-MM-DD strings, so they survive
+ * history, exports and share links unchanged in any time zone.
+ */
+
+import type { WeekendDates } from '../types';
+
+/**
+ * Which weekend the form plans for.
+ * - this: The upcoming weekend, or the current one on a Saturday or Sunday
+ * - next: The weekend after that
+ * - custom: Dates picked by the user
+ */
+export type WeekendChoice = 'this' | 'next' | 'custom';
+
+/** Most days a picked date range may span */
+export const MAX_TRIP_DAYS = 4;
+
+/**
+ * A US federal holiday: either a fixed day of the month, moved to the
+ * Friday or Monday when it falls on a weekend, or the nth weekday of the
+ * month (-1 for the last).
+ */
+type HolidayRule = { name: string; month: number } & ({ day: number } | { weekday: number; nth: number });
+
+/** US federal holidays, in calendar order */
+const HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", month: 0, day: 1 },
+  { name: 'Martin Luther King Jr. Day', month: 0, weekday: 1, nth: 3 },
+  { name: "Presidents' Day", month: 1, weekday: 1, nth: 3 },
+  { name: 'Memorial Day', month: 4, weekday: 1, nth: -1 },
+  { name: 'Juneteenth', month: 5, day: 19 },
+  { name: 'Independence Day', month: 6, day: 4 },
+  { name: 'Labor Day', month: 8, weekday: 1, nth: 1 },
+  { name: 'Columbus Day', month: 9, weekday: 1, nth: 2 },
+  { name: 'Veterans Day', month: 10, day: 11 },
+  { name: 'Thanksgiving', month: 10, weekday: 4, nth: 4 },
+  { name: 'Christmas Day', month: 11, day: 25 }
+];
+
+/**
+ * Adds days to a date, at local midnight. addDays(date, 0) drops the time of day.
+ *
+ * @param date - The date
+ * @param days - Days to add; negative to go back
+ * @returns The new date
+ */
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Formats a date as a local YYYY-MM-DD string.
+ *
+ * @param date - The date
+ * @returns e.g. "2026-10-24"
+ */
+export function toIsoDate(date: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Reads a local YYYY-MM-DD string.
+ *
+ * @param text - e.g. "2026-10-24"
+ * @returns The date at local midnight, or undefined when the text is not a real date
+ */
+export function parseIsoDate(text: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toIsoDate(date) === text ? date : undefined;
+}
+
+/**
+ * Works out the day a holiday is observed in a year.
+ *
+ * @param rule - The holiday
+ * @param year - The year
+ * @returns The observed date
+ */
+function getObservedDate(rule: HolidayRule, year: number): Date {
+  if ('day' in rule) {
+    const date = new Date(year, rule.month, rule.day);
+    const weekday = date.getDay();
+    return weekday === 6 ? addDays(date, -1) : weekday === 0 ? addDays(date, 1) : date;
+  }
+  if (rule.nth === -1) {
+    const last = new Date(year, rule.month + 1, 0);
+    return addDays(last, -((last.getDay() - rule.weekday + 7) % 7));
+  }
+  const first = new Date(year, rule.month, 1);
+  return addDays(first, ((rule.weekday - first.getDay() + 7) % 7) + 7 * (rule.nth - 1));
+}
+
+/**
+ * Finds the federal holiday observed on a date.
+ *
+ * @param date - The date
+ * @returns The holiday's name, or undefined on other days
+ */
+export function findHoliday(date: Date): string | undefined {
+  const iso = toIsoDate(date);
+  // New Year's Day on a Saturday is observed on December 31 of the year before
+  const years = [date.getFullYear(), date.getFullYear() + 1];
+  return HOLIDAYS.find((rule) => years.some((year) => toIsoDate(getObservedDate(rule, year)) === iso))?.name;
+}
+
+/**
+ * Builds the dates from a first to a last day, naming the first holiday
+ * observed in between.
+ *
+ * @param start - First day
+ * @param end - Last day
+ * @returns The dates
+ */
+export function createWeekendDates(start: Date, end: Date): WeekendDates {
+  let holiday: string | undefined;
+  for (let day = start; day <= end && !holiday; day = addDays(day, 1)) {
+    holiday = findHoliday(day);
+  }
+  return { start: toIsoDate(start), end: toIsoDate(end), ...(holiday && { holiday }) };
+}
+
+/**
+ * Returns the Saturday of the upcoming weekend at local midnight: today
+ * on a Saturday, yesterday on a Sunday, otherwise the next Saturday.
+ *
+ * @param now - The current date
+ * @returns The weekend's Saturday
+ *
+ * @example
+ * getUpcomingWeekend(new Date(2026, 9, 19)); // Sat Oct 24 2026
+ */
+export function getUpcomingWeekend(now: Date = new Date()): Date {
+  const day = now.getDay();
+  return addDays(now, day === 0 ? -1 : 6 - day);
+}
+
+/**
+ * Builds the dates of the weekend starting on a Saturday, extended to the
+ * Friday before or the Monday after when that day is a holiday.
+ *
+ * @param saturday - Saturday of the weekend
+ * @returns The dates
+ *
+ * @example
+ * getWeekendDates(new Date(2026, 8, 5));
+ * // { start: '2026-09-05', end: '2026-09-07', holiday: 'Labor Day' }
+ */
+export function getWeekendDates(saturday: Date): WeekendDates {
+  const friday = addDays(saturday, -1);
+  const monday = addDays(saturday, 2);
+  return createWeekendDates(
+    findHoliday(friday) ? friday : saturday,
+    findHoliday(monday) ? monday : addDays(saturday, 1)
+  );
+}
+
+/**
+ * Builds the dates of this or next weekend.
+ *
+ * @param choice - Which weekend
+ * @param now - The current date
+ * @returns The weekend's dates, including a holiday Friday or Monday
+ */
+export function getPresetWeekend(choice: Exclude<WeekendChoice, 'custom'>, now: Date = new Date()): WeekendDates {
+  const saturday = getUpcomingWeekend(now);
+  return getWeekendDates(choice === 'next' ? addDays(saturday, 7) : saturday);
+}
+
+/**
+ * Checks picked dates.
+ *
+ * @param start - First day as YYYY-MM-DD, as given by a date input
+ * @param end - Last day as YYYY-MM-DD
+ * @param now - The current date
+ * @returns The validation message, or undefined when the dates are valid
+ */
+export function validateWeekendDates(start: string, end: string, now: Date = new Date()): string | undefined {
+  const first = parseIsoDate(start);
+  const last = parseIsoDate(end);
+  if (!first || !last) {
+    return 'Choose a start and an end date';
+  }
+  if (last < first) {
+    return 'The end date cannot be before the start date';
+  }
+  if (last < addDays(now, 0)) {
+    return 'These dates have already passed';
+  }
+  if (addDays(first, MAX_TRIP_DAYS) <= last) {
+    return `Choose at most ${MAX_TRIP_DAYS} days`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks a stored value is a WeekendDates, e.g. from an imported file.
+ *
+ * @param value - The value
+ * @returns Whether it has real start and end dates in order
+ */
+export function isWeekendDates(value: unknown): value is WeekendDates {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { start, end, holiday } = value as Partial<Record<keyof WeekendDates, unknown>>;
+  const first = typeof start === 'string' ? parseIsoDate(start) : undefined;
+  const last = typeof end === 'string' ? parseIsoDate(end) : undefined;
+  return (
+    first !== undefined &&
+    last !== undefined &&
+    first <= last &&
+    (holiday === undefined || typeof holiday === 'string')
+  );
+}
+
+/**
+ * Formats a date range, naming the year once.
+ *
+ * @param dates - The dates
+ * @param style - Short ("Sat, Oct 24") or long ("Saturday, October 24") names
+ * @returns e.g. "Sat, Oct 24 – Sun, Oct 25, 2026"
+ */
+function formatRange(dates: WeekendDates, style: 'short' | 'long'): string {
+  const first = parseIsoDate(dates.start) ?? new Date(NaN);
+  const last = parseIsoDate(dates.end) ?? first;
+  const format = (date: Date, withYear: boolean): string =>
+    date.toLocaleDateString('en-US', {
+      weekday: style,
+      month: style,
+      day: 'numeric',
+      ...(withYear && { year: 'numeric' })
+    });
+
+  if (dates.start === dates.end) {
+    return format(first, true);
+  }
+  const separator = style === 'short' ? ' – ' : ' to ';
+  return `${format(first, first.getFullYear() !== last.getFullYear())}${separator}${format(last, true)}`;
+}
+
+/**
+ * Formats the dates for display.
+ *
+ * @param dates - The dates
+ * @returns e.g. "Sat, Sep 5 – Mon, Sep 7, 2026 (Labor Day weekend)"
+ */
+export function formatWeekendDates(dates: WeekendDates): string {
+  const range = formatRange(dates, 'short');
+  return dates.holiday ? `${range} (${dates.holiday} weekend)` : range;
+}
+
+/**
+ * Writes the prompt sentence naming the plan's dates.
+ *
+ * @param dates - The plan's dates, if any
+ * @returns The sentence, or an empty string without dates
+ *
+ * @example
+ * describeWeekendDates({ start: '2026-10-24', end: '2026-10-25' });
+ * // 'The trip is for Saturday, October 24 to Sunday, October 25, 2026.'
+ */
+export function describeWeekendDates(dates: WeekendDates | undefined): string {
+  if (!dates) {
+    return '';
+  }
+  const sentence = `The trip is for ${formatRange(dates, 'long')}.`;
+  return dates.holiday ? `${sentence} It is the ${dates.holiday} long weekend.` : sentence;
+}
+
+/**
+ * Checks whether the weekend is over.
+ *
+ * @param dates - The plan's dates
+ * @param now - The current date
+ * @returns Whether the last day was before today
+ */
+export function isWeekendPast(dates: WeekendDates, now: Date = new Date()): boolean {
+  const last = parseIsoDate(dates.end);
+  return last !== undefined && last < addDays(now, 0);
+}
+
+/**
+ * Lists every day of the dates, e.g. for placing calendar events on them.
+ *
+ * @param dates - The plan's dates
+ * @returns Each day from the first to the last, at local midnight; empty when the dates are invalid
+ */
+export function listWeekendDays(dates: WeekendDates): Date[] {
+  const first = parseIsoDate(dates.start);
+  const last = parseIsoDate(dates.end);
+  const days: Date[] = [];
+  if (!first || !last) {
+    return days;
+  }
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
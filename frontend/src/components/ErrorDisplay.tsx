@@ -2,120 +2,47 @@
  * ErrorDisplay Component
  *
  * React functional component for displaying error states with user-friendly
- * messages and expandable technical details. Supports multiple error types
- * including network failures, timeouts, HTTP errors, and CORS issues.
+ * messages and expandable technical details. Displays the typed PlanError
+ * produced by the API client, whose message already matches its kind
+ * (network, timeout, cors, client, server, parse, rate-limited, ...).
  *
  * @fileoverview Provides accessible error display with:
- * - User-friendly error messages based on error type
- * - Expandable "Technical Details" section showing status code and raw body
+ * - The error's user-friendly message
+ * - Expandable "Technical Details" section showing status code and raw body,
+ *   or where a malformed response failed validation and the offending snippet
  * - Optional retry callback functionality
+ * - Optional automatic-retry countdown the user can cancel
  * - WCAG AA compliant ARIA attributes
  */
 
-import { useState } from 'react';
-
-/**
- * Error object structure for the ErrorDisplay component.
- * Contains both user-facing and technical error information.
- */
-export interface ErrorDisplayError {
-  /** User-friendly or technical error message */
-  message: string;
-  /** HTTP status code if available (e.g., 400, 500) */
-  statusCode?: number;
-  /** Raw error body from server response for technical debugging */
-  body?: string;
-  /** Error type classification for determining user message */
-  type?: 'network' | 'timeout' | 'cors' | 'client' | 'server' | 'parse' | string;
-}
+import { useEffect, useState } from 'react';
+import type { PlanError } from '../types';
 
 /**
  * Props interface for the ErrorDisplay component
  */
 export interface ErrorDisplayProps {
-  /** Error details to display */
-  error: ErrorDisplayError;
+  /** Error details to display, as produced by the API client */
+  error: PlanError;
   /** Optional callback function when user clicks "Try Again" button */
   onRetry?: () => void;
-}
-
-/**
- * Maps error types and status codes to user-friendly messages.
- * Provides appropriate messaging for different error scenarios.
- *
- * @param error - The error object containing type, status code, and message
- * @returns A user-friendly message string suitable for display
- */
-function getUserMessage(error: ErrorDisplayError): string {
-  // Check for specific error types first
-  if (error.type) {
-    switch (error.type) {
-      case 'network':
-        return "Couldn't reach the backend. Make sure the ADK server is running with `adk web`";
-      case 'timeout':
-        return 'Request timed out. Please try again.';
-      case 'cors':
-        return 'Connection blocked. See README for proxy setup.';
-      case 'parse':
-        return 'Received an unexpected response format';
-      case 'client':
-        // 4xx client errors - include brief description if available
-        return `Invalid request: ${error.message || 'Please check your input and try again.'}`;
-      case 'server':
-        return 'Something went wrong on the server. Please try again.';
-      default:
-        // Fall through to status code check
-        break;
-    }
-  }
-
-  // Check status code if type is not specific enough
-  if (error.statusCode !== undefined) {
-    if (error.statusCode >= 400 && error.statusCode < 500) {
-      // 4xx client errors
-      return `Invalid request: ${error.message || 'Please check your input and try again.'}`;
-    }
-    if (error.statusCode >= 500) {
-      // 5xx server errors
-      return 'Something went wrong on the server. Please try again.';
-    }
-  }
-
-  // Check for common error message patterns
-  const lowerMessage = error.message.toLowerCase();
-  if (
-    lowerMessage.includes('fetch') ||
-    lowerMessage.includes('network') ||
-    lowerMessage.includes('connection refused') ||
-    lowerMessage.includes('econnrefused')
-  ) {
-    return "Couldn't reach the backend. Make sure the ADK server is running with `adk web`";
-  }
-  if (lowerMessage.includes('timeout') || lowerMessage.includes('aborted')) {
-    return 'Request timed out. Please try again.';
-  }
-  if (lowerMessage.includes('cors')) {
-    return 'Connection blocked. See README for proxy setup.';
-  }
-  if (
-    lowerMessage.includes('json') ||
-    lowerMessage.includes('parse') ||
-    lowerMessage.includes('unexpected')
-  ) {
-    return 'Received an unexpected response format';
-  }
-
-  // Default fallback - use the original message if it exists
-  return error.message || 'Received an unexpected response format';
+  /**
+   * Delay in milliseconds before onRetry is called automatically.
+   * Shows a countdown with a button to cancel the automatic retry;
+   * ignored without onRetry.
+   */
+  autoRetryDelayMs?: number;
 }
 
 /**
  * Error display component with expandable technical details.
  *
  * Renders a styled error container with:
- * - Alert icon and user-friendly message
+ * - Alert icon and the error's user-friendly message
  * - Optional "Try Again" button when onRetry callback is provided
- * - Collapsible "Technical Details" section showing status code and raw body
+ * - Optional countdown that calls onRetry automatically unless cancelled
+ * - Collapsible "Technical Details" section showing status code, raw body and
+ *   validation failures
  *
  * Implements proper ARIA attributes for accessibility:
  * - role="alert" for screen reader announcement
@@ -123,35 +50,54 @@ function getUserMessage(error: ErrorDisplayError): string {
  * - aria-expanded on toggle button for details section
  * - aria-controls linking toggle to details section
  *
- * @param props - Component props containing error details and optional retry callback
+ * @param props - Component props containing error details, optional retry callback and auto-retry delay
  * @returns React element displaying the error with optional technical details
  *
  * @example
  * // Basic error display
- * <ErrorDisplay
- *   error={{ message: "Network error", type: "network" }}
- * />
+ * <ErrorDisplay error={createPlanError('network')} />
  *
  * @example
  * // Error with retry and technical details
  * <ErrorDisplay
- *   error={{
- *     message: "Bad request",
- *     statusCode: 400,
- *     body: '{"error": "Invalid input"}',
- *     type: "client"
- *   }}
+ *   error={createHttpError(400, '{"detail": "Invalid input"}')}
  *   onRetry={() => handleRetry()}
  * />
+ *
+ * @example
+ * // Transient error that retries itself after 10 seconds unless cancelled
+ * <ErrorDisplay
+ *   error={createHttpError(503, '', { retryable: true })}
+ *   onRetry={handleRetry}
+ *   autoRetryDelayMs={10000}
+ * />
  */
-export function ErrorDisplay({ error, onRetry }: ErrorDisplayProps): JSX.Element {
+export function ErrorDisplay({ error, onRetry, autoRetryDelayMs }: ErrorDisplayProps): JSX.Element {
   const [isExpanded, setIsExpanded] = useState<boolean>(false);
 
-  // Determine if there are technical details to show
-  const hasDetails = error.statusCode !== undefined || error.body !== undefined;
+  // Automatic retry countdown in whole seconds; null once cancelled or when not requested
+  const [secondsUntilRetry, setSecondsUntilRetry] = useState<number | null>(() =>
+    onRetry && autoRetryDelayMs !== undefined ? Math.max(0, Math.ceil(autoRetryDelayMs / 1000)) : null
+  );
+
+  // Count down once per second and retry when the countdown reaches zero
+  useEffect(() => {
+    if (secondsUntilRetry === null) {
+      return;
+    }
+    if (secondsUntilRetry === 0) {
+      setSecondsUntilRetry(null);
+      onRetry?.();
+      return;
+    }
 
-  // Get the user-friendly message
-  const userMessage = getUserMessage(error);
+    const timeoutId = setTimeout(() => setSecondsUntilRetry((prev) => (prev === null ? null : prev - 1)), 1000);
+    return () => clearTimeout(timeoutId);
+  }, [secondsUntilRetry, onRetry]);
+
+  // Determine if there are technical details to show
+  const hasDetails =
+    error.statusCode !== undefined || error.body !== undefined || error.decodeFailure !== undefined;
 
   // Generate unique ID for aria-controls
   const detailsId = 'error-technical-details';
@@ -188,9 +134,25 @@ export function ErrorDisplay({ error, onRetry }: ErrorDisplayProps): JSX.Element
         </svg>
 
         {/* User-friendly error message */}
-        <p className="text-[#E63946] font-semibold flex-1">{userMessage}</p>
+        <p className="text-[#E63946] font-semibold flex-1">{error.message}</p>
       </div>
 
+      {/* Automatic retry countdown - shown until it fires or is cancelled */}
+      {secondsUntilRetry !== null && (
+        <div className="flex flex-wrap items-center gap-3 mt-4 text-sm text-[#3D405B]">
+          <p role="timer" aria-live="off">
+            Retrying automatically in {secondsUntilRetry}s...
+          </p>
+          <button
+            type="button"
+            onClick={() => setSecondsUntilRetry(null)}
+            className="underline hover:text-[#2d2f45] focus:outline-none focus:ring-2 focus:ring-[#3D405B] focus:ring-offset-2 rounded"
+          >
+            Cancel automatic retry
+          </button>
+        </div>
+      )}
+
       {/* Retry button - only shown if onRetry callback is provided */}
       {onRetry && (
         <button
@@ -230,6 +192,24 @@ export function ErrorDisplay({ error, onRetry }: ErrorDisplayProps): JSX.Element
                 </div>
               )}
 
+              {/* Validation failure of a malformed response */}
+              {error.decodeFailure && (
+                <div className="mb-2">
+                  <div className="mb-2">
+                    <span className="text-[#3D405B] font-semibold">Invalid At: </span>
+                    <span className="text-[#E63946]">{error.decodeFailure.path}</span>
+                  </div>
+                  <div className="mb-2">
+                    <span className="text-[#3D405B] font-semibold">Problem: </span>
+                    <span className="text-[#3D405B]">{error.decodeFailure.reason}</span>
+                  </div>
+                  <span className="text-[#3D405B] font-semibold">Offending Data:</span>
+                  <pre className="mt-2 whitespace-pre-wrap break-words text-xs text-[#3D405B] bg-white p-3 rounded border border-gray-200 overflow-x-auto max-h-64 overflow-y-auto">
+                    {error.decodeFailure.snippet}
+                  </pre>
+                </div>
+              )}
+
               {/* Raw body content in preformatted block */}
               {error.body && (
                 <div>
@@ -0,0 +1,132 @@
+/**
+ * ExportMenu Component
+ *
+ * "Export" button opening a menu of the file formats a plan can be
+ * downloaded in: Markdown, plain text, JSON and printable HTML.
+ *
+ * Features:
+ * - Menu button with aria-haspopup and aria-expanded
+ * - One menu item per format from EXPORT_FORMATS
+ * - "Include raw events" option for the JSON export, shown when the plan has raw events
+ * - Escape or choosing a format closes the menu and returns focus to the button
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Plan export format menu
+ */
+
+import { useRef, useState, KeyboardEvent } from 'react';
+import { EXPORT_FORMATS } from '../api/planExport';
+import type { ExportFormat } from '../types';
+
+/**
+ * Props interface for the ExportMenu component.
+ */
+export interface ExportMenuProps {
+  /**
+   * Called with the chosen format.
+   * includeRawEvents is only true for JSON when the option is checked.
+   */
+  onExport: (format: ExportFormat, includeRawEvents: boolean) => void;
+
+  /**
+   * Whether the plan has raw events that the JSON export can include.
+   * @default false
+   */
+  hasRawEvents?: boolean;
+}
+
+/**
+ * Export format menu component.
+ *
+ * @param props - Component props
+ * @returns React element with the Export button and its menu
+ *
+ * @example
+ * ```tsx
+ * <ExportMenu onExport={handleExport} hasRawEvents={Boolean(rawResponse)} />
+ * ```
+ */
+export function ExportMenu({ onExport, hasRawEvents = false }: ExportMenuProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [includeRawEvents, setIncludeRawEvents] = useState<boolean>(false);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  const menuId = 'plan-export-menu';
+
+  /**
+   * Closes the menu and moves focus back to the Export button.
+   */
+  const close = (): void => {
+    setIsOpen(false);
+    buttonRef.current?.focus();
+  };
+
+  /**
+   * Closes the menu on Escape.
+   *
+   * @param event - Keyboard event from within the menu
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>): void => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  /**
+   * Exports in the chosen format and closes the menu.
+   *
+   * @param format - The chosen format
+   */
+  const handleSelect = (format: ExportFormat): void => {
+    onExport(format, format === 'json' && hasRawEvents && includeRawEvents);
+    close();
+  };
+
+  return (
+    <div className="relative" onKeyDown={handleKeyDown}>
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? menuId : undefined}
+        className="px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-1">
+          <ul id={menuId} role="menu" aria-label="Export format">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+              <li key={format} role="none">
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => handleSelect(format)}
+                  className="w-full text-left px-3 py-2 text-sm text-[#3D405B] rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+                >
+                  {EXPORT_FORMATS[format].label} (.{EXPORT_FORMATS[format].extension})
+                </button>
+              </li>
+            ))}
+          </ul>
+          {hasRawEvents && (
+            <label className="flex items-center gap-2 px-3 py-2 mt-1 border-t border-gray-100 text-xs text-[#3D405B]/80">
+              <input
+                type="checkbox"
+                checked={includeRawEvents}
+                onChange={(event) => setIncludeRawEvents(event.target.checked)}
+              />
+              Include raw events in JSON
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,281 @@
+/**
+ * HistoryPanel Component
+ *
+ * Collapsible browser for the local plan history. Lists the plans saved in
+ * this browser so earlier plans can be reopened after Reset or a new run,
+ * and lets users search, pin and delete them.
+ *
+ * Features:
+ * - Collapsed by default; the history is loaded when the panel is first opened
+ * - Reloads whenever refreshKey changes while open
+ * - Search by zip code, date or keyword
+ * - Open, Pin/Unpin and Delete actions per plan, pinned plans first
+ * - Plans for a weekend that has passed are marked as such
+ * - Loading, empty and error states
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Local plan history browser backed by IndexedDB
+ */
+
+import { useEffect, useState } from 'react';
+import { deleteSavedPlan, filterSavedPlans, listSavedPlans, setPlanPinned } from '../api/history';
+import { toPlainText } from '../api/markdownText';
+import { parseWeekendPlan } from '../api/planParser';
+import { isWeekendPast } from '../api/weekend';
+import type { SavedPlan } from '../types';
+
+/**
+ * Props interface for the HistoryPanel component.
+ */
+export interface HistoryPanelProps {
+  /** Called with the saved plan when the user reopens it */
+  onOpen: (plan: SavedPlan) => void;
+
+  /** Saved plan currently displayed, highlighted in the list */
+  activePlanId?: string;
+
+  /**
+   * Changing this value reloads the history while it is open.
+   * Incremented by the parent after a plan is saved.
+   */
+  refreshKey?: number;
+
+  /**
+   * Whether the actions are disabled, e.g. while a plan is generating.
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Formats a save time (milliseconds since epoch) for display.
+ *
+ * @param timestamp - Milliseconds since the Unix epoch
+ * @returns Localized date and time
+ */
+function formatSavedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Summarizes a saved plan in one line: its first activities, or the start
+ * of its text when no activities could be parsed.
+ *
+ * @param planText - The saved plan's summary text
+ * @returns Plain-text preview
+ */
+function getPlanPreview(planText: string): string {
+  const titles = parseWeekendPlan(planText).activities.slice(0, 3).map((activity) => toPlainText(activity.title));
+  if (titles.length > 0) {
+    return titles.join(' · ');
+  }
+  const text = toPlainText(planText).replace(/\s+/g, ' ').trim();
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+/**
+ * Collapsible plan history component.
+ *
+ * @param props - Component props
+ * @returns React element listing saved plans
+ *
+ * @example
+ * ```tsx
+ * <HistoryPanel onOpen={handleOpenSavedPlan} refreshKey={historyKey} />
+ * ```
+ */
+export function HistoryPanel({
+  onOpen,
+  activePlanId,
+  refreshKey = 0,
+  disabled = false,
+}: HistoryPanelProps): JSX.Element {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [plans, setPlans] = useState<SavedPlan[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [isLoadingList, setIsLoadingList] = useState<boolean>(false);
+  const [listError, setListError] = useState<string | null>(null);
+
+  const contentId = 'plan-history-content';
+
+  // Load the history when opened and whenever the parent asks for a refresh
+  useEffect(() => {
+    if (!isExpanded) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingList(true);
+    setListError(null);
+
+    listSavedPlans()
+      .then((loaded) => {
+        if (!cancelled) {
+          setPlans(loaded);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setListError(error instanceof Error ? error.message : 'Could not load your plan history');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingList(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, refreshKey]);
+
+  /**
+   * Pins or unpins a plan and re-sorts the list.
+   *
+   * @param plan - The plan to update
+   */
+  const handleTogglePin = async (plan: SavedPlan): Promise<void> => {
+    try {
+      await setPlanPinned(plan.id, !plan.pinned);
+      setPlans(await listSavedPlans());
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Could not update the plan');
+    }
+  };
+
+  /**
+   * Deletes a plan and removes it from the list.
+   *
+   * @param planId - The plan to delete
+   */
+  const handleDelete = async (planId: string): Promise<void> => {
+    try {
+      await deleteSavedPlan(planId);
+      setPlans((prev) => prev.filter((plan) => plan.id !== planId));
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Could not delete the plan');
+    }
+  };
+
+  const visiblePlans = filterSavedPlans(plans, query);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Toggle Button Header */}
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between p-4 rounded-xl hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+        aria-expanded={isExpanded}
+        aria-controls={contentId}
+      >
+        <span className="text-[#3D405B] font-medium">Plan History</span>
+        <svg
+          className={`w-5 h-5 text-[#3D405B] transition-transform duration-200 ${isExpanded ? 'rotate-180' : 'rotate-0'}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={contentId} className="px-4 pb-4" role="region" aria-label="Plan history">
+          <input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search by zip, date or keyword"
+            aria-label="Search plan history"
+            className="w-full mb-3 px-3 py-2 border border-gray-300 rounded-lg text-sm text-[#3D405B] focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          />
+
+          {isLoadingList && (
+            <p className="text-sm text-[#3D405B]/60" role="status">
+              Loading plan history...
+            </p>
+          )}
+
+          {listError && (
+            <p className="text-sm text-[#E63946]" role="alert">
+              {listError}
+            </p>
+          )}
+
+          {!isLoadingList && !listError && plans.length === 0 && (
+            <p className="text-sm text-[#3D405B]/60">No saved plans yet.</p>
+          )}
+
+          {plans.length > 0 && visiblePlans.length === 0 && (
+            <p className="text-sm text-[#3D405B]/60">No plans match your search.</p>
+          )}
+
+          {visiblePlans.length > 0 && (
+            <ul className="divide-y divide-gray-100" aria-label="Saved plans">
+              {visiblePlans.map((plan) => {
+                const isActive = plan.id === activePlanId;
+                const label = `${plan.input.location} plan from ${formatSavedAt(plan.savedAt)}`;
+                return (
+                  <li
+                    key={plan.id}
+                    className="py-2 flex items-center justify-between gap-3"
+                    aria-current={isActive ? 'true' : undefined}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-[#3D405B] font-medium">
+                        {plan.input.location} · {formatSavedAt(plan.savedAt)}
+                        {plan.pinned && <span className="ml-2 text-xs text-[#E07A5F]">(pinned)</span>}
+                        {plan.input.dates && isWeekendPast(plan.input.dates) && (
+                          <span className="ml-2 text-xs text-[#3D405B]/60">(past weekend)</span>
+                        )}
+                        {isActive && <span className="ml-2 text-xs text-[#81B29A]">(current)</span>}
+                      </p>
+                      <p className="text-xs text-[#3D405B]/60 truncate">{getPlanPreview(plan.planText)}</p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onOpen(plan)}
+                        disabled={disabled}
+                        className="text-sm text-[#1e3a5f] underline disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                        aria-label={`Open ${label}`}
+                      >
+                        Open
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleTogglePin(plan)}
+                        className="text-sm text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                        aria-label={`${plan.pinned ? 'Unpin' : 'Pin'} ${label}`}
+                      >
+                        {plan.pinned ? 'Unpin' : 'Pin'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(plan.id)}
+                        className="text-sm text-[#E63946] underline focus:outline-none focus:ring-2 focus:ring-[#E63946] rounded"
+                        aria-label={`Delete ${label}`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
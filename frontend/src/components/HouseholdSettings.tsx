@@ -0,0 +1,283 @@
+/**
+ * HouseholdSettings Component
+ *
+ * Settings section managing the household profiles saved in this browser.
+ * Households are created and their fields changed from the input form;
+ * here they are renamed, duplicated, deleted, and moved between browsers
+ * as JSON files.
+ *
+ * Features:
+ * - One entry per household with its zip code, kids and preference count
+ * - Rename in place, with the name checked for repeats
+ * - Duplicate and delete actions
+ * - Export every household as JSON, and import such a file
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Household profile management for the settings screen
+ */
+
+import { useState, ChangeEvent, FormEvent } from 'react';
+import { readFileText } from './PlanImport';
+import { describeChild } from '../api/children';
+import { downloadFile } from '../api/download';
+import {
+  deleteHouseholdProfile,
+  duplicateHouseholdProfile,
+  formatHouseholdsExport,
+  HouseholdImportError,
+  importHouseholdProfiles,
+  listHouseholdProfiles,
+  parseHouseholdsExport,
+  updateHouseholdProfile,
+  validateHouseholdName,
+} from '../api/households';
+import type { HouseholdProfile } from '../types';
+
+/**
+ * Props interface for the HouseholdSettings component.
+ */
+export interface HouseholdSettingsProps {
+  /** Called after households were changed, so the form can reload them */
+  onHouseholdsChange?: () => void;
+}
+
+/**
+ * Describes a household's fields in one line.
+ *
+ * @param profile - The household
+ * @returns e.g. "94105 · Sam (7 years), 9 months · 2 preferences"
+ */
+function describeHousehold(profile: HouseholdProfile): string {
+  const preferenceCount = Object.keys(profile.preferences ?? {}).length;
+  return [
+    profile.location,
+    profile.children.length > 0 ? profile.children.map(describeChild).join(', ') : 'no kids',
+    preferenceCount > 0 && `${preferenceCount} preference${preferenceCount === 1 ? '' : 's'}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Household settings component.
+ *
+ * @param props - Component props
+ * @returns React element with the households and their actions
+ *
+ * @example
+ * ```tsx
+ * <HouseholdSettings onHouseholdsChange={() => setHouseholdKey((key) => key + 1)} />
+ * ```
+ */
+export function HouseholdSettings({ onHouseholdsChange }: HouseholdSettingsProps): JSX.Element {
+  const [households, setHouseholds] = useState<HouseholdProfile[]>(() => listHouseholdProfiles());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [name, setName] = useState<string>('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  /**
+   * Runs a storage change, then reloads the households and notifies the parent.
+   *
+   * @param change - The change to run
+   */
+  const update = (change: () => void): void => {
+    change();
+    setHouseholds(listHouseholdProfiles());
+    onHouseholdsChange?.();
+  };
+
+  /**
+   * Starts renaming a household.
+   *
+   * @param profile - The household
+   */
+  const startRename = (profile: HouseholdProfile): void => {
+    setRenamingId(profile.id);
+    setName(profile.name);
+    setNameError(null);
+  };
+
+  /**
+   * Saves the new name, unless it is empty, too long or taken.
+   *
+   * @param event - Submit event of the rename form
+   */
+  const handleRename = (event: FormEvent<HTMLFormElement>): void => {
+    event.preventDefault();
+    const id = renamingId;
+    if (!id) {
+      return;
+    }
+    const error = validateHouseholdName(
+      name,
+      households.filter((profile) => profile.id !== id)
+    );
+    if (error) {
+      setNameError(error);
+      return;
+    }
+    update(() => updateHouseholdProfile(id, { name }));
+    setRenamingId(null);
+  };
+
+  /**
+   * Reads, validates and stores the households of the chosen file.
+   *
+   * @param event - Change event from the file input
+   */
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setImportMessage(null);
+    try {
+      const { profiles } = parseHouseholdsExport(await readFileText(file));
+      update(() => importHouseholdProfiles(profiles));
+      setImportMessage({
+        text: `Imported ${profiles.length} household${profiles.length === 1 ? '' : 's'}`,
+        isError: false,
+      });
+    } catch (error) {
+      setImportMessage({
+        text:
+          error instanceof HouseholdImportError
+            ? `Could not import ${file.name}: ${error.message}`
+            : `Could not read ${file.name}`,
+        isError: true,
+      });
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const linkButtonClass =
+    'text-sm text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded';
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-[#3D405B] font-semibold">Households</h3>
+          <p className="text-sm text-[#3D405B]/60 mt-1">
+            Save a household from the planner form to fill in its zip code, kids and preferences in one
+            step. Households stay in this browser; export them to use them in another.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            downloadFile('weekend-planner-households.json', formatHouseholdsExport(households), 'application/json')
+          }
+          disabled={households.length === 0}
+          className="flex-shrink-0 px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+        >
+          Export households
+        </button>
+      </div>
+
+      {households.length === 0 ? (
+        <p className="mt-4 text-sm text-[#3D405B]/60">No saved households yet.</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-100" aria-label="Households">
+          {households.map((profile) => (
+            <li key={profile.id} className="py-2">
+              {renamingId === profile.id ? (
+                <form onSubmit={handleRename} className="flex flex-wrap items-center gap-2" noValidate>
+                  <label htmlFor="household-rename" className="sr-only">
+                    New name for {profile.name}
+                  </label>
+                  <input
+                    id="household-rename"
+                    type="text"
+                    value={name}
+                    onChange={(event) => {
+                      setName(event.target.value);
+                      setNameError(null);
+                    }}
+                    className={`flex-1 min-w-[8rem] border rounded-lg p-1 text-sm focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
+                      nameError ? 'border-[#E63946]' : 'border-gray-300'
+                    }`}
+                    aria-invalid={nameError ? 'true' : 'false'}
+                    aria-describedby={nameError ? 'household-rename-error' : undefined}
+                    autoFocus
+                  />
+                  <button type="submit" className={linkButtonClass}>
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setRenamingId(null)} className={linkButtonClass}>
+                    Cancel
+                  </button>
+                  {nameError && (
+                    <p id="household-rename-error" className="w-full text-sm text-[#E63946]" role="alert">
+                      {nameError}
+                    </p>
+                  )}
+                </form>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-[#3D405B]">{profile.name}</p>
+                    <p className="text-xs text-[#3D405B]/60">{describeHousehold(profile)}</p>
+                  </div>
+                  <div className="flex flex-shrink-0 gap-3">
+                    <button
+                      type="button"
+                      onClick={() => startRename(profile)}
+                      aria-label={`Rename ${profile.name}`}
+                      className={linkButtonClass}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => update(() => duplicateHouseholdProfile(profile.id))}
+                      aria-label={`Duplicate ${profile.name}`}
+                      className={linkButtonClass}
+                    >
+                      Duplicate
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => update(() => deleteHouseholdProfile(profile.id))}
+                      aria-label={`Delete ${profile.name}`}
+                      className="text-sm text-[#E63946] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4">
+        <label className="block text-sm text-[#3D405B] font-medium" htmlFor="household-import-file">
+          Import households
+        </label>
+        <input
+          id="household-import-file"
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="mt-1 block w-full text-sm text-[#3D405B] file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border file:border-gray-300 file:bg-white file:text-[#1e3a5f] file:font-medium hover:file:bg-gray-50"
+        />
+        {importMessage && (
+          <p
+            className={`mt-2 text-sm ${importMessage.isError ? 'text-[#E63946]' : 'text-[#81B29A]'}`}
+            role={importMessage.isError ? 'alert' : 'status'}
+          >
+            {importMessage.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HouseholdSettings;
@@ -0,0 +1,254 @@
+/**
+ * HouseholdSwitcher Component
+ *
+ * Household profile picker at the top of InputForm. Choosing a household
+ * fills in the form; the form's current fields can be saved as a new
+ * household or over the chosen one.
+ *
+ * Features:
+ * - Select listing the households saved in this browser
+ * - Save as new household, with a name checked for repeats
+ * - Update the chosen household from the form
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Household profile switcher for the input form
+ */
+
+import { useEffect, useState, ChangeEvent, KeyboardEvent } from 'react';
+import {
+  createHouseholdProfile,
+  listHouseholdProfiles,
+  updateHouseholdProfile,
+  validateHouseholdName,
+  type HouseholdDraft,
+} from '../api/households';
+import type { HouseholdProfile } from '../types';
+
+/**
+ * Props interface for the HouseholdSwitcher component.
+ */
+export interface HouseholdSwitcherProps {
+  /** ID of the chosen household, or an empty string for none */
+  householdId: string;
+
+  /** Called when a household is chosen, or with undefined when none is */
+  onSelect: (profile: HouseholdProfile | undefined) => void;
+
+  /**
+   * Collects the form's fields for saving. Returns undefined, after showing
+   * the form's errors, when they are invalid.
+   */
+  getDraft: () => Omit<HouseholdDraft, 'name'> | undefined;
+
+  /** Changing this value reloads the households, e.g. after the settings changed them */
+  refreshKey?: number;
+
+  /**
+   * Whether the switcher is disabled, e.g. while a plan is generating.
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Household profile switcher component.
+ *
+ * @param props - Component props
+ * @returns React element with the household select and save actions
+ *
+ * @example
+ * ```tsx
+ * <HouseholdSwitcher householdId={householdId} onSelect={applyHousehold} getDraft={collectHousehold} />
+ * ```
+ */
+export function HouseholdSwitcher({
+  householdId,
+  onSelect,
+  getDraft,
+  refreshKey = 0,
+  disabled = false,
+}: HouseholdSwitcherProps): JSX.Element {
+  const [households, setHouseholds] = useState<HouseholdProfile[]>(() => listHouseholdProfiles());
+  const [isNaming, setIsNaming] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  // Reload when the settings changed the households
+  useEffect(() => {
+    setHouseholds(listHouseholdProfiles());
+  }, [refreshKey]);
+
+  // The chosen household, unless it was deleted in the meantime
+  const chosen = households.find((profile) => profile.id === householdId);
+
+  /**
+   * Fills in the form from the chosen household.
+   *
+   * @param event - Change event from the select
+   */
+  const handleChange = (event: ChangeEvent<HTMLSelectElement>): void => {
+    setSavedMessage(null);
+    onSelect(households.find((profile) => profile.id === event.target.value));
+  };
+
+  /**
+   * Saves the form as a new household named as entered, and chooses it.
+   */
+  const handleSaveNew = (): void => {
+    const error = validateHouseholdName(name, households);
+    if (error) {
+      setNameError(error);
+      return;
+    }
+    const draft = getDraft();
+    if (!draft) {
+      return;
+    }
+    const profile = createHouseholdProfile({ ...draft, name });
+    setHouseholds(listHouseholdProfiles());
+    setIsNaming(false);
+    setName('');
+    setNameError(null);
+    setSavedMessage(`Saved ${profile.name}`);
+    onSelect(profile);
+  };
+
+  /**
+   * Saves the form over the chosen household.
+   */
+  const handleUpdate = (): void => {
+    const draft = getDraft();
+    if (!chosen || !draft) {
+      return;
+    }
+    const profile = updateHouseholdProfile(chosen.id, draft);
+    setHouseholds(listHouseholdProfiles());
+    setSavedMessage(profile ? `Updated ${profile.name}` : null);
+    onSelect(profile);
+  };
+
+  /**
+   * Saves on Enter and cancels on Escape, instead of submitting the form.
+   *
+   * @param event - Key event from the name field
+   */
+  const handleNameKeyDown = (event: KeyboardEvent<HTMLInputElement>): void => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      handleSaveNew();
+    } else if (event.key === 'Escape') {
+      setIsNaming(false);
+      setNameError(null);
+    }
+  };
+
+  const secondaryButtonClass =
+    'px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]';
+
+  return (
+    <div>
+      <label htmlFor="household" className="block text-[#3D405B] font-medium mb-1">
+        Household <span className="text-gray-500 font-normal">(optional)</span>
+      </label>
+      <select
+        id="household"
+        name="household"
+        value={chosen ? chosen.id : ''}
+        onChange={handleChange}
+        disabled={disabled || households.length === 0}
+        className="w-full border border-gray-300 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+        aria-describedby="household-hint"
+      >
+        <option value="">{households.length === 0 ? 'No saved households' : 'Choose a household'}</option>
+        {households.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <p id="household-hint" className="text-gray-500 text-sm mt-1">
+        Fills in the zip code, kids and preferences saved for it
+      </p>
+
+      {isNaming ? (
+        <div className="mt-2">
+          <div className="flex flex-wrap gap-2">
+            <label htmlFor="householdName" className="sr-only">
+              Household name
+            </label>
+            <input
+              type="text"
+              id="householdName"
+              name="householdName"
+              value={name}
+              onChange={(event) => {
+                setName(event.target.value);
+                setNameError(null);
+              }}
+              onKeyDown={handleNameKeyDown}
+              placeholder="e.g., With cousins"
+              className={`flex-1 min-w-[8rem] border rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
+                nameError ? 'border-[#E63946]' : 'border-gray-300'
+              }`}
+              aria-invalid={nameError ? 'true' : 'false'}
+              aria-describedby={nameError ? 'householdName-error' : undefined}
+              disabled={disabled}
+              autoFocus
+            />
+            <button type="button" onClick={handleSaveNew} disabled={disabled} className={secondaryButtonClass}>
+              Save household
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsNaming(false);
+                setNameError(null);
+              }}
+              className={secondaryButtonClass}
+            >
+              Cancel
+            </button>
+          </div>
+          {nameError && (
+            <p id="householdName-error" className="text-[#E63946] text-sm mt-1" role="alert" aria-live="polite">
+              {nameError}
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setIsNaming(true);
+              setSavedMessage(null);
+            }}
+            disabled={disabled}
+            className={secondaryButtonClass}
+          >
+            Save as new household
+          </button>
+          {chosen && (
+            <button
+              type="button"
+              onClick={handleUpdate}
+              disabled={disabled}
+              aria-label={`Update ${chosen.name} from the form`}
+              className={secondaryButtonClass}
+            >
+              Update household
+            </button>
+          )}
+          {savedMessage && (
+            <p className="text-sm text-[#81B29A]" role="status">
+              {savedMessage}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HouseholdSwitcher;
@@ -3,13 +3,22 @@
  * 
  * React functional component implementing the user input form for Weekend Planner.
  * Contains controlled inputs for:
+ * - Household (optional) - saved household profile that fills in the fields below
  * - Zip Code (required) - location identifier
- * - Kids Ages (optional, comma-separated integers 1-119)
+ * - Kids (optional): ages added as removable chips, in years or in months for
+ *   under-twos, with optional nicknames
+ * - Which weekend: this weekend, next weekend (both extended over a holiday
+ *   Friday or Monday) or picked dates
+ * - Planning preferences (optional, behind a "More options" disclosure):
+ *   budget, travel radius, indoor/outdoor, interests, accessibility needs
+ *   and activity intensity
  * 
  * Features:
  * - Form validation with inline error messages
+ * - Warnings before submission about children the planner will leave out
  * - Generate Plan button disabled until required fields valid
  * - Reset button to clear all fields
+ * - Save the fields as a named household, or update the chosen one
  * - Tailwind CSS styling with primary color #1e3a5f for CTAs
  * - Proper ARIA attributes for accessibility (WCAG AA compliance)
  * 
@@ -17,7 +26,51 @@
  */
 
 import React, { useState, useCallback, FormEvent, ChangeEvent } from 'react';
-import type { GeneratePlanInput } from '../types';
+import { HouseholdSwitcher } from './HouseholdSwitcher';
+import {
+  describeChild,
+  getIgnoredAgeWarnings,
+  MAX_PLANNER_AGE,
+  MIN_PLANNER_AGE,
+  parseChildAges,
+  toPlannerAges,
+  validateChildren,
+  type ParsedChildAges,
+} from '../api/children';
+import {
+  ACCESSIBILITY_OPTIONS,
+  BUDGET_OPTIONS,
+  hasPlanningPreferences,
+  INTENSITY_OPTIONS,
+  MAX_TRAVEL_MILES,
+  MIN_TRAVEL_MILES,
+  parseInterests,
+  SETTING_OPTIONS,
+  validatePlanningPreferences,
+} from '../api/preferences';
+import type { HouseholdDraft } from '../api/households';
+import {
+  createWeekendDates,
+  formatWeekendDates,
+  getPresetWeekend,
+  MAX_TRIP_DAYS,
+  parseIsoDate,
+  toIsoDate,
+  validateWeekendDates,
+  type WeekendChoice,
+} from '../api/weekend';
+import type {
+  AccessibilityNeed,
+  ActivityIntensity,
+  AgeUnit,
+  BudgetTier,
+  Child,
+  GeneratePlanInput,
+  HouseholdProfile,
+  PlanningPreferences,
+  SettingPreference,
+  WeekendDates,
+} from '../types';
 
 /**
  * Props interface for the InputForm component.
@@ -42,6 +95,9 @@ export interface InputFormProps {
    * @default false
    */
   isLoading?: boolean;
+
+  /** Changing this value reloads the saved households, e.g. after the settings changed them */
+  householdRefreshKey?: number;
 }
 
 /**
@@ -51,38 +107,14 @@ export interface InputFormProps {
 interface FormErrors {
   /** Validation error message for the location (zip code) field */
   location?: string;
-  /** Validation error message for the kids ages field */
+  /** Validation error message for the kids ages and nickname fields */
   kidsAges?: string;
-}
-
-/**
- * Parses and validates the kids ages input string.
- * Accepts comma-separated integers with optional whitespace around values.
- * Ages must be in the range 0 < age < 120.
- * 
- * @param input - The raw input string from the kids ages field
- * @returns Array of parsed ages if valid, empty array if input is empty, null if invalid
- * 
- * @example
- * parseKidsAges("5, 12, 8") // returns [5, 12, 8]
- * parseKidsAges("") // returns []
- * parseKidsAges("5, invalid, 8") // returns null
- * parseKidsAges("0, 120") // returns null (ages out of range)
- */
-function parseKidsAges(input: string): number[] | null {
-  if (!input.trim()) return []; // Empty is valid (optional field)
-  
-  const ages = input.split(',').map(s => s.trim());
-  const result: number[] = [];
-  
-  for (const age of ages) {
-    const num = parseInt(age, 10);
-    if (isNaN(num) || age !== String(num) || num <= 0 || num >= 120) {
-      return null; // Invalid
-    }
-    result.push(num);
-  }
-  return result;
+  /** Validation error message for the picked dates */
+  dates?: string;
+  /** Validation error message for the travel radius field */
+  maxTravelMiles?: string;
+  /** Validation error message for the interests field */
+  interests?: string;
 }
 
 /**
@@ -95,6 +127,7 @@ function parseKidsAges(input: string): number[] | null {
  * @param props.onSubmit - Callback when form is submitted with valid data
  * @param props.onReset - Callback when form is reset
  * @param props.isLoading - Whether form is in loading state
+ * @param props.householdRefreshKey - Reloads the saved households when changed
  * @returns The rendered InputForm component
  * 
  * @example
@@ -106,19 +139,100 @@ function parseKidsAges(input: string): number[] | null {
  * />
  * ```
  */
-export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormProps): React.ReactElement {
+export function InputForm({
+  onSubmit,
+  onReset,
+  isLoading = false,
+  householdRefreshKey = 0,
+}: InputFormProps): React.ReactElement {
+  // Household profile the fields were filled in from, if any
+  const [householdId, setHouseholdId] = useState<string>('');
+
   // Form field state management using controlled inputs
   const [location, setLocation] = useState<string>('');
   const [kidsAges, setKidsAges] = useState<string>('');
+
+  // Children added as chips, and the unit and nickname of the ages being typed
+  const [children, setChildren] = useState<Child[]>([]);
+  const [ageUnit, setAgeUnit] = useState<AgeUnit>('years');
+  const [nickname, setNickname] = useState<string>('');
+
+  // Which weekend to plan for; the picked dates are YYYY-MM-DD strings
+  const [weekendChoice, setWeekendChoice] = useState<WeekendChoice>('this');
+  const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+
+  // Optional planning preferences behind the "More options" disclosure
+  const [showMoreOptions, setShowMoreOptions] = useState<boolean>(false);
+  const [budget, setBudget] = useState<BudgetTier | ''>('');
+  const [maxTravelMiles, setMaxTravelMiles] = useState<string>('');
+  const [setting, setSetting] = useState<SettingPreference | ''>('');
+  const [interests, setInterests] = useState<string>('');
+  const [accessibility, setAccessibility] = useState<AccessibilityNeed[]>([]);
+  const [intensity, setIntensity] = useState<ActivityIntensity | ''>('');
   
   // Validation errors state
   const [errors, setErrors] = useState<FormErrors>({});
 
+  /**
+   * Collects the planning preferences, leaving out fields without a choice.
+   * 
+   * @returns The chosen preferences
+   */
+  const collectPreferences = useCallback((): PlanningPreferences => {
+    const interestList = parseInterests(interests);
+    return {
+      ...(budget && { budget }),
+      ...(maxTravelMiles.trim() && { maxTravelMiles: Number(maxTravelMiles.trim()) }),
+      ...(setting && { setting }),
+      ...(interestList.length > 0 && { interests: interestList }),
+      ...(accessibility.length > 0 && { accessibility }),
+      ...(intensity && { intensity }),
+    };
+  }, [budget, maxTravelMiles, setting, interests, accessibility, intensity]);
+
+  /**
+   * Collects the children: the chips plus any ages still being typed.
+   * 
+   * @returns All children, or an error message for the typed ages or the whole list
+   */
+  const collectChildren = useCallback((): ParsedChildAges => {
+    if (!kidsAges.trim() && !nickname.trim()) {
+      return { children };
+    }
+    const typed = parseChildAges(kidsAges, ageUnit, nickname);
+    if (typed.error) {
+      return { children, error: typed.error };
+    }
+    if (typed.children.length === 0) {
+      return { children, error: 'Enter the age of the child to name' };
+    }
+    const all = [...children, ...typed.children];
+    const error = validateChildren(all);
+    return error ? { children, error } : { children: all };
+  }, [children, kidsAges, ageUnit, nickname]);
+
+  /**
+   * Collects the dates of the chosen weekend.
+   * 
+   * @returns The dates, or undefined when picked dates are incomplete
+   */
+  const collectDates = useCallback((): WeekendDates | undefined => {
+    if (weekendChoice !== 'custom') {
+      return getPresetWeekend(weekendChoice);
+    }
+    const start = parseIsoDate(startDate);
+    const end = parseIsoDate(endDate);
+    return start && end ? createWeekendDates(start, end) : undefined;
+  }, [weekendChoice, startDate, endDate]);
+
   /**
    * Validates all form fields and returns an object containing any validation errors.
    * Checks:
    * - Location (Zip Code) is not empty
-   * - Kids ages (if provided) are valid comma-separated integers with 0 < age < 120
+   * - Kids ages (if provided) are whole years, or months up to 23, and nicknames fit
+   * - Picked dates (if chosen) are in order, not over and at most MAX_TRIP_DAYS long
+   * - Travel radius and interests (if provided) are within their limits
    * 
    * @returns Object containing validation error messages for invalid fields
    */
@@ -130,16 +244,23 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
       newErrors.location = 'Zip Code is required';
     }
 
-    // Validate kids ages format if provided (optional field)
-    if (kidsAges.trim()) {
-      const parsedAges = parseKidsAges(kidsAges);
-      if (parsedAges === null) {
-        newErrors.kidsAges = 'Enter ages as numbers separated by commas (1-119)';
+    // Validate the ages still being typed and the children as a whole (optional field)
+    const { error: childrenError } = collectChildren();
+    if (childrenError) {
+      newErrors.kidsAges = childrenError;
+    }
+
+    // Validate the picked dates
+    if (weekendChoice === 'custom') {
+      const datesError = validateWeekendDates(startDate, endDate);
+      if (datesError) {
+        newErrors.dates = datesError;
       }
     }
 
-    return newErrors;
-  }, [location, kidsAges]);
+    // Validate the planning preferences that take free input
+    return { ...newErrors, ...validatePlanningPreferences(collectPreferences()) };
+  }, [location, collectChildren, weekendChoice, startDate, endDate, collectPreferences]);
 
   /**
    * Checks if all required form fields have valid values.
@@ -166,15 +287,78 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
     const validationErrors = validateForm();
     setErrors(validationErrors);
 
+    // Show the preferences when one of them is invalid
+    if (validationErrors.maxTravelMiles || validationErrors.interests) {
+      setShowMoreOptions(true);
+    }
+
     // Only submit if there are no validation errors
     if (Object.keys(validationErrors).length === 0) {
+      // Ages still being typed become chips, as if they had been added
+      const { children: allChildren } = collectChildren();
+      setChildren(allChildren);
+      setKidsAges('');
+      setNickname('');
+
+      const preferences = collectPreferences();
       const input: GeneratePlanInput = {
         location: location.trim(),
-        kidsAges: parseKidsAges(kidsAges) || [],
+        kidsAges: toPlannerAges(allChildren),
+        ...(allChildren.length > 0 && { children: allChildren }),
+        dates: collectDates(),
+        ...(hasPlanningPreferences(preferences) && { preferences }),
       };
       onSubmit(input);
     }
-  }, [location, kidsAges, validateForm, onSubmit]);
+  }, [location, validateForm, collectChildren, collectDates, collectPreferences, onSubmit]);
+
+  /**
+   * Fills in the zip code, children and preferences from a household.
+   * Fields the household has no value for are cleared.
+   * 
+   * @param profile - The chosen household, or undefined when none is chosen
+   */
+  const applyHousehold = useCallback((profile: HouseholdProfile | undefined): void => {
+    setHouseholdId(profile?.id ?? '');
+    if (!profile) {
+      return;
+    }
+    const preferences = profile.preferences ?? {};
+    setLocation(profile.location);
+    setChildren(profile.children);
+    setKidsAges('');
+    setNickname('');
+    setBudget(preferences.budget ?? '');
+    setMaxTravelMiles(preferences.maxTravelMiles !== undefined ? String(preferences.maxTravelMiles) : '');
+    setSetting(preferences.setting ?? '');
+    setInterests((preferences.interests ?? []).join(', '));
+    setAccessibility(preferences.accessibility ?? []);
+    setIntensity(preferences.intensity ?? '');
+    setErrors({});
+  }, []);
+
+  /**
+   * Collects the fields a household keeps, for saving it.
+   * Shows the errors of those fields when they are invalid.
+   * 
+   * @returns The zip code, children and preferences, or undefined when invalid
+   */
+  const collectHousehold = useCallback((): Omit<HouseholdDraft, 'name'> | undefined => {
+    const { dates: _datesError, ...validationErrors } = validateForm();
+    setErrors(validationErrors);
+    if (validationErrors.maxTravelMiles || validationErrors.interests) {
+      setShowMoreOptions(true);
+    }
+    if (Object.keys(validationErrors).length > 0) {
+      return undefined;
+    }
+    const preferences = collectPreferences();
+    return {
+      location: location.trim(),
+      children: collectChildren().children,
+      ...(hasPlanningPreferences(preferences) && { preferences }),
+    };
+  }, [location, validateForm, collectChildren, collectPreferences]);
 
   /**
    * Handles form reset.
@@ -182,8 +366,22 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
    */
   const handleReset = useCallback((): void => {
     // Clear all form field state
+    setHouseholdId('');
     setLocation('');
     setKidsAges('');
+    setChildren([]);
+    setAgeUnit('years');
+    setNickname('');
+    setWeekendChoice('this');
+    setStartDate('');
+    setEndDate('');
+    setBudget('');
+    setMaxTravelMiles('');
+    setSetting('');
+    setInterests('');
+    setAccessibility([]);
+    setIntensity('');
+    setShowMoreOptions(false);
     
     // Clear any validation errors
     setErrors({});
@@ -198,11 +396,11 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
    * 
    * @param field - The field name for error tracking
    * @param setter - The state setter function for the field
-   * @returns An event handler function for the input/textarea
+   * @returns An event handler function for the input/textarea/select
    */
   const createChangeHandler = useCallback(
     (field: keyof FormErrors | null, setter: (value: string) => void) => 
-      (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): void => {
+      (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>): void => {
         setter(e.target.value);
         // Clear error for this field when user starts typing
         if (field && errors[field]) {
@@ -216,9 +414,94 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
     [errors]
   );
 
+  /**
+   * Adds the typed ages as chips, or shows why they cannot be added.
+   */
+  const handleAddChildren = useCallback((): void => {
+    const { children: allChildren, error } = collectChildren();
+    if (error) {
+      setErrors((prev) => ({ ...prev, kidsAges: error }));
+      return;
+    }
+    setChildren(allChildren);
+    setKidsAges('');
+    setNickname('');
+  }, [collectChildren]);
+
+  /**
+   * Adds the typed ages when Enter is pressed, instead of submitting the form.
+   * 
+   * @param e - Key event from the ages or nickname field
+   */
+  const handleChildKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAddChildren();
+    }
+  }, [handleAddChildren]);
+
+  /**
+   * Removes one child's chip.
+   * 
+   * @param index - Position of the chip
+   */
+  const handleRemoveChild = useCallback((index: number): void => {
+    setChildren((prev) => prev.filter((_, childIndex) => childIndex !== index));
+  }, []);
+
+  /**
+   * Switches between this weekend, next weekend and picked dates.
+   * Picking dates starts from this weekend's, so only what differs needs changing.
+   * 
+   * @param choice - The chosen option
+   */
+  const handleWeekendChoiceChange = useCallback((choice: WeekendChoice): void => {
+    setWeekendChoice(choice);
+    if (choice === 'custom' && !startDate && !endDate) {
+      const thisWeekend = getPresetWeekend('this');
+      setStartDate(thisWeekend.start);
+      setEndDate(thisWeekend.end);
+    }
+    setErrors((prev) => {
+      const newErrors = { ...prev };
+      delete newErrors.dates;
+      return newErrors;
+    });
+  }, [startDate, endDate]);
+
+  /**
+   * Adds or removes an accessibility need.
+   * 
+   * @param need - The need whose checkbox changed
+   * @param checked - Whether it is now checked
+   */
+  const handleAccessibilityChange = useCallback((need: AccessibilityNeed, checked: boolean): void => {
+    setAccessibility((prev) => (checked ? [...prev, need] : prev.filter((value) => value !== need)));
+  }, []);
+
   // Computed value for whether form can be submitted
   const canSubmit = isFormValid() && !isLoading;
 
+  // Children the planner will leave out, warned about while typing
+  const collectedChildren = collectChildren();
+  const ageWarnings = getIgnoredAgeWarnings(collectedChildren.error ? children : collectedChildren.children);
+
+  // The preset weekends, named with their dates
+  const weekendOptions: { value: WeekendChoice; label: string; hint?: string }[] = [
+    { value: 'this', label: 'This weekend', hint: formatWeekendDates(getPresetWeekend('this')) },
+    { value: 'next', label: 'Next weekend', hint: formatWeekendDates(getPresetWeekend('next')) },
+    { value: 'custom', label: 'Pick dates' },
+  ];
+
+  // Number of preferences chosen, shown on the collapsed disclosure
+  const preferenceCount = Object.keys(collectPreferences()).length;
+
+  // Shared styles of the preference selects and inputs
+  const preferenceFieldClass = (hasError = false): string =>
+    `w-full border rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
+      hasError ? 'border-[#E63946]' : 'border-gray-300'
+    }`;
+
   return (
     <form
       onSubmit={handleSubmit}
@@ -226,6 +509,15 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
       noValidate
     >
       <div className="space-y-6">
+        {/* Household profile (optional): fills in the fields below */}
+        <HouseholdSwitcher
+          householdId={householdId}
+          onSelect={applyHousehold}
+          getDraft={collectHousehold}
+          refreshKey={householdRefreshKey}
+          disabled={isLoading}
+        />
+
         {/* Zip Code field (required) */}
         <div>
           <label
@@ -261,7 +553,7 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
           )}
         </div>
 
-        {/* Kids ages field (optional) */}
+        {/* Kids: ages added as chips (optional) */}
         <div>
           <label
             htmlFor="kidsAges"
@@ -269,22 +561,85 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
           >
             Kids Ages <span className="text-gray-500 font-normal">(optional)</span>
           </label>
-          <input
-            type="text"
-            id="kidsAges"
-            name="kidsAges"
-            value={kidsAges}
-            onChange={createChangeHandler('kidsAges', setKidsAges)}
-            placeholder="e.g., 3, 7, 12"
-            className={`w-full border rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
-              errors.kidsAges ? 'border-[#E63946]' : 'border-gray-300'
-            }`}
-            aria-invalid={errors.kidsAges ? 'true' : 'false'}
-            aria-describedby={errors.kidsAges ? 'kidsAges-error' : 'kidsAges-hint'}
-            disabled={isLoading}
-          />
+
+          {children.length > 0 && (
+            <ul className="flex flex-wrap gap-2 mb-2" aria-label="Children">
+              {children.map((child, index) => (
+                <li
+                  key={index}
+                  className="flex items-center gap-1 pl-3 pr-1 py-1 bg-[#F4F1DE] text-[#3D405B] text-sm rounded-full"
+                >
+                  {describeChild(child)}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveChild(index)}
+                    disabled={isLoading}
+                    aria-label={`Remove ${describeChild(child)}`}
+                    className="w-5 h-5 flex items-center justify-center rounded-full text-[#3D405B]/60 hover:bg-white hover:text-[#E63946] focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+                  >
+                    <span aria-hidden="true">×</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              id="kidsAges"
+              name="kidsAges"
+              value={kidsAges}
+              onChange={createChangeHandler('kidsAges', setKidsAges)}
+              onKeyDown={handleChildKeyDown}
+              placeholder="e.g., 3, 7, 12"
+              className={`flex-1 min-w-[8rem] border rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
+                errors.kidsAges ? 'border-[#E63946]' : 'border-gray-300'
+              }`}
+              aria-invalid={errors.kidsAges ? 'true' : 'false'}
+              aria-describedby={errors.kidsAges ? 'kidsAges-error' : 'kidsAges-hint'}
+              disabled={isLoading}
+            />
+            <label htmlFor="ageUnit" className="sr-only">
+              Age unit
+            </label>
+            <select
+              id="ageUnit"
+              name="ageUnit"
+              value={ageUnit}
+              onChange={createChangeHandler(null, (value) => setAgeUnit(value as AgeUnit))}
+              className="border border-gray-300 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              disabled={isLoading}
+            >
+              <option value="years">Years</option>
+              <option value="months">Months</option>
+            </select>
+            <label htmlFor="nickname" className="sr-only">
+              Nickname (optional)
+            </label>
+            <input
+              type="text"
+              id="nickname"
+              name="nickname"
+              value={nickname}
+              onChange={createChangeHandler('kidsAges', setNickname)}
+              onKeyDown={handleChildKeyDown}
+              placeholder="Nickname (optional)"
+              className="flex-1 min-w-[8rem] border border-gray-300 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              disabled={isLoading}
+            />
+            <button
+              type="button"
+              onClick={handleAddChildren}
+              disabled={isLoading || !kidsAges.trim()}
+              className="px-4 py-3 text-[#1e3a5f] font-medium border border-[#1e3a5f] rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+            >
+              Add child
+            </button>
+          </div>
           <p id="kidsAges-hint" className="text-gray-500 text-sm mt-1">
-            Enter ages separated by commas (1-119)
+            Press Enter or Add child after each age. Use months for babies, e.g. 9 months. The
+            planner plans for ages {MIN_PLANNER_AGE}-{MAX_PLANNER_AGE}.
           </p>
           {errors.kidsAges && (
             <p
@@ -296,6 +651,241 @@ export function InputForm({ onSubmit, onReset, isLoading = false }: InputFormPro
               {errors.kidsAges}
             </p>
           )}
+          {ageWarnings.length > 0 && (
+            <div
+              className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg"
+              role="status"
+              aria-label="Ages the planner will leave out"
+            >
+              {ageWarnings.map((warning) => (
+                <p key={warning} className="text-amber-800 text-sm">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Which weekend to plan for */}
+        <fieldset disabled={isLoading}>
+          <legend className="block text-[#3D405B] font-medium mb-1">Which weekend</legend>
+          <div className="space-y-1">
+            {weekendOptions.map((option) => (
+              <label key={option.value} className="flex items-baseline gap-2 text-sm text-[#3D405B]">
+                <input
+                  type="radio"
+                  name="weekend"
+                  value={option.value}
+                  checked={weekendChoice === option.value}
+                  onChange={() => handleWeekendChoiceChange(option.value)}
+                  className="accent-[#1e3a5f]"
+                />
+                {option.label}
+                {option.hint && <span className="text-gray-500">{option.hint}</span>}
+              </label>
+            ))}
+          </div>
+
+          {weekendChoice === 'custom' && (
+            <div className="mt-3">
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  ['startDate', 'First day', startDate, setStartDate],
+                  ['endDate', 'Last day', endDate, setEndDate],
+                ] as const).map(([id, label, value, setter]) => (
+                  <div key={id}>
+                    <label htmlFor={id} className="block text-[#3D405B] text-sm font-medium mb-1">
+                      {label}
+                    </label>
+                    <input
+                      type="date"
+                      id={id}
+                      name={id}
+                      value={value}
+                      min={toIsoDate(new Date())}
+                      onChange={createChangeHandler('dates', setter)}
+                      className={preferenceFieldClass(Boolean(errors.dates))}
+                      aria-invalid={errors.dates ? 'true' : 'false'}
+                      aria-describedby={errors.dates ? 'dates-error' : 'dates-hint'}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p id="dates-hint" className="text-gray-500 text-sm mt-1">
+                Up to {MAX_TRIP_DAYS} days, such as a long weekend
+              </p>
+              {errors.dates && (
+                <p id="dates-error" className="text-[#E63946] text-sm mt-1" role="alert" aria-live="polite">
+                  {errors.dates}
+                </p>
+              )}
+            </div>
+          )}
+        </fieldset>
+
+        {/* More options: planning preferences (optional) */}
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowMoreOptions((open) => !open)}
+            aria-expanded={showMoreOptions}
+            aria-controls="more-options"
+            className="flex items-center gap-1 text-[#1e3a5f] font-medium rounded focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          >
+            More options
+            {preferenceCount > 0 && (
+              <span className="text-gray-500 font-normal">({preferenceCount} chosen)</span>
+            )}
+            <svg
+              className={`w-4 h-4 transition-transform duration-200 ${showMoreOptions ? 'rotate-180' : 'rotate-0'}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+
+          {showMoreOptions && (
+            <fieldset id="more-options" className="mt-4 space-y-4" disabled={isLoading}>
+              <legend className="sr-only">Planning preferences</legend>
+
+              {/* Budget */}
+              <div>
+                <label htmlFor="budget" className="block text-[#3D405B] text-sm font-medium mb-1">
+                  Budget
+                </label>
+                <select
+                  id="budget"
+                  name="budget"
+                  value={budget}
+                  onChange={createChangeHandler(null, (value) => setBudget(value as BudgetTier | ''))}
+                  className={preferenceFieldClass()}
+                >
+                  <option value="">No preference</option>
+                  {BUDGET_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Travel radius */}
+              <div>
+                <label htmlFor="maxTravelMiles" className="block text-[#3D405B] text-sm font-medium mb-1">
+                  Travel radius (miles)
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  id="maxTravelMiles"
+                  name="maxTravelMiles"
+                  value={maxTravelMiles}
+                  onChange={createChangeHandler('maxTravelMiles', setMaxTravelMiles)}
+                  placeholder="e.g., 20"
+                  className={preferenceFieldClass(Boolean(errors.maxTravelMiles))}
+                  aria-invalid={errors.maxTravelMiles ? 'true' : 'false'}
+                  aria-describedby={errors.maxTravelMiles ? 'maxTravelMiles-error' : 'maxTravelMiles-hint'}
+                />
+                <p id="maxTravelMiles-hint" className="text-gray-500 text-sm mt-1">
+                  How far you are willing to go ({MIN_TRAVEL_MILES}-{MAX_TRAVEL_MILES})
+                </p>
+                {errors.maxTravelMiles && (
+                  <p id="maxTravelMiles-error" className="text-[#E63946] text-sm mt-1" role="alert" aria-live="polite">
+                    {errors.maxTravelMiles}
+                  </p>
+                )}
+              </div>
+
+              {/* Indoor or outdoor */}
+              <div>
+                <label htmlFor="setting" className="block text-[#3D405B] text-sm font-medium mb-1">
+                  Indoor or outdoor
+                </label>
+                <select
+                  id="setting"
+                  name="setting"
+                  value={setting}
+                  onChange={createChangeHandler(null, (value) => setSetting(value as SettingPreference | ''))}
+                  className={preferenceFieldClass()}
+                >
+                  <option value="">No preference</option>
+                  {SETTING_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Interests */}
+              <div>
+                <label htmlFor="interests" className="block text-[#3D405B] text-sm font-medium mb-1">
+                  Interests
+                </label>
+                <input
+                  type="text"
+                  id="interests"
+                  name="interests"
+                  value={interests}
+                  onChange={createChangeHandler('interests', setInterests)}
+                  placeholder="e.g., dinosaurs, trains, art"
+                  className={preferenceFieldClass(Boolean(errors.interests))}
+                  aria-invalid={errors.interests ? 'true' : 'false'}
+                  aria-describedby={errors.interests ? 'interests-error' : 'interests-hint'}
+                />
+                <p id="interests-hint" className="text-gray-500 text-sm mt-1">
+                  Separate interests with commas
+                </p>
+                {errors.interests && (
+                  <p id="interests-error" className="text-[#E63946] text-sm mt-1" role="alert" aria-live="polite">
+                    {errors.interests}
+                  </p>
+                )}
+              </div>
+
+              {/* Accessibility needs */}
+              <fieldset>
+                <legend className="block text-[#3D405B] text-sm font-medium mb-1">Accessibility needs</legend>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                  {ACCESSIBILITY_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm text-[#3D405B]">
+                      <input
+                        type="checkbox"
+                        checked={accessibility.includes(option.value)}
+                        onChange={(e) => handleAccessibilityChange(option.value, e.target.checked)}
+                        className="rounded border-gray-300 focus:ring-[#1e3a5f]"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              {/* Activity intensity */}
+              <div>
+                <label htmlFor="intensity" className="block text-[#3D405B] text-sm font-medium mb-1">
+                  Activity level
+                </label>
+                <select
+                  id="intensity"
+                  name="intensity"
+                  value={intensity}
+                  onChange={createChangeHandler(null, (value) => setIntensity(value as ActivityIntensity | ''))}
+                  className={preferenceFieldClass()}
+                >
+                  <option value="">No preference</option>
+                  {INTENSITY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </fieldset>
+          )}
         </div>
 
         {/* Action buttons */}
@@ -0,0 +1,199 @@
+/**
+ * ItineraryView Component
+ *
+ * Shows a plan's activities on a Saturday/Sunday timeline with morning,
+ * afternoon and evening slots. Activities start in the slot their time
+ * points to and can be dragged to another slot, or moved with the "Move to"
+ * select for keyboard and touch users.
+ *
+ * Every move is reported through onChange so the caller can keep the
+ * arrangement with the plan, and a saved arrangement passed back in is
+ * restored while it still fits. Read-only views, e.g. of a plan opened
+ * from a share link, cannot be rearranged.
+ *
+ * @fileoverview Weekend timeline view with movable activities
+ */
+
+import { useState, DragEvent } from 'react';
+import Markdown from './Markdown';
+import { DAY_PARTS, ITINERARY_DAYS, ITINERARY_SLOTS, moveActivity, resolveItinerary } from '../api/itinerary';
+import { toPlainText } from '../api/markdownText';
+import type { DayPart, Itinerary, ItineraryDay, ItinerarySlotId, PlanActivity } from '../types';
+
+/**
+ * Props interface for the ItineraryView component.
+ */
+export interface ItineraryViewProps {
+  /** The plan's activities, as parsed from the summary */
+  activities: PlanActivity[];
+
+  /**
+   * Arrangement saved with the plan. Ignored when it no longer fits the
+   * activities; the activities are then arranged by their times.
+   */
+  itinerary?: Itinerary;
+
+  /**
+   * Called with the new arrangement after every move.
+   * When omitted, moves last only while the view is shown.
+   */
+  onChange?: (itinerary: Itinerary) => void;
+
+  /**
+   * Whether activities stay in their slots, without dragging or "Move to".
+   * @default false
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Display names for days and parts of the day.
+ */
+const DAY_LABELS: Record<ItineraryDay, string> = {
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+};
+
+const DAY_PART_LABELS: Record<DayPart, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+};
+
+/**
+ * Formats a slot ID for display, e.g. "Saturday morning".
+ *
+ * @param slot - The slot ID
+ * @returns The slot's display name
+ */
+function getSlotLabel(slot: ItinerarySlotId): string {
+  const [day, part] = slot.split('-') as [ItineraryDay, DayPart];
+  return `${DAY_LABELS[day]} ${DAY_PART_LABELS[part].toLowerCase()}`;
+}
+
+/**
+ * ItineraryView Component
+ *
+ * @param props - Component props containing the activities, saved arrangement, change handler and read-only flag
+ * @returns React component for the weekend timeline
+ *
+ * @example
+ * ```tsx
+ * <ItineraryView
+ *   activities={plan.activities}
+ *   itinerary={result.itinerary}
+ *   onChange={(itinerary) => setPlanItinerary(historyId, planText, itinerary)}
+ * />
+ * ```
+ */
+export function ItineraryView({ activities, itinerary: saved, onChange, readOnly = false }: ItineraryViewProps): JSX.Element {
+  const [itinerary, setItinerary] = useState<Itinerary>(() => resolveItinerary(saved, activities));
+  const [dropTarget, setDropTarget] = useState<ItinerarySlotId | null>(null);
+
+  const handleMove = (activityIndex: number, slot: ItinerarySlotId): void => {
+    const next = moveActivity(itinerary, activityIndex, slot);
+    setItinerary(next);
+    onChange?.(next);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, slot: ItinerarySlotId): void => {
+    event.preventDefault();
+    setDropTarget(null);
+    // Only accept drags of this view's activities, not text dropped from elsewhere
+    const data = event.dataTransfer.getData('text/plain');
+    const activityIndex = Number(data);
+    if (/^\d+$/.test(data) && activityIndex < activities.length) {
+      handleMove(activityIndex, slot);
+    }
+  };
+
+  return (
+    <section aria-label="Weekend itinerary" className="grid gap-4 sm:grid-cols-2">
+      {ITINERARY_DAYS.map((day) => (
+        <div key={day}>
+          <h3 className="text-lg font-semibold text-[#3D405B] mb-2">{DAY_LABELS[day]}</h3>
+          <div className="space-y-2">
+            {DAY_PARTS.map((part) => {
+              const slot: ItinerarySlotId = `${day}-${part}`;
+              return (
+                <div
+                  key={slot}
+                  role="group"
+                  aria-label={getSlotLabel(slot)}
+                  onDragOver={
+                    readOnly
+                      ? undefined
+                      : (event) => {
+                          event.preventDefault();
+                          setDropTarget(slot);
+                        }
+                  }
+                  onDragLeave={() => setDropTarget((current) => (current === slot ? null : current))}
+                  onDrop={readOnly ? undefined : (event) => handleDrop(event, slot)}
+                  className={`min-h-[4rem] p-2 rounded-lg border-2 border-dashed transition-colors duration-150 ${
+                    dropTarget === slot ? 'border-[#81B29A] bg-[#81B29A]/10' : 'border-gray-200 bg-[#F4F1DE]/40'
+                  }`}
+                >
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-[#3D405B]/60 mb-1">
+                    {DAY_PART_LABELS[part]}
+                  </h4>
+                  {itinerary[slot].length === 0 ? (
+                    <p className="text-xs text-[#3D405B]/40">Free time</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {itinerary[slot].map((activityIndex) => {
+                        const activity = activities[activityIndex];
+                        const title = toPlainText(activity.title);
+                        return (
+                          <li
+                            key={activityIndex}
+                            draggable={!readOnly}
+                            onDragStart={(event) => {
+                              event.dataTransfer.setData('text/plain', String(activityIndex));
+                              event.dataTransfer.effectAllowed = 'move';
+                            }}
+                            className={`p-2 bg-white border border-[#81B29A]/30 rounded shadow-sm text-sm text-[#3D405B] ${
+                              readOnly ? '' : 'cursor-move'
+                            }`}
+                          >
+                            <p className="font-medium">
+                              <Markdown text={activity.title} inline />
+                            </p>
+                            {activity.time && (
+                              <p className="text-xs text-[#3D405B]/60">
+                                <Markdown text={activity.time} inline />
+                              </p>
+                            )}
+                            {!readOnly && (
+                              <label className="mt-1 flex items-center gap-1 text-xs text-[#3D405B]/60">
+                                <span aria-hidden="true">Move to</span>
+                                <select
+                                  value={slot}
+                                  onChange={(event) => handleMove(activityIndex, event.target.value as ItinerarySlotId)}
+                                  aria-label={`Move ${title} to`}
+                                  className="px-1 py-0.5 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+                                >
+                                  {ITINERARY_SLOTS.map((option) => (
+                                    <option key={option} value={option}>
+                                      {getSlotLabel(option)}
+                                    </option>
+                                  ))}
+                                </select>
+                              </label>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+export default ItineraryView;
@@ -1,11 +1,15 @@
 /**
  * LoadingState Component
  * 
- * A React functional component that displays a loading skeleton animation
+ * A React functional component that displays loading feedback
  * during API requests while the AI is generating a weekend plan.
  * 
  * Features:
- * - Pulse animation skeleton cards mimicking expected plan output structure
+ * - Live pipeline progress driven by the authors of streamed ADK events
+ *   (pending, running and done for each WeekendPlannerRootAgent stage)
+ * - Elapsed time counter since the request started
+ * - Optional Cancel button that aborts the in-flight request
+ * - Pulse animation skeleton cards when no events are available
  * - Displays "Creating your perfect weekend..." message
  * - Implements aria-busy="true" for screen reader accessibility
  * - Uses Tailwind CSS animate-pulse utility for visual feedback
@@ -13,28 +17,180 @@
  * @module components/LoadingState
  */
 
+import { useEffect, useState } from 'react';
+import type { ADKEvent } from '../types';
+
+/**
+ * Status of a single pipeline stage.
+ */
+type StageStatus = 'pending' | 'running' | 'done';
+
+/**
+ * A stage of the WeekendPlannerRootAgent pipeline, in execution order.
+ */
+interface PipelineStage {
+  /** Stable identifier used for React keys */
+  id: string;
+  /** User-facing description of the stage */
+  label: string;
+  /** Event authors that belong to this stage */
+  authors: string[];
+}
+
+/**
+ * Pipeline stages in the order the root SequentialAgent runs them.
+ * Activity research covers both branches the WeatherRouter can choose.
+ */
+const PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'preprocess', label: 'Reading your request', authors: ['PreprocessInputAgent'] },
+  { id: 'weather', label: 'Checking the weekend weather', authors: ['WeatherAgent'] },
+  { id: 'router', label: 'Choosing where to look', authors: ['WeatherRouter'] },
+  {
+    id: 'research',
+    label: 'Researching activities',
+    authors: [
+      'ActivityResearchGroup',
+      'WeekendLocalActivityAgent',
+      'WeekendSpecialActivityAgent',
+      'HomeActivitiesAgent'
+    ]
+  },
+  { id: 'summarizer', label: 'Writing your plan', authors: ['SummarizerAgent'] },
+];
+
+/**
+ * Props interface for the LoadingState component.
+ */
+export interface LoadingStateProps {
+  /**
+   * Events received so far from the streaming run.
+   * When empty or omitted, the skeleton cards are shown instead of stage progress.
+   */
+  events?: ADKEvent[];
+
+  /**
+   * Epoch milliseconds when the request started.
+   * Defaults to the time the component mounted.
+   */
+  startedAt?: number;
+
+  /**
+   * Called when the user cancels the request.
+   * The Cancel button is only shown when this is provided.
+   */
+  onCancel?: () => void;
+}
+
+/**
+ * Derives the status of each pipeline stage from the received events.
+ * The stage of the most recent recognized author is running, every
+ * earlier stage is done and every later stage is pending.
+ * 
+ * @param events - Events received so far
+ * @returns Status per stage id, or null if no event matched a known stage
+ */
+function getStageStatuses(events: ADKEvent[]): Record<string, StageStatus> | null {
+  let currentIndex = -1;
+
+  for (const event of events) {
+    const index = PIPELINE_STAGES.findIndex((stage) => stage.authors.includes(event.author));
+    if (index > currentIndex) {
+      currentIndex = index;
+    }
+  }
+
+  if (currentIndex < 0) {
+    return null;
+  }
+
+  const statuses: Record<string, StageStatus> = {};
+  PIPELINE_STAGES.forEach((stage, index) => {
+    if (index < currentIndex) {
+      statuses[stage.id] = 'done';
+    } else if (index === currentIndex) {
+      statuses[stage.id] = 'running';
+    } else {
+      statuses[stage.id] = 'pending';
+    }
+  });
+  return statuses;
+}
+
+/**
+ * Formats elapsed milliseconds as m:ss.
+ * 
+ * @param elapsedMs - Elapsed time in milliseconds
+ * @returns Formatted time, e.g. "1:05"
+ */
+function formatElapsed(elapsedMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Stage indicator icon for a pipeline stage status.
+ */
+function StageIcon({ status }: { status: StageStatus }): JSX.Element {
+  if (status === 'done') {
+    return (
+      <span className="w-6 h-6 rounded-full bg-[#81B29A] text-white flex items-center justify-center" aria-hidden="true">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+        </svg>
+      </span>
+    );
+  }
+
+  if (status === 'running') {
+    return (
+      <span className="w-6 h-6 rounded-full border-2 border-[#81B29A] flex items-center justify-center" aria-hidden="true">
+        <span className="w-2.5 h-2.5 rounded-full bg-[#81B29A] animate-pulse" />
+      </span>
+    );
+  }
+
+  return <span className="w-6 h-6 rounded-full border-2 border-gray-200" aria-hidden="true" />;
+}
+
 /**
- * LoadingState component displays a skeleton loading animation
+ * LoadingState component displays loading feedback
  * while the AI is generating a weekend plan.
  * 
- * This is a pure presentational component with no required props.
- * It renders multiple skeleton cards that simulate the structure
- * of the expected plan output to provide visual feedback during loading.
+ * When streamed events are available, it lists the pipeline stages with
+ * their pending/running/done status. Otherwise it renders multiple skeleton
+ * cards that simulate the structure of the expected plan output.
+ * An elapsed timer is shown in both cases.
  * 
  * Accessibility features:
  * - aria-busy="true" indicates content is loading
  * - role="status" for loading indicator semantics
  * - aria-label provides context for screen readers
  * 
- * @returns {JSX.Element} The loading state skeleton UI
+ * @param props - Optional streamed events, request start time and cancel handler
+ * @returns {JSX.Element} The loading state UI
  * 
  * @example
  * ```tsx
  * // Display loading state while fetching data
- * {isLoading && <LoadingState />}
+ * {isLoading && <LoadingState events={streamEvents} onCancel={handleCancel} />}
  * ```
  */
-export function LoadingState(): JSX.Element {
+export function LoadingState({ events = [], startedAt, onCancel }: LoadingStateProps): JSX.Element {
+  // Start time is fixed on mount unless the caller provides one
+  const [mountedAt] = useState<number>(() => Date.now());
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  // Tick once per second to update the elapsed timer
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const elapsed = formatElapsed(now - (startedAt ?? mountedAt));
+  const stageStatuses = getStageStatuses(events);
+
   return (
     <div
       className="rounded-xl p-6"
@@ -43,58 +199,107 @@ export function LoadingState(): JSX.Element {
       aria-label="Loading weekend plan"
     >
       {/* Loading message text centered with design system colors */}
-      <p className="text-lg text-[#3D405B] text-center mb-6 font-medium">
+      <p className="text-lg text-[#3D405B] text-center mb-1 font-medium">
         Creating your perfect weekend...
       </p>
 
-      {/* Skeleton cards container with vertical spacing */}
-      <div className="space-y-4">
-        {/* Skeleton Card 1 - Activity placeholder */}
-        <div className="bg-white rounded-xl p-6 mb-4">
-          {/* Header skeleton - narrow width for title appearance */}
-          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4 animate-pulse" />
-          {/* Content line 1 - full width for description */}
-          <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
-          {/* Content line 2 - slightly shorter */}
-          <div className="h-4 bg-gray-200 rounded w-5/6 mb-2 animate-pulse" />
-          {/* Content line 3 - shortest for variation */}
-          <div className="h-4 bg-gray-200 rounded w-2/3 animate-pulse" />
-        </div>
+      {/* Elapsed time since the request started */}
+      <p className="text-sm text-[#3D405B]/60 text-center mb-6" aria-label={`Elapsed time ${elapsed}`}>
+        {elapsed}
+      </p>
 
-        {/* Skeleton Card 2 - Activity placeholder */}
-        <div className="bg-white rounded-xl p-6 mb-4">
-          {/* Header skeleton */}
-          <div className="h-6 bg-gray-200 rounded w-2/5 mb-4 animate-pulse" />
-          {/* Content line 1 */}
-          <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
-          {/* Content line 2 */}
-          <div className="h-4 bg-gray-200 rounded w-4/5 mb-2 animate-pulse" />
-          {/* Content line 3 */}
-          <div className="h-4 bg-gray-200 rounded w-1/2 animate-pulse" />
+      {/* Cancel button - aborts the request and restores the previous view */}
+      {onCancel && (
+        <div className="flex justify-center -mt-3 mb-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-[#3D405B] border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          >
+            Cancel
+          </button>
         </div>
+      )}
 
-        {/* Skeleton Card 3 - Activity placeholder */}
-        <div className="bg-white rounded-xl p-6 mb-4">
-          {/* Header skeleton */}
-          <div className="h-6 bg-gray-200 rounded w-1/4 mb-4 animate-pulse" />
-          {/* Content line 1 */}
-          <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
-          {/* Content line 2 */}
-          <div className="h-4 bg-gray-200 rounded w-3/4 mb-2 animate-pulse" />
-          {/* Content line 3 */}
-          <div className="h-4 bg-gray-200 rounded w-5/6 animate-pulse" />
-        </div>
+      {stageStatuses ? (
+        // Live pipeline progress from streamed events
+        <ol className="bg-white rounded-xl p-6 space-y-4" aria-label="Planning progress">
+          {PIPELINE_STAGES.map((stage) => {
+            const status = stageStatuses[stage.id];
+            return (
+              <li
+                key={stage.id}
+                className="flex items-center gap-3"
+                data-status={status}
+                aria-current={status === 'running' ? 'step' : undefined}
+              >
+                <StageIcon status={status} />
+                <span
+                  className={
+                    status === 'pending'
+                      ? 'text-[#3D405B]/40'
+                      : status === 'running'
+                        ? 'text-[#3D405B] font-medium'
+                        : 'text-[#3D405B]/70'
+                  }
+                >
+                  {stage.label}
+                </span>
+                <span className="sr-only">({status})</span>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        // Skeleton cards when no stage progress is available
+        <div className="space-y-4">
+          {/* Skeleton Card 1 - Activity placeholder */}
+          <div className="bg-white rounded-xl p-6 mb-4">
+            {/* Header skeleton - narrow width for title appearance */}
+            <div className="h-6 bg-gray-200 rounded w-1/3 mb-4 animate-pulse" />
+            {/* Content line 1 - full width for description */}
+            <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
+            {/* Content line 2 - slightly shorter */}
+            <div className="h-4 bg-gray-200 rounded w-5/6 mb-2 animate-pulse" />
+            {/* Content line 3 - shortest for variation */}
+            <div className="h-4 bg-gray-200 rounded w-2/3 animate-pulse" />
+          </div>
+
+          {/* Skeleton Card 2 - Activity placeholder */}
+          <div className="bg-white rounded-xl p-6 mb-4">
+            {/* Header skeleton */}
+            <div className="h-6 bg-gray-200 rounded w-2/5 mb-4 animate-pulse" />
+            {/* Content line 1 */}
+            <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
+            {/* Content line 2 */}
+            <div className="h-4 bg-gray-200 rounded w-4/5 mb-2 animate-pulse" />
+            {/* Content line 3 */}
+            <div className="h-4 bg-gray-200 rounded w-1/2 animate-pulse" />
+          </div>
+
+          {/* Skeleton Card 3 - Activity placeholder */}
+          <div className="bg-white rounded-xl p-6 mb-4">
+            {/* Header skeleton */}
+            <div className="h-6 bg-gray-200 rounded w-1/4 mb-4 animate-pulse" />
+            {/* Content line 1 */}
+            <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
+            {/* Content line 2 */}
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-2 animate-pulse" />
+            {/* Content line 3 */}
+            <div className="h-4 bg-gray-200 rounded w-5/6 animate-pulse" />
+          </div>
 
-        {/* Skeleton Card 4 - Additional activity placeholder for variation */}
-        <div className="bg-white rounded-xl p-6">
-          {/* Header skeleton */}
-          <div className="h-6 bg-gray-200 rounded w-1/3 mb-4 animate-pulse" />
-          {/* Content line 1 */}
-          <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
-          {/* Content line 2 */}
-          <div className="h-4 bg-gray-200 rounded w-2/3 animate-pulse" />
+          {/* Skeleton Card 4 - Additional activity placeholder for variation */}
+          <div className="bg-white rounded-xl p-6">
+            {/* Header skeleton */}
+            <div className="h-6 bg-gray-200 rounded w-1/3 mb-4 animate-pulse" />
+            {/* Content line 1 */}
+            <div className="h-4 bg-gray-200 rounded w-full mb-2 animate-pulse" />
+            {/* Content line 2 */}
+            <div className="h-4 bg-gray-200 rounded w-2/3 animate-pulse" />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,339 @@
+/**
+ * Markdown Component
+ *
+ * Renders the Markdown the agents write (headings, emphasis, nested lists,
+ * links and paragraphs) as React elements. The text is model output, so it
+ * is never injected as HTML: every piece becomes a text node or an element
+ * built here, and raw HTML in the text is shown as-is.
+ *
+ * Features:
+ * - ATX headings (# to ######), rendered below the page's own heading levels
+ * - Bold, italic and inline code
+ * - Bulleted and numbered lists, nested by indentation
+ * - Links, limited to http, https and mailto; other links render as text
+ * - Paragraphs that keep single line breaks, as the planner uses them for
+ *   short label lines ("Area: ...", "Weather: ...")
+ * - Inline mode for single lines such as activity titles
+ *
+ * Design System Colors:
+ * - Text: #3D405B (deep charcoal)
+ * - Links: #1e3a5f (navy)
+ *
+ * @fileoverview Safe Markdown renderer for agent-written plan text
+ */
+
+import type { ReactNode } from 'react';
+import { INLINE_PATTERN } from '../api/markdownText';
+
+/**
+ * Props interface for the Markdown component.
+ */
+export interface MarkdownProps {
+  /** Markdown text to render */
+  text: string;
+
+  /**
+   * Render inline formatting only, without block elements.
+   * Use for text placed inside an existing heading or paragraph.
+   * @default false
+   */
+  inline?: boolean;
+}
+
+/** A list item with its nested lists */
+interface ListItem {
+  text: string;
+  children: ListBlock[];
+}
+
+/** A bulleted or numbered list */
+interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: ListItem[];
+}
+
+/** A block-level piece of a Markdown document */
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'rule' }
+  | ListBlock;
+
+/** One line of a list, before nesting */
+interface ListLine {
+  indent: number;
+  ordered: boolean;
+  text: string;
+}
+
+/**
+ * Heading levels the page itself uses (the plan title is an h2), so
+ * Markdown "#" renders as h3 and the outline stays intact.
+ */
+const HEADING_LEVEL_OFFSET = 2;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+
+/** Classes for each rendered heading level, h3 to h6 */
+const HEADING_CLASSES: Record<number, string> = {
+  3: 'text-xl font-bold text-[#3D405B] mt-4 mb-2',
+  4: 'text-lg font-semibold text-[#3D405B] mt-3 mb-1',
+  5: 'text-base font-semibold text-[#3D405B] mt-2 mb-1',
+  6: 'text-sm font-semibold text-[#3D405B] mt-2 mb-1',
+};
+
+/**
+ * Returns the link if it uses a safe scheme.
+ *
+ * @param href - Link target from the text
+ * @returns The link for http, https and mailto URLs, otherwise undefined
+ */
+function toSafeHref(href: string): string | undefined {
+  try {
+    const url = new URL(href);
+    return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Renders inline formatting as React nodes.
+ *
+ * @param text - One line or paragraph of Markdown
+ * @param keyPrefix - Prefix for element keys, unique per call site
+ * @returns Text and inline elements
+ */
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push(text.slice(lastIndex, index));
+    }
+    lastIndex = index + match[0].length;
+    const key = `${keyPrefix}-${index}`;
+    const [, code, linkText, href, bold, boldAlt, italic, italicAlt] = match;
+
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="px-1 py-0.5 bg-gray-100 rounded text-sm font-mono">
+          {code}
+        </code>
+      );
+    } else if (linkText !== undefined) {
+      const safeHref = toSafeHref(href);
+      nodes.push(
+        safeHref ? (
+          <a
+            key={key}
+            href={safeHref}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-[#1e3a5f] underline break-words"
+          >
+            {renderInline(linkText, key)}
+          </a>
+        ) : (
+          <span key={key}>{renderInline(linkText, key)}</span>
+        )
+      );
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold ?? boldAlt, key)}</strong>);
+    } else {
+      nodes.push(<em key={key}>{renderInline(italic ?? italicAlt, key)}</em>);
+    }
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+}
+
+/**
+ * Nests consecutive list lines by indentation.
+ *
+ * @param lines - List lines in document order
+ * @returns The top-level list
+ */
+function nestListLines(lines: ListLine[]): ListBlock {
+  const root: ListBlock = { type: 'list', ordered: lines[0].ordered, items: [] };
+  const stack: { indent: number; list: ListBlock }[] = [{ indent: lines[0].indent, list: root }];
+
+  for (const line of lines) {
+    while (stack.length > 1 && line.indent < stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+
+    const top = stack[stack.length - 1];
+    const parentItem = top.list.items[top.list.items.length - 1];
+    if (line.indent > top.indent && parentItem) {
+      const nested: ListBlock = { type: 'list', ordered: line.ordered, items: [] };
+      parentItem.children.push(nested);
+      stack.push({ indent: line.indent, list: nested });
+    }
+
+    const current = stack[stack.length - 1].list;
+    current.items.push({ text: line.text, children: [] });
+  }
+
+  return root;
+}
+
+/**
+ * Splits Markdown text into blocks.
+ *
+ * @param text - Markdown document
+ * @returns Headings, paragraphs, rules and lists in order
+ */
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let listLines: ListLine[] = [];
+
+  const flush = (): void => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', lines: paragraph });
+      paragraph = [];
+    }
+    if (listLines.length > 0) {
+      blocks.push(nestListLines(listLines));
+      listLines = [];
+    }
+  };
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.replace(/\t/g, '    ');
+
+    if (line.trim() === '') {
+      flush();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line.trim());
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item) {
+      if (paragraph.length > 0) {
+        flush();
+      }
+      listLines.push({ indent: item[1].length, ordered: /\d/.test(item[2]), text: item[3] });
+      continue;
+    }
+
+    if (listLines.length > 0) {
+      // A wrapped line continues the previous list item
+      const last = listLines[listLines.length - 1];
+      last.text = `${last.text} ${line.trim()}`;
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Renders a list and its nested lists.
+ *
+ * @param list - The list to render
+ * @param key - Element key, also used as prefix for nested keys
+ * @returns The ul or ol element
+ */
+function renderList(list: ListBlock, key: string): JSX.Element {
+  const ListTag = list.ordered ? 'ol' : 'ul';
+  return (
+    <ListTag
+      key={key}
+      className={`${list.ordered ? 'list-decimal' : 'list-disc'} pl-6 space-y-1 text-[#3D405B]`}
+    >
+      {list.items.map((item, index) => (
+        <li key={`${key}-${index}`}>
+          {renderInline(item.text, `${key}-${index}`)}
+          {item.children.map((child, childIndex) => renderList(child, `${key}-${index}-${childIndex}`))}
+        </li>
+      ))}
+    </ListTag>
+  );
+}
+
+/**
+ * Renders one block.
+ *
+ * @param block - The block to render
+ * @param key - Element key
+ * @returns The block's element
+ */
+function renderBlock(block: Block, key: string): JSX.Element {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level + HEADING_LEVEL_OFFSET, 6);
+      const HeadingTag = `h${level}` as 'h3' | 'h4' | 'h5' | 'h6';
+      return (
+        <HeadingTag key={key} className={HEADING_CLASSES[level]}>
+          {renderInline(block.text, key)}
+        </HeadingTag>
+      );
+    }
+    case 'paragraph':
+      return (
+        <p key={key} className="text-[#3D405B] leading-relaxed">
+          {block.lines.map((line, index) => (
+            <span key={`${key}-${index}`}>
+              {index > 0 && <br />}
+              {renderInline(line, `${key}-${index}`)}
+            </span>
+          ))}
+        </p>
+      );
+    case 'rule':
+      return <hr key={key} className="my-4 border-gray-200" />;
+    case 'list':
+      return renderList(block, key);
+  }
+}
+
+/**
+ * Safe Markdown renderer component.
+ *
+ * @param props - Component props containing the text and inline flag
+ * @returns React element with the rendered Markdown
+ *
+ * @example
+ * ```tsx
+ * <Markdown text={planText} />
+ * <h4><Markdown text={activity.title} inline /></h4>
+ * ```
+ */
+export function Markdown({ text, inline = false }: MarkdownProps): JSX.Element {
+  if (inline) {
+    return <>{renderInline(text, 'inline')}</>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {parseBlocks(text).map((block, index) => renderBlock(block, `block-${index}`))}
+    </div>
+  );
+}
+
+export default Markdown;
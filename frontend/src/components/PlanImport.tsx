@@ -0,0 +1,114 @@
+/**
+ * PlanImport Component
+ *
+ * File picker for opening a plan exported as JSON, e.g. one shared by
+ * another family member or saved from another browser.
+ *
+ * Features:
+ * - Accepts .json files written by the plan's JSON export
+ * - Validates the file with parsePlanExport() before handing it on
+ * - Shows why a file could not be imported
+ * - Resets the picker so the same file can be chosen again
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview JSON plan import
+ */
+
+import { useState, ChangeEvent } from 'react';
+import { parsePlanExport, PlanImportError } from '../api/planExport';
+import type { PlanExport } from '../types';
+
+/**
+ * Props interface for the PlanImport component.
+ */
+export interface PlanImportProps {
+  /** Called with the validated export once a file was read */
+  onImport: (data: PlanExport) => void;
+
+  /**
+   * Whether the picker is disabled, e.g. while a plan is generating.
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Reads a file as text. Uses FileReader, which every supported browser
+ * implements, rather than Blob.text().
+ *
+ * @param file - The chosen file
+ * @returns The file's content
+ */
+export function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * JSON plan import component.
+ *
+ * @param props - Component props
+ * @returns React element with the file picker and any import error
+ *
+ * @example
+ * ```tsx
+ * <PlanImport onImport={handleImportPlan} disabled={isLoading} />
+ * ```
+ */
+export function PlanImport({ onImport, disabled = false }: PlanImportProps): JSX.Element {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  /**
+   * Reads and validates the chosen file.
+   *
+   * @param event - Change event from the file input
+   */
+  const handleChange = async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) {
+      return;
+    }
+
+    setImportError(null);
+    try {
+      onImport(parsePlanExport(await readFileText(file)));
+    } catch (error) {
+      setImportError(
+        error instanceof PlanImportError
+          ? `Could not import ${file.name}: ${error.message}`
+          : `Could not read ${file.name}`
+      );
+    } finally {
+      input.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <label className="block text-[#3D405B] font-medium" htmlFor="plan-import-file">
+        Import a plan
+      </label>
+      <p className="text-xs text-[#3D405B]/60 mb-2">Open a plan exported as JSON.</p>
+      <input
+        id="plan-import-file"
+        type="file"
+        accept=".json,application/json"
+        onChange={handleChange}
+        disabled={disabled}
+        className="block w-full text-sm text-[#3D405B] file:mr-3 file:px-3 file:py-1 file:rounded-lg file:border file:border-gray-300 file:bg-white file:text-[#1e3a5f] file:font-medium hover:file:bg-gray-50 disabled:opacity-50"
+      />
+      {importError && (
+        <p className="mt-2 text-sm text-[#E63946]" role="alert">
+          {importError}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PlanImport;
@@ -6,10 +6,31 @@
  * RawOutput component for collapsible raw API response viewing.
  * 
  * Features:
- * - Displays formatted plan text content from planText prop
- * - Attempts to parse and display structured activity cards when data is parseable
- * - Falls back to displaying raw text content gracefully for unstructured responses
+ * - Displays formatted plan text content from planText prop, rendering the
+ *   agents' Markdown safely in both the card and the fallback view
+ * - Parses the summary with parseWeekendPlan() and shows activity cards with
+ *   time, place and cost when the parse is confident enough
+ * - Falls back to displaying the summary as Markdown text for unstructured responses
  * - Includes collapsible Raw Output section (collapsed by default)
+ * - Shows a "still writing" indicator while the plan text is streaming in,
+ *   with a Cancel button that stops the run
+ * - Shows the weekend the plan is for, flagged when that weekend has passed
+ * - Shows what the agent understood (parsed zip, ages, weather verdict) and
+ *   the raw research findings behind the summary, from session state
+ * - Warns when the agent's parsed input differs from what the user typed
+ * - Collapsible list of the tools each agent called, with arguments and results
+ * - Source links on each activity card, matched from search grounding and
+ *   research findings
+ * - List/Itinerary toggle: the itinerary arranges activities on a
+ *   Saturday/Sunday timeline, kept with the plan through onItineraryChange
+ * - "Add to calendar" download of the activities as an iCalendar file,
+ *   timed by the itinerary and placed on the plan's weekend
+ * - Export menu downloading the plan as Markdown, plain text, JSON or
+ *   printable HTML
+ * - "Share link" copying a link that carries the plan in its URL fragment
+ * - "Swap this" on each activity card, asking the agent for one replacement
+ * - Thumbs up/down on each activity card, remembered for later plans
+ * - Read-only mode for plans opened from a share link
  * - Full accessibility support with ARIA attributes
  * - Responsive design using Tailwind CSS
  * 
@@ -21,36 +42,35 @@
  * @fileoverview Weekend plan display component with activity cards and raw output viewer
  */
 
+import { useEffect, useState } from 'react';
+import ExportMenu from './ExportMenu';
+import ItineraryView from './ItineraryView';
+import Markdown from './Markdown';
 import RawOutput from './RawOutput';
-import type { ADKResponse } from '../types';
-
-/**
- * Represents a parsed activity from the plan text.
- * Used when the AI response can be structured into distinct activities.
- */
-interface ParsedActivity {
-  /** Title or name of the activity */
-  title: string;
-  /** Detailed description of the activity */
-  description: string;
-  /** Optional category or type of activity */
-  category?: string;
-}
-
-/**
- * Represents parsed plan data when structured format is detected.
- * Contains header information and a list of activities.
- */
-interface ParsedPlanData {
-  /** Header text (area, weather, ages info) */
-  header?: string;
-  /** List of parsed activities */
-  activities: ParsedActivity[];
-  /** Disclaimer text from the AI response */
-  disclaimer?: string;
-  /** Any remaining unstructured content */
-  remainingContent?: string;
-}
+import ShareButton from './ShareButton';
+import ToolActivity from './ToolActivity';
+import { getSearchGroundings, getToolInvocations } from '../api/agentActivity';
+import { createPlanCalendar, getCalendarFilename } from '../api/calendar';
+import { collectSources, findActivitySources } from '../api/citations';
+import { downloadFile } from '../api/download';
+import { getActivityRating, getFeedbackProfile, getFeedbackProfileId, rateActivity } from '../api/feedback';
+import { resolveItinerary } from '../api/itinerary';
+import { toPlainText } from '../api/markdownText';
+import { getPlanLayout, parseWeekendPlan } from '../api/planParser';
+import { createPlanExport, exportPlan } from '../api/planExport';
+import { getInputMismatches } from '../api/sessionState';
+import { formatWeekendDates, getPresetWeekend, isWeekendPast } from '../api/weekend';
+import type {
+  ActivityRating,
+  ADKResponse,
+  ExportFormat,
+  GeneratePlanInput,
+  Itinerary,
+  PlanActivity,
+  PlanSessionState,
+  WeatherVerdict,
+  WeekendPlan,
+} from '../types';
 
 /**
  * Props interface for the PlanView component.
@@ -67,124 +87,135 @@ export interface PlanViewProps {
     planText?: string;
     /** Raw ADK response for debugging display */
     rawResponse?: ADKResponse;
+    /** Structured values the agents wrote to session state */
+    sessionState?: PlanSessionState;
+    /** Session the plan came from, written to exports and calendar event IDs */
+    sessionId?: string;
+    /** How the user arranged the activities in the itinerary view */
+    itinerary?: Itinerary;
   };
-}
-
-/**
- * Attempts to parse the plan text into structured activity data.
- * Looks for bullet points, numbered lists, and other structural patterns
- * in the AI response to create activity cards.
- * 
- * @param planText - The raw plan text from the AI response
- * @returns ParsedPlanData if structure is detected, null otherwise
- */
-function parsePlanStructure(planText: string): ParsedPlanData | null {
-  if (!planText || typeof planText !== 'string') {
-    return null;
-  }
 
-  const lines = planText.split('\n').map((line) => line.trim()).filter(Boolean);
-  
-  if (lines.length === 0) {
-    return null;
-  }
+  /**
+   * The form input the plan was requested with.
+   * When provided, differences from the agent's parsed input are flagged.
+   */
+  input?: GeneratePlanInput;
 
-  const activities: ParsedActivity[] = [];
-  let header = '';
-  let disclaimer = '';
-  let currentActivity: Partial<ParsedActivity> | null = null;
+  /**
+   * Whether the plan text is still streaming in.
+   * When true, an in-progress indicator is shown below the header.
+   * @default false
+   */
+  isStreaming?: boolean;
 
-  // Patterns for detecting structured content
-  const bulletPattern = /^[-•*]\s+(.+)/;
-  const numberedPattern = /^\d+[.)]\s+(.+)/;
-  const headerPattern = /^(area|weather|ages|location|forecast)/i;
-  const disclaimerPattern = /disclaimer|note:|based on ai|verify|accuracy/i;
+  /**
+   * Called by the Cancel button shown next to the streaming indicator.
+   * Without it no Cancel button is shown.
+   */
+  onCancel?: () => void;
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+  /**
+   * Called with the new arrangement after each move in the itinerary view,
+   * so it can be kept with the plan and passed back in result.itinerary.
+   * When omitted, moves last only while the itinerary is shown.
+   */
+  onItineraryChange?: (itinerary: Itinerary) => void;
 
-    // Check for disclaimer
-    if (disclaimerPattern.test(line)) {
-      disclaimer = line;
-      continue;
-    }
+  /**
+   * Whether the plan is someone else's, e.g. opened from a share link.
+   * Read-only plans cannot be rearranged or shared on.
+   * @default false
+   */
+  readOnly?: boolean;
 
-    // Check for header information (usually at the start)
-    if (i < 3 && headerPattern.test(line)) {
-      header = header ? `${header}\n${line}` : line;
-      continue;
-    }
+  /**
+   * Called with an activity's index when the user asks to swap it.
+   * When omitted, activity cards have no "Swap this" button.
+   */
+  onSwapActivity?: (index: number) => void;
 
-    // Check for bullet points
-    const bulletMatch = line.match(bulletPattern);
-    if (bulletMatch) {
-      // Save previous activity if exists
-      if (currentActivity && currentActivity.title) {
-        activities.push(currentActivity as ParsedActivity);
-      }
-      
-      currentActivity = {
-        title: bulletMatch[1],
-        description: '',
-      };
-      continue;
-    }
+  /** Index of the activity being swapped, shown as in progress */
+  swappingActivity?: number;
 
-    // Check for numbered items
-    const numberedMatch = line.match(numberedPattern);
-    if (numberedMatch) {
-      // Save previous activity if exists
-      if (currentActivity && currentActivity.title) {
-        activities.push(currentActivity as ParsedActivity);
-      }
-      
-      currentActivity = {
-        title: numberedMatch[1],
-        description: '',
-      };
-      continue;
-    }
+  /**
+   * Whether swapping is unavailable, e.g. while a refinement is in progress.
+   * @default false
+   */
+  swapDisabled?: boolean;
 
-    // If we have a current activity, append as description
-    if (currentActivity) {
-      currentActivity.description = currentActivity.description
-        ? `${currentActivity.description} ${line}`
-        : line;
-    } else if (i < 5) {
-      // Early lines without structure might be header
-      header = header ? `${header}\n${line}` : line;
-    }
-  }
+  /**
+   * Changing this value reloads the activity ratings, e.g. after they were
+   * cleared on the settings screen.
+   */
+  feedbackRefreshKey?: number;
+}
 
-  // Push the last activity
-  if (currentActivity && currentActivity.title) {
-    activities.push(currentActivity as ParsedActivity);
-  }
+/**
+ * Display text for each weather verdict, explaining the route the planner took.
+ */
+const WEATHER_VERDICT_LABELS: Record<WeatherVerdict, string> = {
+  good: 'Good weather - planning outdoor activities',
+  bad: 'Bad weather - planning at-home activities',
+  'do not leave home': 'Stay home - planning at-home activities',
+};
 
-  // Only return structured data if we found activities
-  if (activities.length >= 2) {
-    return {
-      header: header || undefined,
-      activities,
-      disclaimer: disclaimer || undefined,
-    };
-  }
+/**
+ * Ways the activity cards can be shown.
+ */
+type PlanViewMode = 'list' | 'itinerary';
 
-  return null;
-}
+/**
+ * Research findings from session state, in pipeline order.
+ */
+const FINDING_SECTIONS: { key: keyof PlanSessionState; title: string }[] = [
+  { key: 'localActivitiesFindings', title: 'Local activities' },
+  { key: 'specialActivitiesFindings', title: 'Special events' },
+  { key: 'homeActivitiesFindings', title: 'At-home activities' },
+];
 
 /**
  * Activity Card Component
  * 
- * Renders a single activity as a styled card with title and description.
+ * Renders a single activity as a styled card with title, description and
+ * the time, place and cost the summary gave, followed by numbered links to
+ * its sources when any were found. Thumbs up/down and "Swap this" buttons
+ * are shown when rating and swapping are offered.
  * Uses the success color scheme for visual consistency.
  */
-function ActivityCard({ activity, index }: { activity: ParsedActivity; index: number }): JSX.Element {
+function ActivityCard({
+  activity,
+  index,
+  onSwap,
+  isSwapping = false,
+  swapDisabled = false,
+  rating,
+  onRate,
+}: {
+  activity: PlanActivity;
+  index: number;
+  onSwap?: () => void;
+  isSwapping?: boolean;
+  swapDisabled?: boolean;
+  rating?: ActivityRating;
+  onRate?: (rating: ActivityRating | null) => void;
+}): JSX.Element {
+  const plainTitle = toPlainText(activity.title);
+  const ratingButtons: { value: ActivityRating; label: string; icon: string }[] = [
+    { value: 'like', label: `Like ${plainTitle}`, icon: '👍' },
+    { value: 'dislike', label: `Dislike ${plainTitle}`, icon: '👎' },
+  ];
+
+  const details = [
+    { label: 'When', value: activity.time },
+    { label: 'Where', value: activity.location },
+    { label: 'Cost', value: activity.cost },
+  ].filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+
   return (
     <div
       className="bg-white border border-[#81B29A]/30 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow duration-200"
       role="listitem"
-      aria-label={`Activity ${index + 1}: ${activity.title}`}
+      aria-label={`Activity ${index + 1}: ${plainTitle}`}
     >
       <div className="flex items-start gap-3">
         {/* Activity number badge */}
@@ -196,30 +227,277 @@ function ActivityCard({ activity, index }: { activity: ParsedActivity; index: nu
         </span>
         
         <div className="flex-1 min-w-0">
-          {/* Activity title */}
-          <h4 className="text-[#3D405B] font-semibold text-base leading-tight mb-1">
-            {activity.title}
-          </h4>
+          {/* Activity title, with the rating and swap actions */}
+          <div className="flex items-start justify-between gap-2">
+            <h4 className="text-[#3D405B] font-semibold text-base leading-tight mb-1">
+              <Markdown text={activity.title} inline />
+            </h4>
+            <div className="flex flex-shrink-0 items-center gap-2">
+              {onRate &&
+                ratingButtons.map(({ value, label, icon }) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => onRate(rating === value ? null : value)}
+                    aria-label={label}
+                    aria-pressed={rating === value}
+                    className={`w-7 h-7 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
+                      rating === value
+                        ? value === 'like'
+                          ? 'bg-[#81B29A]/30'
+                          : 'bg-[#E07A5F]/30'
+                        : 'opacity-50 hover:opacity-100'
+                    }`}
+                  >
+                    <span aria-hidden="true">{icon}</span>
+                  </button>
+                ))}
+              {onSwap && (
+                <button
+                  type="button"
+                  onClick={onSwap}
+                  disabled={isSwapping || swapDisabled}
+                  aria-label={`Swap ${plainTitle}`}
+                  className="text-xs font-medium text-[#1e3a5f] underline disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                >
+                  {isSwapping ? 'Swapping...' : 'Swap this'}
+                </button>
+              )}
+            </div>
+          </div>
           
           {/* Activity description */}
           {activity.description && (
             <p className="text-[#3D405B]/70 text-sm leading-relaxed">
-              {activity.description}
+              <Markdown text={activity.description} inline />
             </p>
           )}
           
+          {/* Time, place and cost */}
+          {details.length > 0 && (
+            <dl className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-[#3D405B]/80">
+              {details.map(({ label, value }) => (
+                <div key={label} className="flex gap-1">
+                  <dt className="font-semibold">{label}:</dt>
+                  <dd>
+                    <Markdown text={value} inline />
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
           {/* Activity category badge */}
           {activity.category && (
             <span className="inline-block mt-2 px-2 py-1 bg-[#81B29A]/10 text-[#81B29A] text-xs font-medium rounded">
               {activity.category}
             </span>
           )}
+
+          {/* Sources footnotes */}
+          {activity.sources && activity.sources.length > 0 && (
+            <footer className="mt-3 pt-2 border-t border-gray-100">
+              <h5 className="text-xs font-semibold uppercase tracking-wide text-[#3D405B]/60">Sources</h5>
+              <ol
+                className="mt-1 space-y-0.5 text-xs list-decimal list-inside"
+                aria-label={`Sources for ${plainTitle}`}
+              >
+                {activity.sources.map((source) => (
+                  <li key={source.uri} className="text-[#3D405B]/60">
+                    <a
+                      href={source.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-[#1e3a5f] underline break-all"
+                    >
+                      {source.title}
+                    </a>
+                  </li>
+                ))}
+              </ol>
+            </footer>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+/**
+ * Plan Header Component
+ * 
+ * Shows the title and the area, weather and ages the summary's header
+ * stated, as parsed from the plan text.
+ */
+function PlanHeader({ plan }: { plan: WeekendPlan }): JSX.Element | null {
+  const lines = [
+    plan.area && `Area: ${plan.area}`,
+    plan.weather && `Weather: ${plan.weather}`,
+    plan.kidAges.length > 0 && `Ages: ${plan.kidAges.join(', ')}`,
+  ].filter((line): line is string => Boolean(line));
+
+  if (!plan.title && lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-[#81B29A]/5 rounded-lg border border-[#81B29A]/20 text-sm text-[#3D405B]">
+      {plan.title && (
+        <h3 className="text-base font-semibold mb-1">
+          <Markdown text={plan.title} inline />
+        </h3>
+      )}
+      {lines.map((line) => (
+        <p key={line}>
+          <Markdown text={line} inline />
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Planner Understanding Component
+ * 
+ * Shows the zip code, kids ages and weather verdict the agents actually used,
+ * so users can spot when their input was misread or replaced by defaults.
+ * When the original input is known, differences are listed as a warning.
+ */
+function PlannerUnderstanding({
+  state,
+  input,
+}: {
+  state: PlanSessionState;
+  input?: GeneratePlanInput;
+}): JSX.Element | null {
+  const { parsedInput, weatherForecast } = state;
+  if (!parsedInput && !weatherForecast) {
+    return null;
+  }
+
+  const mismatches = input && parsedInput ? getInputMismatches(input, parsedInput) : [];
+
+  return (
+    <section
+      className="mt-3 p-3 bg-[#F4F1DE]/60 rounded-lg border border-gray-200"
+      aria-label="What the planner understood"
+    >
+      <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm text-[#3D405B]">
+        {parsedInput && (
+          <>
+            <dt className="font-medium">Zip code</dt>
+            <dd>{parsedInput.zipCode}</dd>
+            <dt className="font-medium">Kids ages</dt>
+            <dd>{parsedInput.kidAges.length > 0 ? parsedInput.kidAges.join(', ') : 'None'}</dd>
+          </>
+        )}
+        {weatherForecast && (
+          <>
+            <dt className="font-medium">Weather</dt>
+            <dd className={weatherForecast === 'good' ? 'text-[#81B29A]' : 'text-[#E07A5F]'}>
+              {WEATHER_VERDICT_LABELS[weatherForecast]}
+            </dd>
+          </>
+        )}
+      </dl>
+
+      {mismatches.length > 0 && (
+        <div
+          className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-lg"
+          role="alert"
+          aria-label="Input mismatch"
+        >
+          <p className="text-amber-800 text-sm font-medium">
+            The planner did not use exactly what you entered:
+          </p>
+          <ul className="mt-1 list-disc list-inside text-amber-800 text-sm">
+            {mismatches.map((mismatch) => (
+              <li key={mismatch}>{mismatch}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Research Findings Component
+ * 
+ * Collapsible view of the raw research the summary was written from,
+ * one block per research agent that ran. Collapsed by default.
+ */
+function ResearchFindings({ state }: { state: PlanSessionState }): JSX.Element | null {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  const sections = FINDING_SECTIONS.filter(({ key }) => typeof state[key] === 'string');
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="text-sm font-medium text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+        aria-expanded={isExpanded}
+        aria-controls="research-findings-content"
+      >
+        {isExpanded ? 'Hide research findings' : 'Show research findings'}
+      </button>
+
+      {isExpanded && (
+        <section id="research-findings-content" className="mt-3 space-y-4" aria-label="Research findings">
+          {sections.map(({ key, title }) => (
+            <div key={key}>
+              <h4 className="text-sm font-semibold text-[#3D405B] mb-1">{title}</h4>
+              <p className="text-[#3D405B]/80 text-sm whitespace-pre-wrap leading-relaxed">
+                {state[key] as string}
+              </p>
+            </div>
+          ))}
+        </section>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Agent Activity Component
+ * 
+ * Collapsible view of the tools the agents called and the web searches they
+ * ran while building the plan. Collapsed by default, and hidden for runs
+ * that used no tools.
+ */
+function AgentActivity({ events }: { events: ADKResponse }): JSX.Element | null {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  if (getToolInvocations(events).length === 0 && getSearchGroundings(events).length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-100">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="text-sm font-medium text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+        aria-expanded={isExpanded}
+        aria-controls="agent-activity-content"
+      >
+        {isExpanded ? 'Hide agent activity' : 'Show agent activity'}
+      </button>
+
+      {isExpanded && (
+        <div id="agent-activity-content" className="mt-3">
+          <ToolActivity events={events} />
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * PlanView Component
  * 
@@ -227,7 +505,8 @@ function ActivityCard({ activity, index }: { activity: ParsedActivity; index: nu
  * Attempts to parse the plan text into structured activity cards,
  * falling back to formatted text display for unstructured responses.
  * 
- * @param props - Component props containing the plan generation result
+ * @param props - Component props containing the plan generation result, its input, streaming and read-only
+ *   flags, the activity swap handler and the ratings refresh key
  * @returns React component for displaying the weekend plan
  * 
  * @example
@@ -238,8 +517,28 @@ function ActivityCard({ activity, index }: { activity: ParsedActivity; index: nu
  * }} />
  * ```
  */
-export function PlanView({ result }: PlanViewProps): JSX.Element {
-  const { planText, rawResponse } = result;
+export function PlanView({
+  result,
+  input,
+  isStreaming = false,
+  onCancel,
+  onItineraryChange,
+  readOnly = false,
+  onSwapActivity,
+  swappingActivity,
+  swapDisabled = false,
+  feedbackRefreshKey,
+}: PlanViewProps): JSX.Element {
+  const { planText, rawResponse, sessionState, sessionId, itinerary } = result;
+  const [viewMode, setViewMode] = useState<PlanViewMode>('list');
+
+  // Learned preferences of the plan's zip code and household
+  const feedbackProfileId = input ? getFeedbackProfileId(input) : undefined;
+  const [feedbackProfile, setFeedbackProfile] = useState(() => (input ? getFeedbackProfile(input) : undefined));
+  useEffect(() => {
+    setFeedbackProfile(input ? getFeedbackProfile(input) : undefined);
+    // The profile only changes with the zip code and ages, not the input object
+  }, [feedbackProfileId, feedbackRefreshKey]);
 
   // Handle empty or missing plan text
   if (!planText || planText.trim().length === 0) {
@@ -279,14 +578,67 @@ export function PlanView({ result }: PlanViewProps): JSX.Element {
     );
   }
 
-  // Attempt to parse structured content
-  const parsedData = parsePlanStructure(planText);
+  // Parse the summary, citing sources for each activity, and pick a layout by parse quality
+  const plan = parseWeekendPlan(planText);
+  const showCards = getPlanLayout(plan) === 'cards';
+  if (showCards) {
+    const sources = collectSources(rawResponse ?? [], sessionState);
+    plan.activities = plan.activities.map((activity) => ({
+      ...activity,
+      sources: findActivitySources(activity, sources),
+    }));
+  }
+  const canSwap = onSwapActivity !== undefined && !readOnly && !isStreaming;
+  const canRate = input !== undefined && !readOnly && !isStreaming;
+
+  /**
+   * Rates an activity for the plan's zip code and household.
+   *
+   * @param title - The activity title
+   * @param rating - The rating, or null to remove it
+   */
+  const handleRate = (title: string, rating: ActivityRating | null): void => {
+    if (input) {
+      setFeedbackProfile(rateActivity(input, title, rating));
+    }
+  };
+
+  /**
+   * Downloads the activities as an iCalendar file for the plan's weekend,
+   * or the upcoming one for plans without dates, using the itinerary
+   * arrangement the user saved, if any.
+   */
+  const handleAddToCalendar = (): void => {
+    const dates = input?.dates ?? getPresetWeekend('this');
+    const calendar = createPlanCalendar(plan, {
+      dates,
+      itinerary: resolveItinerary(itinerary, plan.activities),
+      uidPrefix: sessionId && `weekend-plan-${sessionId}`,
+    });
+    downloadFile(getCalendarFilename(dates), calendar, 'text/calendar');
+  };
+
+  /**
+   * Downloads the plan in the chosen format.
+   *
+   * @param format - The file format
+   * @param includeRawEvents - Whether the JSON export includes the raw ADK events
+   */
+  const handleExport = (format: ExportFormat, includeRawEvents: boolean): void => {
+    const data = createPlanExport(
+      { planText, plan, input, sessionId, rawResponse, itinerary },
+      { includeRawEvents },
+    );
+    const { filename, content, mimeType } = exportPlan(data, format);
+    downloadFile(filename, content, mimeType);
+  };
 
   return (
     <div
       className="bg-white border border-[#81B29A] rounded-xl p-6"
       role="article"
       aria-label="Your weekend plan"
+      aria-busy={isStreaming}
     >
       {/* Header section with success color */}
       <header className="mb-6">
@@ -311,62 +663,148 @@ export function PlanView({ result }: PlanViewProps): JSX.Element {
           </span>
           Your Weekend Plan
         </h2>
-        
-        {/* Display parsed header info if available */}
-        {parsedData?.header && (
-          <div className="mt-3 p-3 bg-[#81B29A]/5 rounded-lg border border-[#81B29A]/20">
-            <p className="text-[#3D405B] text-sm whitespace-pre-line">
-              {parsedData.header}
+
+        {/* The weekend the plan is for, flagged once it is over */}
+        {input?.dates && (
+          <p className="mt-2 text-sm text-[#3D405B]/70">For {formatWeekendDates(input.dates)}</p>
+        )}
+        {input?.dates && isWeekendPast(input.dates) && (
+          <div
+            className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg"
+            role="status"
+            aria-label="Past weekend"
+          >
+            <p className="text-amber-800 text-sm">
+              This plan is for a weekend that has passed. Events, hours and prices may have changed, so
+              generate a new plan before heading out.
             </p>
           </div>
         )}
+
+        {/* Streaming indicator - shown while the summary is still being written, with Cancel */}
+        {isStreaming && (
+          <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-[#3D405B]/60 flex items-center gap-2" role="status" aria-live="polite">
+              <span className="w-2 h-2 rounded-full bg-[#81B29A] animate-pulse" aria-hidden="true" />
+              Still writing your plan...
+            </p>
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-[#3D405B] border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
+        
+        {/* What the agents understood from the request */}
+        {sessionState && <PlannerUnderstanding state={sessionState} input={input} />}
+
+        {/* Display parsed header info if available */}
+        {showCards && <PlanHeader plan={plan} />}
       </header>
 
       {/* Main content area */}
       <div className="space-y-4">
-        {parsedData && parsedData.activities.length > 0 ? (
-          // Render structured activity cards
-          <>
-            <section aria-label="Activity recommendations">
-              <h3 className="sr-only">Recommended Activities</h3>
-              <div
-                className="space-y-3"
-                role="list"
-                aria-label="List of activities"
-              >
-                {parsedData.activities.map((activity, index) => (
-                  <ActivityCard
-                    key={`activity-${index}`}
-                    activity={activity}
-                    index={index}
-                  />
+        {/* List/Itinerary toggle, calendar and file exports, sharing - hidden while the plan is still changing */}
+        {!isStreaming && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            {showCards && (
+              <div className="flex gap-2" role="group" aria-label="Plan view">
+                {(['list', 'itinerary'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setViewMode(mode)}
+                    aria-pressed={viewMode === mode}
+                    className={`px-3 py-1 text-sm font-medium rounded-lg border focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] ${
+                      viewMode === mode
+                        ? 'bg-[#1e3a5f] text-white border-[#1e3a5f]'
+                        : 'bg-white text-[#1e3a5f] border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {mode === 'list' ? 'List' : 'Itinerary'}
+                  </button>
                 ))}
               </div>
-            </section>
+            )}
+            <div className="flex gap-2 ml-auto">
+              {showCards && (
+                <button
+                  type="button"
+                  onClick={handleAddToCalendar}
+                  className="px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+                >
+                  Add to calendar
+                </button>
+              )}
+              <ExportMenu onExport={handleExport} hasRawEvents={Boolean(rawResponse && rawResponse.length > 0)} />
+              {!readOnly && <ShareButton plan={{ input, planText }} />}
+            </div>
+          </div>
+        )}
+
+        {showCards ? (
+          // Render structured activity cards
+          <>
+            {viewMode === 'itinerary' && !isStreaming ? (
+              <ItineraryView
+                key={planText}
+                activities={plan.activities}
+                itinerary={itinerary}
+                onChange={onItineraryChange}
+                readOnly={readOnly}
+              />
+            ) : (
+              <section aria-label="Activity recommendations">
+                <h3 className="sr-only">Recommended Activities</h3>
+                <div
+                  className="space-y-3"
+                  role="list"
+                  aria-label="List of activities"
+                >
+                  {plan.activities.map((activity, index) => (
+                    <ActivityCard
+                      key={`activity-${index}`}
+                      activity={activity}
+                      index={index}
+                      onSwap={canSwap ? () => onSwapActivity(index) : undefined}
+                      isSwapping={swappingActivity === index}
+                      swapDisabled={swapDisabled || swappingActivity !== undefined}
+                      rating={getActivityRating(feedbackProfile, activity.title)}
+                      onRate={canRate ? (rating) => handleRate(activity.title, rating) : undefined}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
 
             {/* Remaining unstructured content if any */}
-            {parsedData.remainingContent && (
+            {plan.remainingContent && (
               <div className="mt-4 pt-4 border-t border-gray-100">
-                <p className="text-[#3D405B] text-sm whitespace-pre-wrap leading-relaxed">
-                  {parsedData.remainingContent}
-                </p>
+                <div className="text-sm">
+                  <Markdown text={plan.remainingContent} />
+                </div>
               </div>
             )}
           </>
         ) : (
-          // Fallback: Display unstructured text with formatting preserved
+          // Fallback: Render the plan's Markdown as-is
           <div
             className="prose prose-sm max-w-none"
             aria-label="Plan details"
           >
-            <div className="text-[#3D405B] whitespace-pre-wrap leading-relaxed text-base">
-              {planText}
+            <div className="text-base">
+              <Markdown text={planText} />
             </div>
           </div>
         )}
 
         {/* Disclaimer section if present */}
-        {parsedData?.disclaimer && (
+        {showCards && plan.disclaimer && (
           <aside
             className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg"
             role="note"
@@ -388,13 +826,19 @@ export function PlanView({ result }: PlanViewProps): JSX.Element {
                 />
               </svg>
               <p className="text-amber-800 text-sm">
-                {parsedData.disclaimer}
+                <Markdown text={plan.disclaimer} inline />
               </p>
             </div>
           </aside>
         )}
       </div>
 
+      {/* Research findings behind the summary - collapsed by default */}
+      {sessionState && <ResearchFindings state={sessionState} />}
+
+      {/* Tools the agents called - collapsed by default */}
+      {rawResponse && <AgentActivity events={rawResponse} />}
+
       {/* Raw Output section - collapsed by default */}
       {rawResponse && (
         <div className="mt-6 pt-6 border-t border-gray-100">
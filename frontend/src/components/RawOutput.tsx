@@ -9,6 +9,7 @@
  * - Collapsed by default to keep the UI clean
  * - Toggle button to expand/collapse the raw JSON display
  * - JSON data displayed in a preformatted block with monospace font
+ * - Tool calls, web searches and token usage summarized above the JSON
  * - Smooth transition animations for expand/collapse
  * - Full accessibility support with ARIA attributes
  * 
@@ -16,6 +17,7 @@
  */
 
 import { useState } from 'react';
+import ToolActivity from './ToolActivity';
 import type { ADKResponse } from '../types';
 
 /**
@@ -120,6 +122,9 @@ export function RawOutput({ data, title = 'Raw Output' }: RawOutputProps): JSX.E
           role="region"
           aria-label={`${title} content`}
         >
+          <div className="mb-4 empty:hidden">
+            <ToolActivity events={data} />
+          </div>
           <pre className="text-sm font-mono text-[#3D405B] whitespace-pre-wrap break-words">
             {JSON.stringify(data, null, 2)}
           </pre>
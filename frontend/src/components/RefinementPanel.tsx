@@ -0,0 +1,194 @@
+/**
+ * RefinementPanel Component
+ *
+ * React functional component for refining a generated plan through follow-up
+ * messages sent to the same ADK session. Rendered below PlanView.
+ *
+ * Features:
+ * - Chat-style history of refinement requests and their outcomes
+ * - Version switcher for moving between the original and refined plans
+ * - Message input with Send button, disabled while a refinement is running
+ * - Full accessibility support with ARIA attributes
+ *
+ * Design System Colors:
+ * - Primary CTA: #1e3a5f (dark blue)
+ * - Text: #3D405B (deep charcoal)
+ * - Success: #81B29A (sage green)
+ * - Error: #E63946 (muted red)
+ *
+ * @fileoverview Follow-up chat panel for multi-turn plan refinement
+ */
+
+import { useState, FormEvent } from 'react';
+import type { PlanRefinementTurn } from '../types';
+
+/**
+ * Props interface for the RefinementPanel component.
+ */
+export interface RefinementPanelProps {
+  /** Refinement requests sent so far, oldest first */
+  turns: PlanRefinementTurn[];
+
+  /** Total number of plan versions, including the original plan */
+  versionCount: number;
+
+  /** Zero-based index of the plan version currently displayed */
+  activeVersion: number;
+
+  /** Called when the user switches to another plan version */
+  onSelectVersion: (version: number) => void;
+
+  /** Called with the trimmed message when the user sends a refinement request */
+  onRefine: (message: string) => void;
+
+  /**
+   * Whether a refinement request is in progress.
+   * When true, the input and Send button are disabled.
+   * @default false
+   */
+  isRefining?: boolean;
+}
+
+/**
+ * Refinement chat panel component.
+ *
+ * Versions are shown one-based ("Version 1" is the original plan) while
+ * the props use zero-based indices.
+ *
+ * @param props - Component props
+ * @returns React element for the refinement panel
+ *
+ * @example
+ * ```tsx
+ * <RefinementPanel
+ *   turns={turns}
+ *   versionCount={versions.length}
+ *   activeVersion={activeVersion}
+ *   onSelectVersion={setActiveVersion}
+ *   onRefine={handleRefine}
+ *   isRefining={isRefining}
+ * />
+ * ```
+ */
+export function RefinementPanel({
+  turns,
+  versionCount,
+  activeVersion,
+  onSelectVersion,
+  onRefine,
+  isRefining = false,
+}: RefinementPanelProps): JSX.Element {
+  const [message, setMessage] = useState<string>('');
+
+  const canSend = message.trim() !== '' && !isRefining;
+
+  /**
+   * Sends the refinement request and clears the input.
+   *
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: FormEvent<HTMLFormElement>): void => {
+    e.preventDefault();
+    if (!canSend) {
+      return;
+    }
+    onRefine(message.trim());
+    setMessage('');
+  };
+
+  return (
+    <section
+      className="bg-white border border-gray-200 rounded-xl p-6"
+      aria-label="Refine your plan"
+    >
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-[#3D405B]">Refine this plan</h3>
+
+        {/* Version switcher - only useful once there is more than one version */}
+        {versionCount > 1 && (
+          <nav className="flex items-center gap-2 text-sm text-[#3D405B]" aria-label="Plan versions">
+            <button
+              type="button"
+              onClick={() => onSelectVersion(activeVersion - 1)}
+              disabled={activeVersion === 0}
+              className="px-2 py-1 rounded border border-gray-300 disabled:opacity-40 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              aria-label="Previous version"
+            >
+              ‹
+            </button>
+            <span aria-live="polite">
+              Version {activeVersion + 1} of {versionCount}
+            </span>
+            <button
+              type="button"
+              onClick={() => onSelectVersion(activeVersion + 1)}
+              disabled={activeVersion >= versionCount - 1}
+              className="px-2 py-1 rounded border border-gray-300 disabled:opacity-40 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              aria-label="Next version"
+            >
+              ›
+            </button>
+          </nav>
+        )}
+      </div>
+
+      {/* Conversation history */}
+      {turns.length > 0 && (
+        <ol className="space-y-3 mb-4" aria-label="Refinement history">
+          {turns.map((turn, index) => (
+            <li key={`turn-${index}`} className="space-y-1">
+              <p className="ml-auto max-w-[85%] w-fit bg-[#1e3a5f]/5 text-[#3D405B] text-sm rounded-lg px-3 py-2">
+                {turn.message}
+              </p>
+              {turn.error ? (
+                <p className="text-[#E63946] text-sm" role="alert">
+                  {turn.error}
+                </p>
+              ) : turn.version !== undefined ? (
+                <button
+                  type="button"
+                  onClick={() => onSelectVersion(turn.version!)}
+                  className="text-[#81B29A] text-sm underline hover:text-[#6a9a83] focus:outline-none focus:ring-2 focus:ring-[#81B29A] rounded"
+                  aria-current={turn.version === activeVersion ? 'true' : undefined}
+                >
+                  View version {turn.version + 1}
+                </button>
+              ) : (
+                <p className="text-[#3D405B]/60 text-sm" role="status">
+                  Refining your plan...
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Refinement request input */}
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+        <label htmlFor="refinement-message" className="sr-only">
+          What would you like to change?
+        </label>
+        <input
+          type="text"
+          id="refinement-message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="e.g., Swap the museum for something outdoors"
+          className="flex-1 border border-gray-300 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          disabled={isRefining}
+        />
+        <button
+          type="submit"
+          disabled={!canSend}
+          className={`bg-[#1e3a5f] text-white rounded-xl px-6 py-3 font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:ring-offset-2 ${
+            canSend ? 'hover:bg-[#163045] cursor-pointer' : 'opacity-50 cursor-not-allowed'
+          }`}
+        >
+          {isRefining ? 'Refining...' : 'Send'}
+        </button>
+      </form>
+    </section>
+  );
+}
+
+export default RefinementPanel;
@@ -0,0 +1,223 @@
+/**
+ * SessionList Component
+ *
+ * Collapsible list of past ADK sessions for the current user. Lets users
+ * reopen an earlier plan (rebuilt from the session's stored events) or
+ * delete sessions they no longer need.
+ *
+ * Features:
+ * - Collapsed by default; sessions are loaded when the list is first opened
+ * - Reloads whenever refreshKey changes while open
+ * - Open and Delete actions per session, most recent first
+ * - Loading, empty and error states
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Past session browser backed by the ADK session manager
+ */
+
+import { useEffect, useState } from 'react';
+import { deleteSession, listSessions } from '../api/sessions';
+import type { ADKSession } from '../types';
+
+/**
+ * Props interface for the SessionList component.
+ */
+export interface SessionListProps {
+  /** Called with the session ID when the user reopens a session */
+  onOpen: (sessionId: string) => void;
+
+  /** Called with the session ID after a session was deleted */
+  onDelete?: (sessionId: string) => void;
+
+  /** Session currently displayed, highlighted in the list */
+  activeSessionId?: string;
+
+  /**
+   * Changing this value reloads the list while it is open.
+   * Incremented by the parent after a new plan is generated.
+   */
+  refreshKey?: number;
+
+  /**
+   * Whether the actions are disabled, e.g. while a plan is generating.
+   * @default false
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Formats an ADK lastUpdateTime (seconds since epoch) for display.
+ *
+ * @param seconds - Seconds since the Unix epoch
+ * @returns Localized date and time
+ */
+function formatUpdateTime(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Collapsible past session list component.
+ *
+ * @param props - Component props
+ * @returns React element listing past sessions
+ *
+ * @example
+ * ```tsx
+ * <SessionList onOpen={handleOpenSession} activeSessionId={result?.sessionId} />
+ * ```
+ */
+export function SessionList({
+  onOpen,
+  onDelete,
+  activeSessionId,
+  refreshKey = 0,
+  disabled = false,
+}: SessionListProps): JSX.Element {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [sessions, setSessions] = useState<ADKSession[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState<boolean>(false);
+  const [listError, setListError] = useState<string | null>(null);
+
+  const contentId = 'session-list-content';
+
+  // Load sessions when opened and whenever the parent asks for a refresh
+  useEffect(() => {
+    if (!isExpanded) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingList(true);
+    setListError(null);
+
+    listSessions()
+      .then((loaded) => {
+        if (!cancelled) {
+          setSessions(loaded);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setListError(error instanceof Error ? error.message : 'Could not load past sessions');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingList(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isExpanded, refreshKey]);
+
+  /**
+   * Deletes a session and removes it from the list.
+   *
+   * @param sessionId - The session to delete
+   */
+  const handleDelete = async (sessionId: string): Promise<void> => {
+    try {
+      await deleteSession(sessionId);
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+      onDelete?.(sessionId);
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Could not delete the session');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      {/* Toggle Button Header */}
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between p-4 rounded-xl hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+        aria-expanded={isExpanded}
+        aria-controls={contentId}
+      >
+        <span className="text-[#3D405B] font-medium">Past Sessions</span>
+        <svg
+          className={`w-5 h-5 text-[#3D405B] transition-transform duration-200 ${isExpanded ? 'rotate-180' : 'rotate-0'}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div id={contentId} className="px-4 pb-4" role="region" aria-label="Past sessions">
+          {isLoadingList && (
+            <p className="text-sm text-[#3D405B]/60" role="status">
+              Loading sessions...
+            </p>
+          )}
+
+          {listError && (
+            <p className="text-sm text-[#E63946]" role="alert">
+              {listError}
+            </p>
+          )}
+
+          {!isLoadingList && !listError && sessions.length === 0 && (
+            <p className="text-sm text-[#3D405B]/60">No past sessions yet.</p>
+          )}
+
+          {sessions.length > 0 && (
+            <ul className="divide-y divide-gray-100" aria-label="Session list">
+              {sessions.map((session) => {
+                const isActive = session.id === activeSessionId;
+                return (
+                  <li
+                    key={session.id}
+                    className="py-2 flex items-center justify-between gap-3"
+                    aria-current={isActive ? 'true' : undefined}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-[#3D405B] font-medium">
+                        {formatUpdateTime(session.lastUpdateTime)}
+                        {isActive && <span className="ml-2 text-xs text-[#81B29A]">(current)</span>}
+                      </p>
+                      <p className="text-xs text-[#3D405B]/50 font-mono truncate">{session.id.slice(0, 8)}</p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onOpen(session.id)}
+                        disabled={disabled}
+                        className="text-sm text-[#1e3a5f] underline disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                        aria-label={`Open session from ${formatUpdateTime(session.lastUpdateTime)}`}
+                      >
+                        Open
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(session.id)}
+                        disabled={disabled}
+                        className="text-sm text-[#E63946] underline disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-[#E63946] rounded"
+                        aria-label={`Delete session from ${formatUpdateTime(session.lastUpdateTime)}`}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SessionList;
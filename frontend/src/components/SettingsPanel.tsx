@@ -0,0 +1,187 @@
+/**
+ * SettingsPanel Component
+ *
+ * Settings screen for the saved households and for what the planner
+ * learned about the family. Lists the activities rated with thumbs up or
+ * down, grouped by zip code and household, and shows the summary added to
+ * the prompt of new plans.
+ *
+ * Features:
+ * - Household profiles: rename, duplicate, delete, export and import
+ * - One section per feedback profile, with liked and disliked activities
+ * - Preview of the preferences sent to the planner
+ * - Remove single ratings, clear a profile, or clear everything
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Settings screen for households and learned activity preferences
+ */
+
+import { useState } from 'react';
+import { HouseholdSettings } from './HouseholdSettings';
+import {
+  clearAllFeedback,
+  clearFeedbackProfile,
+  listFeedbackProfiles,
+  removeActivityFeedback,
+  summarizeFeedback,
+} from '../api/feedback';
+import type { ActivityRating, FeedbackProfile } from '../types';
+
+/**
+ * Props interface for the SettingsPanel component.
+ */
+export interface SettingsPanelProps {
+  /** Called when the user leaves the settings screen */
+  onClose: () => void;
+
+  /** Called after ratings were removed, so views showing them can reload */
+  onFeedbackChange?: () => void;
+
+  /** Called after households were changed, so the form can reload them */
+  onHouseholdsChange?: () => void;
+}
+
+/** Rating groups shown per profile */
+const RATING_GROUPS: { rating: ActivityRating; title: string }[] = [
+  { rating: 'like', title: 'Liked' },
+  { rating: 'dislike', title: 'Disliked' },
+];
+
+/**
+ * Describes a profile's zip code and household in one line.
+ *
+ * @param profile - The feedback profile
+ * @returns e.g. "94105 · kids 5, 8"
+ */
+function describeProfile(profile: FeedbackProfile): string {
+  return profile.kidsAges.length > 0
+    ? `${profile.location} · kids ${profile.kidsAges.join(', ')}`
+    : `${profile.location} · no kids ages`;
+}
+
+/**
+ * Settings screen component.
+ *
+ * @param props - Component props
+ * @returns React element with the learned preferences and their actions
+ *
+ * @example
+ * ```tsx
+ * <SettingsPanel onClose={() => setIsSettingsOpen(false)} />
+ * ```
+ */
+export function SettingsPanel({ onClose, onFeedbackChange, onHouseholdsChange }: SettingsPanelProps): JSX.Element {
+  const [profiles, setProfiles] = useState<FeedbackProfile[]>(() => listFeedbackProfiles());
+
+  /**
+   * Runs a storage change, then reloads the profiles and notifies the parent.
+   *
+   * @param change - The change to run
+   */
+  const update = (change: () => void): void => {
+    change();
+    setProfiles(listFeedbackProfiles());
+    onFeedbackChange?.();
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm p-6" aria-labelledby="settings-heading">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <h2 id="settings-heading" className="text-xl font-bold text-[#1e3a5f]">
+          Settings
+        </h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+        >
+          Back to planner
+        </button>
+      </div>
+
+      <HouseholdSettings onHouseholdsChange={onHouseholdsChange} />
+
+      <div className="flex items-start justify-between gap-3 mt-6 pt-6 border-t border-gray-200">
+        <div>
+          <h3 className="text-[#3D405B] font-semibold">Learned preferences</h3>
+          <p className="text-sm text-[#3D405B]/60 mt-1">
+            Thumbs up and down on activities are remembered for each zip code and household, and
+            new plans for them ask the planner to suggest more of what you liked.
+          </p>
+        </div>
+        {profiles.length > 0 && (
+          <button
+            type="button"
+            onClick={() => update(clearAllFeedback)}
+            className="flex-shrink-0 text-sm text-[#E63946] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {profiles.length === 0 ? (
+        <p className="mt-4 text-sm text-[#3D405B]/60">
+          Nothing learned yet. Rate activities in a plan to teach the planner what your family likes.
+        </p>
+      ) : (
+        <ul className="mt-4 space-y-4" aria-label="Feedback profiles">
+          {profiles.map((profile) => {
+            const label = describeProfile(profile);
+            return (
+              <li key={profile.id} className="border border-gray-200 rounded-lg p-4">
+                <section aria-label={label}>
+                  <div className="flex items-center justify-between gap-3">
+                    <h4 className="text-[#3D405B] font-medium">{label}</h4>
+                    <button
+                      type="button"
+                      onClick={() => update(() => clearFeedbackProfile(profile.id))}
+                      aria-label={`Clear preferences for ${label}`}
+                      className="text-sm text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                    >
+                      Clear
+                    </button>
+                  </div>
+
+                  {RATING_GROUPS.map(({ rating, title }) => {
+                    const entries = profile.feedback.filter((entry) => entry.rating === rating);
+                    return (
+                      entries.length > 0 && (
+                        <div key={rating} className="mt-3">
+                          <h5 className="text-xs font-semibold uppercase tracking-wide text-[#3D405B]/60">
+                            {title}
+                          </h5>
+                          <ul className="mt-1 divide-y divide-gray-100" aria-label={`${title} activities`}>
+                            {entries.map((entry) => (
+                              <li key={entry.title} className="py-1 flex items-center justify-between gap-3">
+                                <span className="text-sm text-[#3D405B]">{entry.title}</span>
+                                <button
+                                  type="button"
+                                  onClick={() => update(() => removeActivityFeedback(profile.id, entry.title))}
+                                  aria-label={`Remove ${entry.title}`}
+                                  className="text-xs text-[#1e3a5f] underline focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] rounded"
+                                >
+                                  Remove
+                                </button>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )
+                    );
+                  })}
+
+                  <p className="mt-3 text-xs text-[#3D405B]/60">
+                    <span className="font-semibold">Sent to the planner:</span> {summarizeFeedback(profile)}
+                  </p>
+                </section>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default SettingsPanel;
@@ -0,0 +1,117 @@
+/**
+ * ShareButton Component
+ *
+ * "Share link" button that puts the plan into a link and copies it, so the
+ * plan can be texted to someone without any server storing it.
+ *
+ * Features:
+ * - Encodes the plan's input and text into the link's URL fragment
+ * - Copies the link to the clipboard, or shows it for manual copying when
+ *   the clipboard is unavailable
+ * - Explains when a plan is too long to share as a link
+ * - Full accessibility support with ARIA attributes
+ *
+ * @fileoverview Share link button for a plan
+ */
+
+import { useState } from 'react';
+import { createShareUrl, ShareLinkError } from '../api/shareLink';
+import type { SharedPlan } from '../types';
+
+/**
+ * Props interface for the ShareButton component.
+ */
+export interface ShareButtonProps {
+  /** The plan to share */
+  plan: SharedPlan;
+}
+
+/**
+ * Outcome of the last share attempt.
+ */
+type ShareStatus =
+  | { kind: 'idle' }
+  | { kind: 'copied' }
+  | { kind: 'manual'; url: string }
+  | { kind: 'error'; message: string };
+
+/**
+ * Share link button component.
+ *
+ * @param props - Component props
+ * @returns React element with the button and the share outcome
+ *
+ * @example
+ * ```tsx
+ * <ShareButton plan={{ input, planText }} />
+ * ```
+ */
+export function ShareButton({ plan }: ShareButtonProps): JSX.Element {
+  const [status, setStatus] = useState<ShareStatus>({ kind: 'idle' });
+
+  /**
+   * Creates the link and copies it to the clipboard.
+   */
+  const handleShare = async (): Promise<void> => {
+    let url: string;
+    try {
+      url = await createShareUrl(plan);
+    } catch (error) {
+      setStatus({
+        kind: 'error',
+        message: error instanceof ShareLinkError ? error.message : 'Could not create a share link',
+      });
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setStatus({ kind: 'copied' });
+    } catch {
+      // No clipboard access (insecure context or permission denied)
+      setStatus({ kind: 'manual', url });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleShare}
+        className="px-3 py-1 text-sm font-medium text-[#1e3a5f] border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+      >
+        Share link
+      </button>
+
+      {status.kind === 'copied' && (
+        <p className="absolute right-0 mt-1 whitespace-nowrap text-xs text-[#81B29A]" role="status">
+          Link copied to clipboard
+        </p>
+      )}
+
+      {status.kind === 'manual' && (
+        <div className="absolute right-0 z-10 mt-1 w-72 p-2 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <label className="block text-xs text-[#3D405B]/80 mb-1" htmlFor="plan-share-url">
+            Copy this link to share the plan
+          </label>
+          <input
+            id="plan-share-url"
+            type="text"
+            readOnly
+            value={status.url}
+            onFocus={(event) => event.target.select()}
+            className="w-full px-2 py-1 border border-gray-300 rounded text-xs text-[#3D405B]"
+          />
+        </div>
+      )}
+
+      {status.kind === 'error' && (
+        <p className="absolute right-0 z-10 mt-1 w-64 text-xs text-[#E63946]" role="alert">
+          {status.message}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ShareButton;
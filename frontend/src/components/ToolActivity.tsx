@@ -0,0 +1,144 @@
+/**
+ * ToolActivity Component
+ *
+ * Lists what the agents did to produce a plan: the tools each agent called,
+ * with their arguments and results, the web searches behind their answers,
+ * and the tokens the run used. Shown in PlanView and RawOutput.
+ *
+ * Features:
+ * - Tool calls paired with their responses, grouped in call order
+ * - AgentTool results shown as text, other payloads as formatted JSON
+ * - google_search queries and source links per agent
+ * - Total token usage
+ * - Renders nothing for runs without tool calls, searches or usage data
+ *
+ * @fileoverview Agent tool call, search and usage summary for ADK events
+ */
+
+import { getSearchGroundings, getTokenUsage, getToolInvocations } from '../api/agentActivity';
+import type { ADKEvent } from '../types';
+
+/**
+ * Props interface for the ToolActivity component.
+ */
+export interface ToolActivityProps {
+  /** Events of the run to summarize */
+  events: ADKEvent[];
+}
+
+/**
+ * Formats a tool payload for display.
+ * AgentTool wraps agent output as `{ result: "..." }`, which reads better as plain text.
+ *
+ * @param payload - Tool arguments or response
+ * @returns Text to show in a preformatted block
+ */
+function formatPayload(payload: Record<string, unknown>): string {
+  const keys = Object.keys(payload);
+  if (keys.length === 1 && typeof payload[keys[0]] === 'string') {
+    return payload[keys[0]] as string;
+  }
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Tool call, search and token usage summary component.
+ *
+ * @param props - Component props containing the run's events
+ * @returns React element summarizing agent activity, or null if there is none
+ *
+ * @example
+ * ```tsx
+ * <ToolActivity events={result.rawResponse ?? []} />
+ * ```
+ */
+export function ToolActivity({ events }: ToolActivityProps): JSX.Element | null {
+  const invocations = getToolInvocations(events);
+  const groundings = getSearchGroundings(events);
+  const usage = getTokenUsage(events);
+
+  if (invocations.length === 0 && groundings.length === 0 && !usage) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4 text-sm text-[#3D405B]" aria-label="Agent activity">
+      {invocations.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2">Tool calls</h4>
+          <ol className="space-y-3" aria-label="Tool calls">
+            {invocations.map((invocation, index) => (
+              <li key={`call-${index}`} className="border border-gray-200 rounded-lg p-3 bg-white">
+                <p>
+                  <span className="font-medium">{invocation.agent}</span> called{' '}
+                  <code className="font-mono text-[#1e3a5f]">{invocation.name}</code>
+                </p>
+                {invocation.args && Object.keys(invocation.args).length > 0 && (
+                  <>
+                    <p className="mt-2 text-xs font-semibold uppercase tracking-wide text-[#3D405B]/60">Arguments</p>
+                    <pre className="mt-1 whitespace-pre-wrap break-words text-xs bg-gray-50 p-2 rounded max-h-40 overflow-y-auto">
+                      {formatPayload(invocation.args)}
+                    </pre>
+                  </>
+                )}
+                <p className="mt-2 text-xs font-semibold uppercase tracking-wide text-[#3D405B]/60">Result</p>
+                {invocation.response ? (
+                  <pre className="mt-1 whitespace-pre-wrap break-words text-xs bg-gray-50 p-2 rounded max-h-40 overflow-y-auto">
+                    {formatPayload(invocation.response)}
+                  </pre>
+                ) : (
+                  <p className="mt-1 text-xs text-[#3D405B]/60">No response recorded</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {groundings.length > 0 && (
+        <div>
+          <h4 className="font-semibold mb-2">Web searches</h4>
+          <ul className="space-y-3" aria-label="Web searches">
+            {groundings.map((grounding) => (
+              <li key={grounding.agent}>
+                <p className="font-medium">{grounding.agent}</p>
+                {grounding.queries.length > 0 && (
+                  <p className="text-[#3D405B]/80">Searched for: {grounding.queries.join('; ')}</p>
+                )}
+                {grounding.sources.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside">
+                    {grounding.sources.map((source) => (
+                      <li key={source.uri ?? source.title}>
+                        {source.uri ? (
+                          <a
+                            href={source.uri}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-[#1e3a5f] underline break-all"
+                          >
+                            {source.title || source.uri}
+                          </a>
+                        ) : (
+                          <span className="break-all">{source.title}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {usage && (
+        <p className="text-[#3D405B]/60">
+          {usage.totalTokenCount?.toLocaleString()} tokens used ({usage.promptTokenCount?.toLocaleString()} prompt,{' '}
+          {usage.candidatesTokenCount?.toLocaleString()} output)
+        </p>
+      )}
+    </section>
+  );
+}
+
+export default ToolActivity;
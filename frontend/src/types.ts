@@ -3,9 +3,19 @@
  * These types define the contract between the frontend and ADK backend API.
  * 
  * @fileoverview Core TypeScript interfaces and types for:
- * - Form input data (GeneratePlanInput)
- * - ADK backend response structures (ADKEvent, ADKResponse)
- * - API result handling (GeneratePlanResult, PlanError)
+ * - Form input data (GeneratePlanInput), its children (Child), weekend dates (WeekendDates)
+ *   and optional planning preferences (PlanningPreferences)
+ * - ADK backend response structures (ADKEvent, ADKResponse, ADKSession), including
+ *   tool calls, grounding and usage metadata
+ * - Agent activity derived from events (ToolInvocation, SearchGrounding, ActivitySource)
+ * - ADK request bodies (ADKRunRequest, ADKRunSseRequest)
+ * - API result handling (GeneratePlanResult, PlanError, PlanErrorKind, DecodeFailure, PlanRequestOptions, RetryPolicy, PlanStreamCallbacks)
+ * - Agent session state (PlanSessionState)
+ * - Parsed summaries (WeekendPlan, PlanActivity) and their itinerary (Itinerary)
+ * - Local plan history entries (SavedPlan)
+ * - Plan exports (ExportFormat, PlanExport) and share links (SharedPlan)
+ * - Learned activity preferences (ActivityRating, ActivityFeedback, FeedbackProfile)
+ * - Saved household profiles and their export (HouseholdProfile, HouseholdsExport)
  */
 
 /**
@@ -17,6 +27,8 @@
  * - Zip Code (required): User's location for the weekend plan
  * - Kids Ages (optional): Array of children's ages for family-friendly recommendations
  * 
+ * plus optional planning preferences behind its "More options" disclosure.
+ * 
  * @example
  * const input: GeneratePlanInput = {
  *   location: "94105",
@@ -38,31 +50,235 @@ export interface GeneratePlanInput {
 
   /**
    * Array of children's ages for family-friendly activity recommendations.
-   * Each age must be a valid integer where 0 < age < 120.
+   * Each age is a whole number of years the planner accepts, from 1 to 18
+   * (see toPlannerAges()); younger and older children are left out.
    * 
    * This field is optional - an empty array indicates no children
    * or that child-specific recommendations are not needed.
    * 
-   * The frontend parses comma-separated input (e.g., "5, 8, 12")
-   * into this numeric array format before API submission.
-   * 
    * @example [5, 8, 12] or [] for no children
    */
   kidsAges: number[];
+
+  /**
+   * The children as entered in the form, with nicknames and ages in months.
+   * Omitted when no children were entered.
+   */
+  children?: Child[];
+
+  /**
+   * The weekend the plan is for.
+   * Omitted by plans made before dates could be chosen.
+   */
+  dates?: WeekendDates;
+
+  /**
+   * Optional planning preferences such as budget and travel radius.
+   * Omitted when none were chosen.
+   */
+  preferences?: PlanningPreferences;
+}
+
+/**
+ * Unit of a child's age: years, or months for children under two.
+ */
+export type AgeUnit = 'years' | 'months';
+
+/**
+ * A child entered in the form.
+ */
+export interface Child {
+  /** Whole number of years or months */
+  age: number;
+
+  /** Unit of the age */
+  unit: AgeUnit;
+
+  /** Optional nickname shown on the child's chip */
+  nickname?: string;
+}
+
+/**
+ * The days a plan is for, as local calendar dates.
+ * Usually a Saturday and Sunday, extended by a Friday or Monday holiday.
+ */
+export interface WeekendDates {
+  /** First day, as YYYY-MM-DD */
+  start: string;
+
+  /** Last day, as YYYY-MM-DD */
+  end: string;
+
+  /** Holiday falling within the dates, e.g. "Labor Day" */
+  holiday?: string;
+}
+
+/**
+ * How much the family wants to spend per person and activity.
+ * - free: Free activities only
+ * - low: Under $25
+ * - moderate: Under $50
+ * - splurge: Cost is not a concern
+ */
+export type BudgetTier = 'free' | 'low' | 'moderate' | 'splurge';
+
+/**
+ * Whether activities should be indoors, outdoors or a mix of both.
+ */
+export type SettingPreference = 'indoor' | 'outdoor' | 'mixed';
+
+/**
+ * Accessibility need every suggested activity must meet.
+ */
+export type AccessibilityNeed = 'wheelchair' | 'stroller' | 'sensory' | 'limited-walking';
+
+/**
+ * How physically demanding the activities should be.
+ */
+export type ActivityIntensity = 'relaxed' | 'moderate' | 'active';
+
+/**
+ * Optional structured preferences for a plan, collected behind the form's
+ * "More options" disclosure. Every field is optional; missing fields mean
+ * no preference. Turned into prompt sentences by describePlanningPreferences()
+ * and stored in session state by toInitialSessionState().
+ *
+ * @example
+ * const preferences: PlanningPreferences = {
+ *   budget: 'moderate',
+ *   maxTravelMiles: 20,
+ *   interests: ['dinosaurs']
+ * };
+ */
+export interface PlanningPreferences {
+  /** Budget per person and activity */
+  budget?: BudgetTier;
+
+  /** Farthest distance from the zip code to travel, in miles (1-100) */
+  maxTravelMiles?: number;
+
+  /** Indoor or outdoor activities */
+  setting?: SettingPreference;
+
+  /** Topics the family enjoys, e.g. "dinosaurs" or "trains" */
+  interests?: string[];
+
+  /** Accessibility needs every activity must meet */
+  accessibility?: AccessibilityNeed[];
+
+  /** How active the weekend should be */
+  intensity?: ActivityIntensity;
+}
+
+/**
+ * A tool call requested by the model.
+ * In this app these are the WeatherRouter's AgentTool calls, named after
+ * the agent they run (e.g. "ActivityResearchGroup").
+ */
+export interface FunctionCall {
+  /** ID linking the call to its FunctionResponse, when the server assigns one */
+  id?: string;
+
+  /** Name of the tool that was called */
+  name: string;
+
+  /**
+   * Arguments the model passed to the tool.
+   * @example { request: "Find activities for kids ages 5 and 8 in 94105" }
+   */
+  args?: Record<string, unknown>;
+}
+
+/**
+ * The result of a tool call, sent back to the model.
+ */
+export interface FunctionResponse {
+  /** ID of the FunctionCall this responds to, when the server assigns one */
+  id?: string;
+
+  /** Name of the tool that produced the response */
+  name: string;
+
+  /**
+   * What the tool returned. AgentTool wraps the agent's output as `{ result }`.
+   */
+  response?: Record<string, unknown>;
 }
 
 /**
  * Content part structure within ADK messages.
- * Represents a single part of the message content,
- * typically containing text from the AI model response.
+ * Represents a single part of the message content: text from the AI model
+ * response, or a tool call and its response.
  */
 export interface MessagePart {
   /**
    * Text content of the message part.
-   * Optional because some parts may contain other content types
-   * (though text is the primary format for this application).
+   * Optional because some parts carry a tool call or response instead.
    */
   text?: string;
+
+  /** Tool call requested by the model */
+  functionCall?: FunctionCall;
+
+  /** Result of a tool call */
+  functionResponse?: FunctionResponse;
+}
+
+/**
+ * A web source the model's answer was grounded in.
+ */
+export interface GroundingChunk {
+  /** The web page, for google_search grounding */
+  web?: {
+    /** Link to the source; may be a Google redirect URL */
+    uri?: string;
+    /** Title of the page, often its domain */
+    title?: string;
+  };
+}
+
+/**
+ * How a model response was grounded with the google_search tool.
+ * google_search runs inside the model, so instead of function call parts
+ * it leaves the queries it ran and the sources it used here.
+ */
+export interface GroundingMetadata {
+  /**
+   * Queries the model searched for.
+   * @example ["family activities 94105 this weekend"]
+   */
+  webSearchQueries?: string[];
+
+  /** Sources the response was grounded in */
+  groundingChunks?: GroundingChunk[];
+
+  /** Which parts of the response text each source supports */
+  groundingSupports?: GroundingSupport[];
+}
+
+/**
+ * Links a segment of a grounded response to the sources backing it.
+ */
+export interface GroundingSupport {
+  /** The supported part of the response text */
+  segment?: { text?: string };
+
+  /** Indices into groundingChunks of the sources backing the segment */
+  groundingChunkIndices?: number[];
+}
+
+/**
+ * Token counts reported for a model response.
+ */
+export interface UsageMetadata {
+  /** Tokens in the prompt, including instructions and history */
+  promptTokenCount?: number;
+
+  /** Tokens in the generated response */
+  candidatesTokenCount?: number;
+
+  /** Total tokens billed for the call */
+  totalTokenCount?: number;
 }
 
 /**
@@ -102,10 +318,11 @@ export interface ADKEvent {
   id: string;
 
   /**
-   * ISO8601 timestamp of when the event was generated.
-   * @example "2024-03-15T10:30:00.000Z"
+   * When the event was generated: an ISO8601 string, or seconds since the
+   * epoch as sent by the ADK server.
+   * @example "2024-03-15T10:30:00.000Z" or 1710498600.25
    */
-  timestamp: string;
+  timestamp: string | number;
 
   /**
    * Author of the event.
@@ -121,6 +338,24 @@ export interface ADKEvent {
    * May be undefined for events without displayable content.
    */
   content?: MessageContent;
+
+  /**
+   * Search queries and sources, for responses grounded with google_search.
+   */
+  groundingMetadata?: GroundingMetadata;
+
+  /**
+   * Token counts for the model call that produced this event.
+   */
+  usageMetadata?: UsageMetadata;
+
+  /**
+   * Whether this is an incremental chunk from a streaming run.
+   * Partial events carry only the newly generated text; ADK follows them
+   * with a complete, non-partial event holding the full text.
+   * Only present on events received from the run_sse endpoint.
+   */
+  partial?: boolean;
 }
 
 /**
@@ -140,49 +375,114 @@ export interface ADKEvent {
 export type ADKResponse = ADKEvent[];
 
 /**
- * Error details for API responses.
- * Contains structured error information for display to users
- * and debugging purposes.
+ * A tool call paired with its response, for display.
+ * Built from the function call and function response parts of the events.
  */
-export interface PlanError {
+export interface ToolInvocation {
+  /** Agent that called the tool */
+  agent: string;
+
+  /** Name of the tool */
+  name: string;
+
+  /** Arguments the tool was called with */
+  args?: Record<string, unknown>;
+
   /**
-   * User-friendly error message describing what went wrong.
-   * This message is suitable for display in the UI.
-   * @example "Couldn't reach the backend. Make sure the ADK server is running."
+   * What the tool returned.
+   * Undefined while the call is still running or if no response was recorded.
    */
-  message: string;
+  response?: Record<string, unknown>;
+}
+
+/**
+ * The google_search queries and sources behind one agent's response.
+ */
+export interface SearchGrounding {
+  /** Agent whose response was grounded */
+  agent: string;
+
+  /** Queries the agent searched for */
+  queries: string[];
 
   /**
-   * HTTP status code if available.
-   * Useful for determining the type of error (4xx client, 5xx server).
-   * @example 400, 500, 502
+   * Sources in the order the model cited them. uri is only set for http(s)
+   * links; other sources are shown as plain text.
    */
-  statusCode?: number;
+  sources: { uri?: string; title?: string }[];
+}
+
+/**
+ * A web source cited for a recommended activity.
+ */
+export interface ActivitySource {
+  /** Link to the source, always http or https */
+  uri: string;
 
+  /** Display name: the page title, link text or host name */
+  title: string;
+}
+
+/**
+ * Classification of a failed plan request.
+ * - network: the backend could not be reached
+ * - timeout: the request exceeded the client's inactivity timeout
+ * - cors: the backend responded, but the browser blocked the response
+ * - cancelled: the caller aborted the request through its AbortSignal
+ * - client: the backend rejected the request (4xx other than 429)
+ * - server: the backend failed (5xx, or an error reported in the event stream)
+ * - parse: the response could not be read as ADK events
+ * - rate-limited: the backend asked the client to slow down (429)
+ * - session-failed: the ADK session could not be created or loaded
+ */
+export type PlanErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'cors'
+  | 'cancelled'
+  | 'client'
+  | 'server'
+  | 'parse'
+  | 'rate-limited'
+  | 'session-failed';
+
+/**
+ * Where and why a backend response failed runtime validation.
+ * Attached to parse errors so the offending data can be shown.
+ */
+export interface DecodeFailure {
   /**
-   * Raw error body from the server response.
-   * Contains the full error details for technical debugging.
-   * Displayed in the expandable "Technical Details" section.
+   * JSONPath-style location of the invalid value in the response.
+   * @example "$[2].content.parts[0].text"
    */
-  body?: string;
+  path: string;
+
+  /**
+   * What was expected at the path and what was found instead.
+   * @example "expected a string, got a number"
+   */
+  reason: string;
+
+  /**
+   * The offending value serialized as JSON and truncated for display.
+   * For a missing field this is the object that should contain it.
+   */
+  snippet: string;
 }
 
 /**
- * API error structure used throughout the application.
- * Contains structured error information for display to users
- * and debugging purposes. Used by API client and error display components.
+ * Details shared by every kind of PlanError.
  */
-export interface ApiError {
+interface PlanErrorDetails {
   /**
    * User-friendly error message describing what went wrong.
-   * This message is suitable for display in the UI.
+   * This message is suitable for display in the UI as-is.
    * @example "Couldn't reach the backend. Make sure the ADK server is running."
    */
   message: string;
 
   /**
-   * HTTP status code if available.
-   * Useful for determining the type of error (4xx client, 5xx server).
+   * HTTP status code if the failure came from a response.
    * @example 400, 500, 502
    */
   statusCode?: number;
@@ -192,9 +492,51 @@ export interface ApiError {
    * Contains the full error details for technical debugging.
    * Displayed in the expandable "Technical Details" section.
    */
-  rawBody?: string;
+  body?: string;
+
+  /**
+   * Whether the failure is transient (e.g. 429, 502, 503) and the request
+   * can safely be retried. Set once the client's own retries are used up.
+   */
+  retryable?: boolean;
+
+  /**
+   * Delay the server asked for via the Retry-After header, in milliseconds.
+   * Only present when the header was sent and could be parsed.
+   */
+  retryAfterMs?: number;
+
+  /**
+   * Location and reason of the validation failure, for parse errors
+   * caused by a malformed response.
+   */
+  decodeFailure?: DecodeFailure;
 }
 
+/**
+ * Error produced by the API client for every failed plan request,
+ * discriminated by kind. Create instances with the factories in
+ * api/errors.ts so the message always matches the kind.
+ *
+ * @example
+ * if (result.error?.kind === 'rate-limited') {
+ *   console.log(`Retry in ${result.error.retryAfterMs ?? 0}ms`);
+ * }
+ */
+export type PlanError =
+  | (PlanErrorDetails & {
+      kind: Exclude<PlanErrorKind, 'client' | 'rate-limited'>;
+    })
+  | (PlanErrorDetails & {
+      kind: 'client';
+      statusCode: number;
+    })
+  | (PlanErrorDetails & {
+      kind: 'rate-limited';
+      statusCode: 429;
+      retryable: true;
+    });
+
 /**
  * Result structure for plan generation API calls.
  * Represents either a successful plan generation or an error state.
@@ -213,8 +555,8 @@ export interface ApiError {
  * const errorResult: GeneratePlanResult = {
  *   success: false,
  *   error: {
- *     message: "Request timed out. Please try again.",
- *     statusCode: 408
+ *     kind: "timeout",
+ *     message: "Request timed out. Please try again."
  *   }
  * };
  */
@@ -244,9 +586,29 @@ export interface GeneratePlanResult {
   /**
    * Error details if the request failed.
    * Contains user-friendly message and technical details.
-   * Only present when success is false.
+   * Only present when success is false. Aborting through the caller's
+   * AbortSignal reports kind 'cancelled', distinct from 'timeout'.
    */
   error?: PlanError;
+
+  /**
+   * ADK session the plan was generated in.
+   * Pass to refinePlan() to send follow-up turns to the same conversation.
+   * Only present when success is true.
+   */
+  sessionId?: string;
+
+  /**
+   * Structured values the agents wrote to session state during the run.
+   * Fetched after the run completes; undefined if the session could not be read.
+   */
+  sessionState?: PlanSessionState;
+
+  /**
+   * How the user arranged the activities in the itinerary view.
+   * Never set by the API; undefined until the user moves an activity.
+   */
+  itinerary?: Itinerary;
 }
 
 /**
@@ -254,11 +616,11 @@ export interface GeneratePlanResult {
  * Used internally by the API client to construct plan generation requests.
  * 
  * The API uses a two-step session-based flow:
- * 1. Create session with empty body: POST /apps/WeekendPlanner/users/{userId}/sessions/{sessionId}
+ * 1. Create session with the initial state as body: POST /apps/WeekendPlanner/users/{userId}/sessions/{sessionId}
  * 2. Send message with new_message: POST to the same endpoint
  * 
  * This interface represents the body for step 2 (message sending).
- * Step 1 (session creation) uses an empty object {}.
+ * Step 1 (session creation) sends the initial session state instead.
  */
 export interface ADKRunRequest {
   /**
@@ -280,6 +642,529 @@ export interface ADKRunRequest {
   };
 }
 
+/**
+ * Request body structure for the ADK run_sse endpoint.
+ * Used internally by the API client to stream plan generation events.
+ * 
+ * Unlike the session message request, run_sse identifies the app, user and
+ * session in the body rather than the URL:
+ * POST /run_sse
+ */
+export interface ADKRunSseRequest {
+  /** ADK application name (always "WeekendPlanner") */
+  app_name: string;
+
+  /** User ID that owns the session */
+  user_id: string;
+
+  /** Session ID created before the run starts */
+  session_id: string;
+
+  /** The new message to send to the agent */
+  new_message: ADKRunRequest['new_message'];
+
+  /**
+   * Whether the model should stream token-level partial events.
+   * When false, ADK still streams one event per agent step.
+   */
+  streaming: boolean;
+}
+
+/**
+ * Retry policy for transient failures of plan requests.
+ * 
+ * Session creation uses a client-generated ID, so it is retried on any
+ * transient failure. Message steps start an agent run and are only retried
+ * on retryableStatuses, where the server rejected the request before running it.
+ * 
+ * @example
+ * const policy: RetryPolicy = {
+ *   maxAttempts: 3,
+ *   baseDelayMs: 500,
+ *   maxDelayMs: 8000,
+ *   jitterRatio: 0.5,
+ *   retryableStatuses: [429, 502, 503]
+ * };
+ */
+export interface RetryPolicy {
+  /** Total attempts per request step, including the first (1 disables retries) */
+  maxAttempts: number;
+
+  /** Backoff delay before the first retry; doubled for every further retry */
+  baseDelayMs: number;
+
+  /**
+   * Upper bound for backoff delays. A Retry-After longer than this
+   * is not waited for; the failure is returned instead.
+   */
+  maxDelayMs: number;
+
+  /**
+   * Fraction of each backoff delay that is randomized (0 to 1), so clients
+   * that failed together do not retry in lockstep.
+   */
+  jitterRatio: number;
+
+  /** Status codes on which message steps are retried */
+  retryableStatuses: number[];
+}
+
+/**
+ * Options for the plan generation functions.
+ */
+export interface PlanRequestOptions {
+  /**
+   * Aborts the run when signalled, e.g. from a Cancel button.
+   * The function then resolves with a result whose error kind is 'cancelled'.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Overrides for the default retry policy.
+   * @default DEFAULT_RETRY_POLICY from the API client
+   */
+  retry?: Partial<RetryPolicy>;
+
+  /**
+   * The family's learned preferences, added to the prompt of a new plan
+   * and repeated in refinements and swaps along with the original input.
+   * @example 'Our family enjoyed activities like "Exploratorium".'
+   */
+  learnedPreferences?: string;
+}
+
+/**
+ * Callbacks for streaming plan generation.
+ * Passed to generatePlanStream() to observe events as they arrive.
+ */
+export interface PlanStreamCallbacks {
+  /**
+   * Called for every event received from the run_sse stream,
+   * including partial text chunks, in arrival order.
+   */
+  onEvent?: (event: ADKEvent) => void;
+}
+
+/**
+ * ADK session as returned by the session endpoints.
+ * Sessions hold the conversation events and the state values
+ * the agents wrote via output_key.
+ * 
+ * @example
+ * // Response from GET /apps/WeekendPlanner/users/{userId}/sessions/{sessionId}
+ * const session: ADKSession = {
+ *   id: "3f1c...",
+ *   appName: "WeekendPlanner",
+ *   userId: "user-1",
+ *   state: { weather_forecast: "good" },
+ *   events: [...],
+ *   lastUpdateTime: 1710498630.5
+ * };
+ */
+export interface ADKSession {
+  /** Session ID */
+  id: string;
+
+  /** ADK application name */
+  appName: string;
+
+  /** User ID that owns the session */
+  userId: string;
+
+  /** Session state written by the agents */
+  state: Record<string, unknown>;
+
+  /**
+   * Events stored in the session, oldest first.
+   * Empty for sessions returned by the list endpoint.
+   */
+  events: ADKEvent[];
+
+  /** Last update time in seconds since the Unix epoch */
+  lastUpdateTime: number;
+}
+
+/**
+ * A plan rebuilt from a stored ADK session.
+ * Returned by resumePlan() when reopening a past session.
+ */
+export interface ResumedPlan {
+  /**
+   * The most recent plan version, or the failed result if the
+   * session could not be loaded.
+   */
+  result: GeneratePlanResult;
+
+  /**
+   * One plan result per conversation turn, oldest first.
+   * The first is the original plan; later ones are refinements.
+   * Empty if the session could not be loaded.
+   */
+  versions: GeneratePlanResult[];
+
+  /** Refinement messages that produced versions[1] onwards */
+  refinements: string[];
+
+  /**
+   * The input the plan was generated from, recovered from the first
+   * user message. Undefined if the message could not be recognized.
+   */
+  input?: GeneratePlanInput;
+}
+
+/**
+ * Weather verdict written by the WeatherAgent.
+ * "good" routes the pipeline to outdoor research; "bad" and
+ * "do not leave home" route it to at-home activities.
+ */
+export type WeatherVerdict = 'good' | 'bad' | 'do not leave home';
+
+/**
+ * Input as understood by the PreprocessInputAgent.
+ * May differ from what the user typed: the agent falls back to
+ * zip code 90120 and ages 5 and 8 when it finds no valid values.
+ */
+export interface ParsedPlanInput {
+  /** Five-digit US zip code the research was run for */
+  zipCode: string;
+
+  /** Kids ages the research was run for (1-18) */
+  kidAges: number[];
+}
+
+/**
+ * Typed view of the ADK session state written by the agents via output_key.
+ * Every field is optional: which ones are present depends on the route the
+ * pipeline took (outdoor research or at-home activities) and on how far it got.
+ * 
+ * @example
+ * const state: PlanSessionState = {
+ *   parsedInput: { zipCode: "94105", kidAges: [5, 8] },
+ *   weatherForecast: "good",
+ *   localActivitiesFindings: "1. Golden Gate Park...",
+ *   finalSummary: "# Weekend Plan..."
+ * };
+ */
+export interface PlanSessionState {
+  /** From output_key "parsed_input" */
+  parsedInput?: ParsedPlanInput;
+
+  /**
+   * From output_key "weather_forecast".
+   * Undefined if the agent answered with anything other than a known verdict.
+   */
+  weatherForecast?: WeatherVerdict;
+
+  /** From output_key "local_activities_findings" (outdoor route) */
+  localActivitiesFindings?: string;
+
+  /** From output_key "special_activities_findings" (outdoor route) */
+  specialActivitiesFindings?: string;
+
+  /** From output_key "home_activities_findings" (at-home route) */
+  homeActivitiesFindings?: string;
+
+  /** From output_key "final_summary" */
+  finalSummary?: string;
+}
+
+/**
+ * One recommended activity, as parsed from the summary.
+ * Text fields keep the summary's inline Markdown.
+ */
+export interface PlanActivity {
+  /** Name of the activity, e.g. "Golden Gate Park playground" */
+  title: string;
+
+  /** What to expect and why it was picked; empty if the summary gives no detail */
+  description: string;
+
+  /** Section the activity was listed under, e.g. "Special Events This Weekend" */
+  category?: string;
+
+  /** Where it takes place, when the summary names a place */
+  location?: string;
+
+  /** When to go, e.g. "Saturday morning" or "Saturday 10am-4pm" */
+  time?: string;
+
+  /** What it costs, e.g. "Free" or "$15 per adult" */
+  cost?: string;
+
+  /** Web sources backing the activity, attached by PlanView */
+  sources?: ActivitySource[];
+}
+
+/**
+ * A SummarizerAgent summary parsed into its parts.
+ *
+ * @example
+ * const plan: WeekendPlan = {
+ *   area: "San Francisco (94105)",
+ *   zipCode: "94105",
+ *   weather: "Sunny, 68°F",
+ *   weatherVerdict: "good",
+ *   kidAges: [5, 8],
+ *   activities: [{ title: "Exploratorium", description: "Hands-on science", cost: "$30" }],
+ *   confidence: 0.92
+ * };
+ */
+export interface WeekendPlan {
+  /** Title of the summary, e.g. "Weekend Plan for Your Family" */
+  title?: string;
+
+  /** Area from the header, as written */
+  area?: string;
+
+  /** Five-digit zip code found in the area or title */
+  zipCode?: string;
+
+  /** Weather from the header or forecast section, as written */
+  weather?: string;
+
+  /** The weather classified into the planner's verdicts */
+  weatherVerdict?: WeatherVerdict;
+
+  /** Kids ages from the header; empty if not stated */
+  kidAges: number[];
+
+  /** Recommended activities in summary order */
+  activities: PlanActivity[];
+
+  /** The AI research disclaimer */
+  disclaimer?: string;
+
+  /** Prose that is not part of the header, an activity or the disclaimer, as Markdown */
+  remainingContent?: string;
+
+  /**
+   * How well the summary matched the expected structure, from 0 to 1.
+   * Based on the activities found, their details, the header fields,
+   * the disclaimer and how much text was left over.
+   */
+  confidence: number;
+}
+
+/** Day of an itinerary */
+export type ItineraryDay = 'saturday' | 'sunday';
+
+/** Part of a day an activity can be scheduled in */
+export type DayPart = 'morning' | 'afternoon' | 'evening';
+
+/**
+ * One of the six itinerary slots.
+ * @example "saturday-morning"
+ */
+export type ItinerarySlotId = `${ItineraryDay}-${DayPart}`;
+
+/**
+ * Activities arranged into weekend slots.
+ * Each slot lists indices into the plan's activities, in display order.
+ * Every activity appears in exactly one slot.
+ */
+export type Itinerary = Record<ItinerarySlotId, number[]>;
+
+/**
+ * A follow-up message sent to refine the current plan.
+ * Each successful refinement produces a new plan version.
+ */
+export interface PlanRefinementTurn {
+  /** The refinement request as typed by the user */
+  message: string;
+
+  /**
+   * Zero-based index of the plan version this turn produced.
+   * Undefined while the turn is in flight or if it failed.
+   */
+  version?: number;
+
+  /** User-friendly error message if the turn failed */
+  error?: string;
+}
+
+/**
+ * A plan kept in the local plan history (IndexedDB), so earlier plans
+ * survive Reset and new runs. Refinements of a plan update its entry.
+ */
+export interface SavedPlan {
+  /** Entry ID - the plan's session ID, or a generated ID for plans without one */
+  id: string;
+
+  /** When the plan was generated or last refined, in milliseconds since the epoch */
+  savedAt: number;
+
+  /** The form input the plan was requested with */
+  input: GeneratePlanInput;
+
+  /** The plan's summary text */
+  planText: string;
+
+  /** Raw ADK events of the run that produced the plan */
+  rawResponse?: ADKResponse;
+
+  /** ADK session the plan was generated in */
+  sessionId?: string;
+
+  /** Structured values the agents wrote to session state */
+  sessionState?: PlanSessionState;
+
+  /** How the user arranged planText's activities in the itinerary view, if they moved any */
+  itinerary?: Itinerary;
+
+  /** Pinned plans are listed first and never removed by the storage cap */
+  pinned: boolean;
+
+  /** Approximate size of the entry in bytes, used for the storage cap */
+  size: number;
+}
+
+/**
+ * File formats a plan can be exported to.
+ * Only 'json' can be imported back.
+ */
+export type ExportFormat = 'markdown' | 'text' | 'json' | 'html';
+
+/**
+ * JSON export of a plan (schema "weekend-planner/plan", version 1).
+ * This is the format written by the JSON export and read by the import;
+ * the other formats are rendered from the same data.
+ *
+ * Compatibility: fields may be added within a version, so readers must
+ * ignore unknown fields. A new version is only introduced for changes
+ * that older readers would misread.
+ *
+ * @example
+ * {
+ *   "schema": "weekend-planner/plan",
+ *   "version": 1,
+ *   "exportedAt": "2026-10-19T15:30:00.000Z",
+ *   "input": { "location": "94105", "kidsAges": [5, 8] },
+ *   "plan": { "title": "Weekend Plan", "kidAges": [5, 8], "activities": [...] },
+ *   "planText": "# Weekend Plan\n..."
+ * }
+ */
+export interface PlanExport {
+  /** Identifies the file as a Weekend Planner plan export */
+  schema: 'weekend-planner/plan';
+
+  /** Schema version the file was written with */
+  version: number;
+
+  /** When the file was exported, as an ISO 8601 timestamp */
+  exportedAt: string;
+
+  /** The form input the plan was requested with, if known */
+  input?: GeneratePlanInput;
+
+  /** ADK session the plan was generated in, if any */
+  sessionId?: string;
+
+  /** The plan as parsed from the summary; confidence is not exported */
+  plan: Omit<WeekendPlan, 'confidence'>;
+
+  /** The summary text exactly as the agents wrote it; the source of truth on import */
+  planText: string;
+
+  /** Raw ADK events of the run, only when the export included them */
+  rawResponse?: ADKResponse;
+
+  /** How the user arranged the activities in the itinerary view, if they moved any */
+  itinerary?: Itinerary;
+}
+
+/**
+ * A plan carried in a share link's URL fragment.
+ * Only the input and summary text are shared; the rest of the plan is
+ * parsed from the text when the link is opened.
+ */
+export interface SharedPlan {
+  /** The form input the plan was requested with, if known */
+  input?: GeneratePlanInput;
+
+  /** The summary text exactly as the agents wrote it */
+  planText: string;
+}
+
+/**
+ * A thumbs up ('like') or thumbs down ('dislike') on a suggested activity.
+ */
+export type ActivityRating = 'like' | 'dislike';
+
+/**
+ * One rated activity in a feedback profile.
+ */
+export interface ActivityFeedback {
+  /** The activity's title as plain text */
+  title: string;
+
+  /** Whether the family liked or disliked the activity */
+  rating: ActivityRating;
+
+  /** When the rating was last given, in milliseconds since the Unix epoch */
+  ratedAt: number;
+}
+
+/**
+ * What one household liked and disliked in plans for one zip code.
+ * Kept in localStorage and summarized into the prompt of later plans.
+ * The household is identified by its kids' ages, so household profiles
+ * with the same zip code and ages share their ratings.
+ */
+export interface FeedbackProfile {
+  /** Key from getFeedbackProfileId(): zip code and sorted kids ages */
+  id: string;
+
+  /** Zip code the feedback was given for */
+  location: string;
+
+  /** Kids ages of the household, sorted ascending */
+  kidsAges: number[];
+
+  /** Rated activities, most recently rated first */
+  feedback: ActivityFeedback[];
+}
+
+/**
+ * A named household saved in this browser, e.g. "Just us" or "With cousins".
+ * Choosing it in InputForm fills in its zip code, children and preferences.
+ */
+export interface HouseholdProfile {
+  /** Unique ID, generated when the profile is created */
+  id: string;
+
+  /** Name shown in the household switcher, unique regardless of case */
+  name: string;
+
+  /** Zip code */
+  location: string;
+
+  /** Children, as entered in the form */
+  children: Child[];
+
+  /** Default planning preferences, if any were chosen */
+  preferences?: PlanningPreferences;
+
+  /** When the profile was last saved, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * JSON file written by the household profile export and read by its import.
+ */
+export interface HouseholdsExport {
+  /** Identifies the file as a Weekend Planner household export */
+  schema: 'weekend-planner/households';
+
+  /** Schema version the file was written with */
+  version: number;
+
+  /** When the file was exported, as an ISO 8601 timestamp */
+  exportedAt: string;
+
+  /** The exported profiles */
+  profiles: HouseholdProfile[];
+}
+
 /**
  * Application state type for the main App component.
  * Represents the different UI states during plan generation.